@@ -0,0 +1,75 @@
+import { CollisionManager, CollisionEventType, CollisionEventData } from '../../core/collision-manager';
+import { IVehicle, IProjectile } from '../../core/entity-interfaces';
+import { Terrain } from '../../systems/terrain';
+import { TerrainLiquid } from '../../systems/terrain/terrain-liquid';
+import { ILiquidLayer, LiquidType } from '../../systems/terrain/terrain-data';
+
+describe('CollisionManager - camada de líquido', () => {
+  const bounds = { left: 0, right: 800, top: -1000, bottom: 600 };
+
+  /**
+   * Cria um terreno simulado plano em y=500 com a camada de líquido informada
+   */
+  const createTerrain = (layer: ILiquidLayer): Terrain => {
+    const liquid = new TerrainLiquid(layer);
+
+    return {
+      getHeightAt: jest.fn().mockReturnValue(500),
+      getLiquid: jest.fn().mockReturnValue(liquid),
+      isInLiquid: jest.fn((x: number, y: number) => liquid.isSubmerged(y))
+    } as unknown as Terrain;
+  };
+
+  test('projétil deve respingar no líquido sem atingir o terreno', () => {
+    const manager = new CollisionManager(createTerrain({ type: LiquidType.WATER, level: 450 }), bounds);
+    const splash = jest.fn();
+    const terrainHit = jest.fn();
+    manager.on(CollisionEventType.PROJECTILE_LIQUID, splash);
+    manager.on(CollisionEventType.PROJECTILE_TERRAIN, terrainHit);
+
+    const projectile = {
+      position: { x: 300, y: 455 },
+      velocity: { x: 2, y: 5 },
+      ownerIndex: 1
+    } as unknown as IProjectile;
+
+    manager.checkProjectileCollisions([projectile], []);
+
+    expect(splash).toHaveBeenCalledWith(expect.objectContaining({
+      point: { x: 300, y: 450 },
+      liquid: LiquidType.WATER
+    }));
+    expect(terrainHit).not.toHaveBeenCalled();
+  });
+});
+
+describe('CollisionManager - colisão contínua', () => {
+  const bounds = { left: 0, right: 800, top: -1000, bottom: 600 };
+  const terrain = {
+    getHeightAt: jest.fn().mockReturnValue(500),
+    getLiquid: jest.fn().mockReturnValue(null),
+    isInLiquid: jest.fn().mockReturnValue(false)
+  } as unknown as Terrain;
+
+  test('projétil rápido deve atingir o veículo que atravessaria entre dois passos', () => {
+    const manager = new CollisionManager(terrain, bounds);
+    const vehicleHit = jest.fn();
+    manager.on(CollisionEventType.PROJECTILE_VEHICLE, vehicleHit);
+
+    const vehicle = { position: { x: 400, y: 300 }, playerIndex: 0 } as unknown as IVehicle;
+    const projectile = {
+      previousPosition: { x: 300, y: 300 },
+      position: { x: 500, y: 300 },
+      velocity: { x: 200, y: 0 },
+      ownerIndex: 1
+    } as unknown as IProjectile;
+
+    manager.checkProjectileCollisions([projectile], [vehicle]);
+
+    expect(vehicleHit).toHaveBeenCalledTimes(1);
+    const data: CollisionEventData = vehicleHit.mock.calls[0][0];
+    expect(data.entities[1]).toBe(vehicle);
+    expect(data.point!.x).toBeCloseTo(375);
+    expect(data.time).toBeCloseTo(0.375);
+  });
+});
@@ -1,6 +1,9 @@
 import { GameEventCoordinator, IGameEventCoordinator } from '../../../core/events/game-event-coordinator';
 import { GameSystems } from '../../../core/interfaces/game-systems';
 import { EventEmitter } from '../../../utils/event-emitter';
+import { EventEmitter as SystemEmitter } from 'eventemitter3';
+import { ProjectileEventType } from '../../../systems/projectile-manager';
+import { VehicleEventType, VehicleDestructionCause } from '../../../entities/vehicle-manager';
 
 // Usamos type assertion para contornar os problemas de tipagem nos mocks
 // Isso é aceitável para testes unitários onde estamos apenas testando a funcionalidade 
@@ -43,8 +46,8 @@ const createMockSystems = (): GameSystems => {
       dispose: jest.fn()
     } as any,
     gameStateManager: {} as any,
-    vehicleManager: {} as any,
-    projectileManager: {} as any,
+    vehicleManager: { on: jest.fn(), off: jest.fn() } as any,
+    projectileManager: { on: jest.fn(), off: jest.fn(), setTargets: jest.fn() } as any,
     turnSystem: {} as any,
     aimingSystem: {} as any,
     physics: {} as any,
@@ -169,4 +172,46 @@ describe('GameEventCoordinator', () => {
     
     expect(mockCallback).toHaveBeenCalledWith(testData);
   });
-}); 
\ No newline at end of file
+  
+  test('a partida deve terminar empatada quando um mesmo impacto destrói os últimos veículos de todos os jogadores', () => {
+    // Gerenciadores que emitem eventos de verdade: o impacto destrói cada veículo atingido
+    const vehicles = [
+      { id: 1, type: 'dragon', playerId: 0, position: { x: 390, y: 500 }, health: 10, maxHealth: 100 },
+      { id: 2, type: 'robot', playerId: 1, position: { x: 410, y: 500 }, health: 10, maxHealth: 100 }
+    ];
+    const vehicleManager = Object.assign(new SystemEmitter(), {
+      getAllVehicles: () => vehicles,
+      applyBlast: jest.fn(),
+      damageVehicle: (id: number, amount: number) => {
+        const vehicle = vehicles.find(v => v.id === id)!;
+        vehicle.health = Math.max(0, vehicle.health - amount);
+        if (vehicle.health === 0) {
+          vehicleManager.emit(VehicleEventType.VEHICLE_DESTROYED, vehicle, VehicleDestructionCause.DAMAGE);
+        }
+      }
+    });
+    const projectileManager = Object.assign(new SystemEmitter(), { setTargets: jest.fn() });
+    const gameStateManager = { isPlaying: jest.fn().mockReturnValue(true), endGame: jest.fn() };
+    
+    gameEventCoordinator.initialize({
+      ...mockSystems,
+      vehicleManager: vehicleManager as unknown as GameSystems['vehicleManager'],
+      projectileManager: projectileManager as unknown as GameSystems['projectileManager'],
+      gameStateManager: gameStateManager as unknown as GameSystems['gameStateManager']
+    });
+    gameEventCoordinator.setupEvents();
+    
+    projectileManager.emit(ProjectileEventType.PROJECTILE_IMPACT, {
+      x: 400,
+      y: 500,
+      time: 0,
+      type: 'terrain',
+      profile: { baseDamage: 100, splashRadius: 50 }
+    });
+    
+    // A partida é decidida uma única vez, depois que o impacto atingiu os dois veículos
+    expect(vehicles.every(v => v.health === 0)).toBe(true);
+    expect(gameStateManager.endGame).toHaveBeenCalledTimes(1);
+    expect(gameStateManager.endGame).toHaveBeenCalledWith(-1);
+  });
+});
@@ -0,0 +1,54 @@
+import { Game } from '../../core/game';
+import { parseMatchOptions, DEFAULT_ITEM_LOADOUT } from '../../core/match-options';
+import { PhysicsRules } from '../../systems/physics/physics-rules';
+import { ItemType } from '../../entities/items';
+import { GameScene } from '../../scenes';
+import { TerrainTheme } from '../../systems/terrain/terrain-themes';
+
+// Mock do PIXI: o jogo só precisa de uma aplicação com canvas, ticker e palco
+jest.mock('pixi.js', () => ({
+  Application: jest.fn().mockImplementation(() => ({
+    view: document.createElement('canvas'),
+    ticker: { add: jest.fn(), remove: jest.fn() },
+    renderer: { resize: jest.fn() },
+    stage: { scale: { set: jest.fn() } }
+  }))
+}));
+
+// A cena real depende de todo o jogo; aqui só importa com quais opções ela é criada
+jest.mock('../../scenes', () => ({
+  GameScene: jest.fn()
+}));
+
+describe('Game', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="game-container"></div>';
+    (GameScene as unknown as jest.Mock).mockClear();
+  });
+
+  test('deve criar a cena com o tema escolhido na criação da partida', () => {
+    const game = new Game(parseMatchOptions('?theme=el_nath'));
+    game.init();
+
+    expect(GameScene).toHaveBeenCalledWith(game.getApp(), TerrainTheme.EL_NATH, expect.any(PhysicsRules), expect.anything());
+  });
+
+  test('deve usar o tema padrão quando o endereço não informa um tema válido', () => {
+    expect(parseMatchOptions('?theme=desconhecido').theme).toBe(TerrainTheme.HENESYS);
+
+    new Game().init();
+
+    expect(GameScene).toHaveBeenCalledWith(expect.anything(), TerrainTheme.HENESYS, expect.any(PhysicsRules), expect.anything());
+  });
+
+  test('deve criar a cena com os itens que cada jogador leva para a partida', () => {
+    new Game(parseMatchOptions('?items=heal,dual_shot')).init();
+
+    const items = [ItemType.HEAL, ItemType.DUAL_SHOT];
+    expect(GameScene).toHaveBeenCalledWith(expect.anything(), TerrainTheme.HENESYS, expect.any(PhysicsRules), [items, items]);
+
+    // Itens desconhecidos ou que não cabem na bolsa mantêm a escolha padrão
+    expect(parseMatchOptions('?items=heal,laser').itemLoadouts[0]).toEqual(DEFAULT_ITEM_LOADOUT);
+    expect(parseMatchOptions('?items=teleport,teleport,teleport,heal').itemLoadouts[0]).toEqual(DEFAULT_ITEM_LOADOUT);
+  });
+});
@@ -1,15 +1,27 @@
+import * as PIXI from 'pixi.js';
 import { GameLogicController, IGameLogicController, PlayerAction, LogicEventType } from '../../../core/logic/game-logic-controller';
 import { GameStateManager, GameState } from '../../../core/game-state-manager';
 import { VehicleManager } from '../../../entities/vehicle-manager';
 import { ProjectileManager } from '../../../systems/projectile-manager';
 import { TurnSystem } from '../../../systems/turn-system';
 import { AimingSystem } from '../../../systems/aiming-system';
-import { Physics } from '../../../systems/physics';
+import { PhysicsSystem } from '../../../systems/physics-adapter';
+import { WindSystem } from '../../../systems/wind-system';
 import { Terrain } from '../../../systems/terrain';
+import { SpawnPlacementError } from '../../../systems/terrain/terrain-spawn-planner';
 import { IGameEventCoordinator } from '../../../core/events/game-event-coordinator';
 import { GameSystems } from '../../../core/interfaces/game-systems';
 import { CONFIG } from '../../../core/config';
 import { EventEmitter } from '../../../utils/event-emitter';
+import { WeaponSlot } from '../../../systems/weapon-slot-system';
+import { ItemType } from '../../../entities/items';
+import { InputEventType } from '../../../systems/input-controller';
+import { BaseVehicle, VehicleType } from '../../../entities/vehicle';
+import { DevastatorVehicle } from '../../../entities/vehicles/devastator';
+import { InterceptorVehicle } from '../../../entities/vehicles/interceptor';
+import { WeaponType } from '../../../entities/vehicles/types';
+import { Projectile } from '../../../entities/projectile';
+import { WeaponRegistry } from '../../../entities/weapon-registry';
 
 // Mock simples da configuração
 jest.mock('../../../core/config', () => ({
@@ -21,14 +33,64 @@ jest.mock('../../../core/config', () => ({
   }
 }));
 
+// Mock do PIXI: os veículos e projéteis reais só precisam de gráficos que aceitem as chamadas de desenho
+jest.mock('pixi.js', () => {
+  class MockDisplayObject {
+    x = 0;
+    y = 0;
+    position = { set: jest.fn() };
+    addChild = jest.fn();
+    removeChild = jest.fn();
+    removeChildren = jest.fn();
+    clear = jest.fn();
+    beginFill = jest.fn();
+    drawRect = jest.fn();
+    drawCircle = jest.fn();
+    lineStyle = jest.fn();
+    moveTo = jest.fn();
+    lineTo = jest.fn();
+    endFill = jest.fn();
+    destroy = jest.fn();
+  }
+
+  return { Container: MockDisplayObject, Sprite: MockDisplayObject, Graphics: MockDisplayObject };
+});
+
+// Mock de um projétil disparado por um veículo
+const createMockProjectile = (id: string, type: string) => {
+  let owner = {};
+  let profile = { baseDamage: 20 };
+  
+  return {
+    id,
+    type,
+    setOwner: jest.fn((sourceId: number, playerId: number) => { owner = { sourceId, playerId }; }),
+    getOwner: jest.fn(() => owner),
+    getWeaponType: jest.fn(() => type),
+    getPosition: jest.fn(() => ({ x: 100, y: 180 })),
+    getDamageProfile: jest.fn(() => profile),
+    setDamageProfile: jest.fn((newProfile: { baseDamage: number }) => { profile = newProfile; })
+  };
+};
+
 // Mock de um veículo
 const createMockVehicle = (id: number, playerIndex: number) => ({
   id,
   playerIndex,
+  playerId: playerIndex,
   position: { x: 100, y: 200 },
   moveLeft: jest.fn(),
   moveRight: jest.fn(),
-  firePrimaryWeapon: jest.fn().mockReturnValue({ id: 'proj1', type: 'standard' }),
+  primaryWeapon: 'cannon',
+  secondaryWeapon: 'bomb',
+  specialWeapon: 'frag_bomb',
+  specialAbilityCharge: 0,
+  maxSpecialAbilityCharge: 100,
+  firePrimaryWeapon: jest.fn(() => createMockProjectile('proj1', 'standard')),
+  fireSecondaryWeapon: jest.fn(() => createMockProjectile('proj2', 'fragmentation')),
+  fireSpecialWeapon: jest.fn(() => createMockProjectile('proj3', 'fragmentation')),
+  useSpecialAbility: jest.fn(),
+  chargeSpecialAbility: jest.fn(),
   damage: jest.fn(),
   destroy: jest.fn(),
   update: jest.fn()
@@ -43,7 +105,8 @@ describe('GameLogicController', () => {
   let mockProjectileManager: jest.Mocked<ProjectileManager>;
   let mockTurnSystem: jest.Mocked<TurnSystem>;
   let mockAimingSystem: jest.Mocked<AimingSystem>;
-  let mockPhysics: jest.Mocked<Physics>;
+  let mockPhysics: jest.Mocked<PhysicsSystem>;
+  let windSystem: WindSystem;
   let mockTerrain: jest.Mocked<Terrain>;
   let mockEventCoordinator: jest.Mocked<IGameEventCoordinator>;
   let mockSystems: GameSystems;
@@ -68,12 +131,15 @@ describe('GameLogicController', () => {
     
     mockProjectileManager = {
       addProjectile: jest.fn(),
+      createProjectile: jest.fn().mockImplementation((data) => createMockProjectile('extra', data.type)),
       clearAll: jest.fn()
     } as unknown as jest.Mocked<ProjectileManager>;
     
     mockTurnSystem = {
       startNewTurn: jest.fn(),
       forceEndTurn: jest.fn(),
+      on: jest.fn(),
+      off: jest.fn(),
       getIsPlayerTurn: jest.fn().mockReturnValue(true),
       getCurrentPlayerIndex: jest.fn().mockReturnValue(0)
     } as unknown as jest.Mocked<TurnSystem>;
@@ -87,14 +153,23 @@ describe('GameLogicController', () => {
       getPower: jest.fn().mockReturnValue(50)
     } as unknown as jest.Mocked<AimingSystem>;
     
-    mockPhysics = {} as unknown as jest.Mocked<Physics>;
+    // Vento inicial: força 5 para a direita; sorteios sempre em 0.75
+    windSystem = new WindSystem({}, () => 0.75);
+    windSystem.setWind(0, 5);
+    
+    mockPhysics = {
+      getWindSystem: jest.fn().mockReturnValue(windSystem),
+      getWind: jest.fn().mockImplementation(() => windSystem.getWind().x)
+    } as unknown as jest.Mocked<PhysicsSystem>;
     
     mockTerrain = {
       findSuitablePositions: jest.fn().mockReturnValue([
         { x: 100, y: 300 },
         { x: 500, y: 300 }
       ]),
-      generate: jest.fn()
+      generate: jest.fn(),
+      getWidth: jest.fn().mockReturnValue(800),
+      getHeightAt: jest.fn().mockReturnValue(450)
     } as unknown as jest.Mocked<Terrain>;
     
     mockEventCoordinator = {
@@ -118,9 +193,9 @@ describe('GameLogicController', () => {
     // Sistemas mock para inicialização
     mockSystems = {
       renderer: {} as any,
-      inputHandler: {} as any,
+      inputHandler: { on: jest.fn(), off: jest.fn() } as any,
       audioController: {} as any,
-      uiCoordinator: {} as any,
+      uiCoordinator: { updateWindIndicator: jest.fn(), updateWeaponSlots: jest.fn() } as any,
       gameStateManager: mockGameStateManager,
       vehicleManager: mockVehicleManager,
       projectileManager: mockProjectileManager,
@@ -166,7 +241,7 @@ describe('GameLogicController', () => {
     gameLogicController.createInitialVehicles();
     
     // Verifica se encontrou posições adequadas
-    expect(mockTerrain.findSuitablePositions).toHaveBeenCalledWith(2, 300);
+    expect(mockTerrain.findSuitablePositions).toHaveBeenCalledWith(2, 300, { teamCount: 2 });
     
     // Verifica se criou veículos nas posições corretas
     expect(mockVehicleManager.createVehicle).toHaveBeenCalledTimes(2);
@@ -186,6 +261,20 @@ describe('GameLogicController', () => {
     );
   });
   
+  test('restartGame deve distribuir os jogadores pelo mapa quando o planejador não consegue posicioná-los', () => {
+    mockTerrain.findSuitablePositions.mockImplementation(() => {
+      throw new SpawnPlacementError('mapa sem terreno plano', 2, 0);
+    });
+    
+    expect(() => gameLogicController.restartGame()).not.toThrow();
+    
+    // Um jogador no centro de cada metade do mapa, sobre a superfície
+    expect(mockVehicleManager.createVehicle).toHaveBeenCalledTimes(2);
+    expect(mockVehicleManager.createVehicle).toHaveBeenNthCalledWith(1, expect.anything(), 200, 430, 0);
+    expect(mockVehicleManager.createVehicle).toHaveBeenNthCalledWith(2, expect.anything(), 600, 430, 1);
+    expect(mockGameStateManager.restartGame).toHaveBeenCalled();
+  });
+  
   test('handlePlayerAction deve processar ações válidas (MOVE_LEFT)', () => {
     const mockVehicle = createMockVehicle(1, 0);
     mockVehicleManager.getVehicleByIndex = jest.fn().mockReturnValue(mockVehicle);
@@ -269,21 +358,17 @@ describe('GameLogicController', () => {
     );
   });
   
-  test('generateWind deve gerar um valor de vento e atualizar o sistema de mira', () => {
-    // Substituir Math.random por um valor fixo para o teste
-    const mockRandom = jest.spyOn(Math, 'random').mockReturnValue(0.5);
-    
+  test('generateWind deve variar o vento do turno e atualizar o sistema de mira', () => {
     (gameLogicController as any).generateWind();
     
-    // Calcular o valor esperado do vento (WIND_MIN + 0.5 * (WIND_MAX - WIND_MIN))
-    const expectedWind = -10 + 0.5 * (10 - (-10)) === 0 ? 0 : -10 + 0.5 * (10 - (-10));
-    
-    // Verificar que o vento foi atualizado corretamente
-    expect((gameLogicController as any).wind).toBe(expectedWind);
-    expect(mockAimingSystem.setWind).toHaveBeenCalledWith(expectedWind);
+    // Passeio aleatório: +30° na direção e +1.5 na força
+    const wind = windSystem.getWind();
+    expect(wind.direction).toBeCloseTo(30);
+    expect(wind.force).toBeCloseTo(6.5);
     
-    // Restaurar Math.random
-    mockRandom.mockRestore();
+    // O vento novo chega à mira e ao controlador
+    expect(mockAimingSystem.setWind).toHaveBeenLastCalledWith(wind.x);
+    expect(gameLogicController.getWind()).toBeCloseTo(6.5 * Math.cos(Math.PI / 6));
   });
   
   test('fire deve criar um projétil e finalizar o turno', () => {
@@ -298,8 +383,10 @@ describe('GameLogicController', () => {
     // Verificar que o veículo disparou
     expect(mockVehicle.firePrimaryWeapon).toHaveBeenCalled();
     
-    // Verificar que o projétil foi adicionado ao gerenciador
+    // Verificar que o projétil foi adicionado ao gerenciador com quem disparou
     expect(mockProjectileManager.addProjectile).toHaveBeenCalled();
+    const projectile = mockProjectileManager.addProjectile.mock.calls[0][0] as unknown as { setOwner: jest.Mock };
+    expect(projectile.setOwner).toHaveBeenCalledWith(1, 0);
     
     // Verificar que um evento foi emitido
     expect(mockEventCoordinator.emit).toHaveBeenCalledWith('projectile_fired', expect.anything());
@@ -308,6 +395,140 @@ describe('GameLogicController', () => {
     expect(endTurnSpy).toHaveBeenCalled();
   });
   
+  test('fire deve disparar a arma do espaço escolhido e exigir a carga cheia no especial', () => {
+    const mockVehicle = createMockVehicle(1, 0);
+    mockVehicleManager.getVehicleByIndex = jest.fn().mockReturnValue(mockVehicle);
+    const emitSpy = jest.spyOn(EventEmitter.prototype, 'emit');
+    
+    // Sem carga o especial não pode ser escolhido
+    expect(gameLogicController.selectWeaponSlot(WeaponSlot.SPECIAL)).toBe(false);
+    
+    gameLogicController.handlePlayerAction(PlayerAction.SELECT_SECONDARY_WEAPON);
+    expect(gameLogicController.getSelectedWeaponSlot()).toBe(WeaponSlot.SECONDARY);
+    expect(emitSpy).toHaveBeenCalledWith(LogicEventType.WEAPON_SELECTED, expect.objectContaining({
+      slot: WeaponSlot.SECONDARY,
+      weapon: 'bomb'
+    }));
+    expect(mockSystems.uiCoordinator.updateWeaponSlots).toHaveBeenCalled();
+    
+    gameLogicController.fire();
+    expect(mockVehicle.fireSecondaryWeapon).toHaveBeenCalled();
+    expect(mockVehicle.firePrimaryWeapon).not.toHaveBeenCalled();
+    expect(mockVehicle.chargeSpecialAbility).toHaveBeenCalled();
+    
+    // Com a carga cheia o especial dispara e gasta a carga
+    mockVehicle.specialAbilityCharge = 100;
+    expect(gameLogicController.selectWeaponSlot(WeaponSlot.SPECIAL)).toBe(true);
+    gameLogicController.fire();
+    expect(mockVehicle.fireSpecialWeapon).toHaveBeenCalled();
+    expect(mockVehicle.useSpecialAbility).toHaveBeenCalled();
+    
+    // Após o disparo a escolha volta para o Tiro 1
+    expect(gameLogicController.getSelectedWeaponSlot()).toBe(WeaponSlot.PRIMARY);
+  });
+  
+  test('as teclas de escolha de arma devem chegar ao controlador como ações do jogador', () => {
+    const mockVehicle = createMockVehicle(1, 0);
+    mockVehicleManager.getVehicleByIndex = jest.fn().mockReturnValue(mockVehicle);
+    const onKeyDown = (mockSystems.inputHandler.on as jest.Mock).mock.calls
+      .find(([eventType]) => eventType === InputEventType.KEY_DOWN)[1];
+    
+    onKeyDown({ key: '2' });
+    expect(gameLogicController.getSelectedWeaponSlot()).toBe(WeaponSlot.SECONDARY);
+    
+    // O especial só é escolhido com a carga cheia
+    onKeyDown({ key: '3' });
+    expect(gameLogicController.getSelectedWeaponSlot()).toBe(WeaponSlot.SECONDARY);
+    mockVehicle.specialAbilityCharge = 100;
+    onKeyDown({ key: '3' });
+    expect(gameLogicController.getSelectedWeaponSlot()).toBe(WeaponSlot.SPECIAL);
+    
+    onKeyDown({ key: '1' });
+    expect(gameLogicController.getSelectedWeaponSlot()).toBe(WeaponSlot.PRIMARY);
+  });
+  
+  test('as teclas de item devem usar os itens da bolsa, um por turno', () => {
+    const mockVehicle = createMockVehicle(1, 0);
+    mockVehicleManager.getVehicleByIndex = jest.fn().mockReturnValue(mockVehicle);
+    mockVehicleManager.teleportVehicle = jest.fn().mockReturnValue(true);
+    mockProjectileManager.calculateTrajectory = jest.fn().mockReturnValue([{ x: 100, y: 200 }, { x: 340, y: 450 }]);
+    const onKeyDown = (mockSystems.inputHandler.on as jest.Mock).mock.calls
+      .find(([eventType]) => eventType === InputEventType.KEY_DOWN)[1];
+    
+    // Os itens escolhidos antes da partida ficam na bolsa ao iniciar o jogo
+    expect(gameLogicController.setItemLoadout(0, [ItemType.POWER_UP, ItemType.TELEPORT])).toBe(true);
+    gameLogicController.startGame();
+    
+    onKeyDown({ key: '5' });
+    expect(gameLogicController.getItemSystem().getShotModifier(mockVehicle as unknown as BaseVehicle).damageMultiplier).toBe(1.5);
+    
+    // Apenas um item por turno
+    onKeyDown({ key: '7' });
+    expect(mockVehicleManager.teleportVehicle).not.toHaveBeenCalled();
+    
+    // O teletransporte leva ao ponto onde o disparo mirado cairia
+    gameLogicController.getItemSystem().startTurn();
+    onKeyDown({ key: '7' });
+    expect(mockVehicleManager.teleportVehicle).toHaveBeenCalledWith(1, 340);
+    expect(gameLogicController.getItemSystem().getBag(0).getItems()).toEqual([]);
+  });
+  
+  test('o tiro duplo deve disparar a arma uma vez e abrir o segundo tiro a partir da mira', () => {
+    const mockVehicle = createMockVehicle(1, 0);
+    mockVehicleManager.getVehicleByIndex = jest.fn().mockReturnValue(mockVehicle);
+    
+    expect(gameLogicController.setItemLoadout(0, [ItemType.DUAL_SHOT])).toBe(true);
+    expect(gameLogicController.useItem(ItemType.DUAL_SHOT)).toBe(true);
+    
+    gameLogicController.fire();
+    
+    // A arma e a carga do especial são usadas uma única vez no turno
+    expect(mockVehicle.firePrimaryWeapon).toHaveBeenCalledTimes(1);
+    expect(mockVehicle.chargeSpecialAbility).toHaveBeenCalledTimes(1);
+    expect(mockProjectileManager.addProjectile).toHaveBeenCalledTimes(1);
+    
+    // O segundo tiro sai do mesmo ponto, com o mesmo dono, alguns graus acima da mira
+    expect(mockProjectileManager.createProjectile).toHaveBeenCalledTimes(1);
+    const extraShot = mockProjectileManager.createProjectile.mock.calls[0][0];
+    expect(extraShot).toEqual(expect.objectContaining({
+      type: 'standard',
+      x: 100,
+      y: 180,
+      power: 50,
+      sourceId: 1,
+      playerId: 0
+    }));
+    expect(extraShot.angle).toBeGreaterThan(45);
+    expect(mockEventCoordinator.emit).toHaveBeenCalledTimes(2);
+  });
+  
+  test('o aumento de dano deve valer para o projétil de cada veículo', () => {
+    const registry = WeaponRegistry.getInstance();
+    const liveVehicle = new BaseVehicle(1, 'Tanque', VehicleType.DEFAULT, 100, 200, 30, 30, 100, 0);
+    liveVehicle.setProjectileContainer(new PIXI.Container());
+    const vehicles = [
+      liveVehicle,
+      new DevastatorVehicle(1, 100, 200, 0),
+      new InterceptorVehicle(1, 100, 200, 0)
+    ];
+    
+    for (const vehicle of vehicles) {
+      mockVehicleManager.getVehicleByIndex = jest.fn().mockReturnValue(vehicle);
+      mockProjectileManager.addProjectile.mockClear();
+      gameLogicController.getItemSystem().startTurn();
+      
+      expect(gameLogicController.setItemLoadout(0, [ItemType.POWER_UP])).toBe(true);
+      expect(gameLogicController.useItem(ItemType.POWER_UP)).toBe(true);
+      gameLogicController.fire();
+      
+      const projectile = mockProjectileManager.addProjectile.mock.calls[0][0];
+      expect(projectile).toBeInstanceOf(Projectile);
+      expect(projectile.getOwner()).toEqual({ sourceId: 1, playerId: 0 });
+      expect(projectile.getDamageProfile().baseDamage)
+        .toBeCloseTo(registry.get(vehicle.primaryWeapon as WeaponType).damage * 1.5);
+    }
+  });
+  
   test('fire não deve fazer nada se o jogo não estiver em andamento', () => {
     // Configurar isPlaying para retornar false
     mockGameStateManager.isPlaying = jest.fn().mockReturnValue(false);
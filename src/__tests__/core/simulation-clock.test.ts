@@ -0,0 +1,79 @@
+import * as PIXI from 'pixi.js';
+import { SimulationClock } from '../../core/simulation-clock';
+import { Projectile } from '../../entities/projectile';
+import { PhysicsSystem } from '../../systems/physics-adapter';
+
+// Mock do PIXI: o projétil só precisa de gráficos que aceitem as chamadas de desenho
+jest.mock('pixi.js', () => {
+  class MockGraphics {
+    clear = jest.fn();
+    beginFill = jest.fn();
+    drawCircle = jest.fn();
+    endFill = jest.fn();
+    lineStyle = jest.fn();
+    moveTo = jest.fn();
+    lineTo = jest.fn();
+    destroy = jest.fn();
+  }
+
+  return { Graphics: MockGraphics };
+});
+
+describe('SimulationClock', () => {
+  /**
+   * Dispara um projétil e avança a simulação com quadros de duração fixa
+   * @returns Posições do projétil em cada passo da simulação
+   */
+  const simulateShot = (frameDelta: number, totalTime: number): Array<{ x: number, y: number }> => {
+    const container = { addChild: jest.fn(), width: 800, height: 600 };
+    const physics = { getEnvironment: () => ({ gravity: 0.5, wind: 4 }) } as unknown as PhysicsSystem;
+    const projectile = new Projectile(container as unknown as PIXI.Container, 100, 500, 60, 100, physics);
+    const clock = new SimulationClock({ stepSize: 1, maxStepsPerFrame: 10 });
+    const path: Array<{ x: number, y: number }> = [];
+
+    projectile.fire();
+
+    for (let time = 0; time < totalTime; time += frameDelta) {
+      clock.advance(frameDelta, step => {
+        projectile.update(step);
+        const { x, y } = projectile.getPosition();
+        path.push({ x, y });
+      });
+    }
+
+    return path;
+  };
+
+  test('deve executar passos fixos e acumular o tempo que sobra', () => {
+    const clock = new SimulationClock({ stepSize: 1 });
+    const step = jest.fn();
+
+    const alpha = clock.advance(2.5, step);
+
+    expect(step).toHaveBeenCalledTimes(2);
+    expect(step).toHaveBeenLastCalledWith(1, 1);
+    expect(alpha).toBeCloseTo(0.5);
+
+    clock.advance(0.5, step);
+    expect(clock.getStepCount()).toBe(3);
+    expect(clock.getAlpha()).toBeCloseTo(0);
+  });
+
+  test('deve limitar os passos de um quadro muito lento', () => {
+    const clock = new SimulationClock({ stepSize: 1, maxStepsPerFrame: 4 });
+    const step = jest.fn();
+
+    const alpha = clock.advance(100.25, step);
+
+    expect(step).toHaveBeenCalledTimes(4);
+    expect(alpha).toBeCloseTo(0.25);
+  });
+
+  test('o mesmo disparo deve percorrer o mesmo caminho a 30 e a 144 FPS', () => {
+    const at30 = simulateShot(60 / 30, 60);
+    const at144 = simulateShot(60 / 144, 60);
+
+    expect(at30.length).toBeGreaterThan(0);
+    expect(at144.slice(0, at30.length)).toEqual(at30);
+  });
+});
@@ -0,0 +1,119 @@
+import * as PIXI from 'pixi.js';
+import {
+  ProjectileContactResolver,
+  ProjectileImpactMode,
+  PROJECTILE_BEHAVIOR_PRESETS,
+  IProjectileBehavior
+} from '../../entities/projectile-behavior';
+import { ProjectileManager, ProjectileEventType, ProjectileImpactData } from '../../systems/projectile-manager';
+import { PhysicsSystem } from '../../systems/physics-adapter';
+import { Terrain } from '../../systems/terrain';
+import { WeaponType } from '../../entities/vehicles/types';
+
+// Mock do PIXI: o projétil só precisa de gráficos que aceitem as chamadas de desenho
+jest.mock('pixi.js', () => {
+  class MockGraphics {
+    clear = jest.fn();
+    beginFill = jest.fn();
+    drawCircle = jest.fn();
+    endFill = jest.fn();
+    lineStyle = jest.fn();
+    moveTo = jest.fn();
+    lineTo = jest.fn();
+    destroy = jest.fn();
+  }
+
+  return { Graphics: MockGraphics, Container: jest.fn() };
+});
+
+describe('ProjectileContactResolver', () => {
+  const resolver = new ProjectileContactResolver();
+  const up = { x: 0, y: -1 };
+
+  test('deve quicar refletindo a velocidade na normal com a restituição', () => {
+    const behavior: IProjectileBehavior = { ...PROJECTILE_BEHAVIOR_PRESETS.GRENADE, restitution: 0.5 };
+
+    const result = resolver.resolve({ x: 2, y: 4 }, up, behavior, 0, 0.7);
+    expect(result.bounced).toBe(true);
+    expect(result.explode).toBe(false);
+    expect(result.velocity.x).toBeCloseTo(2);
+    expect(result.velocity.y).toBeCloseTo(-2);
+
+    // Sem quiques restantes, a granada para e espera o pavio
+    const last = resolver.resolve({ x: 2, y: 4 }, up, behavior, behavior.maxBounces, 0.7);
+    expect(last.stop).toBe(true);
+    expect(last.explode).toBe(false);
+  });
+
+  test('deve rolar ao longo da superfície e explodir ao parar', () => {
+    const behavior = PROJECTILE_BEHAVIOR_PRESETS.ROLLING_BOMB;
+    const slope = { x: -Math.SQRT1_2, y: -Math.SQRT1_2 };
+
+    // Caindo em uma rampa: só a componente ao longo da superfície continua
+    const result = resolver.resolve({ x: 0, y: 2 }, slope, behavior, 0, 0.7);
+    expect(result.bounced).toBe(false);
+    expect(result.velocity.x).toBeCloseTo(-0.98);
+    expect(result.velocity.y).toBeCloseTo(0.98);
+
+    const stopped = resolver.resolve({ x: 0.1, y: 0 }, up, behavior, 0, 0.7);
+    expect(stopped.explode).toBe(true);
+  });
+
+  test('projéteis comuns devem explodir no primeiro contato', () => {
+    const behavior: IProjectileBehavior = { impactMode: ProjectileImpactMode.EXPLODE, maxBounces: 0, rollFriction: 0, minSpeed: 0 };
+    expect(resolver.resolve({ x: 1, y: 1 }, up, behavior, 0, 0.7).explode).toBe(true);
+  });
+});
+
+describe('ProjectileManager com quique e pavio', () => {
+  const physics = {
+    getEnvironment: () => ({ gravity: 0.5, wind: 0 }),
+    getRules: () => ({ bounceRestitution: 0.6 })
+  } as unknown as PhysicsSystem;
+  const container = { addChild: jest.fn(), width: 800, height: 600 } as unknown as PIXI.Container;
+
+  /**
+   * Terreno simulado plano em y=550
+   */
+  const terrain = {
+    checkCollision: jest.fn((x: number, y: number, radius: number = 1) => y + radius > 550),
+    getCollisionInfo: jest.fn(() => ({ collision: true, normal: { x: 0, y: -1 } })),
+    isInLiquid: jest.fn().mockReturnValue(false),
+    destroyAt: jest.fn()
+  } as unknown as Terrain;
+
+  test('a granada deve quicar no terreno e explodir só ao fim do pavio', () => {
+    const manager = new ProjectileManager(container, physics, terrain, 800, 600);
+    const onBounce = jest.fn();
+    const onImpact = jest.fn();
+    manager.on(ProjectileEventType.PROJECTILE_BOUNCED, onBounce);
+    manager.on(ProjectileEventType.PROJECTILE_IMPACT, onImpact);
+
+    const grenade = manager.createProjectile({
+      type: WeaponType.CANNON,
+      x: 100,
+      y: 500,
+      angle: 45,
+      power: 40,
+      damage: 30,
+      behavior: { ...PROJECTILE_BEHAVIOR_PRESETS.GRENADE, fuseTime: 120 }
+    });
+    grenade.fire();
+
+    for (let step = 0; step < 119; step++) {
+      manager.update(1);
+      expect(grenade.getPosition().y).toBeLessThanOrEqual(545);
+    }
+
+    expect(onBounce).toHaveBeenCalled();
+    expect(onBounce.mock.calls[0][0].bounces).toBe(1);
+    expect(onImpact).not.toHaveBeenCalled();
+
+    manager.update(1);
+
+    const impact: ProjectileImpactData = onImpact.mock.calls[0][0];
+    expect(impact.type).toBe('fuse');
+    expect(impact.x).toBeGreaterThan(100);
+    expect(manager.getProjectiles()).toHaveLength(0);
+  });
+});
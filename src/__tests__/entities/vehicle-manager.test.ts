@@ -0,0 +1,239 @@
+import * as PIXI from 'pixi.js';
+import { VehicleManager, VehicleEventType, VehicleDestructionCause } from '../../entities/vehicle-manager';
+import { VehicleType, WeaponType } from '../../entities/vehicle';
+import { Physics } from '../../systems/physics';
+import { PhysicsSystem } from '../../systems/physics-adapter';
+import { PhysicsRules } from '../../systems/physics/physics-rules';
+import { Terrain } from '../../systems/terrain';
+import { TerrainLiquid } from '../../systems/terrain/terrain-liquid';
+import { LiquidType } from '../../systems/terrain/terrain-data';
+import { EventCoordinator } from '../../core/event-coordinator';
+import { GameEventType, EventPayloadFactory } from '../../utils/game-events';
+
+// Mock do PIXI: os veículos só precisam de gráficos que aceitem as chamadas de desenho
+jest.mock('pixi.js', () => {
+  class MockDisplayObject {
+    x = 0;
+    y = 0;
+    addChild = jest.fn();
+    removeChildren = jest.fn();
+    clear = jest.fn();
+    beginFill = jest.fn();
+    drawRect = jest.fn();
+    endFill = jest.fn();
+  }
+
+  return { Container: MockDisplayObject, Sprite: MockDisplayObject, Graphics: MockDisplayObject };
+});
+
+describe('VehicleManager', () => {
+  const container = { addChild: jest.fn(), removeChild: jest.fn() } as unknown as PIXI.Container;
+  const physics = { getRules: () => new PhysicsRules({ gravity: 0.5 }) } as unknown as Physics;
+
+  /**
+   * Terreno simulado plano em y=500
+   */
+  const terrain = {
+    getHeightAt: jest.fn().mockReturnValue(500),
+    getWidth: jest.fn().mockReturnValue(800),
+    getHeight: jest.fn().mockReturnValue(600),
+    getLiquid: jest.fn().mockReturnValue(null),
+    isInLiquid: jest.fn().mockReturnValue(false)
+  } as unknown as Terrain;
+
+  /**
+   * Terreno simulado com um vale em y=500 (x < 200) e um platô em y=450, com o líquido informado em y=470
+   */
+  const createFlooded = (liquid: TerrainLiquid): Terrain => ({
+    getHeightAt: jest.fn((x: number) => x < 200 ? 500 : 450),
+    getWidth: jest.fn().mockReturnValue(800),
+    getHeight: jest.fn().mockReturnValue(600),
+    getLiquid: jest.fn().mockReturnValue(liquid),
+    isInLiquid: jest.fn((x: number, y: number) => liquid.isSubmerged(y))
+  } as unknown as Terrain);
+
+  test('veículos mais pesados devem ser menos empurrados pela explosão', () => {
+    const manager = new VehicleManager(container, physics, terrain);
+    const light = manager.createVehicle(VehicleType.DRAGON, 100, 480);
+    const heavy = manager.createVehicle(VehicleType.ROBOT, 300, 480);
+    heavy.mass = 20;
+
+    manager.applyBlast(90, 480, 30, 40);
+    manager.applyBlast(290, 480, 30, 40);
+
+    expect(light.velocity.x).toBeGreaterThan(0);
+    expect(heavy.velocity.x).toBeCloseTo(light.velocity.x / 2);
+
+    // Fora do alcance não há empurrão
+    const pushed = manager.applyBlast(700, 480, 30, 40);
+    expect(pushed).toHaveLength(0);
+  });
+
+  test('o veículo lançado deve cair, deslizar e informar a altura da queda', () => {
+    const manager = new VehicleManager(container, physics, terrain);
+    const vehicle = manager.createVehicle(VehicleType.DRAGON, 100, 480);
+    const onLanded = jest.fn();
+    manager.on(VehicleEventType.VEHICLE_LANDED, onLanded);
+
+    // Explosão abaixo e à esquerda lança o veículo para cima e para a direita
+    manager.applyBlast(90, 490, 30, 60);
+
+    let steps = 0;
+    while (!onLanded.mock.calls.length && steps < 100) {
+      manager.update(1);
+      steps++;
+    }
+
+    expect(onLanded).toHaveBeenCalledTimes(1);
+    expect(onLanded.mock.calls[0][1]).toBeGreaterThan(0);
+    expect(vehicle.position.y).toBe(480);
+    expect(vehicle.position.x).toBeGreaterThan(100);
+    expect(manager.isAirborne(vehicle.id)).toBe(false);
+
+    // No chão, o atrito freia o deslizamento
+    const speed = vehicle.velocity.x;
+    manager.update(1);
+    expect(vehicle.velocity.x).toBeLessThan(speed);
+  });
+
+  test('quedas longas devem causar dano proporcional à altura', () => {
+    const manager = new VehicleManager(container, physics, terrain);
+    const vehicle = manager.createVehicle(VehicleType.DRAGON, 100, 480);
+    const onDamaged = jest.fn();
+    manager.on(VehicleEventType.VEHICLE_DAMAGED, onDamaged);
+
+    // Queda de 20 pixels não causa dano
+    vehicle.position.y = 460;
+    manager.update(1);
+    vehicle.position.y = 480;
+    manager.update(1);
+    expect(onDamaged).not.toHaveBeenCalled();
+
+    // Queda de 160 pixels: 100 acima do limite
+    vehicle.position.y = 320;
+    manager.update(1);
+    vehicle.position.y = 480;
+    manager.update(1);
+
+    expect(onDamaged).toHaveBeenCalledWith(vehicle, 50, VehicleDestructionCause.FALL);
+    expect(vehicle.health).toBe(50);
+  });
+
+  test('veículos que saem pela borda de baixo do mapa devem ser destruídos', () => {
+    const manager = new VehicleManager(container, physics, terrain);
+    const vehicle = manager.createVehicle(VehicleType.DRAGON, 790, 480);
+    const onDestroyed = jest.fn();
+    manager.on(VehicleEventType.VEHICLE_DESTROYED, onDestroyed);
+
+    // Empurrado para fora da borda direita, não há chão e o veículo cai
+    vehicle.velocity.x = 10;
+    for (let i = 0; i < 60 && !onDestroyed.mock.calls.length; i++) {
+      manager.update(1);
+    }
+
+    expect(onDestroyed).toHaveBeenCalledWith(vehicle, VehicleDestructionCause.OUT_OF_BOUNDS);
+    expect(manager.getAllVehicles()).toHaveLength(0);
+  });
+
+  test('veículos devem cair quando o terreno sob eles é destruído', () => {
+    let surface = 500;
+    const deformable = {
+      getHeightAt: jest.fn(() => surface),
+      getWidth: jest.fn().mockReturnValue(800),
+      getHeight: jest.fn().mockReturnValue(600),
+      getLiquid: jest.fn().mockReturnValue(null)
+    } as unknown as Terrain;
+
+    const manager = new VehicleManager(container, physics, deformable);
+    const inside = manager.createVehicle(VehicleType.DRAGON, 100, 480);
+    const outside = manager.createVehicle(VehicleType.DRAGON, 400, 480);
+    const onLanded = jest.fn();
+    manager.on(VehicleEventType.VEHICLE_LANDED, onLanded);
+    manager.watchTerrainDeformation();
+
+    // A cratera só alcança o primeiro veículo
+    surface = 580;
+    EventCoordinator.getInstance().emit(
+      GameEventType.TERRAIN_DEFORMED,
+      EventPayloadFactory.createTerrainDeformationPayload({ x: 100, y: 500 }, 40, 40, false, { x: 60, y: 460, width: 80, height: 120 })
+    );
+
+    expect(manager.isAirborne(inside.id)).toBe(true);
+    expect(manager.isAirborne(outside.id)).toBe(false);
+
+    for (let i = 0; i < 60 && !onLanded.mock.calls.length; i++) {
+      manager.update(1);
+    }
+
+    expect(onLanded).toHaveBeenCalledWith(inside, 80);
+    expect(inside.position.y).toBe(560);
+
+    // Sem inscrição, novas deformações não afetam os veículos
+    manager.unwatchTerrainDeformation();
+    surface = 590;
+    EventCoordinator.getInstance().emit(
+      GameEventType.TERRAIN_DEFORMED,
+      EventPayloadFactory.createTerrainDeformationPayload({ x: 100, y: 560 }, 10, 10, false)
+    );
+    expect(manager.isAirborne(inside.id)).toBe(false);
+  });
+
+  test('veículos devem afundar de vez em líquido letal', () => {
+    const manager = new VehicleManager(container, physics, createFlooded(new TerrainLiquid({ type: LiquidType.WATER, level: 470 })));
+    const vehicle = manager.createVehicle(VehicleType.DRAGON, 100, 480);
+    const onDestroyed = jest.fn();
+    manager.on(VehicleEventType.VEHICLE_DESTROYED, onDestroyed);
+
+    manager.update(1);
+    manager.update(1);
+
+    expect(onDestroyed).toHaveBeenCalledTimes(1);
+    expect(onDestroyed).toHaveBeenCalledWith(vehicle, VehicleDestructionCause.LIQUID);
+    expect(manager.getAllVehicles()).toHaveLength(0);
+  });
+
+  test('lava deve causar dano por turno apenas aos veículos submersos', () => {
+    const manager = new VehicleManager(container, physics, createFlooded(new TerrainLiquid({ type: LiquidType.LAVA, level: 470, damagePerTurn: 30 })));
+    const submerged = manager.createVehicle(VehicleType.DRAGON, 100, 480);
+    const dry = manager.createVehicle(VehicleType.DRAGON, 300, 430);
+    const onDamaged = jest.fn();
+    manager.on(VehicleEventType.VEHICLE_DAMAGED, onDamaged);
+
+    // Estar na lava não destrói o veículo durante o turno
+    manager.update(1);
+    expect(manager.getAllVehicles()).toHaveLength(2);
+
+    manager.applyLiquidDamage();
+
+    expect(onDamaged).toHaveBeenCalledTimes(1);
+    expect(onDamaged).toHaveBeenCalledWith(submerged, 30, VehicleDestructionCause.LIQUID);
+    expect(dry.health).toBe(100);
+  });
+
+  test('no passo da cena, a explosão deve mover o veículo uma vez e aplicar a gravidade uma vez', () => {
+    const physicsSystem = new PhysicsSystem(new PhysicsRules({ gravity: 0.5 }));
+    const manager = new VehicleManager(container, physicsSystem, terrain);
+    const vehicle = manager.createVehicle(VehicleType.DRAGON, 100, 480);
+
+    // Explosão abaixo e à esquerda lança o veículo para cima e para a direita
+    manager.applyBlast(90, 490, 30, 60);
+    const launch = { ...vehicle.velocity };
+    expect(launch.x).toBeGreaterThan(0);
+    expect(launch.y).toBeLessThan(0);
+
+    // Mesma ordem do passo fixo de GameScene.update: física antes dos veículos
+    physicsSystem.update(1);
+    manager.update(1);
+
+    expect(vehicle.velocity.y).toBeCloseTo(launch.y + 0.5);
+    expect(vehicle.position.x).toBeCloseTo(100 + launch.x);
+    expect(vehicle.position.y).toBeCloseTo(480 + launch.y + 0.5);
+  });
+
+  test('o robô da partida deve ter o laser como arma primária', () => {
+    const manager = new VehicleManager(container, physics, terrain);
+    const robot = manager.createVehicle(VehicleType.ROBOT, 100, 480);
+
+    expect(robot.primaryWeapon).toBe(WeaponType.LASER);
+  });
+});
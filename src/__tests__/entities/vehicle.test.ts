@@ -0,0 +1,148 @@
+import * as PIXI from 'pixi.js';
+import { BaseVehicle, VehicleType, IVehicleGround, WeaponType } from '../../entities/vehicle';
+import { FragProjectile } from '../../entities/frag-projectile';
+import { WeaponRegistry } from '../../entities/weapon-registry';
+import { LaserProjectile } from '../../entities/laser-projectile';
+import { RobotVehicle } from '../../entities/vehicles/robot';
+import { DragonVehicle } from '../../entities/vehicles/dragon';
+
+// Mock do PIXI: o veículo só precisa de gráficos que aceitem as chamadas de desenho
+jest.mock('pixi.js', () => {
+  class MockDisplayObject {
+    x = 0;
+    y = 0;
+    rotation = 0;
+    addChild = jest.fn();
+    removeChildren = jest.fn();
+    clear = jest.fn();
+    beginFill = jest.fn();
+    drawRect = jest.fn();
+    drawCircle = jest.fn();
+    drawEllipse = jest.fn();
+    lineStyle = jest.fn();
+    moveTo = jest.fn();
+    lineTo = jest.fn();
+    endFill = jest.fn();
+    destroy = jest.fn();
+    removeChild = jest.fn();
+    anchor = { set: jest.fn() };
+  }
+
+  return { Container: MockDisplayObject, Sprite: MockDisplayObject, Graphics: MockDisplayObject };
+});
+
+describe('BaseVehicle', () => {
+  /**
+   * Chão plano até x=100, rampa de 45° subindo até x=120, parede a partir de x=120 e penhasco em x=200
+   */
+  const ground: IVehicleGround = {
+    getHeightAt: (x: number) => {
+      if (x <= 100) return 500;
+      if (x <= 120) return 500 - (x - 100);
+      if (x < 200) return 300;
+      return 550;
+    }
+  };
+
+  const createVehicle = (x: number): BaseVehicle => {
+    const vehicle = new BaseVehicle(1, 'Teste', VehicleType.DEFAULT, x, ground.getHeightAt(x) - 20, 30, 30);
+    vehicle.setGround(ground);
+    return vehicle;
+  };
+
+  test('deve seguir a superfície e gastar mais pontos na subida', () => {
+    const vehicle = createVehicle(95);
+
+    expect(vehicle.moveRight()).toBe(true);
+    expect(vehicle.position.y).toBe(480);
+    expect(vehicle.movementPoints).toBe(95);
+
+    expect(vehicle.moveRight()).toBe(true);
+    expect(vehicle.position.y).toBe(475);
+    expect(vehicle.movementPoints).toBe(85);
+
+    // Inclinado para cima à direita
+    expect(vehicle.graphics.rotation).toBeLessThan(0);
+  });
+
+  test('deve recusar subidas mais íngremes que o limite do veículo', () => {
+    const vehicle = createVehicle(100);
+    vehicle.maxClimbAngle = 50;
+
+    // A rampa de 45° passa, a parede não
+    for (let i = 0; i < 4; i++) {
+      expect(vehicle.moveRight()).toBe(true);
+    }
+    expect(vehicle.position.x).toBe(120);
+    expect(vehicle.moveRight()).toBe(false);
+    expect(vehicle.position.x).toBe(120);
+
+    const heavy = createVehicle(100);
+    heavy.maxClimbAngle = 40;
+    expect(heavy.moveRight()).toBe(false);
+    expect(heavy.position.x).toBe(100);
+    expect(heavy.movementPoints).toBe(heavy.maxMovementPoints);
+  });
+
+  test('deve cair ao sair de um penhasco', () => {
+    const vehicle = createVehicle(198);
+
+    expect(vehicle.moveRight()).toBe(true);
+    expect(vehicle.position.x).toBe(203);
+    expect(vehicle.position.y).toBe(280);
+
+    // No ar, o veículo não anda
+    expect(vehicle.moveRight()).toBe(false);
+  });
+
+  test('o tiro especial deve criar o projétil da arma especial do registro', () => {
+    const vehicle = createVehicle(50);
+
+    // Sem container para os projéteis o veículo não consegue atirar
+    expect(vehicle.fireSpecialWeapon(3, -3)).toBeNull();
+
+    vehicle.setProjectileContainer(new PIXI.Container());
+    const projectile = vehicle.fireSpecialWeapon(3, -3);
+
+    expect(projectile).toBeInstanceOf(FragProjectile);
+    expect(projectile!.getWeaponType()).toBe(WeaponType.FRAG_BOMB);
+    expect(projectile!.getDamageProfile().baseDamage).toBe(WeaponRegistry.getInstance().get(WeaponType.FRAG_BOMB).damage);
+    expect(projectile!.getPosition()).toEqual({ x: 50, y: 480 });
+    expect(projectile!.getVelocity().x).toBeCloseTo(3);
+    expect(projectile!.getVelocity().y).toBeCloseTo(-3);
+  });
+
+  test('o robô deve disparar o laser e o míssil do registro, pagando a energia de cada arma', () => {
+    const robot = new RobotVehicle(1, 'Robô', 100, 480, new PIXI.Container());
+    robot.setProjectileContainer(new PIXI.Container());
+
+    const laser = robot.firePrimaryWeapon(3, -3);
+    expect(laser).toBeInstanceOf(LaserProjectile);
+    expect(robot.getEnergyLevel()).toBe(80);
+
+    const missile = robot.fireSecondaryWeapon(3, -3);
+    expect(missile!.getWeaponType()).toBe(WeaponType.ROBOT_MISSILE);
+    expect(robot.getEnergyLevel()).toBe(45);
+
+    expect(robot.fireSecondaryWeapon(3, -3)).not.toBeNull();
+    expect(robot.getEnergyLevel()).toBe(10);
+
+    // Sem energia para outro míssil, nada é disparado
+    expect(robot.fireSecondaryWeapon(3, -3)).toBeNull();
+    expect(robot.getEnergyLevel()).toBe(10);
+  });
+
+  test('o dragão deve disparar a bola de fogo do registro, mais rápida com a carga de fogo', () => {
+    const dragon = new DragonVehicle(1, 'Dragão', 100, 480, new PIXI.Container());
+    dragon.setProjectileContainer(new PIXI.Container());
+
+    const fireball = dragon.firePrimaryWeapon(3, -3);
+    expect(fireball!.getWeaponType()).toBe(WeaponType.FIRE);
+    expect(fireball!.getVelocity().x).toBeCloseTo(3);
+
+    // A Fúria do Dragão enche a carga de fogo: +60% no próximo disparo
+    dragon.specialAbilityCharge = dragon.maxSpecialAbilityCharge;
+    expect(dragon.useSpecialAbility()).toBe(true);
+    expect(dragon.firePrimaryWeapon(3, -3)!.getVelocity().x).toBeCloseTo(4.8);
+  });
+});
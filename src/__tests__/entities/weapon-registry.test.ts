@@ -0,0 +1,76 @@
+import * as PIXI from 'pixi.js';
+import { WeaponRegistry } from '../../entities/weapon-registry';
+import { ProjectileFactory } from '../../entities/projectile-factory';
+import { ProjectileImpactMode } from '../../entities/projectile-behavior';
+import { LaserProjectile } from '../../entities/laser-projectile';
+import { WeaponType } from '../../entities/vehicles/types';
+import { PhysicsSystem } from '../../systems/physics-adapter';
+
+// Mock do PIXI: o projétil só precisa de gráficos que aceitem as chamadas de desenho
+jest.mock('pixi.js', () => {
+  class MockGraphics {
+    clear = jest.fn();
+    beginFill = jest.fn();
+    drawCircle = jest.fn();
+    endFill = jest.fn();
+    lineStyle = jest.fn();
+    moveTo = jest.fn();
+    lineTo = jest.fn();
+    destroy = jest.fn();
+  }
+
+  return { Graphics: MockGraphics, Container: jest.fn() };
+});
+
+describe('WeaponRegistry', () => {
+  const registry = WeaponRegistry.getInstance();
+  const factory = ProjectileFactory.getInstance();
+  const container = { addChild: jest.fn(), width: 800, height: 600 } as unknown as PIXI.Container;
+  const physics = {} as PhysicsSystem;
+
+  const fire = (weaponType: WeaponType) =>
+    factory.createProjectile({ container, x: 0, y: 0, angle: 45, power: 50, weaponType, physicsSystem: physics });
+
+  afterEach(() => {
+    registry.reset();
+  });
+
+  test('deve definir todas as armas', () => {
+    for (const type of Object.values(WeaponType)) {
+      expect(registry.get(type).type).toBe(type);
+    }
+  });
+
+  test('os projéteis devem receber o dano, a cratera e o comportamento da arma', () => {
+    const fireball = fire(WeaponType.FIRE);
+
+    expect(fireball.getWeaponType()).toBe(WeaponType.FIRE);
+    expect(fireball.getDamageProfile()).toMatchObject({ baseDamage: 20, splashRadius: 45, damageType: 'fire' });
+    expect(fireball.getDigRadius()).toBe(12);
+    expect(fireball.getBehavior().impactMode).toBe(ProjectileImpactMode.ROLL);
+  });
+
+  test('o laser deve criar um projétil de feixe com a penetração da arma', () => {
+    const laser = fire(WeaponType.LASER);
+
+    expect(laser).toBeInstanceOf(LaserProjectile);
+    expect((laser as LaserProjectile).getPenetration()).toBe(120);
+    expect(laser.getDamageProfile().damageType).toBe('laser');
+  });
+
+  test('o míssil do robô deve ser guiado sem mudar o custo de energia do robô', () => {
+    expect(registry.get(WeaponType.ROBOT_MISSILE)).toMatchObject({ chargeCost: 35, guidanceStrength: 0.2 });
+    expect(registry.get(WeaponType.GUIDED_MISSILE).chargeCost).toBe(75);
+  });
+
+  test('balancear uma arma deve ser só uma mudança de dados', () => {
+    registry.update(WeaponType.CANNON, { damage: 70, digRadius: 0 });
+
+    const shell = fire(WeaponType.CANNON);
+    expect(shell.getDamageProfile().baseDamage).toBe(70);
+    expect(shell.getDigRadius()).toBe(0);
+
+    registry.reset();
+    expect(fire(WeaponType.CANNON).getDamageProfile().baseDamage).toBe(50);
+  });
+});
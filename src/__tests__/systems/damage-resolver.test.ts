@@ -0,0 +1,70 @@
+import { DamageResolver, FriendlyFireMode, IDamageTarget } from '../../systems/damage-resolver';
+import { EventCoordinator } from '../../core/event-coordinator';
+import { GameEventType, DamagePayload } from '../../utils/game-events';
+
+describe('DamageResolver', () => {
+  const profile = { baseDamage: 40, splashRadius: 60 };
+
+  const createTarget = (id: number, x: number, playerId: number, extra: Partial<IDamageTarget> = {}): IDamageTarget => ({
+    id,
+    position: { x, y: 300 },
+    health: 100,
+    playerId,
+    ...extra
+  });
+
+  test('deve reduzir o dano com a distância e bonificar o acerto direto', () => {
+    const resolver = new DamageResolver();
+
+    expect(resolver.calculateDamage(profile, 0, false)).toBe(40);
+    expect(resolver.calculateDamage(profile, 30, false)).toBe(25);
+    expect(resolver.calculateDamage(profile, 60, false)).toBe(10);
+    expect(resolver.calculateDamage(profile, 61, false)).toBe(0);
+    expect(resolver.calculateDamage(profile, 0, true)).toBe(60);
+  });
+
+  test('deve aplicar a defesa e a armadura do alvo', () => {
+    const resolver = new DamageResolver();
+
+    expect(resolver.calculateDamage(profile, 0, false, { defense: 0.25 })).toBe(30);
+    expect(resolver.calculateDamage(profile, 0, false, { defense: 0.25, armor: 5 })).toBe(25);
+    expect(resolver.calculateDamage(profile, 0, false, { armor: 100 })).toBe(0);
+  });
+
+  test('deve seguir as regras de fogo amigo e de dano ao próprio atirador', () => {
+    const shooter = createTarget(1, 100, 0, { teamId: 0 });
+    const ally = createTarget(2, 110, 2, { teamId: 0 });
+    const enemy = createTarget(3, 120, 1, { teamId: 1 });
+    const impact = { position: { x: 110, y: 300 }, profile, sourcePlayerId: 0, sourceTeamId: 0 };
+
+    const amounts = (resolver: DamageResolver): Record<number, number> =>
+      Object.fromEntries(resolver.resolve(impact, [shooter, ally, enemy]).map(r => [r.target.id, r.amount]));
+
+    expect(amounts(new DamageResolver())).toEqual({ 1: 60, 2: 30, 3: 60 });
+    expect(amounts(new DamageResolver({ friendlyFire: FriendlyFireMode.OFF, selfDamage: false }))).toEqual({ 3: 60 });
+    expect(amounts(new DamageResolver({ friendlyFire: FriendlyFireMode.FULL }))).toEqual({ 1: 60, 2: 60, 3: 60 });
+  });
+
+  test('deve emitir um evento de dano para cada alvo atingido', () => {
+    const resolver = new DamageResolver();
+    const events: DamagePayload[] = [];
+    const listener = (payload: DamagePayload): void => { events.push(payload); };
+    EventCoordinator.getInstance().on(GameEventType.VEHICLE_DAMAGED, listener);
+
+    const near = createTarget(1, 130, 1);
+    const far = createTarget(2, 400, 1);
+    resolver.apply({ position: { x: 100, y: 300 }, profile, sourceId: 7, sourcePlayerId: 0 }, [near, far]);
+
+    EventCoordinator.getInstance().off(GameEventType.VEHICLE_DAMAGED, listener);
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toEqual(expect.objectContaining({
+      targetId: 1,
+      sourceId: 7,
+      damageAmount: 35,
+      damageType: 'explosion',
+      newHealth: 65
+    }));
+    expect(far.health).toBe(100);
+  });
+});
@@ -0,0 +1,78 @@
+import * as PIXI from 'pixi.js';
+import { BeamEffect } from '../../../systems/effects/beam';
+import { ProjectileManager, ProjectileEventType, ProjectileBeamData } from '../../../systems/projectile-manager';
+import { PhysicsSystem } from '../../../systems/physics-adapter';
+import { Terrain } from '../../../systems/terrain';
+import { WeaponType } from '../../../entities/vehicles/types';
+
+// Mock do PIXI: os feixes e projéteis só precisam de gráficos que aceitem as chamadas de desenho
+jest.mock('pixi.js', () => {
+  class MockGraphics {
+    alpha = 1;
+    clear = jest.fn();
+    beginFill = jest.fn();
+    drawCircle = jest.fn();
+    endFill = jest.fn();
+    lineStyle = jest.fn();
+    moveTo = jest.fn();
+    lineTo = jest.fn();
+    destroy = jest.fn();
+  }
+
+  return { Graphics: MockGraphics, Container: jest.fn() };
+});
+
+describe('BeamEffect', () => {
+  // Sem gravidade nem vento: o disparo segue em linha reta
+  const physics = {
+    getEnvironment: () => ({ gravity: 0, wind: 0 }),
+    getRules: () => ({ bounceRestitution: 0.6 })
+  } as unknown as PhysicsSystem;
+
+  // Terreno plano em y=550 com uma parede a partir de x=260
+  const terrain = {
+    checkCollision: jest.fn((x: number, y: number) => y >= 550 || x >= 260),
+    isInLiquid: jest.fn().mockReturnValue(false),
+    destroyAt: jest.fn(),
+    destroyAlong: jest.fn()
+  } as unknown as Terrain;
+
+  test('deve desenhar o feixe traçado do início ao fim e apagá-lo depois', () => {
+    const container = { addChild: jest.fn(), removeChild: jest.fn() } as unknown as PIXI.Container;
+    const manager = new ProjectileManager(container, physics, terrain, 800, 600);
+    const effect = new BeamEffect(container);
+    effect.attach(manager);
+
+    let start = { x: 0, y: 0 };
+    let end = { x: 0, y: 0 };
+    manager.on(ProjectileEventType.PROJECTILE_BEAM, (beam: ProjectileBeamData) => {
+      start = beam.start;
+      end = beam.end;
+    });
+
+    manager.createProjectile({ type: WeaponType.LASER, x: 100, y: 480, angle: 0, power: 50 });
+    manager.update(1);
+
+    expect(effect.isActive()).toBe(true);
+    const graphics = (container.addChild as jest.Mock).mock.calls
+      .map(([child]) => child as PIXI.Graphics)
+      .find(child => (child.lineTo as jest.Mock).mock.calls.length > 0);
+    expect(graphics).toBeDefined();
+    expect(graphics!.moveTo).toHaveBeenCalledWith(start.x, start.y);
+    expect(graphics!.lineTo).toHaveBeenCalledWith(end.x, end.y);
+    expect(end.x).toBeGreaterThan(260);
+
+    // O feixe esmaece e sai da tela
+    effect.update(10);
+    expect(graphics!.alpha).toBeLessThan(1);
+    effect.update(100);
+    expect(effect.isActive()).toBe(false);
+    expect(container.removeChild).toHaveBeenCalledWith(graphics);
+
+    // Desconectado, o efeito não desenha novos feixes
+    effect.detach();
+    manager.createProjectile({ type: WeaponType.LASER, x: 100, y: 480, angle: 0, power: 50 });
+    manager.update(1);
+    expect(effect.isActive()).toBe(false);
+  });
+});
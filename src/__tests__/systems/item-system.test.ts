@@ -0,0 +1,78 @@
+import { ItemSystem, ItemEventType } from '../../systems/item-system';
+import { ItemType, ItemBag } from '../../entities/items';
+import { Vehicle } from '../../entities/vehicle';
+import { VehicleManager } from '../../entities/vehicle-manager';
+import { EventCoordinator } from '../../core/event-coordinator';
+import { GameEventType, ItemPayload } from '../../utils/game-events';
+
+// Veículo mínimo com vida para os itens de cura
+const createVehicle = (): Vehicle => ({
+  id: 7,
+  playerId: 0,
+  position: { x: 100, y: 200 },
+  health: 50,
+  maxHealth: 100,
+  heal: jest.fn()
+}) as unknown as Vehicle;
+
+describe('ItemSystem', () => {
+  let vehicleManager: VehicleManager;
+  let items: ItemSystem;
+
+  beforeEach(() => {
+    vehicleManager = { teleportVehicle: jest.fn().mockReturnValue(true) } as unknown as VehicleManager;
+    items = new ItemSystem(vehicleManager);
+  });
+
+  test('a bolsa deve respeitar os espaços ocupados por cada item', () => {
+    const bag = new ItemBag();
+
+    expect(bag.add(ItemType.DUAL_SHOT)).toBe(true);
+    expect(bag.add(ItemType.TELEPORT)).toBe(true);
+    expect(bag.add(ItemType.HEAL)).toBe(true);
+    expect(bag.add(ItemType.POWER_UP)).toBe(true);
+    expect(bag.getUsedSlots()).toBe(6);
+    expect(bag.add(ItemType.HEAL)).toBe(false);
+
+    // Uma escolha que não cabe na bolsa mantém a anterior
+    expect(items.setLoadout(0, [ItemType.HEAL])).toBe(true);
+    expect(items.setLoadout(0, [ItemType.DUAL_SHOT, ItemType.DUAL_SHOT, ItemType.TELEPORT, ItemType.HEAL])).toBe(false);
+    expect(items.getBag(0).getItems()).toEqual([ItemType.HEAL]);
+  });
+
+  test('deve permitir um item por turno e emitir ITEM_USED', () => {
+    const vehicle = createVehicle();
+    const onUsed = jest.fn();
+    const onGlobalUsed = jest.fn();
+    items.on(ItemEventType.ITEM_USED, onUsed);
+    EventCoordinator.getInstance().on<ItemPayload>(GameEventType.ITEM_USED, onGlobalUsed);
+    items.setLoadout(0, [ItemType.HEAL, ItemType.TELEPORT]);
+
+    expect(items.useItem(vehicle, ItemType.HEAL)).toBe(true);
+    expect(vehicle.heal).toHaveBeenCalledWith(30);
+    expect(items.useItem(vehicle, ItemType.TELEPORT, { targetX: 300 })).toBe(false);
+
+    items.startTurn();
+    expect(items.useItem(vehicle, ItemType.TELEPORT, { targetX: 300 })).toBe(true);
+    expect(vehicleManager.teleportVehicle).toHaveBeenCalledWith(7, 300);
+    expect(items.getBag(0).getItems()).toEqual([]);
+
+    expect(onUsed).toHaveBeenCalledTimes(2);
+    const payload: ItemPayload = onGlobalUsed.mock.calls[onGlobalUsed.mock.calls.length - 1][0];
+    expect(payload).toMatchObject({ itemType: ItemType.TELEPORT, playerId: 0, vehicleId: 7 });
+  });
+
+  test('tiro duplo e potência devem alterar apenas o próximo disparo', () => {
+    const vehicle = createVehicle();
+    items.setLoadout(0, [ItemType.DUAL_SHOT, ItemType.POWER_UP]);
+
+    items.useItem(vehicle, ItemType.DUAL_SHOT);
+    items.startTurn();
+    items.useItem(vehicle, ItemType.POWER_UP);
+
+    expect(items.getShotModifier(vehicle)).toEqual({ shots: 2, damageMultiplier: 1.5 });
+
+    items.consumeShotModifier(vehicle);
+    expect(items.getShotModifier(vehicle)).toEqual({ shots: 1, damageMultiplier: 1 });
+  });
+});
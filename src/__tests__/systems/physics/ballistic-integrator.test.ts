@@ -0,0 +1,95 @@
+import * as PIXI from 'pixi.js';
+import { BallisticIntegrator } from '../../../systems/physics/ballistic-integrator';
+import { Projectile } from '../../../entities/projectile';
+import { ProjectileFactory } from '../../../entities/projectile-factory';
+import { WeaponType } from '../../../entities/vehicles/types';
+import { ProjectileManager } from '../../../systems/projectile-manager';
+import { PhysicsSystem } from '../../../systems/physics-adapter';
+import { Terrain } from '../../../systems/terrain';
+
+// Mock do PIXI: o projétil só precisa de gráficos que aceitem as chamadas de desenho
+jest.mock('pixi.js', () => {
+  class MockGraphics {
+    clear = jest.fn();
+    beginFill = jest.fn();
+    drawCircle = jest.fn();
+    endFill = jest.fn();
+    lineStyle = jest.fn();
+    moveTo = jest.fn();
+    lineTo = jest.fn();
+    destroy = jest.fn();
+  }
+
+  return { Graphics: MockGraphics, Container: jest.fn() };
+});
+
+describe('BallisticIntegrator', () => {
+  const physics = { getEnvironment: () => ({ gravity: 0.5, wind: -6 }) } as unknown as PhysicsSystem;
+  const container = { addChild: jest.fn(), width: 800, height: 600 } as unknown as PIXI.Container;
+
+  /**
+   * Terreno simulado plano em y=550, sem líquido
+   */
+  const terrain = {
+    checkCollision: jest.fn((x: number, y: number) => y >= 550),
+    isInLiquid: jest.fn().mockReturnValue(false)
+  } as unknown as Terrain;
+
+  test('a prévia da mira deve coincidir com o caminho do projétil real', () => {
+    const manager = new ProjectileManager(container, physics, terrain, 800, 600);
+    const preview = manager.calculateTrajectory(100, 500, 55, 80);
+
+    const projectile = new Projectile(container, 100, 500, 55, 80, physics);
+    projectile.fire();
+
+    // O último ponto é o contato exato dentro do passo; os anteriores são os passos do projétil
+    for (let i = 1; i < preview.length - 1; i++) {
+      projectile.update(1);
+      const { x, y } = projectile.getPosition();
+
+      expect(x).toBeCloseTo(preview[i].x, 10);
+      expect(y).toBeCloseTo(preview[i].y, 10);
+    }
+
+    // A prévia termina no ponto em que o projétil atinge o terreno
+    const impact = preview[preview.length - 1];
+    expect(impact.y).toBeCloseTo(550, 1);
+    expect(preview[preview.length - 2].y).toBeLessThan(550);
+  });
+
+  test('o disparo criado pela fábrica a partir da velocidade deve seguir a prévia da mira', () => {
+    const manager = new ProjectileManager(container, physics, terrain, 800, 600);
+    const preview = manager.calculateTrajectory(100, 500, 55, 80);
+
+    // Caminho real do disparo: a velocidade de lançamento da mira vira um projétil na fábrica
+    const velocity = new BallisticIntegrator().getLaunchVelocity(55, 80);
+    const projectile = ProjectileFactory.getInstance().createProjectile({
+      container,
+      x: 100,
+      y: 500,
+      velocityX: velocity.x,
+      velocityY: velocity.y,
+      weaponType: WeaponType.CANNON,
+      physicsSystem: physics
+    });
+    manager.addProjectile(projectile);
+
+    for (let i = 1; i < preview.length - 1; i++) {
+      manager.update(1);
+      const { x, y } = projectile.getPosition();
+
+      expect(x).toBeCloseTo(preview[i].x, 10);
+      expect(y).toBeCloseTo(preview[i].y, 10);
+    }
+  });
+
+  test('deve aplicar a mesma gravidade e vento a cada passo', () => {
+    const integrator = new BallisticIntegrator();
+    const next = integrator.step({ x: 0, y: 0, vx: 1, vy: -2 }, { gravity: 0.5, wind: 10 }, 2);
+
+    expect(next.vx).toBeCloseTo(1.1);
+    expect(next.vy).toBeCloseTo(-1);
+    expect(next.x).toBeCloseTo(2.2);
+    expect(next.y).toBeCloseTo(-2);
+  });
+});
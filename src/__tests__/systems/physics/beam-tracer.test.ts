@@ -0,0 +1,36 @@
+import { BeamTracer, IBeamOptions } from '../../../systems/physics/beam-tracer';
+
+describe('BeamTracer', () => {
+  const tracer = new BeamTracer();
+  const options: IBeamOptions = { range: 500, penetration: 60, trenchRadius: 5 };
+
+  // Morro entre x=100 e x=140, abaixo de y=50
+  const isHill = (x: number, y: number): boolean => x >= 100 && x <= 140 && y >= 50;
+
+  test('deve atravessar o terreno pela penetração, abrindo o sulco e atingindo o veículo atrás dele', () => {
+    const near = { id: 1, position: { x: 150, y: 60 }, health: 100, hitRadius: 10 };
+    const far = { id: 2, position: { x: 300, y: 60 }, health: 100, hitRadius: 10 };
+
+    const trace = tracer.trace({ x: 0, y: 60 }, { x: 1, y: 0 }, options, isHill, [far, near]);
+
+    expect(trace.contact!.x).toBeCloseTo(100, 1);
+    expect(trace.end.x).toBeCloseTo(160, 1);
+    expect(trace.hits.map(hit => hit.target.id)).toEqual([1]);
+    expect(trace.hits[0].point.x).toBeCloseTo(140);
+
+    // O sulco só existe dentro do morro
+    expect(trace.trench.length).toBeGreaterThan(0);
+    expect(trace.trench.every(point => isHill(point.x, point.y))).toBe(true);
+  });
+
+  test('deve ignorar quem disparou e ir até o alcance quando não há contato', () => {
+    const shooter = { id: 7, position: { x: 0, y: 0 }, health: 100 };
+
+    const trace = tracer.trace({ x: 0, y: 0 }, { x: 3, y: 4 }, { ...options, ignoreId: 7 }, () => false, [shooter]);
+
+    expect(trace.contact).toBeNull();
+    expect(trace.hits).toHaveLength(0);
+    expect(trace.end.x).toBeCloseTo(300);
+    expect(trace.end.y).toBeCloseTo(400);
+  });
+});
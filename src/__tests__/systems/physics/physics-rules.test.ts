@@ -0,0 +1,68 @@
+import { PhysicsRules, PhysicsRulesPreset } from '../../../systems/physics/physics-rules';
+import { BallisticIntegrator } from '../../../systems/physics/ballistic-integrator';
+import { PhysicsSystem } from '../../../systems/physics-adapter';
+import { PhysicsSystem as ObjectPhysicsSystem } from '../../../systems/physics/physics-system';
+import { CONFIG } from '../../../core/config';
+
+// Mock do PIXI: o sistema de física não desenha nada nestes testes
+jest.mock('pixi.js', () => ({ Graphics: jest.fn(), Container: jest.fn() }));
+
+describe('PhysicsRules', () => {
+  test('os conjuntos pré-definidos devem alterar apenas suas regras', () => {
+    const lowGravity = PhysicsRules.fromPreset(PhysicsRulesPreset.LOW_GRAVITY);
+    const practice = PhysicsRules.fromPreset(PhysicsRulesPreset.NO_WIND_PRACTICE, { airDrag: 0.1 });
+
+    expect(lowGravity.gravity).toBeLessThan(CONFIG.PHYSICS.GRAVITY);
+    expect(lowGravity.windMultiplier).toBe(CONFIG.PHYSICS.WIND_STRENGTH);
+    expect(practice.windMultiplier).toBe(0);
+    expect(practice.airDrag).toBe(0.1);
+    expect(practice.gravity).toBe(CONFIG.PHYSICS.GRAVITY);
+
+    // Derivar regras não altera as originais
+    const heavy = practice.with({ gravity: 2 });
+    expect(heavy.gravity).toBe(2);
+    expect(heavy.windMultiplier).toBe(0);
+    expect(practice.gravity).toBe(CONFIG.PHYSICS.GRAVITY);
+  });
+
+  test('o sistema de física deve usar as regras injetadas na partida', () => {
+    const rules = PhysicsRules.fromPreset(PhysicsRulesPreset.NO_WIND_PRACTICE, { gravity: 0.2, terminalVelocity: 5 });
+    const physics = new PhysicsSystem(rules);
+
+    expect(physics.getWindSystem().getWind().force).toBe(0);
+    expect(physics.getEnvironment()).toMatchObject({ gravity: 0.2, terminalVelocity: 5 });
+    expect(physics.getEnvironment().wind).toBeCloseTo(0);
+
+    // Alterar a gravidade mantém as demais regras
+    physics.setGravity(0.3);
+    expect(physics.getRules().gravity).toBe(0.3);
+    expect(physics.getRules().terminalVelocity).toBe(5);
+    expect(physics.getWind()).toBeCloseTo(0);
+  });
+
+  test('o sistema de objetos deve aplicar a gravidade das regras', () => {
+    const rules = new PhysicsRules({ gravity: 0.2 });
+
+    const physics = new ObjectPhysicsSystem(rules);
+    const object = { position: { x: 0, y: 0 }, velocity: { x: 0, y: 0 }, mass: 1, isStatic: false, width: 1, height: 1 };
+    physics.addObject(object);
+    physics.update(1);
+    expect(object.velocity.y).toBeCloseTo(0.2);
+    expect(object.position.y).toBeCloseTo(0.2);
+  });
+
+  test('o arrasto e a velocidade terminal devem limitar o voo', () => {
+    const integrator = new BallisticIntegrator();
+    const environment = { gravity: 1, wind: 0, airDrag: 0.5, terminalVelocity: 3 };
+
+    const next = integrator.step({ x: 0, y: 0, vx: 4, vy: 0 }, environment, 1);
+    expect(next.vx).toBeCloseTo(2);
+    expect(next.vy).toBeCloseTo(0.5);
+
+    let state = next;
+    for (let i = 0; i < 20; i++) {
+      state = integrator.step({ ...state, vy: 10 }, environment, 1);
+    }
+    expect(state.vy).toBe(3);
+  });
+});
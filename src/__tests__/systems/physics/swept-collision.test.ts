@@ -0,0 +1,28 @@
+import { SweptCollisionDetector } from '../../../systems/physics/swept-collision';
+
+describe('SweptCollisionDetector', () => {
+  const detector = new SweptCollisionDetector();
+
+  test('deve encontrar uma parede fina que o ponto final atravessaria', () => {
+    // Parede de 2px entre x=50 e x=52; o passo vai de x=0 a x=100
+    const isWall = (x: number): boolean => x >= 50 && x <= 52;
+    const hit = detector.sweepSolid({ x: 0, y: 10 }, { x: 100, y: 10 }, isWall);
+
+    expect(isWall(100)).toBe(false);
+    expect(hit).not.toBeNull();
+    expect(hit!.point.x).toBeCloseTo(50, 1);
+    expect(hit!.point.y).toBe(10);
+    expect(hit!.time).toBeCloseTo(0.5, 2);
+  });
+
+  test('deve retornar o primeiro contato com um círculo no caminho', () => {
+    const hit = detector.sweepCircle({ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 100, y: 0 }, 25);
+
+    expect(hit).not.toBeNull();
+    expect(hit!.point.x).toBeCloseTo(75);
+    expect(hit!.time).toBeCloseTo(0.375);
+
+    expect(detector.sweepCircle({ x: 0, y: 0 }, { x: 200, y: 0 }, { x: 100, y: 40 }, 25)).toBeNull();
+    expect(detector.sweepCircle({ x: 0, y: 0 }, { x: 50, y: 0 }, { x: 100, y: 0 }, 25)).toBeNull();
+  });
+});
@@ -0,0 +1,195 @@
+import * as PIXI from 'pixi.js';
+import { PickupSystem, PickupBuff } from '../../systems/pickup-system';
+import { ItemSystem } from '../../systems/item-system';
+import { ItemType } from '../../entities/items';
+import { Vehicle } from '../../entities/vehicle';
+import { VehicleManager } from '../../entities/vehicle-manager';
+import { Terrain } from '../../systems/terrain';
+import { EventCoordinator } from '../../core/event-coordinator';
+import { GameEventType, ItemPayload } from '../../utils/game-events';
+import { ProjectileManager } from '../../systems/projectile-manager';
+import { ProjectileAdapter } from '../../entities/projectile-adapter';
+import { PhysicsSystem } from '../../systems/physics-adapter';
+import { WeaponType } from '../../entities/vehicles/types';
+import { GameLogicController } from '../../core/logic/game-logic-controller';
+import { GameStateManager } from '../../core/game-state-manager';
+import { TurnSystem } from '../../systems/turn-system';
+import { AimingSystem } from '../../systems/aiming-system';
+import { IGameEventCoordinator } from '../../core/events/game-event-coordinator';
+
+jest.mock('pixi.js', () => {
+  class MockGraphics {
+    position = { set: jest.fn() };
+    clear = jest.fn();
+    beginFill = jest.fn();
+    lineStyle = jest.fn();
+    drawRect = jest.fn();
+    drawCircle = jest.fn();
+    moveTo = jest.fn();
+    lineTo = jest.fn();
+    endFill = jest.fn();
+    destroy = jest.fn();
+  }
+
+  class MockContainer {
+    addChild = jest.fn();
+    removeChild = jest.fn();
+  }
+
+  return { Graphics: MockGraphics, Container: MockContainer };
+});
+
+const WIDTH = 400;
+const HEIGHT = 300;
+const SURFACE = 200;
+
+// Terreno plano
+const createTerrain = (): Terrain => ({
+  getHeightMap: () => new Array(WIDTH).fill(SURFACE),
+  getHeightAt: () => SURFACE,
+  getWidth: () => WIDTH,
+  getHeight: () => HEIGHT,
+  getLiquid: (): null => null
+}) as unknown as Terrain;
+
+const createVehicle = (id: number, playerId: number, x: number): Vehicle => ({
+  id,
+  playerId,
+  position: { x, y: SURFACE - 20 },
+  isDestroyed: () => false,
+  heal: jest.fn(),
+  chargeSpecialAbility: jest.fn()
+}) as unknown as Vehicle;
+
+describe('PickupSystem', () => {
+  let vehicles: Vehicle[];
+  let vehicleManager: VehicleManager;
+  let items: ItemSystem;
+
+  beforeEach(() => {
+    vehicles = [createVehicle(1, 0, 100)];
+    vehicleManager = {
+      getAllVehicles: () => vehicles,
+      getVehicleById: (id: number) => vehicles.find(v => v.id === id)
+    } as unknown as VehicleManager;
+    items = new ItemSystem(vehicleManager);
+  });
+
+  test('deve surgir uma caixa a cada intervalo, em ponto seguro longe dos veículos', () => {
+    const pickups = new PickupSystem(new PIXI.Container(), createTerrain(), vehicleManager, items, {
+      spawnInterval: 2,
+      contents: [{ item: ItemType.HEAL }]
+    }, () => 0);
+    const onSpawned = jest.fn();
+    EventCoordinator.getInstance().on<ItemPayload>(GameEventType.ITEM_SPAWNED, onSpawned);
+
+    expect(pickups.nextTurn()).toBeNull();
+    const crate = pickups.nextTurn();
+
+    // O primeiro ponto seguro a pelo menos 60px do veículo em x = 100
+    expect(crate).not.toBeNull();
+    expect(crate.x).toBe(160);
+    expect(crate.y).toBeLessThan(SURFACE);
+    expect(onSpawned).toHaveBeenCalledWith(expect.objectContaining({
+      itemType: ItemType.HEAL,
+      playerId: -1,
+      itemId: crate.id
+    }));
+  });
+
+  test('o veículo que passa pela caixa deve receber o item', () => {
+    const pickups = new PickupSystem(new PIXI.Container(), createTerrain(), vehicleManager, items, {
+      contents: [{ item: ItemType.TELEPORT }]
+    }, () => 0);
+    const onCollected = jest.fn();
+    EventCoordinator.getInstance().on<ItemPayload>(GameEventType.ITEM_COLLECTED, onCollected);
+    const crate = pickups.spawnCrate();
+
+    pickups.update();
+    expect(pickups.getCrates()).toHaveLength(1);
+
+    // O veículo anda até a caixa
+    vehicles[0].position.x = crate.x;
+    pickups.update();
+
+    expect(pickups.getCrates()).toHaveLength(0);
+    expect(items.getBag(0).getItems()).toEqual([ItemType.TELEPORT]);
+    expect(onCollected).toHaveBeenCalledWith(expect.objectContaining({
+      itemType: ItemType.TELEPORT,
+      playerId: 0,
+      vehicleId: 1
+    }));
+  });
+
+  test('a explosão de um disparo deve coletar a caixa para quem disparou', () => {
+    vehicles.push(createVehicle(2, 1, 350));
+    const pickups = new PickupSystem(new PIXI.Container(), createTerrain(), vehicleManager, items, {
+      contents: [{ buff: PickupBuff.SPECIAL_CHARGE }]
+    }, () => 0);
+    const crate = pickups.spawnCrate();
+
+    expect(pickups.collectInBlast(crate.x + 20, crate.y, 10, 2)).toHaveLength(0);
+    expect(pickups.collectInBlast(crate.x + 20, crate.y, 30, 2)).toEqual([crate]);
+
+    expect(vehicles[1].chargeSpecialAbility).toHaveBeenCalledWith(50);
+    expect(pickups.getCrates()).toHaveLength(0);
+  });
+
+  test('um disparo do controlador que explode ao lado da caixa deve coletá-la para o atirador', () => {
+    // Sem gravidade nem vento: o tiro desce em linha reta até o chão ao lado da caixa
+    const physics = {
+      getEnvironment: () => ({ gravity: 0, wind: 0 }),
+      getRules: () => ({ bounceRestitution: 0.6 })
+    } as unknown as PhysicsSystem;
+    const terrain = {
+      ...createTerrain(),
+      checkCollision: (_x: number, y: number) => y >= SURFACE,
+      isInLiquid: () => false,
+      destroyAt: jest.fn()
+    } as unknown as Terrain;
+    const projectileContainer = { addChild: jest.fn(), width: WIDTH, height: HEIGHT } as unknown as PIXI.Container;
+    const projectileManager = new ProjectileManager(projectileContainer, physics, terrain, WIDTH, HEIGHT);
+    const turnSystem = {
+      on: jest.fn(),
+      off: jest.fn(),
+      forceEndTurn: jest.fn(),
+      getIsPlayerTurn: () => true
+    } as unknown as TurnSystem;
+
+    const pickups = new PickupSystem(new PIXI.Container(), terrain, vehicleManager, items, {
+      contents: [{ item: ItemType.TELEPORT }]
+    }, () => 0);
+    pickups.attach(turnSystem, projectileManager);
+    const crate = pickups.spawnCrate();
+
+    // O veículo dispara o canhão com a velocidade calculada pelo controlador
+    const shooter = Object.assign(vehicles[0], {
+      specialAbilityCharge: 0,
+      maxSpecialAbilityCharge: 100,
+      firePrimaryWeapon: (velocityX: number, velocityY: number) => ProjectileAdapter.getInstance().createProjectile(
+        projectileContainer, shooter.position.x, shooter.position.y, velocityX, velocityY, WeaponType.CANNON, physics
+      )
+    });
+    const controller = new GameLogicController(
+      { isPlaying: () => true } as unknown as GameStateManager,
+      { ...vehicleManager, getVehicleByIndex: () => shooter } as unknown as VehicleManager,
+      projectileManager,
+      turnSystem,
+      {
+        getAngle: () => -Math.atan2(SURFACE - shooter.position.y, crate.x - shooter.position.x) * 180 / Math.PI,
+        getPower: () => 50
+      } as unknown as AimingSystem,
+      physics,
+      terrain,
+      { emit: jest.fn() } as unknown as IGameEventCoordinator
+    );
+
+    controller.fire();
+    for (let i = 0; i < 100 && pickups.getCrates().length > 0; i++) {
+      projectileManager.update(1);
+    }
+
+    expect(pickups.getCrates()).toHaveLength(0);
+    expect(items.getBag(0).getItems()).toEqual([ItemType.TELEPORT]);
+  });
+});
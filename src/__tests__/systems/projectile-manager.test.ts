@@ -0,0 +1,125 @@
+import * as PIXI from 'pixi.js';
+import { ProjectileManager, ProjectileEventType, ProjectileImpactData, ProjectileBeamData } from '../../systems/projectile-manager';
+import { PhysicsSystem } from '../../systems/physics-adapter';
+import { Terrain } from '../../systems/terrain';
+import { WeaponType } from '../../entities/vehicles/types';
+
+// Mock do PIXI: o projétil só precisa de gráficos que aceitem as chamadas de desenho
+jest.mock('pixi.js', () => {
+  class MockGraphics {
+    clear = jest.fn();
+    beginFill = jest.fn();
+    drawCircle = jest.fn();
+    endFill = jest.fn();
+    lineStyle = jest.fn();
+    moveTo = jest.fn();
+    lineTo = jest.fn();
+    destroy = jest.fn();
+  }
+
+  return { Graphics: MockGraphics, Container: jest.fn() };
+});
+
+describe('ProjectileManager', () => {
+  const container = { addChild: jest.fn(), width: 800, height: 600 } as unknown as PIXI.Container;
+
+  // Sem gravidade nem vento: o disparo segue em linha reta
+  const physics = {
+    getEnvironment: () => ({ gravity: 0, wind: 0 }),
+    getRules: () => ({ bounceRestitution: 0.6 })
+  } as unknown as PhysicsSystem;
+
+  /**
+   * Terreno simulado plano em y=550, sem líquido
+   */
+  const createTerrain = (): Terrain => ({
+    checkCollision: jest.fn((x: number, y: number) => y >= 550),
+    isInLiquid: jest.fn().mockReturnValue(false),
+    destroyAt: jest.fn(),
+    destroyAlong: jest.fn()
+  } as unknown as Terrain);
+
+  test('o disparo deve explodir no primeiro veículo do caminho, ignorando quem disparou', () => {
+    const terrain = createTerrain();
+    const manager = new ProjectileManager(container, physics, terrain, 800, 600);
+    const shooter = { id: 1, position: { x: 100, y: 480 }, health: 100 };
+    const target = { id: 2, position: { x: 300, y: 480 }, health: 100 };
+    manager.setTargets(() => [target, shooter]);
+
+    const impacts: ProjectileImpactData[] = [];
+    manager.on(ProjectileEventType.PROJECTILE_IMPACT, (impact: ProjectileImpactData) => impacts.push(impact));
+
+    manager.createProjectile({ type: WeaponType.CANNON, x: 100, y: 480, angle: 0, power: 50, sourceId: 1, playerId: 0 });
+
+    for (let i = 0; i < 100 && impacts.length === 0; i++) {
+      manager.update(1);
+    }
+
+    expect(impacts).toHaveLength(1);
+    expect(impacts[0].type).toBe('vehicle');
+    expect(impacts[0].directHitTargetId).toBe(2);
+    expect(impacts[0].sourceId).toBe(1);
+
+    // Contato na borda da hitbox (20px) somada ao raio do projétil (5px)
+    expect(impacts[0].x).toBeCloseTo(275);
+    expect(terrain.destroyAt).toHaveBeenCalledWith(impacts[0].x, impacts[0].y, 30);
+    expect(manager.getProjectiles()).toHaveLength(0);
+  });
+
+  test('os fragmentos da bomba de fragmentação devem levar quem disparou e o dano de fragmento', () => {
+    const terrain = createTerrain();
+    const manager = new ProjectileManager(container, physics, terrain, 800, 600);
+    const shooter = { id: 1, position: { x: 100, y: 480 }, health: 100 };
+    const target = { id: 2, position: { x: 300, y: 480 }, health: 100 };
+    const above = { id: 3, position: { x: 275, y: 380 }, health: 100 };
+    manager.setTargets(() => [shooter, target, above]);
+
+    const impacts: ProjectileImpactData[] = [];
+    manager.on(ProjectileEventType.PROJECTILE_IMPACT, (impact: ProjectileImpactData) => impacts.push(impact));
+
+    manager.createProjectile({ type: WeaponType.FRAG_BOMB, x: 100, y: 480, angle: 0, power: 50, sourceId: 1, playerId: 0 });
+
+    for (let i = 0; i < 100 && impacts.length < 3; i++) {
+      manager.update(1);
+    }
+
+    // A bomba explode no alvo e os dois fragmentos mais verticais atingem o veículo logo acima
+    expect(impacts.map(impact => impact.directHitTargetId)).toEqual([2, 3, 3]);
+    for (const fragment of impacts.slice(1)) {
+      expect(fragment.sourceId).toBe(1);
+      expect(fragment.playerId).toBe(0);
+      expect(fragment.profile.baseDamage).toBe(15);
+    }
+  });
+
+  test('o feixe deve sair da hitbox de quem disparou sem atingi-lo e abrir o sulco de uma vez', () => {
+    // Parede de terreno a partir de x=260, dentro do alcance da penetração
+    const terrain = {
+      ...createTerrain(),
+      checkCollision: jest.fn((x: number, y: number) => y >= 550 || x >= 260)
+    } as unknown as Terrain;
+    const manager = new ProjectileManager(container, physics, terrain, 800, 600);
+    const shooter = { id: 1, position: { x: 100, y: 480 }, health: 100 };
+    const target = { id: 2, position: { x: 200, y: 480 }, health: 100 };
+    manager.setTargets(() => [shooter, target]);
+
+    const beams: ProjectileBeamData[] = [];
+    manager.on(ProjectileEventType.PROJECTILE_BEAM, (beam: ProjectileBeamData) => beams.push(beam));
+
+    // Mesmo sem saber quem disparou, a hitbox de onde o feixe parte não é atingida
+    manager.createProjectile({ type: WeaponType.LASER, x: 100, y: 480, angle: 0, power: 50 });
+    manager.update(1);
+
+    expect(beams).toHaveLength(1);
+    expect(beams[0].hits.map(hit => hit.target.id)).toEqual([2]);
+    expect(beams[0].contact.x).toBeCloseTo(180);
+
+    // O trecho penetrado na parede vira uma única deformação do terreno
+    expect(terrain.destroyAt).not.toHaveBeenCalled();
+    expect(terrain.destroyAlong).toHaveBeenCalledTimes(1);
+    const [trench, radius] = (terrain.destroyAlong as jest.Mock).mock.calls[0];
+    expect(trench.length).toBeGreaterThan(1);
+    expect(trench.every((point: { x: number }) => point.x >= 260 && point.x <= 300)).toBe(true);
+    expect(radius).toBe(4);
+  });
+});
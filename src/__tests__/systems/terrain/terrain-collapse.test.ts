@@ -0,0 +1,84 @@
+import { TerrainCollapse } from '../../../systems/terrain/terrain-collapse';
+import { TerrainMask } from '../../../systems/terrain/terrain-mask';
+import { ITerrainData, CollapseMode } from '../../../systems/terrain/terrain-data';
+
+/**
+ * Cria um terreno com máscara a partir de um mapa de altura plano
+ */
+const createMaskTerrain = (width: number, height: number, surface: number): ITerrainData => {
+  const heightMap = new Array(width).fill(surface);
+  return {
+    heightMap,
+    width,
+    height,
+    mask: TerrainMask.fromHeightMap(heightMap, width, height)
+  };
+};
+
+describe('TerrainCollapse', () => {
+  let collapse: TerrainCollapse;
+
+  beforeEach(() => {
+    collapse = new TerrainCollapse();
+  });
+
+  test('não deve alterar o terreno no modo NONE', () => {
+    const terrain = createMaskTerrain(50, 50, 20);
+
+    const result = collapse.settle(terrain, { x: 25, y: 35, radius: 5 }, CollapseMode.NONE);
+
+    expect(result.terrainData).toBe(terrain);
+    expect(result.affectedArea).toBeNull();
+  });
+
+  test('modo SAND deve preencher o túnel com o teto acima dele', () => {
+    const terrain = createMaskTerrain(50, 50, 20);
+    terrain.mask.carveCircle(25, 35, 5);
+
+    const result = collapse.settle(terrain, { x: 25, y: 35, radius: 5 }, CollapseMode.SAND);
+
+    // O túnel deixa de existir e a superfície desce
+    expect(result.terrainData.mask.isSolid(25, 35)).toBe(true);
+    expect(result.terrainData.heightMap[25]).toBeGreaterThan(20);
+    expect(result.movedPixels).toBeGreaterThan(0);
+    expect(result.affectedArea).not.toBeNull();
+
+    // Os dados originais permanecem intactos
+    expect(terrain.mask.isSolid(25, 35)).toBe(false);
+  });
+
+  test('modo CHUNK deve derrubar blocos soltos mantendo a forma', () => {
+    const terrain = createMaskTerrain(50, 50, 40);
+
+    // Bloco flutuante de 5x3 pixels sobre o chão
+    for (let y = 10; y < 13; y++) {
+      for (let x = 20; x < 25; x++) {
+        terrain.mask.setSolid(x, y, true);
+      }
+    }
+
+    const result = collapse.settle(terrain, { x: 22, y: 14, radius: 3 }, CollapseMode.CHUNK);
+    const mask = result.terrainData.mask;
+
+    // O bloco pousa sobre o chão (linhas 37 a 39)
+    expect(mask.isSolid(22, 10)).toBe(false);
+    expect(mask.isSolid(20, 37)).toBe(true);
+    expect(mask.isSolid(24, 39)).toBe(true);
+    expect(result.terrainData.heightMap[22]).toBe(37);
+    expect(result.movedPixels).toBe(15);
+  });
+
+  test('modo SAND em mapa de altura deve suavizar encostas íngremes', () => {
+    const heightMap = new Array(30).fill(20);
+    heightMap[15] = 40;
+    const terrain: ITerrainData = { heightMap, width: 30, height: 50 };
+
+    const result = collapse.settle(terrain, { x: 15, y: 30, radius: 5 }, CollapseMode.SAND);
+    const updated = result.terrainData.heightMap;
+
+    for (let i = 0; i < updated.length - 1; i++) {
+      expect(Math.abs(updated[i + 1] - updated[i])).toBeLessThanOrEqual(3.001);
+    }
+    expect(updated.reduce((a, b) => a + b, 0)).toBeCloseTo(heightMap.reduce((a, b) => a + b, 0));
+  });
+});
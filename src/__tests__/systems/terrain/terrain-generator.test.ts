@@ -0,0 +1,149 @@
+import { TerrainGenerator } from '../../../systems/terrain/terrain-generator';
+import { ITerrainConfig, ITerrainData, TerrainGenerationMode } from '../../../systems/terrain/terrain-data';
+
+/**
+ * Verifica que todas as plataformas do terreno são planas e estão dentro do mapa
+ */
+const expectFlatPlatforms = (terrain: ITerrainData): void => {
+  for (const platform of terrain.platforms) {
+    const surface = terrain.heightMap.slice(platform.x, platform.x + platform.width);
+
+    expect(platform.width).toBeGreaterThan(0);
+    expect(platform.y).toBeLessThan(terrain.height);
+    expect(new Set(surface)).toEqual(new Set([platform.y]));
+  }
+};
+
+describe('TerrainGenerator', () => {
+  let generator: TerrainGenerator;
+  const baseConfig: ITerrainConfig = {
+    width: 400,
+    height: 300
+  };
+
+  beforeEach(() => {
+    generator = new TerrainGenerator();
+  });
+
+  test('deve gerar o mesmo terreno para a mesma semente numérica', () => {
+    const first = generator.generate({ ...baseConfig, seed: 12345 });
+    const second = new TerrainGenerator().generate({ ...baseConfig, seed: 12345 });
+
+    expect(second.heightMap).toEqual(first.heightMap);
+    expect(first.seed).toBe(12345);
+    expect(second.seed).toBe(12345);
+  });
+
+  test('deve aceitar sementes em texto de forma determinística', () => {
+    const first = generator.generate({ ...baseConfig, seed: 'torneio-final' });
+    const second = generator.generate({ ...baseConfig, seed: 'torneio-final' });
+
+    expect(second.heightMap).toEqual(first.heightMap);
+    expect(typeof first.seed).toBe('number');
+  });
+
+  test('deve reproduzir o mapa a partir da semente reportada', () => {
+    const original = generator.generate(baseConfig);
+    const reproduced = generator.generate({ ...baseConfig, seed: original.seed });
+
+    expect(reproduced.heightMap).toEqual(original.heightMap);
+  });
+
+  test('deve gerar terrenos diferentes para sementes diferentes', () => {
+    const first = generator.generate({ ...baseConfig, seed: 1 });
+    const second = generator.generate({ ...baseConfig, seed: 2 });
+
+    expect(second.heightMap).not.toEqual(first.heightMap);
+  });
+
+  test('não deve depender de Math.random quando há semente', () => {
+    const randomSpy = jest.spyOn(Math, 'random');
+
+    generator.generate({ ...baseConfig, seed: 42 });
+
+    expect(randomSpy).not.toHaveBeenCalled();
+    randomSpy.mockRestore();
+  });
+
+  test('regenerate deve usar uma nova semente', () => {
+    const original = generator.generate({ ...baseConfig, seed: 7 });
+    const regenerated = generator.regenerate({ ...baseConfig, seed: 7 });
+
+    expect(regenerated.seed).not.toBe(original.seed);
+    expect(regenerated.heightMap).toHaveLength(baseConfig.width);
+  });
+
+  describe('modos de geração', () => {
+    const seeds = [1, 2, 3, 4, 5];
+
+    test('fractal deve ser determinístico e respeitar a amplitude', () => {
+      const config: ITerrainConfig = { ...baseConfig, mode: TerrainGenerationMode.FRACTAL, amplitude: 60, baseHeight: 200 };
+
+      for (const seed of seeds) {
+        const terrain = generator.generate({ ...config, seed });
+
+        expect(new TerrainGenerator().generate({ ...config, seed }).heightMap).toEqual(terrain.heightMap);
+        expect(Math.min(...terrain.heightMap)).toBeGreaterThanOrEqual(140);
+        expect(Math.max(...terrain.heightMap)).toBeLessThanOrEqual(260);
+        expectFlatPlatforms(terrain);
+      }
+    });
+
+    test('arquipélago deve separar as ilhas com vãos e ter uma plataforma plana por ilha', () => {
+      for (const seed of seeds) {
+        const terrain = generator.generate({ ...baseConfig, mode: TerrainGenerationMode.ISLANDS, islandCount: 3, seed });
+
+        // Conta os trechos contínuos de colunas sem terreno
+        let gaps = 0;
+        terrain.heightMap.forEach((height, x) => {
+          if (height >= terrain.height && (x === 0 || terrain.heightMap[x - 1] < terrain.height)) {
+            gaps++;
+          }
+        });
+
+        expect(gaps).toBe(2);
+        expect(terrain.platforms).toHaveLength(3);
+        expectFlatPlatforms(terrain);
+      }
+    });
+
+    test('vale deve gerar um mapa de duelo espelhado com largadas na mesma altura', () => {
+      for (const seed of seeds) {
+        const terrain = generator.generate({ ...baseConfig, mode: TerrainGenerationMode.VALLEY, seed });
+        const [left, right] = terrain.platforms;
+
+        expect(terrain.heightMap).toEqual([...terrain.heightMap].reverse());
+        expect(terrain.platforms).toHaveLength(2);
+        expect(right.y).toBe(left.y);
+        expect(left.x + left.width).toBeLessThan(baseConfig.width / 2);
+        expect(right.x).toBeGreaterThan(baseConfig.width / 2);
+
+        // O centro do vale fica abaixo das largadas
+        expect(terrain.heightMap[baseConfig.width / 2]).toBeGreaterThan(left.y);
+        expectFlatPlatforms(terrain);
+      }
+    });
+
+    test('ilhas suspensas devem ter ar entre a base e o chão', () => {
+      for (const seed of seeds) {
+        const terrain = generator.generate({ ...baseConfig, mode: TerrainGenerationMode.FLOATING_ISLANDS, islandCount: 3, seed });
+
+        expect(terrain.mask).toBeDefined();
+        expect(terrain.platforms).toHaveLength(3);
+        expectFlatPlatforms(terrain);
+
+        for (const platform of terrain.platforms) {
+          const centerX = platform.x + Math.floor(platform.width / 2);
+
+          expect(terrain.mask.isSolid(centerX, platform.y)).toBe(true);
+          expect(terrain.mask.isSolid(centerX, platform.y - 1)).toBe(false);
+
+          // Procura o vão de ar abaixo da ilha
+          let y = platform.y;
+          while (terrain.mask.isSolid(centerX, y)) y++;
+          expect(terrain.mask.isSolid(centerX, y + 20)).toBe(false);
+        }
+      }
+    });
+  });
+});
@@ -0,0 +1,65 @@
+import { TerrainImageLoader, ImageTerrainMode } from '../../../systems/terrain/terrain-image-loader';
+
+// O carregamento de pixels não depende do PIXI
+jest.mock('pixi.js', () => ({}));
+
+/**
+ * Cria pixels RGBA a partir de uma função por pixel
+ */
+const createPixels = (
+  width: number,
+  height: number,
+  pixel: (x: number, y: number) => [number, number, number, number]
+): Uint8ClampedArray => {
+  const pixels = new Uint8ClampedArray(width * height * 4);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      pixels.set(pixel(x, y), (y * width + x) * 4);
+    }
+  }
+
+  return pixels;
+};
+
+describe('TerrainImageLoader', () => {
+  let loader: TerrainImageLoader;
+
+  beforeEach(() => {
+    loader = new TerrainImageLoader();
+  });
+
+  test('silhueta deve usar o canal alfa como máscara, preservando cavernas', () => {
+    // Chão a partir de y=10, com uma caverna transparente entre y=14 e y=16 nas colunas 3-5
+    const pixels = createPixels(10, 20, (x, y) => {
+      const cave = x >= 3 && x <= 5 && y >= 14 && y <= 16;
+      return [90, 60, 40, y >= 10 && !cave ? 255 : 0];
+    });
+
+    const terrain = loader.fromPixels(pixels, 10, 20);
+
+    expect(terrain.width).toBe(10);
+    expect(terrain.height).toBe(20);
+    expect(terrain.heightMap[0]).toBe(10);
+    expect(terrain.mask.isSolid(4, 12)).toBe(true);
+    expect(terrain.mask.isSolid(4, 15)).toBe(false);
+    expect(terrain.mask.isSolid(4, 18)).toBe(true);
+  });
+
+  test('mapa de altura em escala de cinza deve usar o brilho de cada coluna', () => {
+    // Coluna 0 preta (vale), coluna 1 cinza médio, coluna 2 branca (pico)
+    const levels = [0, 255 / 2, 255];
+    const pixels = createPixels(3, 100, (x) => [levels[x], levels[x], levels[x], 255]);
+
+    const terrain = loader.fromPixels(pixels, 3, 100, { mode: ImageTerrainMode.HEIGHTMAP });
+
+    expect(terrain.heightMap[0]).toBeCloseTo(100);
+    expect(terrain.heightMap[1]).toBeCloseTo(50, 0);
+    expect(terrain.heightMap[2]).toBeCloseTo(0);
+    expect(terrain.mask).toBeUndefined();
+  });
+
+  test('deve rejeitar pixels com tamanho incompatível', () => {
+    expect(() => loader.fromPixels(new Uint8ClampedArray(10), 10, 10)).toThrow(/Imagem de terreno inválida/);
+  });
+});
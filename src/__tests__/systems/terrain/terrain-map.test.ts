@@ -0,0 +1,99 @@
+import { TerrainMapSerializer, TerrainMapError, TERRAIN_MAP_VERSION } from '../../../systems/terrain/terrain-map';
+import { TerrainGenerator } from '../../../systems/terrain/terrain-generator';
+import { LiquidType } from '../../../systems/terrain/terrain-data';
+
+describe('TerrainMapSerializer', () => {
+  let serializer: TerrainMapSerializer;
+
+  beforeEach(() => {
+    serializer = new TerrainMapSerializer();
+  });
+
+  test('deve reproduzir um terreno de mapa de altura após exportar e importar', () => {
+    const terrain = new TerrainGenerator().generate({ width: 200, height: 150, seed: 99 });
+    const spawnPoints = [{ x: 20, y: 100, team: 0 }, { x: 180, y: 100, team: 1 }];
+
+    const json = JSON.stringify(serializer.serialize(terrain, {
+      name: 'Arena',
+      spawnPoints,
+      windPresets: [{ name: 'Brisa', direction: 90, force: 2 }],
+      theme: { terrainColor: 0x336699 }
+    }));
+    const map = serializer.parse(json);
+    const loaded = serializer.toTerrainData(map);
+
+    expect(map.version).toBe(TERRAIN_MAP_VERSION);
+    expect(map.name).toBe('Arena');
+    expect(map.spawnPoints).toEqual(spawnPoints);
+    expect(map.theme.terrainColor).toBe(0x336699);
+    expect(loaded.heightMap).toEqual(terrain.heightMap);
+    expect(loaded.platforms).toEqual(terrain.platforms);
+    expect(loaded.seed).toBe(99);
+  });
+
+  test('deve reproduzir a máscara de pixels, incluindo túneis', () => {
+    const terrain = new TerrainGenerator().generate({ width: 120, height: 80, seed: 5, useMask: true });
+    terrain.mask.carveCircle(60, 70, 6);
+
+    const map = serializer.parse(JSON.stringify(serializer.serialize(terrain)));
+    const loaded = serializer.toTerrainData(map);
+
+    expect(map.heightMap).toBeUndefined();
+    expect(Array.from(loaded.mask.getData())).toEqual(Array.from(terrain.mask.getData()));
+    expect(loaded.heightMap).toEqual(terrain.mask.toHeightMap());
+  });
+
+  test('deve listar todos os problemas de um arquivo malformado', () => {
+    const malformed = {
+      version: TERRAIN_MAP_VERSION,
+      width: 10,
+      height: -5,
+      heightMap: [1, 2, 3],
+      spawnPoints: [{ x: 'a', y: 1 }],
+      windPresets: [{ direction: 0, force: 50 }]
+    };
+
+    let caught: unknown = null;
+
+    try {
+      serializer.parse(malformed);
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(TerrainMapError);
+    const issues = (caught as TerrainMapError).issues;
+
+    expect(issues).toContain('campo "height" deve ser um inteiro positivo');
+    expect(issues).toContain('spawnPoints[0] deve ter "x" e "y" numéricos');
+    expect(issues).toContain('windPresets[0] deve ter "force" entre 0 e 10');
+  });
+
+  test('deve rejeitar JSON inválido e versões futuras', () => {
+    expect(() => serializer.parse('{ mapa')).toThrow(TerrainMapError);
+    expect(() => serializer.parse({
+      version: TERRAIN_MAP_VERSION + 1,
+      width: 10,
+      height: 10,
+      heightMap: new Array(10).fill(5)
+    })).toThrow(/não suportada/);
+  });
+
+  test('deve gravar e validar o nível do líquido do mapa', () => {
+    const terrain = new TerrainGenerator().generate({
+      width: 100, height: 80, seed: 3, liquid: { type: LiquidType.LAVA, level: 70, damagePerTurn: 15 }
+    });
+
+    const loaded = serializer.toTerrainData(serializer.parse(JSON.stringify(serializer.serialize(terrain))));
+    expect(loaded.liquid).toEqual({ type: LiquidType.LAVA, level: 70, damagePerTurn: 15 });
+
+    expect(() => serializer.parse({
+      version: 1, width: 10, height: 10, heightMap: new Array(10).fill(5), liquid: { type: 'mel', level: 20 }
+    })).toThrow(/liquid.type deve ser um entre: water, lava; liquid.level deve ser um número entre 0 e 10/);
+  });
+
+  test('deve exigir dados do terreno', () => {
+    expect(() => serializer.parse({ version: 1, width: 10, height: 10 }))
+      .toThrow('o mapa deve conter "heightMap" ou "mask"');
+  });
+});
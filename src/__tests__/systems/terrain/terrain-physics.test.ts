@@ -0,0 +1,138 @@
+import { TerrainPhysics } from '../../../systems/terrain/terrain-physics';
+import { TerrainMask } from '../../../systems/terrain/terrain-mask';
+import { ITerrainData, DeformationShape } from '../../../systems/terrain/terrain-data';
+
+/**
+ * Cria um terreno plano com a superfície na altura indicada
+ */
+const createFlatTerrain = (width: number, height: number, surface: number, useMask: boolean): ITerrainData => {
+  const heightMap = new Array(width).fill(surface);
+  const terrainData: ITerrainData = { heightMap, width, height };
+
+  if (useMask) {
+    terrainData.mask = TerrainMask.fromHeightMap(heightMap, width, height);
+  }
+
+  return terrainData;
+};
+
+describe('TerrainPhysics', () => {
+  let physics: TerrainPhysics;
+
+  beforeEach(() => {
+    physics = new TerrainPhysics();
+  });
+
+  describe('com mapa de altura', () => {
+    test('deve detectar colisão abaixo da superfície', () => {
+      physics.initialize(createFlatTerrain(100, 100, 50, false));
+
+      expect(physics.checkCollision(20, 60).collision).toBe(true);
+      expect(physics.checkCollision(20, 40).collision).toBe(false);
+    });
+
+    test('a normal da superfície deve apontar para fora do terreno', () => {
+      const terrain = createFlatTerrain(100, 100, 50, false);
+      terrain.heightMap = terrain.heightMap.map((height, x) => (x < 50 ? height : height - (x - 50)));
+      physics.initialize(terrain);
+
+      const flat = physics.checkCollision(20, 60).normal;
+      expect(flat.x).toBeCloseTo(0);
+      expect(flat.y).toBeCloseTo(-1);
+
+      // Rampa subindo para a direita: normal para cima e para a esquerda
+      const slope = physics.checkCollision(70, 60).normal;
+      expect(slope.x).toBeCloseTo(-Math.SQRT1_2);
+      expect(slope.y).toBeCloseTo(-Math.SQRT1_2);
+    });
+
+    test('preenchimento deve elevar a superfície', () => {
+      physics.initialize(createFlatTerrain(100, 100, 50, false));
+
+      const result = physics.applyDeformation({ x: 50, y: 50, radius: 10, isFill: true });
+
+      expect(result.heightMap[50]).toBe(40);
+      expect(result.heightMap[0]).toBe(50);
+    });
+  });
+
+  describe('deformações com máscara de pixels', () => {
+    beforeEach(() => {
+      physics.initialize(createFlatTerrain(100, 100, 60, true));
+    });
+
+    test('preenchimento retangular no ar deve criar uma ponte', () => {
+      const result = physics.applyDeformation({
+        x: 50, y: 20, radius: 0, isFill: true,
+        shape: DeformationShape.RECTANGLE, width: 40, height: 4
+      });
+
+      expect(physics.checkCollision(50, 20).collision).toBe(true);
+      expect(physics.checkCollision(50, 40).collision).toBe(false);
+      expect(result.heightMap[50]).toBe(18);
+      expect(result.heightMap[10]).toBe(60);
+    });
+
+    test('remoção retangular deve abrir uma trincheira', () => {
+      physics.applyDeformation({
+        x: 50, y: 60, radius: 0, isFill: false,
+        shape: DeformationShape.RECTANGLE, width: 10, height: 20
+      });
+
+      expect(physics.checkCollision(50, 65).collision).toBe(false);
+      expect(physics.checkCollision(50, 75).collision).toBe(true);
+    });
+  });
+
+  describe('com máscara de pixels', () => {
+    beforeEach(() => {
+      physics.initialize(createFlatTerrain(100, 100, 30, true));
+    });
+
+    test('deve detectar colisão por pixel', () => {
+      expect(physics.checkCollision(20, 40).collision).toBe(true);
+      expect(physics.checkCollision(20, 20).collision).toBe(false);
+    });
+
+    test('explosão subterrânea deve abrir um túnel mantendo a superfície', () => {
+      const updated = physics.applyExplosion({ x: 50, y: 60, radius: 10 });
+
+      // O centro da explosão agora é ar
+      expect(physics.checkCollision(50, 60).collision).toBe(false);
+
+      // A superfície acima do túnel continua sólida
+      expect(physics.checkCollision(50, 35).collision).toBe(true);
+      expect(updated.heightMap[50]).toBe(30);
+
+      // O chão abaixo do túnel continua sólido
+      expect(physics.checkCollision(50, 80).collision).toBe(true);
+    });
+
+    test('explosão na superfície deve rebaixar o mapa de altura', () => {
+      const updated = physics.applyExplosion({ x: 50, y: 30, radius: 10 });
+
+      expect(updated.heightMap[50]).toBeGreaterThan(30);
+      expect(updated.heightMap[0]).toBe(30);
+    });
+
+    test('deve calcular a normal a partir da máscara', () => {
+      // Superfície plana: normal para cima
+      const flat = physics.checkCollision(20, 31);
+      expect(flat.normal.y).toBeLessThan(-0.9);
+
+      // Teto de um túnel: normal para baixo
+      physics.applyExplosion({ x: 50, y: 60, radius: 10 });
+      const ceiling = physics.checkCollision(50, 49);
+      expect(ceiling.collision).toBe(true);
+      expect(ceiling.normal.y).toBeGreaterThan(0.9);
+    });
+
+    test('explosão não deve alterar os dados anteriores', () => {
+      const original = physics.getTerrainData();
+
+      physics.applyExplosion({ x: 50, y: 60, radius: 10 });
+
+      expect(original.mask.isSolid(50, 60)).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { TerrainSpawnPlanner, SpawnPlacementError } from '../../../systems/terrain/terrain-spawn-planner';
+import { TerrainGenerator } from '../../../systems/terrain/terrain-generator';
+import { ITerrainData, TerrainGenerationMode } from '../../../systems/terrain/terrain-data';
+
+describe('TerrainSpawnPlanner', () => {
+  let planner: TerrainSpawnPlanner;
+
+  beforeEach(() => {
+    planner = new TerrainSpawnPlanner();
+  });
+
+  test('deve garantir uma posição por jogador em vários mapas', () => {
+    for (let seed = 1; seed <= 10; seed++) {
+      const terrain = new TerrainGenerator().generate({ width: 800, height: 600, seed });
+      const positions = planner.plan(terrain, 2, 300);
+
+      expect(positions).toHaveLength(2);
+      expect(Math.hypot(positions[0].x - positions[1].x, positions[0].y - positions[1].y)).toBeGreaterThanOrEqual(300);
+    }
+  });
+
+  test('deve respeitar o lado de cada equipe e alternar jogadores entre elas', () => {
+    const terrain = new TerrainGenerator().generate({ width: 1200, height: 600, seed: 3 });
+    const positions = planner.plan(terrain, 4, 100, { teamCount: 2 });
+
+    expect(positions.map(p => p.team)).toEqual([0, 1, 0, 1]);
+
+    for (const position of positions) {
+      const isLeft = position.x < terrain.width / 2;
+      expect(isLeft).toBe(position.team === 0);
+    }
+  });
+
+  test('deve equilibrar a vantagem de altura entre as equipes', () => {
+    // Rampa contínua: a equipe da direita teria vantagem se as posições fossem sorteadas
+    const heightMap = Array.from({ length: 800 }, (_, x) => 550 - x * 0.3);
+    const terrain: ITerrainData = { heightMap, width: 800, height: 600 };
+
+    const [left, right] = planner.plan(terrain, 2, 200);
+
+    expect(Math.abs(left.y - right.y)).toBeLessThan(130);
+    expect(left.team).toBe(0);
+    expect(right.team).toBe(1);
+  });
+
+  test('deve evitar vãos de água e encostas íngremes', () => {
+    const terrain = new TerrainGenerator().generate({
+      width: 800, height: 600, seed: 8, mode: TerrainGenerationMode.ISLANDS, islandCount: 3
+    });
+
+    for (const position of planner.plan(terrain, 3, 150)) {
+      expect(position.y).toBeLessThan(terrain.height);
+      expect(position.slope).toBeLessThanOrEqual(1);
+    }
+  });
+
+  test('deve lançar um erro claro quando o mapa não comporta os jogadores', () => {
+    const terrain: ITerrainData = { heightMap: new Array(300).fill(400), width: 300, height: 600 };
+
+    let caught: unknown = null;
+
+    try {
+      planner.plan(terrain, 4, 150);
+    } catch (error) {
+      caught = error;
+    }
+
+    expect(caught).toBeInstanceOf(SpawnPlacementError);
+    expect((caught as SpawnPlacementError).requested).toBe(4);
+    expect((caught as SpawnPlacementError).placed).toBeLessThan(4);
+    expect((caught as Error).message).toMatch(/Não foi possível posicionar 4 jogadores/);
+  });
+});
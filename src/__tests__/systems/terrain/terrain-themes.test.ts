@@ -0,0 +1,43 @@
+import { TerrainTheme, applyTerrainTheme, getTerrainTheme, getTerrainThemes, getThemeLiquid } from '../../../systems/terrain/terrain-themes';
+import { TerrainGenerator } from '../../../systems/terrain/terrain-generator';
+import { CONFIG } from '../../../core/config';
+import { LiquidType } from '../../../systems/terrain/terrain-data';
+
+describe('TerrainThemes', () => {
+  test('deve oferecer uma predefinição completa para cada tema', () => {
+    const themes = getTerrainThemes();
+
+    expect(themes.map(preset => preset.theme).sort()).toEqual(Object.values(TerrainTheme).sort());
+    expect(getTerrainTheme(TerrainTheme.HENESYS).backgroundColor).toBe(CONFIG.SCREEN.BACKGROUND_COLOR);
+
+    for (const preset of themes) {
+      expect(preset.gravityMultiplier).toBeGreaterThan(0);
+      expect(preset.windMultiplier).toBeGreaterThanOrEqual(0);
+      expect(preset.music).toBeDefined();
+    }
+  });
+
+  test('deve aplicar o tema sem sobrescrever ajustes manuais', () => {
+    const config = applyTerrainTheme(TerrainTheme.EL_NATH, { width: 400, height: 200, platformCount: 1 });
+    const preset = getTerrainTheme(TerrainTheme.EL_NATH);
+
+    expect(config.width).toBe(400);
+    expect(config.platformCount).toBe(1);
+    expect(config.amplitude).toBeCloseTo(200 * preset.noise.amplitudeRatio);
+    expect(config.terrainColor).toBe(preset.palette.terrainColor);
+  });
+
+  test('tema em blocos deve gerar alturas em degraus', () => {
+    const config = applyTerrainTheme(TerrainTheme.LUDIBRIUM, { width: 300, height: 200, seed: 7 });
+    const terrain = new TerrainGenerator().generate(config);
+
+    for (const height of terrain.heightMap) {
+      expect(height % config.terrainStep).toBe(0);
+    }
+  });
+
+  test('deve inundar o mapa com o líquido do tema no nível do mar proporcional à altura', () => {
+    expect(getThemeLiquid(TerrainTheme.PERION, 600)).toEqual({ type: LiquidType.LAVA, level: 540 });
+    expect(getThemeLiquid(TerrainTheme.HENESYS, 600)).toBeNull();
+  });
+});
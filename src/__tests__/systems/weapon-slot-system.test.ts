@@ -0,0 +1,50 @@
+import { WeaponSlotSystem, WeaponSlot } from '../../systems/weapon-slot-system';
+import { Vehicle } from '../../entities/vehicle';
+import { WeaponType } from '../../entities/vehicles/types';
+
+// Veículo mínimo com as armas e a carga do especial
+const createVehicle = (): Vehicle => ({
+  id: 1,
+  primaryWeapon: WeaponType.CANNON,
+  secondaryWeapon: WeaponType.BOMB,
+  specialWeapon: WeaponType.FRAG_BOMB,
+  specialAbilityCharge: 0,
+  maxSpecialAbilityCharge: 100,
+  useSpecialAbility: jest.fn(),
+  chargeSpecialAbility(this: Vehicle, amount: number) {
+    this.specialAbilityCharge = Math.min(this.maxSpecialAbilityCharge, this.specialAbilityCharge + amount);
+  }
+}) as unknown as Vehicle;
+
+describe('WeaponSlotSystem', () => {
+  test('o Tiro 2 deve ficar indisponível até o fim da espera, contada nos turnos do veículo', () => {
+    const slots = new WeaponSlotSystem();
+    const vehicle = createVehicle();
+
+    expect(slots.select(vehicle, WeaponSlot.SECONDARY)).toBe(true);
+    slots.consume(vehicle, WeaponSlot.SECONDARY);
+
+    // Espera padrão de dois turnos
+    expect(slots.getSelected()).toBe(WeaponSlot.PRIMARY);
+    expect(slots.isAvailable(vehicle, WeaponSlot.SECONDARY)).toBe(false);
+    slots.startTurn(vehicle);
+    expect(slots.getStates(vehicle)[1]).toMatchObject({ weapon: WeaponType.BOMB, available: false, cooldown: 1 });
+    slots.startTurn(vehicle);
+    expect(slots.isAvailable(vehicle, WeaponSlot.SECONDARY)).toBe(true);
+  });
+
+  test('o especial deve ser liberado pela carga acumulada nos disparos comuns', () => {
+    const slots = new WeaponSlotSystem({ specialChargePerShot: 50 });
+    const vehicle = createVehicle();
+
+    slots.consume(vehicle, WeaponSlot.PRIMARY);
+    expect(slots.getStates(vehicle)[2]).toMatchObject({ available: false, charge: 0.5 });
+
+    slots.consume(vehicle, WeaponSlot.PRIMARY);
+    expect(slots.select(vehicle, WeaponSlot.SPECIAL)).toBe(true);
+    expect(slots.getWeapon(vehicle, WeaponSlot.SPECIAL)).toBe(WeaponType.FRAG_BOMB);
+
+    slots.consume(vehicle, WeaponSlot.SPECIAL);
+    expect(vehicle.useSpecialAbility).toHaveBeenCalled();
+  });
+});
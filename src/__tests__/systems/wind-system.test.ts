@@ -0,0 +1,49 @@
+import { WindSystem, WindMode, WindEventType } from '../../systems/wind-system';
+import { EventCoordinator } from '../../core/event-coordinator';
+import { GameEventType, WindPayload } from '../../utils/game-events';
+
+describe('WindSystem', () => {
+  test('deve emitir WIND_CHANGED com direção, força e vetor do vento', () => {
+    const wind = new WindSystem({ multiplier: 2 });
+    const onChanged = jest.fn();
+    EventCoordinator.getInstance().on<WindPayload>(GameEventType.WIND_CHANGED, onChanged);
+
+    // Vento para cima: componente Y negativa, como o eixo da tela
+    wind.setWind(90, 3);
+
+    const payload: WindPayload = onChanged.mock.calls[onChanged.mock.calls.length - 1][0];
+    expect(payload.direction).toBe(90);
+    expect(payload.force).toBe(6);
+    expect(payload.vector.x).toBeCloseTo(0);
+    expect(payload.vector.y).toBeCloseTo(-6);
+    expect(payload.isGust).toBe(false);
+  });
+
+  test('o vento fixo não deve mudar entre os turnos', () => {
+    const wind = new WindSystem({ mode: WindMode.FIXED }, () => 0.9);
+    wind.setWind(180, 4);
+
+    wind.nextTurn();
+
+    expect(wind.getWind().direction).toBe(180);
+    expect(wind.getWind().x).toBeCloseTo(-4);
+  });
+
+  test('rajadas devem aumentar a força durante o voo e depois passar', () => {
+    const wind = new WindSystem({ mode: WindMode.GUSTY, gustChance: 1, gustForce: 2, gustDuration: 3 }, () => 0.5);
+    const onChanged = jest.fn();
+    wind.setWind(0, 4);
+    wind.on(WindEventType.WIND_CHANGED, onChanged);
+
+    wind.update(1);
+    expect(wind.getWind().isGust).toBe(true);
+    expect(wind.getWind().force).toBeCloseTo(5.5);
+
+    wind.update(1);
+    wind.update(1);
+    wind.update(1);
+    expect(wind.getWind().isGust).toBe(false);
+    expect(wind.getWind().force).toBe(4);
+    expect(onChanged).toHaveBeenCalledTimes(2);
+  });
+});
@@ -19,7 +19,11 @@ export enum BackgroundMusic {
   MAIN_THEME = 'mainTheme',
   BATTLE = 'battle',
   GAME_OVER = 'gameOver',
-  VICTORY = 'victory'
+  VICTORY = 'victory',
+  HENESYS = 'henesys',
+  EL_NATH = 'elNath',
+  LUDIBRIUM = 'ludibrium',
+  PERION = 'perion'
 }
 
 /**
@@ -151,7 +155,11 @@ export class AudioManager {
       [BackgroundMusic.MAIN_THEME, 'assets/music/main_theme.mp3', true],
       [BackgroundMusic.BATTLE, 'assets/music/battle.mp3', true],
       [BackgroundMusic.GAME_OVER, 'assets/music/game_over.mp3', false],
-      [BackgroundMusic.VICTORY, 'assets/music/victory.mp3', false]
+      [BackgroundMusic.VICTORY, 'assets/music/victory.mp3', false],
+      [BackgroundMusic.HENESYS, 'assets/music/henesys.mp3', true],
+      [BackgroundMusic.EL_NATH, 'assets/music/el_nath.mp3', true],
+      [BackgroundMusic.LUDIBRIUM, 'assets/music/ludibrium.mp3', true],
+      [BackgroundMusic.PERION, 'assets/music/perion.mp3', true]
     ];
     
     // Carrega cada música
@@ -1,6 +1,9 @@
 import { EventEmitter } from 'eventemitter3';
 import { EntityType } from './entity-interfaces';
 import { Terrain } from '../systems/terrain';
+import { LiquidType } from '../systems/terrain/terrain-data';
+import { SweptCollisionDetector, ISweepHit } from '../systems/physics/swept-collision';
+import { DamageResolver } from '../systems/damage-resolver';
 import { 
   PhysicsEntity, 
   OffensiveEntity, 
@@ -19,7 +22,8 @@ export enum CollisionEventType {
   PROJECTILE_BOUNDARY = 'projectileBoundary',
   VEHICLE_TERRAIN = 'vehicleTerrain',
   VEHICLE_VEHICLE = 'vehicleVehicle',
-  VEHICLE_BOUNDARY = 'vehicleBoundary'
+  VEHICLE_BOUNDARY = 'vehicleBoundary',
+  PROJECTILE_LIQUID = 'projectileLiquid' // Projétil caiu no líquido (respingo, sem explosão)
 }
 
 /**
@@ -31,6 +35,8 @@ export interface CollisionEventData {
   point?: { x: number, y: number };
   velocity?: { x: number, y: number };
   damage?: number;
+  liquid?: LiquidType;   // Tipo do líquido atingido
+  time?: number;         // Fração do último passo (0 a 1) em que ocorreu o primeiro contato
 }
 
 /**
@@ -43,12 +49,24 @@ export interface WorldBounds {
   bottom: number;
 }
 
+/**
+ * Raio de colisão dos projéteis
+ */
+const PROJECTILE_RADIUS = 5;
+
+/**
+ * Raio da hitbox dos veículos
+ */
+const VEHICLE_HIT_RADIUS = 20;
+
 /**
  * Classe responsável por gerenciar colisões no jogo
  */
 export class CollisionManager extends EventEmitter {
   private terrain: Terrain;
   private worldBounds: WorldBounds;
+  private sweptDetector: SweptCollisionDetector = new SweptCollisionDetector();
+  private damageResolver: DamageResolver = new DamageResolver();
   
   /**
    * Inicializa o gerenciador de colisões
@@ -69,55 +87,90 @@ export class CollisionManager extends EventEmitter {
   checkProjectileCollisions(projectiles: IProjectile[], vehicles: IVehicle[]): void {
     // Para cada projétil
     for (const projectile of projectiles) {
-      // Verifica se está fora dos limites
-      if (this.isOutOfBounds(projectile.position.x, projectile.position.y)) {
-        this.emit(CollisionEventType.PROJECTILE_BOUNDARY, {
-          type: CollisionEventType.PROJECTILE_BOUNDARY,
-          entities: [projectile],
-          point: { ...projectile.position }
-        });
-        continue;
-      }
+      // Varre o segmento percorrido no último passo, não só a posição final
+      const from = projectile.previousPosition || projectile.position;
+      const to = projectile.position;
       
-      // Verifica colisão com o terreno
-      if (this.hasHitTerrain(projectile.position.x, projectile.position.y)) {
-        this.emit(CollisionEventType.PROJECTILE_TERRAIN, {
-          type: CollisionEventType.PROJECTILE_TERRAIN,
-          entities: [projectile],
-          point: { ...projectile.position }
-        });
-        continue;
-      }
+      const liquidHit = this.sweptDetector.sweepSolid(from, to, (x, y) =>
+        !this.isOutOfBounds(x, y) && this.isInLiquid(x, y)
+      );
+      const terrainHit = this.sweptDetector.sweepSolid(from, to, (x, y) =>
+        !this.isOutOfBounds(x, y) && this.hasHitTerrain(x, y)
+      );
+      
+      // Primeiro veículo inimigo tocado no percurso
+      let vehicleHit: ISweepHit | null = null;
+      let hitVehicle: IVehicle | null = null;
       
-      // Verifica colisão com veículos
       for (const vehicle of vehicles) {
         // Ignora veículos do mesmo jogador
         if (vehicle.playerIndex === projectile.ownerIndex) {
           continue;
         }
         
-        // Verifica colisão com o veículo
-        if (this.checkCircleCollision(
-          projectile.position.x, projectile.position.y, 5,
-          vehicle.position.x, vehicle.position.y, 20
-        )) {
-          // Calcula o dano baseado na velocidade do projétil
-          const velocity = Math.sqrt(
-            projectile.velocity.x * projectile.velocity.x +
-            projectile.velocity.y * projectile.velocity.y
-          );
-          const damage = Math.floor(velocity * 10); // Fórmula simples para dano
-          
-          // Emite evento de colisão
-          this.emit(CollisionEventType.PROJECTILE_VEHICLE, {
-            type: CollisionEventType.PROJECTILE_VEHICLE,
-            entities: [projectile, vehicle],
-            point: { ...projectile.position },
-            velocity: { ...projectile.velocity },
-            damage
+        const hit = this.sweptDetector.sweepCircle(
+          from, to, vehicle.position, PROJECTILE_RADIUS + VEHICLE_HIT_RADIUS
+        );
+        
+        if (hit && (!vehicleHit || hit.time < vehicleHit.time)) {
+          vehicleHit = hit;
+          hitVehicle = vehicle;
+        }
+      }
+      
+      // Vale o primeiro contato; em empate, líquido antes de terreno antes de veículo
+      const first = [liquidHit, terrainHit, vehicleHit]
+        .filter((hit): hit is ISweepHit => hit !== null)
+        .reduce<ISweepHit | null>((best, hit) => (!best || hit.time < best.time ? hit : best), null);
+      
+      // Sem contato no percurso: verifica se saiu dos limites
+      if (!first) {
+        if (this.isOutOfBounds(to.x, to.y)) {
+          this.emit(CollisionEventType.PROJECTILE_BOUNDARY, {
+            type: CollisionEventType.PROJECTILE_BOUNDARY,
+            entities: [projectile],
+            point: { ...to }
           });
-          break;
         }
+        continue;
+      }
+      
+      // Caiu no líquido: o projétil respinga e para, sem explodir
+      if (first === liquidHit) {
+        this.emit(CollisionEventType.PROJECTILE_LIQUID, {
+          type: CollisionEventType.PROJECTILE_LIQUID,
+          entities: [projectile],
+          point: { x: first.point.x, y: this.terrain.getLiquid().getLevel() },
+          velocity: { ...projectile.velocity },
+          liquid: this.terrain.getLiquid().getType(),
+          time: first.time
+        });
+      }
+      else if (first === terrainHit) {
+        this.emit(CollisionEventType.PROJECTILE_TERRAIN, {
+          type: CollisionEventType.PROJECTILE_TERRAIN,
+          entities: [projectile],
+          point: first.point,
+          time: first.time
+        });
+      }
+      else if (hitVehicle) {
+        // Acerto direto: dano da arma com o bônus de acerto direto
+        const damage = this.damageResolver.calculateDamage(
+          { baseDamage: projectile.damage, splashRadius: projectile.damageRadius },
+          0,
+          true
+        );
+        
+        // Emite evento de colisão
+        this.emit(CollisionEventType.PROJECTILE_VEHICLE, {
+          type: CollisionEventType.PROJECTILE_VEHICLE,
+          entities: [projectile, hitVehicle],
+          point: first.point,
+          velocity: { ...projectile.velocity },
+          damage,
+          time: first.time
+        });
       }
     }
   }
@@ -208,6 +261,16 @@ export class CollisionManager extends EventEmitter {
     );
   }
   
+  /**
+   * Verifica se uma posição está submersa no líquido do mapa
+   * @param x Coordenada X
+   * @param y Coordenada Y
+   * @returns Verdadeiro se estiver abaixo da superfície do líquido
+   */
+  isInLiquid(x: number, y: number): boolean {
+    return this.terrain.isInLiquid(x, y);
+  }
+  
   /**
    * Verifica se uma posição colidiu com o terreno
    * @param x Coordenada X
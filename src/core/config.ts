@@ -15,6 +15,8 @@ export const CONFIG = {
     WIND_MAX: 10,
     WIND_MIN: -10,
     WIND_STRENGTH: 1.0, // Multiplicador para a força do vento
+    FIXED_STEP: 1, // Duração do passo fixo da simulação (1 = um quadro a 60 FPS)
+    MAX_STEPS_PER_FRAME: 5, // Limite de passos por quadro para quadros muito lentos
   },
   
   // Configurações de jogo
@@ -222,6 +222,7 @@ export class OriginalProjectileAdapter implements IProjectile {
   type: EntityType = EntityType.PROJECTILE;
   container: PIXI.Container;
   position: { x: number, y: number };
+  previousPosition: { x: number, y: number };
   velocity: { x: number, y: number };
   acceleration: { x: number, y: number };
   mass: number;
@@ -238,6 +239,7 @@ export class OriginalProjectileAdapter implements IProjectile {
     // Inicializamos os campos adaptados
     this.container = new PIXI.Container();
     this.position = { x, y };
+    this.previousPosition = { x, y };
     this.velocity = { x: velocityX, y: velocityY };
     this.acceleration = { x: 0, y: 0.1 }; // Gravidade
     this.mass = 1;
@@ -249,6 +251,9 @@ export class OriginalProjectileAdapter implements IProjectile {
   }
 
   update(delta: number): void {
+    // Guarda a posição de partida do passo para a detecção contínua de colisões
+    this.previousPosition = { ...this.position };
+    
     // Delega para o projétil original
     if (this.originalProjectile.update) {
       this.originalProjectile.update(delta);
@@ -87,6 +87,7 @@ export interface IVehicle extends PhysicsEntity, DamageableEntity, PlayerOwnedEn
  * Interface para projéteis
  */
 export interface IProjectile extends PhysicsEntity, OffensiveEntity {
+  previousPosition?: { x: number, y: number }; // Posição no início do último passo, para a detecção contínua
   timeToLive: number;
   hasExploded: boolean;
   explode(): void;
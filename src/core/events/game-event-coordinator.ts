@@ -1,5 +1,11 @@
 import { EventEmitter, EventCallback } from '../../utils/event-emitter';
 import { GameSystems } from '../interfaces/game-systems';
+import { ProjectileEventType, ProjectileImpactData, ProjectileBeamData } from '../../systems/projectile-manager';
+import { DamageResolver } from '../../systems/damage-resolver';
+import { VehicleEventType, VehicleDestructionCause } from '../../entities/vehicle-manager';
+import { Vehicle } from '../../entities/vehicle';
+import { EventCoordinator } from '../event-coordinator';
+import { GameEventType, EventPayloadFactory } from '../../utils/game-events';
 
 /**
  * Interface para o coordenador de eventos do jogo
@@ -45,6 +51,10 @@ export class GameEventCoordinator implements IGameEventCoordinator {
   private systems: GameSystems;
   private eventEmitter: EventEmitter = new EventEmitter();
   private eventHandlers: Map<string, EventCallback> = new Map();
+  private damageResolver: DamageResolver = new DamageResolver();
+  private onVehicleDestroyed: ((vehicle: Vehicle, cause: VehicleDestructionCause) => void) | null = null;
+  private resolvingImpact: boolean = false; // Um impacto está sendo resolvido: a partida só é decidida no fim dele
+  private outcomePending: boolean = false;  // Algum veículo foi destruído durante o impacto em resolução
   private initialized: boolean = false;
   
   /**
@@ -100,7 +110,66 @@ export class GameEventCoordinator implements IGameEventCoordinator {
    * Configura os eventos relacionados a veículos
    */
   private setupVehicleEvents(): void {
-    // Implementação será feita na versão final
+    const { vehicleManager } = this.systems;
+    
+    // Veículos destruídos (por dano, queda ou saída do mapa) podem encerrar a partida
+    this.onVehicleDestroyed = (vehicle: Vehicle, cause: VehicleDestructionCause): void => {
+      EventCoordinator.getInstance().emit(GameEventType.VEHICLE_DESTROYED, {
+        ...EventPayloadFactory.createVehiclePayload(
+          vehicle.id,
+          vehicle.type,
+          vehicle.playerId,
+          { ...vehicle.position },
+          0,
+          vehicle.maxHealth
+        ),
+        cause
+      });
+      
+      // Um mesmo impacto pode destruir vários veículos: o resultado espera o fim dele
+      if (this.resolvingImpact) {
+        this.outcomePending = true;
+      } else {
+        this.checkMatchOutcome();
+      }
+    };
+    
+    vehicleManager.on(VehicleEventType.VEHICLE_DESTROYED, this.onVehicleDestroyed);
+  }
+  
+  /**
+   * Encerra a partida quando restam veículos de um só jogador (vitória) ou de nenhum (empate)
+   */
+  private checkMatchOutcome(): void {
+    const { vehicleManager, gameStateManager } = this.systems;
+    if (!gameStateManager.isPlaying()) return;
+    
+    // Veículos destruídos ficam com vida zero, mesmo enquanto ainda estão na lista
+    const survivors = vehicleManager.getAllVehicles().filter(v => v.health > 0);
+    const players = new Set(survivors.map(v => v.playerId));
+    
+    if (players.size <= 1) {
+      gameStateManager.endGame(survivors.length > 0 ? survivors[0].playerId : -1);
+    }
+  }
+  
+  /**
+   * Resolve por inteiro um impacto (dano, empurrão e destruições) antes de decidir a partida
+   * @param resolve Aplica os efeitos do impacto
+   */
+  private resolveImpact(resolve: () => void): void {
+    this.resolvingImpact = true;
+    
+    try {
+      resolve();
+    } finally {
+      this.resolvingImpact = false;
+    }
+    
+    if (this.outcomePending) {
+      this.outcomePending = false;
+      this.checkMatchOutcome();
+    }
   }
   
   /**
@@ -114,7 +183,61 @@ export class GameEventCoordinator implements IGameEventCoordinator {
    * Configura os eventos relacionados a projéteis
    */
   private setupProjectileEvents(): void {
-    // Implementação será feita na versão final
+    const { projectileManager, vehicleManager } = this.systems;
+    
+    // Projéteis e feixes atingem os veículos em jogo
+    projectileManager.setTargets(() => vehicleManager.getAllVehicles());
+    
+    // Explosões causam dano aos veículos próximos e os empurram
+    const onImpact = (impact: ProjectileImpactData): void => this.resolveImpact(() => {
+      this.damageResolver.apply(
+        {
+          position: { x: impact.x, y: impact.y },
+          profile: impact.profile,
+          sourceId: impact.sourceId,
+          sourcePlayerId: impact.playerId,
+          directHitTargetId: impact.directHitTargetId
+        },
+        vehicleManager.getAllVehicles(),
+        (vehicle, amount) => vehicleManager.damageVehicle(vehicle.id, amount)
+      );
+      
+      vehicleManager.applyBlast(impact.x, impact.y, impact.profile.splashRadius, impact.profile.knockback);
+    });
+    
+    projectileManager.on(ProjectileEventType.PROJECTILE_IMPACT, onImpact);
+    this.eventHandlers.set(ProjectileEventType.PROJECTILE_IMPACT, onImpact);
+    
+    // Feixes atingem em cheio cada veículo atravessado, sem dano em área nem empurrão
+    const onBeam = (beam: ProjectileBeamData): void => this.resolveImpact(() => {
+      for (const hit of beam.hits) {
+        const vehicle = vehicleManager.getVehicleById(hit.target.id);
+        if (!vehicle) continue;
+        
+        this.damageResolver.apply(
+          {
+            position: hit.point,
+            profile: beam.profile,
+            sourceId: beam.sourceId,
+            sourcePlayerId: beam.playerId,
+            directHitTargetId: vehicle.id
+          },
+          [vehicle],
+          (target, amount) => vehicleManager.damageVehicle(target.id, amount)
+        );
+      }
+    });
+    
+    projectileManager.on(ProjectileEventType.PROJECTILE_BEAM, onBeam);
+    this.eventHandlers.set(ProjectileEventType.PROJECTILE_BEAM, onBeam);
+  }
+  
+  /**
+   * Obtém o resolvedor de dano usado nos impactos (ex: para aplicar as regras da partida)
+   * @returns Resolvedor de dano
+   */
+  getDamageResolver(): DamageResolver {
+    return this.damageResolver;
   }
   
   /**
@@ -165,6 +288,22 @@ export class GameEventCoordinator implements IGameEventCoordinator {
     // Remover todos os event listeners
     this.eventEmitter.removeAllListeners();
     
+    // Remover os ouvintes registrados nos sistemas
+    const onImpact = this.eventHandlers.get(ProjectileEventType.PROJECTILE_IMPACT);
+    if (onImpact) {
+      this.systems.projectileManager.off(ProjectileEventType.PROJECTILE_IMPACT, onImpact);
+    }
+    
+    const onBeam = this.eventHandlers.get(ProjectileEventType.PROJECTILE_BEAM);
+    if (onBeam) {
+      this.systems.projectileManager.off(ProjectileEventType.PROJECTILE_BEAM, onBeam);
+    }
+    
+    if (this.onVehicleDestroyed) {
+      this.systems.vehicleManager.off(VehicleEventType.VEHICLE_DESTROYED, this.onVehicleDestroyed);
+      this.onVehicleDestroyed = null;
+    }
+    
     // Limpar mapa de handlers
     this.eventHandlers.clear();
     
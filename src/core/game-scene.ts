@@ -1,19 +1,25 @@
 import * as PIXI from 'pixi.js';
 import { Terrain } from '../systems/terrain';
+import { TerrainTheme, ITerrainThemePreset, getTerrainTheme, getThemeLiquid } from '../systems/terrain/terrain-themes';
 import { PhysicsService } from '../systems/physics-service';
+import { PhysicsRules } from '../systems/physics/physics-rules';
 import { VehicleManager } from '../entities/vehicle-manager';
-import { TurnSystem } from '../systems/turn-system';
+import { TurnSystem, TurnEventType } from '../systems/turn-system';
 import { ProjectileManager } from '../systems/projectile-manager';
 import { AimingSystem } from '../systems/aiming-system';
+import { PickupSystem } from '../systems/pickup-system';
+import { ItemType } from '../entities/items';
+import { BeamEffect } from '../systems/effects/beam';
 import { GameStateManager } from './game-state-manager';
-import { AudioManager, BackgroundMusic } from './audio-manager';
+import { AudioManager } from './audio-manager';
 import { BaseScene } from '../scenes/base-scene';
+import { SimulationClock } from './simulation-clock';
 
 // Importando os novos componentes refatorados
 import { GameRenderer, ContainerType, IGameRenderer } from './rendering/game-renderer';
 import { InputHandler, IInputHandler } from './input/input-handler';
 import { GameEventCoordinator, IGameEventCoordinator } from './events/game-event-coordinator';
-import { GameLogicController, IGameLogicController } from './logic/game-logic-controller';
+import { GameLogicController, IGameLogicController, LogicEventType } from './logic/game-logic-controller';
 import { AudioController, IAudioController } from './audio/audio-controller';
 import { UICoordinator, IUICoordinator } from './ui/ui-coordinator';
 import { GameSystems } from './interfaces/game-systems';
@@ -49,6 +55,20 @@ export class GameScene extends BaseScene {
   private projectileManager: ProjectileManager;
   private aimingSystem: AimingSystem;
   private turnSystem: TurnSystem;
+  private pickupSystem: PickupSystem;
+  private beamEffect: BeamEffect;
+  
+  // Tema do mapa escolhido na criação da partida
+  private theme: ITerrainThemePreset;
+  
+  // Regras físicas da partida, antes dos modificadores do tema
+  private rules: PhysicsRules;
+  
+  // Itens que cada jogador leva na bolsa, na ordem dos jogadores
+  private itemLoadouts: ItemType[][];
+  
+  // Relógio de passo fixo que conduz projéteis, veículos e verificações de terreno
+  private simulationClock: SimulationClock = new SimulationClock();
   
   // Sistema de log de erros
   private errorLog: ErrorLogEntry[] = [];
@@ -57,9 +77,20 @@ export class GameScene extends BaseScene {
   /**
    * Inicializa uma nova cena de jogo
    * @param app Aplicação PIXI
+   * @param theme Tema do mapa da partida (padrão: Henesys)
+   * @param rules Regras físicas da partida (padrão: regras padrão)
+   * @param itemLoadouts Itens escolhidos por cada jogador antes da partida (padrão: bolsas vazias)
    */
-  constructor(app: PIXI.Application) {
+  constructor(
+    app: PIXI.Application,
+    theme: TerrainTheme = TerrainTheme.HENESYS,
+    rules: PhysicsRules = new PhysicsRules(),
+    itemLoadouts: ItemType[][] = []
+  ) {
     super(app);
+    this.theme = getTerrainTheme(theme);
+    this.rules = rules;
+    this.itemLoadouts = itemLoadouts;
     
     try {
       // Inicializar os componentes
@@ -137,13 +168,21 @@ export class GameScene extends BaseScene {
         this.renderer.getContainer(ContainerType.TERRAIN),
         this.app.renderer
       );
+      this.terrain.setTheme(this.theme.theme);
       
       // Criar e inicializar o gerenciador de veículos
       this.vehicleManager = new VehicleManager(
         this.renderer.getContainer(ContainerType.VEHICLE),
-        this.physicsService.getPhysicsSystem()
+        this.physicsService.getPhysicsSystem(),
+        this.terrain
       );
       
+      // Veículos acompanham o terreno que some ou desmorona sob eles
+      this.vehicleManager.watchTerrainDeformation();
+      
+      // Os disparos dos veículos são desenhados na camada dos projéteis
+      this.vehicleManager.setProjectileContainer(this.renderer.getContainer(ContainerType.PROJECTILE));
+      
       // Criar e inicializar o gerenciador de projéteis
       this.projectileManager = new ProjectileManager(
         this.renderer.getContainer(ContainerType.PROJECTILE),
@@ -153,6 +192,10 @@ export class GameScene extends BaseScene {
         this.app.screen.height
       );
       
+      // Os feixes traçados (ex: laser) são desenhados na camada dos projéteis
+      this.beamEffect = new BeamEffect(this.renderer.getContainer(ContainerType.PROJECTILE));
+      this.beamEffect.attach(this.projectileManager);
+      
       // Criar e inicializar o sistema de mira
       this.aimingSystem = new AimingSystem(
         this.renderer.getContainer(ContainerType.UI),
@@ -166,6 +209,9 @@ export class GameScene extends BaseScene {
         2
       );
       
+      // Quem termina o turno submerso em lava sofre o dano do líquido
+      this.turnSystem.on(TurnEventType.TURN_ENDED, this.vehicleManager.applyLiquidDamage, this.vehicleManager);
+      
       // Inicializar o controlador de input
       this.inputHandler = new InputHandler();
       if (this.app && this.app.view) {
@@ -218,6 +264,20 @@ export class GameScene extends BaseScene {
       
       // Atualizar o objeto de sistemas com o controlador de lógica
       systems.logicController = this.logicController;
+      this.logicController.initialize(systems);
+      
+      // Caixas do mapa, que entregam itens e bônus a quem as coleta
+      this.pickupSystem = new PickupSystem(
+        this.renderer.getContainer(ContainerType.VEHICLE),
+        this.terrain,
+        this.vehicleManager,
+        this.logicController.getItemSystem()
+      );
+      this.pickupSystem.attach(this.turnSystem, this.projectileManager);
+      this.logicController.on(LogicEventType.GAME_RESTARTED, () => this.pickupSystem.clear());
+      
+      // Aplicar os modificadores do tema do mapa
+      this.applyTheme();
       
       // Configurar tratamento de erros global para eventos
       this.setupErrorHandling();
@@ -227,6 +287,18 @@ export class GameScene extends BaseScene {
     }
   }
   
+  /**
+   * Aplica a cor do céu, o líquido do mapa e as regras físicas da partida com os modificadores do tema do mapa
+   */
+  private applyTheme(): void {
+    this.app.renderer.background.color = this.theme.backgroundColor;
+    this.terrain.setLiquid(getThemeLiquid(this.theme.theme, this.terrain.getHeight()));
+    this.physicsService.setRules(this.rules.with({
+      gravity: this.rules.gravity * this.theme.gravityMultiplier,
+      windMultiplier: this.rules.windMultiplier * this.theme.windMultiplier
+    }));
+  }
+  
   /**
    * Configura o tratamento de erros para eventos e componentes
    */
@@ -292,6 +364,16 @@ export class GameScene extends BaseScene {
    */
   private startGame(): void {
     try {
+      // A simulação da partida começa do passo zero
+      this.simulationClock.reset();
+      
+      // Os itens escolhidos antes da partida enchem as bolsas quando ela começa
+      this.itemLoadouts.forEach((items, playerId) => {
+        if (!this.logicController.setItemLoadout(playerId, items)) {
+          this.logError('startGame', `Os itens do jogador ${playerId} não cabem na bolsa`);
+        }
+      });
+      
       // Iniciar o jogo através do controlador de lógica
       this.logicController.startGame();
       
@@ -302,7 +384,7 @@ export class GameScene extends BaseScene {
       
       // Agora que todos os sistemas foram inicializados e o jogo começou,
       // podemos reproduzir a música de fundo
-      this.audioController.playMusic(BackgroundMusic.MAIN_THEME, 0.5);
+      this.audioController.playMusic(this.theme.music, 0.5);
     } catch (error) {
       this.logError('startGame', 'Erro ao iniciar o jogo', error as Error);
       console.error('Erro ao iniciar o jogo:', error);
@@ -356,12 +438,22 @@ export class GameScene extends BaseScene {
         return;
       }
       
-      // Atualizar os sistemas principais
-      this.physicsService.update(deltaTime);
+      // Entrada e interface acompanham os quadros
       this.inputHandler.update(deltaTime);
-      this.projectileManager.update(deltaTime);
-      this.vehicleManager.update(deltaTime);
-      this.turnSystem.update(deltaTime);
+      
+      // A simulação avança em passos fixos, independente da taxa de quadros
+      const alpha = this.simulationClock.advance(deltaTime, step => {
+        this.physicsService.update(step);
+        this.projectileManager.update(step);
+        this.vehicleManager.update(step);
+        this.pickupSystem.update();
+        this.turnSystem.update(step);
+      });
+      
+      // Suaviza a posição dos objetos entre os dois últimos passos
+      this.projectileManager.render(alpha);
+      this.vehicleManager.render(alpha);
+      this.beamEffect.update(deltaTime);
       this.uiCoordinator.update(deltaTime);
       
       // Atualizar o guia de mira
@@ -413,6 +505,9 @@ export class GameScene extends BaseScene {
       if (this.inputHandler) this.inputHandler.dispose();
       if (this.eventCoordinator) this.eventCoordinator.dispose();
       if (this.logicController) this.logicController.dispose();
+      if (this.pickupSystem) this.pickupSystem.dispose();
+      if (this.beamEffect) this.beamEffect.dispose();
+      if (this.vehicleManager) this.vehicleManager.unwatchTerrainDeformation();
       if (this.audioController) this.audioController.dispose();
       if (this.uiCoordinator) this.uiCoordinator.dispose();
     } catch (error) {
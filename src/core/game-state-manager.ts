@@ -139,7 +139,7 @@ export class GameStateManager extends EventEmitter {
   
   /**
    * Finaliza o jogo
-   * @param winnerIndex Índice do jogador vencedor
+   * @param winnerIndex Índice do jogador vencedor (-1 = empate)
    */
   endGame(winnerIndex: number): void {
     this.winnerIndex = winnerIndex;
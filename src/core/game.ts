@@ -1,6 +1,8 @@
 import * as PIXI from 'pixi.js';
 import { CONFIG } from './config';
 import { GameScene } from '../scenes';
+import { IMatchOptions, DEFAULT_MATCH_OPTIONS } from './match-options';
+import { PhysicsRules } from '../systems/physics/physics-rules';
 
 /**
  * Classe principal do jogo
@@ -10,8 +12,15 @@ export class Game {
   private isRunning: boolean = false;
   private lastTime: number = 0;
   private currentScene: GameScene | null = null;
+  private matchOptions: IMatchOptions;
+
+  /**
+   * Cria o jogo
+   * @param matchOptions Opções da partida (ex: tema do mapa e itens dos jogadores)
+   */
+  constructor(matchOptions: Partial<IMatchOptions> = {}) {
+    this.matchOptions = { ...DEFAULT_MATCH_OPTIONS, ...matchOptions };
 
-  constructor() {
     // Inicializa a aplicação Pixi.js
     this.app = new PIXI.Application({
       width: CONFIG.SCREEN.WIDTH,
@@ -49,10 +58,10 @@ export class Game {
   }
 
   /**
-   * Carrega a cena principal de jogo
+   * Carrega a cena principal de jogo com as opções da partida
    */
   private loadMainScene(): void {
-    this.currentScene = new GameScene(this.app);
+    this.currentScene = new GameScene(this.app, this.matchOptions.theme, new PhysicsRules(), this.matchOptions.itemLoadouts);
   }
 
   /**
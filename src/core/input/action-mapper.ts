@@ -24,6 +24,13 @@ export class ActionMapper extends EventEmitter {
     'w': GameAction.INCREASE_POWER,
     's': GameAction.DECREASE_POWER,
     ' ': GameAction.FIRE,
+    '1': GameAction.SELECT_PRIMARY_WEAPON,
+    '2': GameAction.SELECT_SECONDARY_WEAPON,
+    '3': GameAction.SELECT_SPECIAL_WEAPON,
+    '4': GameAction.USE_HEAL,
+    '5': GameAction.USE_POWER_UP,
+    '6': GameAction.USE_DUAL_SHOT,
+    '7': GameAction.USE_TELEPORT,
     'Enter': GameAction.END_TURN,
     'p': GameAction.PAUSE,
     'Escape': GameAction.CANCEL
@@ -23,6 +23,13 @@ export enum GameAction {
   INCREASE_POWER = 'increasePower',
   DECREASE_POWER = 'decreasePower',
   FIRE = 'fire',
+  SELECT_PRIMARY_WEAPON = 'selectPrimaryWeapon',
+  SELECT_SECONDARY_WEAPON = 'selectSecondaryWeapon',
+  SELECT_SPECIAL_WEAPON = 'selectSpecialWeapon',
+  USE_HEAL = 'useHeal',
+  USE_POWER_UP = 'usePowerUp',
+  USE_DUAL_SHOT = 'useDualShot',
+  USE_TELEPORT = 'useTeleport',
   END_TURN = 'endTurn',
   PAUSE = 'pause',
   CONFIRM = 'confirm',
@@ -1,14 +1,24 @@
 import { GameStateManager, GameState } from '../game-state-manager';
 import { VehicleManager } from '../../entities/vehicle-manager';
 import { ProjectileManager } from '../../systems/projectile-manager';
-import { TurnSystem } from '../../systems/turn-system';
+import { TurnSystem, TurnEventType } from '../../systems/turn-system';
+import { WeaponSlotSystem, WeaponSlot } from '../../systems/weapon-slot-system';
+import { ItemSystem, IItemUseOptions, IShotModifier } from '../../systems/item-system';
+import { ItemType } from '../../entities/items';
 import { AimingSystem } from '../../systems/aiming-system';
-import { Physics } from '../../systems/physics';
+import { PhysicsSystem } from '../../systems/physics-adapter';
+import { WindEventType, IWindState } from '../../systems/wind-system';
+import { BallisticIntegrator } from '../../systems/physics/ballistic-integrator';
 import { Terrain } from '../../systems/terrain';
+import { SpawnPlacementError } from '../../systems/terrain/terrain-spawn-planner';
+import { ISpawnPosition } from '../../systems/terrain/terrain-data';
 import { Vehicle, VehicleType } from '../../entities/vehicle';
-import { CONFIG } from '../config';
+import { Projectile } from '../../entities/projectile';
 import { IGameEventCoordinator } from '../events/game-event-coordinator';
 import { GameSystems } from '../interfaces/game-systems';
+import { ActionMapper } from '../input/action-mapper';
+import { GameAction } from '../input/input-types';
+import { InputEventType, KeyEventData } from '../../systems/input-controller';
 import { EventEmitter, EventCallback } from '../../utils/event-emitter';
 
 /**
@@ -22,15 +32,59 @@ export enum PlayerAction {
   INCREASE_POWER = 'increase_power',
   DECREASE_POWER = 'decrease_power',
   FIRE = 'fire',
+  SELECT_PRIMARY_WEAPON = 'select_primary_weapon',
+  SELECT_SECONDARY_WEAPON = 'select_secondary_weapon',
+  SELECT_SPECIAL_WEAPON = 'select_special_weapon',
+  USE_HEAL = 'use_heal',
+  USE_POWER_UP = 'use_power_up',
+  USE_DUAL_SHOT = 'use_dual_shot',
+  USE_TELEPORT = 'use_teleport',
   END_TURN = 'end_turn'
 }
 
+/**
+ * Ação do jogador disparada por cada ação mapeada nas teclas
+ */
+const PLAYER_ACTIONS: Partial<Record<GameAction, PlayerAction>> = {
+  [GameAction.MOVE_LEFT]: PlayerAction.MOVE_LEFT,
+  [GameAction.MOVE_RIGHT]: PlayerAction.MOVE_RIGHT,
+  [GameAction.INCREASE_ANGLE]: PlayerAction.INCREASE_ANGLE,
+  [GameAction.DECREASE_ANGLE]: PlayerAction.DECREASE_ANGLE,
+  [GameAction.INCREASE_POWER]: PlayerAction.INCREASE_POWER,
+  [GameAction.DECREASE_POWER]: PlayerAction.DECREASE_POWER,
+  [GameAction.FIRE]: PlayerAction.FIRE,
+  [GameAction.SELECT_PRIMARY_WEAPON]: PlayerAction.SELECT_PRIMARY_WEAPON,
+  [GameAction.SELECT_SECONDARY_WEAPON]: PlayerAction.SELECT_SECONDARY_WEAPON,
+  [GameAction.SELECT_SPECIAL_WEAPON]: PlayerAction.SELECT_SPECIAL_WEAPON,
+  [GameAction.USE_HEAL]: PlayerAction.USE_HEAL,
+  [GameAction.USE_POWER_UP]: PlayerAction.USE_POWER_UP,
+  [GameAction.USE_DUAL_SHOT]: PlayerAction.USE_DUAL_SHOT,
+  [GameAction.USE_TELEPORT]: PlayerAction.USE_TELEPORT,
+  [GameAction.END_TURN]: PlayerAction.END_TURN
+};
+
+/**
+ * Veículo de cada jogador no início da partida, na ordem dos jogadores
+ */
+const INITIAL_VEHICLES: VehicleType[] = [VehicleType.DRAGON, VehicleType.ROBOT];
+
+/**
+ * Distância mínima entre as posições iniciais dos jogadores
+ */
+const SPAWN_MIN_DISTANCE = 300;
+
+/**
+ * Diferença de ângulo, em graus, entre os tiros de um disparo múltiplo (ex: tiro duplo)
+ */
+const MULTI_SHOT_ANGLE_STEP = 4;
+
 /**
  * Tipos de eventos do controlador de lógica
  */
 export enum LogicEventType {
   PLAYER_ACTION = 'player_action',
   VEHICLE_SELECTED = 'vehicle_selected',
+  WEAPON_SELECTED = 'weapon_selected',
   WIND_CHANGED = 'wind_changed',
   GAME_STARTED = 'game_started',
   GAME_RESTARTED = 'game_restarted'
@@ -74,7 +128,35 @@ export interface IGameLogicController {
   updateAimingGuide(): void;
   
   /**
-   * Dispara um projétil
+   * Escolhe o espaço de arma do próximo disparo
+   * @param slot Espaço de arma
+   * @returns Verdadeiro se o espaço estava disponível
+   */
+  selectWeaponSlot(slot: WeaponSlot): boolean;
+  
+  /**
+   * Define os itens escolhidos por um jogador antes da partida
+   * @param playerId ID do jogador
+   * @param items Itens escolhidos
+   * @returns Verdadeiro se os itens cabem na bolsa
+   */
+  setItemLoadout(playerId: number, items: ItemType[]): boolean;
+  
+  /**
+   * Usa um item da bolsa do jogador do turno (um por turno)
+   * @param type Tipo do item
+   * @param options Opções do uso (ex: destino do teletransporte)
+   * @returns Verdadeiro se o item foi usado
+   */
+  useItem(type: ItemType, options?: IItemUseOptions): boolean;
+  
+  /**
+   * Obtém o sistema de itens
+   */
+  getItemSystem(): ItemSystem;
+  
+  /**
+   * Dispara um projétil com a arma do espaço escolhido
    */
   fire(): void;
   
@@ -88,6 +170,12 @@ export interface IGameLogicController {
    */
   restartGame(): void;
   
+  /**
+   * Define o multiplicador aplicado à força do vento (ex: modificador do tema do mapa)
+   * @param multiplier Multiplicador do vento
+   */
+  setWindMultiplier(multiplier: number): void;
+  
   /**
    * Registra um callback para um tipo de evento de lógica
    * @param eventType Tipo do evento
@@ -115,7 +203,10 @@ export class GameLogicController implements IGameLogicController {
   private eventEmitter: EventEmitter = new EventEmitter();
   private systems: GameSystems;
   private activeVehicleIndex: number = 0;
-  private wind: number = 0;
+  private ballistics: BallisticIntegrator = new BallisticIntegrator();
+  private weaponSlots: WeaponSlotSystem = new WeaponSlotSystem();
+  private items: ItemSystem;
+  private actionMapper: ActionMapper = new ActionMapper();
   private initialized: boolean = false;
   
   /**
@@ -135,10 +226,12 @@ export class GameLogicController implements IGameLogicController {
     private projectileManager: ProjectileManager,
     private turnSystem: TurnSystem,
     private aimingSystem: AimingSystem,
-    private physics: Physics,
+    private physics: PhysicsSystem,
     private terrain: Terrain,
     private eventCoordinator: IGameEventCoordinator
-  ) {}
+  ) {
+    this.items = new ItemSystem(vehicleManager);
+  }
   
   /**
    * Inicializa o controlador de lógica
@@ -148,13 +241,37 @@ export class GameLogicController implements IGameLogicController {
     if (this.initialized) return;
     
     this.systems = systems;
+    
+    // O vento muda a cada turno e suas mudanças chegam à mira e à interface
+    this.turnSystem.on(TurnEventType.TURN_STARTED, this.generateWind, this);
+    this.turnSystem.on(TurnEventType.TURN_STARTED, this.handleTurnStarted, this);
+    this.physics.getWindSystem().on(WindEventType.WIND_CHANGED, this.handleWindChanged, this);
+    this.handleWindChanged(this.physics.getWindSystem().getWind());
+    
+    // As teclas mapeadas viram ações do jogador do turno
+    systems.inputHandler.on(InputEventType.KEY_DOWN, this.handleKeyDown);
+    
     this.initialized = true;
   }
   
+  /**
+   * Traduz uma tecla pressionada na ação do jogador mapeada para ela
+   * @param data Dados da tecla
+   */
+  private handleKeyDown = (data: KeyEventData): void => {
+    const action = this.actionMapper.getKeyMapping()[data.key];
+    const playerAction = action && PLAYER_ACTIONS[action];
+    
+    if (playerAction) {
+      this.handlePlayerAction(playerAction);
+    }
+  };
+  
   /**
    * Inicia o jogo
    */
   startGame(): void {
+    this.items.resetBags();
     this.gameStateManager.startGame();
     this.turnSystem.startNewTurn();
     this.eventEmitter.emit(LogicEventType.GAME_STARTED, {});
@@ -170,29 +287,41 @@ export class GameLogicController implements IGameLogicController {
   
   /**
    * Cria os veículos iniciais para cada jogador
+   * Cada jogador forma uma equipe e recebe uma posição justa do planejador do terreno
    */
   createInitialVehicles(): void {
-    // Encontra posições adequadas no terreno
-    const positions = this.terrain.findSuitablePositions(2, 300);
-    
-    // Cria um veículo para o jogador 1
-    if (positions.length > 0) {
-      const vehicle1 = this.vehicleManager.createVehicle(
-        VehicleType.DRAGON,
-        positions[0].x,
-        positions[0].y - 20, // Posiciona um pouco acima da superfície
-        0 // Pertence ao jogador 0
-      );
-    }
+    const positions = this.planSpawnPositions(INITIAL_VEHICLES.length);
     
-    // Cria um veículo para o jogador 2
-    if (positions.length > 1) {
-      const vehicle2 = this.vehicleManager.createVehicle(
-        VehicleType.ROBOT,
-        positions[1].x,
-        positions[1].y - 20,
-        1 // Pertence ao jogador 1
-      );
+    INITIAL_VEHICLES.forEach((type, playerId) => {
+      const position = positions[playerId];
+      
+      // Posiciona um pouco acima da superfície
+      this.vehicleManager.createVehicle(type, position.x, position.y - 20, playerId);
+    });
+  }
+  
+  /**
+   * Planeja as posições iniciais dos jogadores
+   * Se o mapa não comportar todos com a distância mínima, distribui os jogadores
+   * igualmente pela largura do mapa, abrindo mão do equilíbrio de altura
+   * @param count Número de jogadores
+   * @returns Uma posição por jogador
+   * @private
+   */
+  private planSpawnPositions(count: number): ISpawnPosition[] {
+    try {
+      return this.terrain.findSuitablePositions(count, SPAWN_MIN_DISTANCE, { teamCount: count });
+    } catch (error) {
+      if (!(error instanceof SpawnPlacementError)) {
+        throw error;
+      }
+      
+      const zoneWidth = this.terrain.getWidth() / count;
+      
+      return Array.from({ length: count }, (_, player) => {
+        const x = Math.round((player + 0.5) * zoneWidth);
+        return { x, y: this.terrain.getHeightAt(x), team: player, slope: 0 };
+      });
     }
   }
   
@@ -234,6 +363,27 @@ export class GameLogicController implements IGameLogicController {
       case PlayerAction.DECREASE_POWER:
         this.aimingSystem.adjustPower(-5);
         break;
+      case PlayerAction.SELECT_PRIMARY_WEAPON:
+        this.selectWeaponSlot(WeaponSlot.PRIMARY);
+        break;
+      case PlayerAction.SELECT_SECONDARY_WEAPON:
+        this.selectWeaponSlot(WeaponSlot.SECONDARY);
+        break;
+      case PlayerAction.SELECT_SPECIAL_WEAPON:
+        this.selectWeaponSlot(WeaponSlot.SPECIAL);
+        break;
+      case PlayerAction.USE_HEAL:
+        this.useItem(ItemType.HEAL);
+        break;
+      case PlayerAction.USE_POWER_UP:
+        this.useItem(ItemType.POWER_UP);
+        break;
+      case PlayerAction.USE_DUAL_SHOT:
+        this.useItem(ItemType.DUAL_SHOT);
+        break;
+      case PlayerAction.USE_TELEPORT:
+        this.useItem(ItemType.TELEPORT, { targetX: this.getAimedLandingX(activeVehicle) });
+        break;
       case PlayerAction.FIRE:
         this.fire();
         break;
@@ -254,28 +404,150 @@ export class GameLogicController implements IGameLogicController {
   }
   
   /**
-   * Gera um novo valor de vento
+   * Altera o vento para o novo turno, de acordo com as regras do sistema de vento
    */
   generateWind(): void {
-    this.wind = Math.random() * (CONFIG.PHYSICS.WIND_MAX - CONFIG.PHYSICS.WIND_MIN) + CONFIG.PHYSICS.WIND_MIN;
+    this.physics.getWindSystem().nextTurn();
+  }
+  
+  /**
+   * Repassa o vento atual para a mira, a interface e os ouvintes da lógica
+   * @param wind Estado atual do vento
+   */
+  private handleWindChanged(wind: IWindState): void {
+    this.aimingSystem.setWind(wind.x);
+    this.systems.uiCoordinator.updateWindIndicator(wind.x);
     
     // Emitir evento de mudança de vento
-    this.eventEmitter.emit(LogicEventType.WIND_CHANGED, { wind: this.wind });
-    
-    // Atualizar o vento no sistema de mira
-    this.aimingSystem.setWind(this.wind);
+    this.eventEmitter.emit(LogicEventType.WIND_CHANGED, { wind: wind.x, state: wind });
   }
   
   /**
-   * Obtém o valor atual do vento
+   * Define o multiplicador aplicado à força do vento
+   * @param multiplier Multiplicador do vento
+   */
+  setWindMultiplier(multiplier: number): void {
+    this.physics.getWindSystem().setRules({ multiplier });
+  }
+  
+  /**
+   * Obtém a componente horizontal do vento atual
    * @returns Valor do vento
    */
   getWind(): number {
-    return this.wind;
+    return this.physics.getWind();
+  }
+  
+  /**
+   * Início de um turno: o veículo do jogador passa a ser o ativo e suas esperas de arma diminuem
+   * @param data Dados do turno
+   */
+  private handleTurnStarted(data: { playerIndex: number }): void {
+    this.selectVehicleByPlayerIndex(data.playerIndex);
+    
+    const activeVehicle = this.vehicleManager.getVehicleByIndex(this.activeVehicleIndex);
+    if (!activeVehicle) return;
+    
+    this.weaponSlots.startTurn(activeVehicle);
+    this.updateWeaponSlots(activeVehicle);
+    this.items.startTurn();
+  }
+  
+  /**
+   * Define os itens escolhidos por um jogador antes da partida
+   * @param playerId ID do jogador
+   * @param items Itens escolhidos
+   * @returns Verdadeiro se os itens cabem na bolsa
+   */
+  setItemLoadout(playerId: number, items: ItemType[]): boolean {
+    return this.items.setLoadout(playerId, items);
+  }
+  
+  /**
+   * Usa um item da bolsa do jogador do turno (um por turno)
+   * @param type Tipo do item
+   * @param options Opções do uso (ex: destino do teletransporte)
+   * @returns Verdadeiro se o item foi usado
+   */
+  useItem(type: ItemType, options: IItemUseOptions = {}): boolean {
+    if (!this.gameStateManager.isPlaying() || !this.turnSystem.getIsPlayerTurn()) {
+      return false;
+    }
+    
+    const activeVehicle = this.vehicleManager.getVehicleByIndex(this.activeVehicleIndex);
+    if (!activeVehicle) return false;
+    
+    return this.items.useItem(activeVehicle, type, options);
+  }
+  
+  /**
+   * Ponto do terreno onde o disparo mirado cairia, usado como destino do teletransporte
+   * @param vehicle Veículo do turno
+   * @returns Posição X do impacto previsto
+   * @private
+   */
+  private getAimedLandingX(vehicle: Vehicle): number {
+    const trajectory = this.projectileManager.calculateTrajectory(
+      vehicle.position.x,
+      vehicle.position.y,
+      this.aimingSystem.getAngle(),
+      this.aimingSystem.getPower(),
+      5
+    );
+    
+    return trajectory[trajectory.length - 1].x;
+  }
+  
+  /**
+   * Obtém o sistema de itens
+   */
+  getItemSystem(): ItemSystem {
+    return this.items;
+  }
+  
+  /**
+   * Escolhe o espaço de arma do próximo disparo
+   * @param slot Espaço de arma
+   * @returns Verdadeiro se o espaço estava disponível
+   */
+  selectWeaponSlot(slot: WeaponSlot): boolean {
+    const activeVehicle = this.vehicleManager.getVehicleByIndex(this.activeVehicleIndex);
+    if (!activeVehicle || !this.weaponSlots.select(activeVehicle, slot)) {
+      return false;
+    }
+    
+    this.updateWeaponSlots(activeVehicle);
+    
+    // Emitir evento de escolha de arma
+    this.eventEmitter.emit(LogicEventType.WEAPON_SELECTED, {
+      slot,
+      weapon: this.weaponSlots.getWeapon(activeVehicle, slot),
+      vehicle: activeVehicle
+    });
+    
+    return true;
+  }
+  
+  /**
+   * Obtém o espaço de arma escolhido
+   */
+  getSelectedWeaponSlot(): WeaponSlot {
+    return this.weaponSlots.getSelected();
   }
   
   /**
-   * Dispara um projétil
+   * Repassa a situação dos espaços de arma do veículo para a interface
+   * @param vehicle Veículo do turno
+   */
+  private updateWeaponSlots(vehicle: Vehicle): void {
+    this.systems.uiCoordinator.updateWeaponSlots(
+      this.weaponSlots.getStates(vehicle),
+      this.weaponSlots.getSelected()
+    );
+  }
+  
+  /**
+   * Dispara um projétil com a arma do espaço escolhido
    */
   fire(): void {
     if (!this.gameStateManager.isPlaying()) return;
@@ -283,32 +555,114 @@ export class GameLogicController implements IGameLogicController {
     const activeVehicle = this.vehicleManager.getVehicleByIndex(this.activeVehicleIndex);
     if (!activeVehicle) return;
     
-    // Calcula o ângulo em radianos
-    const angle = this.aimingSystem.getAngle() * Math.PI / 180;
+    // A carga ou a espera pode ter mudado desde a escolha
+    const slot = this.weaponSlots.getSelected();
+    if (!this.weaponSlots.isAvailable(activeVehicle, slot)) return;
     
-    // Calcula o vetor de velocidade inicial
-    const velocity = {
-      x: Math.cos(angle) * this.aimingSystem.getPower() * 0.5,
-      y: -Math.sin(angle) * this.aimingSystem.getPower() * 0.5
-    };
+    // Calcula o vetor de velocidade inicial com a mesma física da prévia da mira
+    const velocity = this.ballistics.getLaunchVelocity(
+      this.aimingSystem.getAngle(),
+      this.aimingSystem.getPower()
+    );
     
-    // Cria um novo projétil
-    const projectile = activeVehicle.firePrimaryWeapon(velocity.x, velocity.y);
+    // A arma do espaço dispara uma vez só: a carga e a espera são gastas uma vez por turno
+    const modifier = this.items.getShotModifier(activeVehicle);
+    const projectile = this.fireWeaponSlot(activeVehicle, slot, velocity.x, velocity.y);
     if (!projectile) return;
     
-    // Notifica outros sistemas (através de eventos)
-    this.eventCoordinator.emit('projectile_fired', {
-      projectile,
-      vehicle: activeVehicle
-    });
+    this.weaponSlots.consume(activeVehicle, slot);
+    this.items.consumeShotModifier(activeVehicle);
+    
+    // Quem disparou decide o fogo amigo, o dano ao próprio atirador e as caixas coletadas
+    projectile.setOwner(activeVehicle.id, activeVehicle.playerId);
     
-    // Adiciona o projétil ao gerenciador
+    // Os tiros extras (tiro duplo) copiam o primeiro, abrindo em leque a partir da mira
+    const extraShots = this.fireExtraShots(projectile, modifier.shots - 1);
+    
+    for (const shot of [projectile, ...extraShots]) {
+      this.applyShotModifier(shot, modifier);
+      
+      // Notifica outros sistemas (através de eventos)
+      this.eventCoordinator.emit('projectile_fired', {
+        projectile: shot,
+        vehicle: activeVehicle,
+        slot
+      });
+    }
+    
+    // Adiciona o projétil ao gerenciador (os extras já foram criados por ele)
     this.projectileManager.addProjectile(projectile);
     
     // Finaliza o turno após atirar
     this.endTurn();
   }
   
+  /**
+   * Dispara a arma de um espaço do veículo
+   * @param vehicle Veículo que dispara
+   * @param slot Espaço de arma
+   * @param velocityX Componente X da velocidade inicial
+   * @param velocityY Componente Y da velocidade inicial
+   * @returns O projétil criado ou null se não foi possível atirar
+   */
+  private fireWeaponSlot(vehicle: Vehicle, slot: WeaponSlot, velocityX: number, velocityY: number): Projectile | null {
+    switch (slot) {
+      case WeaponSlot.SECONDARY:
+        return vehicle.fireSecondaryWeapon(velocityX, velocityY);
+      case WeaponSlot.SPECIAL:
+        return vehicle.fireSpecialWeapon(velocityX, velocityY);
+      default:
+        return vehicle.firePrimaryWeapon(velocityX, velocityY);
+    }
+  }
+  
+  /**
+   * Cria os tiros extras de um disparo múltiplo, cada um com o ângulo um pouco acima do anterior
+   * (o gerenciador de projéteis já os coloca em jogo)
+   * @param projectile Primeiro projétil do disparo, com o dono definido
+   * @param count Quantidade de tiros extras
+   * @returns Os projéteis criados
+   */
+  private fireExtraShots(projectile: Projectile, count: number): Projectile[] {
+    const weaponType = projectile.getWeaponType();
+    if (count <= 0 || weaponType === undefined) return [];
+    
+    const position = projectile.getPosition();
+    const { sourceId, playerId } = projectile.getOwner();
+    const extraShots: Projectile[] = [];
+    
+    for (let shot = 1; shot <= count; shot++) {
+      const extraShot = this.projectileManager.createProjectile({
+        type: weaponType,
+        x: position.x,
+        y: position.y,
+        angle: this.aimingSystem.getAngle() + shot * MULTI_SHOT_ANGLE_STEP,
+        power: this.aimingSystem.getPower(),
+        damage: projectile.getDamageProfile().baseDamage,
+        sourceId,
+        playerId
+      });
+      if (extraShot) extraShots.push(extraShot);
+    }
+    
+    return extraShots;
+  }
+  
+  /**
+   * Aplica ao projétil as alterações dos itens usados no turno (ex: aumento de dano)
+   * @param projectile Projétil disparado
+   * @param modifier Alterações do disparo
+   */
+  private applyShotModifier(projectile: Projectile, modifier: IShotModifier): void {
+    if (modifier.damageMultiplier === 1) return;
+    
+    const profile = projectile.getDamageProfile();
+    projectile.setDamageProfile({
+      ...profile,
+      baseDamage: profile.baseDamage * modifier.damageMultiplier
+    });
+  }
+  
   /**
    * Finaliza o turno atual
    */
@@ -338,8 +692,10 @@ export class GameLogicController implements IGameLogicController {
    * Reinicia o jogo
    */
   restartGame(): void {
-    // Limpa projéteis existentes
+    // Limpa projéteis existentes e as esperas de arma
     this.projectileManager.clearAll();
+    this.weaponSlots.clear();
+    this.items.resetBags();
     
     // Remove veículos existentes
     this.vehicleManager.clearAll();
@@ -382,6 +738,13 @@ export class GameLogicController implements IGameLogicController {
    * Libera recursos do controlador de lógica
    */
   dispose(): void {
+    if (this.initialized) {
+      this.turnSystem.off(TurnEventType.TURN_STARTED, this.generateWind, this);
+      this.turnSystem.off(TurnEventType.TURN_STARTED, this.handleTurnStarted, this);
+      this.physics.getWindSystem().off(WindEventType.WIND_CHANGED, this.handleWindChanged, this);
+      this.systems.inputHandler.off(InputEventType.KEY_DOWN, this.handleKeyDown);
+    }
+    
     this.eventEmitter.removeAllListeners();
   }
 } 
\ No newline at end of file
@@ -0,0 +1,62 @@
+import { TerrainTheme } from '../systems/terrain/terrain-themes';
+import { ItemType, ItemBag } from '../entities/items';
+
+/**
+ * Opções escolhidas na criação da partida
+ */
+export interface IMatchOptions {
+  theme: TerrainTheme;        // Tema do mapa: relevo, cores, música e física
+  itemLoadouts: ItemType[][]; // Itens que cada jogador leva na bolsa, na ordem dos jogadores
+}
+
+/**
+ * Itens levados por cada jogador quando a partida não escolhe os seus
+ */
+export const DEFAULT_ITEM_LOADOUT: ItemType[] = [ItemType.HEAL, ItemType.POWER_UP, ItemType.TELEPORT];
+
+/**
+ * Opções usadas quando a partida não escolhe as suas
+ */
+export const DEFAULT_MATCH_OPTIONS: IMatchOptions = {
+  theme: TerrainTheme.HENESYS,
+  itemLoadouts: [DEFAULT_ITEM_LOADOUT, DEFAULT_ITEM_LOADOUT]
+};
+
+/**
+ * Lê as opções da partida dos parâmetros de um endereço (ex: "?theme=el_nath&items=heal,dual_shot")
+ * Valores desconhecidos, ou itens que não cabem na bolsa, são ignorados e mantêm o padrão
+ * @param query Parâmetros do endereço
+ * @returns Opções da partida
+ */
+export function parseMatchOptions(query: string): IMatchOptions {
+  const params = new URLSearchParams(query);
+  const theme = params.get('theme');
+  const themes = Object.values(TerrainTheme) as string[];
+  const items = parseItemLoadout(params.get('items'));
+
+  return {
+    ...DEFAULT_MATCH_OPTIONS,
+    ...(theme && themes.includes(theme) ? { theme: theme as TerrainTheme } : {}),
+    ...(items ? { itemLoadouts: DEFAULT_MATCH_OPTIONS.itemLoadouts.map(() => items) } : {})
+  };
+}
+
+/**
+ * Lê a lista de itens levada por todos os jogadores (ex: "heal,dual_shot")
+ * @param value Valor do parâmetro
+ * @returns Itens escolhidos, ou null se a lista é inválida ou não cabe na bolsa
+ */
+function parseItemLoadout(value: string | null): ItemType[] | null {
+  if (!value) {
+    return null;
+  }
+
+  const types = Object.values(ItemType) as string[];
+  const items = value.split(',');
+  if (!items.every(item => types.includes(item))) {
+    return null;
+  }
+
+  const bag = new ItemBag();
+  return items.every(item => bag.add(item as ItemType)) ? items as ItemType[] : null;
+}
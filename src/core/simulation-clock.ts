@@ -0,0 +1,127 @@
+import { CONFIG } from './config';
+
+/**
+ * Função executada a cada passo fixo da simulação
+ * @param stepSize Duração do passo (mesma unidade do delta do Pixi: 1 = um quadro a 60 FPS)
+ * @param stepIndex Índice do passo desde o início da simulação
+ */
+export type SimulationStep = (stepSize: number, stepIndex: number) => void;
+
+/**
+ * Opções do relógio da simulação
+ */
+export interface ISimulationClockOptions {
+  stepSize?: number;          // Duração de cada passo fixo (padrão: CONFIG.PHYSICS.FIXED_STEP)
+  maxStepsPerFrame?: number;  // Limite de passos por quadro, evita a "espiral da morte" (padrão: CONFIG.PHYSICS.MAX_STEPS_PER_FRAME)
+}
+
+/**
+ * Tolerância para erros de arredondamento ao acumular deltas fracionários
+ */
+const STEP_EPSILON = 1e-9;
+
+/**
+ * Relógio de passo fixo que conduz toda a simulação
+ * O tempo de cada quadro é acumulado e consumido em passos de duração constante,
+ * então o resultado de um disparo depende apenas das entradas e não da taxa de quadros.
+ * A fração que sobra no acumulador é usada para interpolar a renderização entre dois passos.
+ */
+export class SimulationClock {
+  private readonly stepSize: number;
+  private readonly maxStepsPerFrame: number;
+  private accumulator: number = 0;
+  private stepCount: number = 0;
+  private alpha: number = 0;
+
+  /**
+   * Cria um novo relógio de simulação
+   * @param options Opções do relógio
+   */
+  constructor(options: ISimulationClockOptions = {}) {
+    this.stepSize = options.stepSize ?? CONFIG.PHYSICS.FIXED_STEP;
+    this.maxStepsPerFrame = options.maxStepsPerFrame ?? CONFIG.PHYSICS.MAX_STEPS_PER_FRAME;
+
+    if (!(this.stepSize > 0)) {
+      throw new Error(`Passo da simulação inválido: ${this.stepSize}`);
+    }
+  }
+
+  /**
+   * Avança o relógio com o tempo de um quadro, executando quantos passos fixos couberem
+   * @param frameDelta Tempo desde o último quadro
+   * @param step Função executada a cada passo fixo
+   * @returns Fração entre o último passo e o próximo (0 a 1), para interpolar a renderização
+   */
+  advance(frameDelta: number, step: SimulationStep): number {
+    if (!(frameDelta > 0)) {
+      return this.alpha;
+    }
+
+    this.accumulator += frameDelta;
+    let steps = 0;
+
+    while (this.accumulator + STEP_EPSILON >= this.stepSize && steps < this.maxStepsPerFrame) {
+      step(this.stepSize, this.stepCount);
+      this.stepCount++;
+      this.accumulator = Math.max(0, this.accumulator - this.stepSize);
+      steps++;
+    }
+
+    // Quadros muito lentos descartam o atraso em vez de acumular passos indefinidamente
+    if (this.accumulator >= this.stepSize) {
+      this.accumulator %= this.stepSize;
+    }
+
+    this.alpha = this.accumulator / this.stepSize;
+    return this.alpha;
+  }
+
+  /**
+   * Executa um número exato de passos, sem depender do tempo real (ex: testes e replays)
+   * @param count Número de passos
+   * @param step Função executada a cada passo fixo
+   */
+  runSteps(count: number, step: SimulationStep): void {
+    for (let i = 0; i < count; i++) {
+      step(this.stepSize, this.stepCount);
+      this.stepCount++;
+    }
+  }
+
+  /**
+   * Obtém a duração de cada passo fixo
+   */
+  getStepSize(): number {
+    return this.stepSize;
+  }
+
+  /**
+   * Obtém o número de passos executados desde o início
+   */
+  getStepCount(): number {
+    return this.stepCount;
+  }
+
+  /**
+   * Obtém o tempo simulado desde o início
+   */
+  getElapsedTime(): number {
+    return this.stepCount * this.stepSize;
+  }
+
+  /**
+   * Obtém a fração de interpolação calculada no último avanço
+   */
+  getAlpha(): number {
+    return this.alpha;
+  }
+
+  /**
+   * Reinicia o relógio (ex: no início de uma nova partida)
+   */
+  reset(): void {
+    this.accumulator = 0;
+    this.stepCount = 0;
+    this.alpha = 0;
+  }
+}
@@ -22,6 +22,14 @@ export class TextElement extends BaseUIElement {
     return this.textObject.text;
   }
   
+  /**
+   * Altera a cor do texto (ex: destaque do item escolhido)
+   * @param color Nova cor
+   */
+  setColor(color: number): void {
+    this.textObject.style.fill = color;
+  }
+  
   /**
    * Atualiza o elemento de texto
    * @param delta Delta time
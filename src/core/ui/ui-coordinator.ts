@@ -3,6 +3,7 @@ import { UISystem } from '../ui';
 import { GameUI } from '../../ui/game-ui';
 import { BenchmarkUI } from '../../ui/benchmark';
 import { EventEmitter, EventCallback } from '../../utils/event-emitter';
+import { WeaponSlot, IWeaponSlotState } from '../../systems/weapon-slot-system';
 
 /**
  * Tipos de eventos de UI
@@ -40,6 +41,13 @@ export interface IUICoordinator {
    */
   updateWindIndicator(wind: number): void;
   
+  /**
+   * Atualiza os espaços de arma do veículo do turno
+   * @param states Situação de cada espaço
+   * @param selected Espaço escolhido
+   */
+  updateWeaponSlots(states: IWeaponSlotState[], selected: WeaponSlot): void;
+  
   /**
    * Define a visibilidade do botão de fim de turno
    * @param visible Estado de visibilidade
@@ -181,6 +189,23 @@ export class UICoordinator implements IUICoordinator {
     });
   }
   
+  /**
+   * Atualiza os espaços de arma do veículo do turno
+   * @param states Situação de cada espaço
+   * @param selected Espaço escolhido
+   */
+  updateWeaponSlots(states: IWeaponSlotState[], selected: WeaponSlot): void {
+    if (!this.initialized) return;
+    
+    this.gameUI.updateWeaponSlots(states, selected);
+    
+    this.eventEmitter.emit(UIEventType.UI_ELEMENT_UPDATED, {
+      element: 'weapon_slots',
+      states,
+      selected
+    });
+  }
+  
   /**
    * Define a visibilidade do botão de fim de turno
    * @param visible Estado de visibilidade
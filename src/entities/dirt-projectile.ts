@@ -0,0 +1,43 @@
+import * as PIXI from 'pixi.js';
+import { Projectile } from './projectile';
+import { PhysicsSystem } from '../systems/physics-adapter';
+
+/**
+ * Projétil de terra
+ * Em vez de abrir uma cratera, adiciona um monte de terreno no ponto de impacto,
+ * permitindo que o jogador se proteja ou bloqueie a linha de tiro do adversário
+ */
+export class DirtProjectile extends Projectile {
+  private fillRadius: number;
+
+  /**
+   * Inicializa um projétil de terra
+   * @param container Container pai para adicionar o gráfico
+   * @param startX Posição inicial X
+   * @param startY Posição inicial Y
+   * @param angle Ângulo de disparo em graus
+   * @param power Potência do disparo
+   * @param physicsSystem Sistema de física
+   * @param fillRadius Raio do monte criado no impacto
+   */
+  constructor(
+    container: PIXI.Container,
+    startX: number,
+    startY: number,
+    angle: number,
+    power: number,
+    physicsSystem: PhysicsSystem,
+    fillRadius: number = 35
+  ) {
+    super(container, startX, startY, angle, power, physicsSystem);
+
+    this.fillRadius = fillRadius;
+  }
+
+  /**
+   * Obtém o raio do monte criado no impacto
+   */
+  public getFillRadius(): number {
+    return this.fillRadius;
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Tipos de itens consumíveis
+ */
+export enum ItemType {
+  DUAL_SHOT = 'dual_shot', // O próximo disparo sai duas vezes
+  TELEPORT = 'teleport',   // Move o veículo para outro ponto do terreno
+  HEAL = 'heal',           // Recupera parte da vida
+  POWER_UP = 'power_up'    // Aumenta o dano do próximo disparo
+}
+
+/**
+ * Definição de um item
+ */
+export interface IItemDefinition {
+  type: ItemType;
+  name: string;
+  slots: number;             // Espaços ocupados na bolsa
+  healAmount?: number;       // Vida recuperada (HEAL)
+  shots?: number;            // Projéteis do próximo disparo (DUAL_SHOT)
+  damageMultiplier?: number; // Multiplicador do dano do próximo disparo (POWER_UP)
+}
+
+/**
+ * Definições padrão dos itens
+ */
+export const DEFAULT_ITEM_DEFINITIONS: Record<ItemType, IItemDefinition> = {
+  [ItemType.DUAL_SHOT]: {
+    type: ItemType.DUAL_SHOT,
+    name: 'Tiro Duplo',
+    slots: 2,
+    shots: 2
+  },
+  [ItemType.TELEPORT]: {
+    type: ItemType.TELEPORT,
+    name: 'Teletransporte',
+    slots: 2
+  },
+  [ItemType.HEAL]: {
+    type: ItemType.HEAL,
+    name: 'Cura',
+    slots: 1,
+    healAmount: 30
+  },
+  [ItemType.POWER_UP]: {
+    type: ItemType.POWER_UP,
+    name: 'Potência',
+    slots: 1,
+    damageMultiplier: 1.5
+  }
+};
+
+/**
+ * Espaços da bolsa de itens de cada jogador
+ */
+export const ITEM_BAG_SLOTS = 6;
+
+/**
+ * Bolsa de itens de um jogador, limitada pelos espaços ocupados por cada item
+ */
+export class ItemBag {
+  private items: ItemType[] = [];
+  private capacity: number;
+
+  /**
+   * Cria uma bolsa vazia
+   * @param capacity Espaços disponíveis
+   */
+  constructor(capacity: number = ITEM_BAG_SLOTS) {
+    this.capacity = capacity;
+  }
+
+  /**
+   * Adiciona um item à bolsa
+   * @param type Tipo do item
+   * @returns Verdadeiro se havia espaço para o item
+   */
+  add(type: ItemType): boolean {
+    if (this.getUsedSlots() + DEFAULT_ITEM_DEFINITIONS[type].slots > this.capacity) {
+      return false;
+    }
+
+    this.items.push(type);
+    return true;
+  }
+
+  /**
+   * Retira um item da bolsa
+   * @param type Tipo do item
+   * @returns Verdadeiro se o item estava na bolsa
+   */
+  remove(type: ItemType): boolean {
+    const index = this.items.indexOf(type);
+    if (index < 0) {
+      return false;
+    }
+
+    this.items.splice(index, 1);
+    return true;
+  }
+
+  /**
+   * Verifica se a bolsa tem um item
+   * @param type Tipo do item
+   */
+  has(type: ItemType): boolean {
+    return this.items.includes(type);
+  }
+
+  /**
+   * Obtém os itens da bolsa, na ordem em que foram adicionados
+   */
+  getItems(): ItemType[] {
+    return [...this.items];
+  }
+
+  /**
+   * Obtém os espaços ocupados
+   */
+  getUsedSlots(): number {
+    return this.items.reduce((total, type) => total + DEFAULT_ITEM_DEFINITIONS[type].slots, 0);
+  }
+
+  /**
+   * Obtém os espaços disponíveis
+   */
+  getCapacity(): number {
+    return this.capacity;
+  }
+}
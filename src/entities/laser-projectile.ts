@@ -0,0 +1,50 @@
+import * as PIXI from 'pixi.js';
+import { Projectile } from './projectile';
+import { PhysicsSystem } from '../systems/physics-adapter';
+
+/**
+ * Projétil de laser
+ * Não voa: no primeiro passo da simulação o gerenciador traça um feixe reto na direção do disparo,
+ * que abre um sulco estreito no terreno e atinge tudo o que atravessar até o fim da penetração
+ */
+export class LaserProjectile extends Projectile {
+  private penetration: number;
+
+  /**
+   * Inicializa um projétil de laser
+   * @param container Container pai para adicionar o gráfico
+   * @param startX Posição inicial X
+   * @param startY Posição inicial Y
+   * @param angle Ângulo de disparo em graus
+   * @param power Potência do disparo
+   * @param physicsSystem Sistema de física
+   * @param penetration Distância que o feixe atravessa após o primeiro contato
+   */
+  constructor(
+    container: PIXI.Container,
+    startX: number,
+    startY: number,
+    angle: number,
+    power: number,
+    physicsSystem: PhysicsSystem,
+    penetration: number = 120
+  ) {
+    super(container, startX, startY, angle, power, physicsSystem);
+
+    this.penetration = penetration;
+  }
+
+  /**
+   * Obtém a distância que o feixe atravessa após o primeiro contato
+   */
+  public getPenetration(): number {
+    return this.penetration;
+  }
+
+  /**
+   * Obtém a direção do feixe: a da velocidade de lançamento, sem gravidade nem vento
+   */
+  public getDirection(): { x: number, y: number } {
+    return this.getVelocity();
+  }
+}
@@ -77,15 +77,17 @@ export class ProjectileAdapter {
    */
   private mapOptionsForWeaponType(weaponType: WeaponType, options: any): any {
     switch (weaponType) {
+      // Valores omitidos usam os da definição da arma no registro de armas
       case WeaponType.FRAG_BOMB:
         return {
-          fragmentCount: options.fragmentCount || 8,
-          fragmentDamage: options.fragmentDamage || 15
+          fragmentCount: options.fragmentCount,
+          fragmentDamage: options.fragmentDamage
         };
         
       case WeaponType.GUIDED_MISSILE:
+      case WeaponType.ROBOT_MISSILE:
         return {
-          guidanceStrength: options.guidanceStrength || 0.1,
+          guidanceStrength: options.guidanceStrength,
           target: options.target || null
         };
         
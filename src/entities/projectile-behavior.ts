@@ -0,0 +1,122 @@
+import { Vector2D } from '../systems/physics/physics-object';
+
+/**
+ * O que o projétil faz ao tocar o terreno
+ */
+export enum ProjectileImpactMode {
+  EXPLODE = 'explode', // Explode no primeiro contato
+  BOUNCE = 'bounce',   // Quica na superfície, perdendo velocidade a cada quique (ex: granadas)
+  ROLL = 'roll'        // Rola ao longo da superfície (ex: bombas rolantes)
+}
+
+/**
+ * Comportamento de um projétil em contato com o terreno
+ */
+export interface IProjectileBehavior {
+  impactMode: ProjectileImpactMode;
+  restitution?: number;  // Fração da velocidade normal mantida no quique (padrão: restituição das regras da partida)
+  maxBounces: number;    // Quiques permitidos antes de parar
+  rollFriction: number;  // Fração da velocidade perdida por contato ao rolar
+  minSpeed: number;      // Abaixo desta velocidade o projétil para (explode, ou espera o pavio se houver)
+  fuseTime?: number;     // Pavio, em passos da simulação: explode ao fim do tempo onde estiver (padrão: sem pavio)
+}
+
+/**
+ * Comportamento padrão: explode no primeiro contato
+ */
+export const DEFAULT_PROJECTILE_BEHAVIOR: IProjectileBehavior = {
+  impactMode: ProjectileImpactMode.EXPLODE,
+  maxBounces: 0,
+  rollFriction: 0,
+  minSpeed: 0
+};
+
+/**
+ * Comportamentos prontos para as armas
+ */
+export const PROJECTILE_BEHAVIOR_PRESETS = {
+  // Quica algumas vezes e explode ao fim do pavio
+  GRENADE: {
+    impactMode: ProjectileImpactMode.BOUNCE,
+    maxBounces: 4,
+    rollFriction: 0.05,
+    minSpeed: 0.3,
+    fuseTime: 180
+  } as IProjectileBehavior,
+  // Rola morro abaixo e explode ao parar
+  ROLLING_BOMB: {
+    impactMode: ProjectileImpactMode.ROLL,
+    maxBounces: 0,
+    rollFriction: 0.02,
+    minSpeed: 0.2
+  } as IProjectileBehavior
+};
+
+/**
+ * Resultado do contato de um projétil com o terreno
+ */
+export interface IProjectileContactResult {
+  velocity: Vector2D; // Velocidade após o contato
+  explode: boolean;   // Se o projétil deve explodir
+  stop: boolean;      // Se o projétil parou e espera o pavio
+  bounced: boolean;   // Se o contato contou como um quique
+}
+
+/**
+ * Calcula a resposta de um projétil ao tocar o terreno a partir da normal da superfície
+ */
+export class ProjectileContactResolver {
+  /**
+   * Resolve o contato de um projétil com o terreno
+   * @param velocity Velocidade no momento do contato
+   * @param normal Normal da superfície no ponto de contato (apontando para fora do terreno)
+   * @param behavior Comportamento do projétil
+   * @param bounces Quiques já realizados
+   * @param defaultRestitution Restituição usada quando o comportamento não define uma
+   * @returns Nova velocidade e o que o projétil deve fazer
+   */
+  resolve(
+    velocity: Vector2D,
+    normal: Vector2D,
+    behavior: IProjectileBehavior,
+    bounces: number,
+    defaultRestitution: number
+  ): IProjectileContactResult {
+    if (behavior.impactMode === ProjectileImpactMode.EXPLODE) {
+      return { velocity, explode: true, stop: false, bounced: false };
+    }
+
+    // Decompõe a velocidade nas componentes normal e tangencial à superfície
+    const normalSpeed = velocity.x * normal.x + velocity.y * normal.y;
+    const tangent = {
+      x: velocity.x - normalSpeed * normal.x,
+      y: velocity.y - normalSpeed * normal.y
+    };
+
+    let next: Vector2D;
+    let bounced = false;
+
+    if (behavior.impactMode === ProjectileImpactMode.BOUNCE && normalSpeed < -behavior.minSpeed) {
+      // Quique: inverte a componente que entra no terreno, reduzida pela restituição
+      const restitution = behavior.restitution ?? defaultRestitution;
+      next = {
+        x: tangent.x - normalSpeed * restitution * normal.x,
+        y: tangent.y - normalSpeed * restitution * normal.y
+      };
+      bounced = true;
+    } else {
+      // Rolagem (ou quique fraco demais): segue a superfície, perdendo velocidade com o atrito
+      const keep = Math.max(0, 1 - behavior.rollFriction);
+      next = { x: tangent.x * keep, y: tangent.y * keep };
+    }
+
+    // Sem quiques restantes ou parado: espera o pavio, se houver, ou explode
+    const outOfBounces = bounced && bounces + 1 > behavior.maxBounces;
+    if (outOfBounces || Math.hypot(next.x, next.y) < behavior.minSpeed) {
+      const hasFuse = behavior.fuseTime !== undefined;
+      return { velocity: { x: 0, y: 0 }, explode: !hasFuse, stop: hasFuse, bounced };
+    }
+
+    return { velocity: next, explode: false, stop: false, bounced };
+  }
+}
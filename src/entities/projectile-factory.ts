@@ -2,17 +2,15 @@ import * as PIXI from 'pixi.js';
 import { Projectile } from './projectile';
 import { FragProjectile } from './frag-projectile';
 import { GuidedProjectile } from './guided-projectile';
+import { DirtProjectile } from './dirt-projectile';
+import { LaserProjectile } from './laser-projectile';
 import { PhysicsSystem } from '../systems/physics-adapter';
 import { WeaponType } from './vehicles/types';
+import { ProjectileType } from './projectile-types';
+import { WeaponRegistry } from './weapon-registry';
+import { BallisticIntegrator } from '../systems/physics/ballistic-integrator';
 
-/**
- * Tipos de projéteis suportados pelo sistema
- */
-export enum ProjectileType {
-  STANDARD = 'standard',
-  FRAGMENTATION = 'fragmentation',
-  GUIDED = 'guided'
-}
+export { ProjectileType } from './projectile-types';
 
 /**
  * Opções para criação de projéteis
@@ -23,7 +21,7 @@ export interface ProjectileOptions {
   y: number;
   velocityX?: number;       // Opção de entrada compatível com veículos existentes
   velocityY?: number;       // Opção de entrada compatível com veículos existentes
-  angle?: number;           // Alternativa: ângulo em radianos
+  angle?: number;           // Alternativa: ângulo em graus (0 = direita, 90 = para cima)
   power?: number;           // Alternativa: potência do disparo
   weaponType: WeaponType;   // Tipo de arma que disparou o projétil
   physicsSystem: PhysicsSystem;
@@ -43,6 +41,12 @@ export interface ProjectileOptions {
   target?: any;
   targetX?: number;         // Coordenada X do alvo
   targetY?: number;         // Coordenada Y do alvo
+  
+  // Opções específicas para projéteis de terra
+  fillRadius?: number;      // Raio do monte criado no impacto
+  
+  // Opções específicas para lasers
+  penetration?: number;     // Distância atravessada após o primeiro contato
 }
 
 /**
@@ -54,6 +58,8 @@ export interface ProjectileOptions {
  */
 export class ProjectileFactory {
   private static instance: ProjectileFactory;
+  private weapons: WeaponRegistry = WeaponRegistry.getInstance();
+  private ballistics: BallisticIntegrator = new BallisticIntegrator();
   
   /**
    * Obtém a instância singleton da fábrica
@@ -81,9 +87,8 @@ export class ProjectileFactory {
     
     // Determina o ângulo e a potência, seja a partir de velocidade ou diretamente
     if (options.velocityX !== undefined && options.velocityY !== undefined) {
-      // Converte velocidade XY para ângulo e potência
-      angle = Math.atan2(options.velocityY, options.velocityX);
-      power = Math.sqrt(options.velocityX * options.velocityX + options.velocityY * options.velocityY) * 100;
+      // Converte velocidade XY para ângulo e potência, com a mesma escala usada no lançamento
+      ({ angle, power } = this.ballistics.getLaunchAim({ x: options.velocityX, y: options.velocityY }));
     } else if (options.angle !== undefined && options.power !== undefined) {
       // Usa valores fornecidos diretamente
       angle = options.angle;
@@ -93,38 +98,64 @@ export class ProjectileFactory {
       throw new Error('Deve fornecer velocityX/velocityY ou angle/power para criar um projétil');
     }
     
-    // Cria o tipo apropriado de projétil com base no tipo de arma
-    switch (options.weaponType) {
-      case WeaponType.BOMB:
-      case WeaponType.FRAG_BOMB:
-        return this.createFragmentationProjectile(
+    // Cria o tipo de projétil definido no registro de armas
+    const weapon = this.weapons.get(options.weaponType);
+    let projectile: Projectile;
+    
+    switch (weapon.projectileType) {
+      case ProjectileType.FRAGMENTATION:
+        projectile = this.createFragmentationProjectile(
           options.container,
           options.x,
           options.y,
           angle,
           power,
           options.physicsSystem,
-          options.fragmentCount,
-          options.fragmentDamage
+          options.fragmentCount ?? weapon.fragmentCount,
+          options.fragmentDamage ?? weapon.fragmentDamage,
+          options.fragmentSpread ?? weapon.fragmentSpread
         );
+        break;
       
-      case WeaponType.GUIDED_MISSILE:
-        return this.createGuidedProjectile(
+      case ProjectileType.GUIDED:
+        projectile = this.createGuidedProjectile(
           options.container,
           options.x,
           options.y,
           angle,
           power,
           options.physicsSystem,
-          options.guidanceStrength
+          options.guidanceStrength ?? weapon.guidanceStrength
         );
+        break;
       
-      case WeaponType.CANNON:
-      case WeaponType.LASER:
-      case WeaponType.MISSILE:
-      case WeaponType.FIRE:
+      case ProjectileType.DIRT:
+        projectile = this.createDirtProjectile(
+          options.container,
+          options.x,
+          options.y,
+          angle,
+          power,
+          options.physicsSystem,
+          options.fillRadius ?? weapon.fillRadius
+        );
+        break;
+      
+      case ProjectileType.LASER:
+        projectile = this.createLaserProjectile(
+          options.container,
+          options.x,
+          options.y,
+          angle,
+          power,
+          options.physicsSystem,
+          options.penetration ?? weapon.penetration
+        );
+        break;
+      
+      case ProjectileType.STANDARD:
       default:
-        return this.createStandardProjectile(
+        projectile = this.createStandardProjectile(
           options.container,
           options.x,
           options.y,
@@ -133,6 +164,11 @@ export class ProjectileFactory {
           options.physicsSystem
         );
     }
+    
+    // Dano, cratera e comportamento no terreno vêm da definição da arma
+    projectile.setWeapon(weapon);
+    
+    return projectile;
   }
   
   /**
@@ -168,7 +204,8 @@ export class ProjectileFactory {
     power: number,
     physicsSystem: PhysicsSystem,
     fragmentCount: number = 8,
-    fragmentDamage: number = 15
+    fragmentDamage: number = 15,
+    fragmentSpread: number = 120
   ): FragProjectile {
     return new FragProjectile(
       container,
@@ -178,7 +215,54 @@ export class ProjectileFactory {
       power,
       physicsSystem,
       fragmentCount,
-      fragmentDamage
+      fragmentDamage,
+      fragmentSpread
+    );
+  }
+  
+  /**
+   * Cria um projétil de terra
+   */
+  private createDirtProjectile(
+    container: PIXI.Container,
+    startX: number,
+    startY: number,
+    angle: number,
+    power: number,
+    physicsSystem: PhysicsSystem,
+    fillRadius: number = 35
+  ): DirtProjectile {
+    return new DirtProjectile(
+      container,
+      startX,
+      startY,
+      angle,
+      power,
+      physicsSystem,
+      fillRadius
+    );
+  }
+  
+  /**
+   * Cria um projétil de laser
+   */
+  private createLaserProjectile(
+    container: PIXI.Container,
+    startX: number,
+    startY: number,
+    angle: number,
+    power: number,
+    physicsSystem: PhysicsSystem,
+    penetration: number = 120
+  ): LaserProjectile {
+    return new LaserProjectile(
+      container,
+      startX,
+      startY,
+      angle,
+      power,
+      physicsSystem,
+      penetration
     );
   }
   
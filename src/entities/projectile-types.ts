@@ -0,0 +1,10 @@
+/**
+ * Tipos de projéteis suportados pelo sistema
+ */
+export enum ProjectileType {
+  STANDARD = 'standard',
+  FRAGMENTATION = 'fragmentation',
+  GUIDED = 'guided',
+  DIRT = 'dirt',
+  LASER = 'laser'
+}
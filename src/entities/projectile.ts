@@ -1,6 +1,16 @@
 import * as PIXI from 'pixi.js';
 import { PhysicsSystem } from '../systems/physics-adapter';
 import { EventSystem } from '../systems/event-system';
+import { BallisticIntegrator } from '../systems/physics/ballistic-integrator';
+import { IWeaponDamageProfile, DEFAULT_DAMAGE_PROFILE } from '../systems/damage-resolver';
+import { IProjectileBehavior, DEFAULT_PROJECTILE_BEHAVIOR } from './projectile-behavior';
+import { IWeaponDefinition } from './weapon-registry';
+import { WeaponType } from './vehicles/types';
+
+/**
+ * Raio da cratera aberta por projéteis sem arma definida
+ */
+const DEFAULT_DIG_RADIUS = 30;
 
 /**
  * Classe que representa um projétil no jogo
@@ -10,17 +20,29 @@ export class Projectile {
   private graphics: PIXI.Graphics;
   private physicsSystem: PhysicsSystem;
   private eventSystem: EventSystem;
+  private integrator: BallisticIntegrator = new BallisticIntegrator();
   
   private x: number;
   private y: number;
   private vx: number;
   private vy: number;
+  private previousX: number;
+  private previousY: number;
   private radius: number = 5;
   private active: boolean = false;
   private trailPoints: Array<{x: number, y: number}> = [];
   private trailGraphics: PIXI.Graphics;
   private containerWidth: number;
   private containerHeight: number;
+  private damageProfile: IWeaponDamageProfile = DEFAULT_DAMAGE_PROFILE;
+  private behavior: IProjectileBehavior = DEFAULT_PROJECTILE_BEHAVIOR;
+  private weaponType?: WeaponType;
+  private digRadius: number = DEFAULT_DIG_RADIUS;
+  private bounces: number = 0;
+  private fuseTimer: number | null = null; // Passos restantes do pavio (null = sem pavio)
+  private resting: boolean = false;        // Parado no chão, esperando o pavio
+  private sourceId?: number;
+  private playerId?: number;
 
   // Eventos específicos
   private static readonly EVENTS = {
@@ -49,6 +71,8 @@ export class Projectile {
     this.container = container;
     this.x = startX;
     this.y = startY;
+    this.previousX = startX;
+    this.previousY = startY;
     this.physicsSystem = physicsSystem;
     this.eventSystem = EventSystem.getInstance();
     
@@ -57,9 +81,9 @@ export class Projectile {
     this.containerHeight = container.height || 600; // Valor padrão caso não definido
     
     // Calcula velocidade inicial baseada no ângulo e potência
-    const angleRad = angle * (Math.PI / 180);
-    this.vx = Math.cos(angleRad) * power * 0.1;
-    this.vy = -Math.sin(angleRad) * power * 0.1;
+    const velocity = this.integrator.getLaunchVelocity(angle, power);
+    this.vx = velocity.x;
+    this.vy = velocity.y;
     
     // Cria o gráfico do projétil
     this.graphics = new PIXI.Graphics();
@@ -88,23 +112,34 @@ export class Projectile {
   }
 
   /**
-   * Atualiza o estado do projétil
-   * @param deltaTime Tempo desde o último frame
+   * Avança o projétil em um passo fixo da simulação
+   * @param deltaTime Duração do passo fixo
    */
   public update(deltaTime: number): void {
     if (!this.active) return;
 
-    // Aplica gravidade e vento
-    const gravity = this.physicsSystem.getGravity();
-    const wind = this.physicsSystem.getWind() * 0.005;
-    
-    // Atualiza velocidade
-    this.vy += gravity * deltaTime;
-    this.vx += wind * deltaTime;
+    // Guarda a posição do passo anterior para a interpolação
+    this.previousX = this.x;
+    this.previousY = this.y;
+
+    if (this.fuseTimer !== null) {
+      this.fuseTimer -= deltaTime;
+    }
+
+    // Parado no chão: só o pavio corre
+    if (this.resting) return;
+
+    // Aplica gravidade e vento com o mesmo integrador usado na prévia da trajetória
+    const next = this.integrator.step(
+      { x: this.x, y: this.y, vx: this.vx, vy: this.vy },
+      this.physicsSystem.getEnvironment(),
+      deltaTime
+    );
     
-    // Atualiza posição
-    this.x += this.vx * deltaTime;
-    this.y += this.vy * deltaTime;
+    this.x = next.x;
+    this.y = next.y;
+    this.vx = next.vx;
+    this.vy = next.vy;
     
     // Adiciona ponto à trilha
     this.trailPoints.push({ x: this.x, y: this.y });
@@ -124,9 +159,14 @@ export class Projectile {
     
     // Verifica colisão com o terreno ou saída da tela
     this.checkCollision();
-    
-    // Desenha o projétil e a trilha
-    this.draw();
+  }
+
+  /**
+   * Desenha o projétil entre o passo anterior e o atual
+   * @param alpha Fração de interpolação entre os dois passos (0 a 1)
+   */
+  public render(alpha: number = 1): void {
+    this.draw(alpha);
   }
 
   /**
@@ -168,15 +208,19 @@ export class Projectile {
 
   /**
    * Desenha o projétil e a trilha
+   * @param alpha Fração de interpolação entre o passo anterior e o atual
    */
-  private draw(): void {
+  private draw(alpha: number = 1): void {
     // Limpa o gráfico anterior
     this.graphics.clear();
     
     // Desenha o projétil
     if (this.active) {
+      const x = this.previousX + (this.x - this.previousX) * alpha;
+      const y = this.previousY + (this.y - this.previousY) * alpha;
+      
       this.graphics.beginFill(0xFFFF00);
-      this.graphics.drawCircle(this.x, this.y, this.radius);
+      this.graphics.drawCircle(x, y, this.radius);
       this.graphics.endFill();
     }
     
@@ -201,6 +245,155 @@ export class Projectile {
     this.trailPoints = [];
   }
 
+  /**
+   * Define quem disparou o projétil, para as regras de fogo amigo
+   * @param sourceId ID do veículo que disparou
+   * @param playerId ID do jogador que disparou
+   */
+  public setOwner(sourceId?: number, playerId?: number): void {
+    this.sourceId = sourceId;
+    this.playerId = playerId;
+  }
+
+  /**
+   * Obtém quem disparou o projétil
+   */
+  public getOwner(): { sourceId?: number, playerId?: number } {
+    return { sourceId: this.sourceId, playerId: this.playerId };
+  }
+
+  /**
+   * Define o perfil de dano da arma que disparou o projétil
+   * @param profile Perfil de dano
+   */
+  public setDamageProfile(profile: IWeaponDamageProfile): void {
+    this.damageProfile = profile;
+  }
+
+  /**
+   * Obtém o perfil de dano do projétil
+   */
+  public getDamageProfile(): IWeaponDamageProfile {
+    return this.damageProfile;
+  }
+
+  /**
+   * Aplica a definição da arma que disparou o projétil: dano, cratera e comportamento no terreno
+   * @param weapon Definição da arma
+   */
+  public setWeapon(weapon: IWeaponDefinition): void {
+    this.weaponType = weapon.type;
+    this.digRadius = weapon.digRadius;
+    this.setDamageProfile({
+      baseDamage: weapon.damage,
+      splashRadius: weapon.blastRadius,
+      damageType: weapon.damageType,
+      knockback: weapon.knockback
+    });
+    this.setBehavior({ ...DEFAULT_PROJECTILE_BEHAVIOR, ...weapon.behavior });
+  }
+
+  /**
+   * Obtém o tipo da arma que disparou o projétil
+   */
+  public getWeaponType(): WeaponType | undefined {
+    return this.weaponType;
+  }
+
+  /**
+   * Obtém o raio da cratera aberta pelo projétil ao explodir (0 = não escava)
+   */
+  public getDigRadius(): number {
+    return this.digRadius;
+  }
+
+  /**
+   * Define o raio da cratera aberta pelo projétil ao explodir
+   * @param radius Raio da cratera (0 = não escava)
+   */
+  public setDigRadius(radius: number): void {
+    this.digRadius = radius;
+  }
+
+  /**
+   * Define o comportamento do projétil ao tocar o terreno
+   * @param behavior Comportamento (quique, rolagem e pavio)
+   */
+  public setBehavior(behavior: IProjectileBehavior): void {
+    this.behavior = behavior;
+    this.fuseTimer = behavior.fuseTime ?? null;
+  }
+
+  /**
+   * Obtém o comportamento do projétil ao tocar o terreno
+   */
+  public getBehavior(): IProjectileBehavior {
+    return this.behavior;
+  }
+
+  /**
+   * Obtém quantas vezes o projétil já quicou
+   */
+  public getBounceCount(): number {
+    return this.bounces;
+  }
+
+  /**
+   * Verifica se o pavio do projétil acabou
+   */
+  public isFuseExpired(): boolean {
+    return this.fuseTimer !== null && this.fuseTimer <= 0;
+  }
+
+  /**
+   * Desvia o projétil após tocar o terreno sem explodir
+   * @param x Nova posição X, fora do terreno
+   * @param y Nova posição Y, fora do terreno
+   * @param velocity Velocidade após o contato
+   * @param bounced Se o contato contou como um quique
+   */
+  public deflect(x: number, y: number, velocity: { x: number, y: number }, bounced: boolean): void {
+    this.x = x;
+    this.y = y;
+    this.vx = velocity.x;
+    this.vy = velocity.y;
+
+    if (bounced) {
+      this.bounces++;
+    }
+  }
+
+  /**
+   * Para o projétil no chão até o fim do pavio
+   * @param x Posição X de repouso
+   * @param y Posição Y de repouso
+   */
+  public rest(x: number, y: number): void {
+    this.deflect(x, y, { x: 0, y: 0 }, false);
+    this.resting = true;
+  }
+
+  /**
+   * Obtém a velocidade atual do projétil
+   */
+  public getVelocity(): { x: number, y: number } {
+    return { x: this.vx, y: this.vy };
+  }
+
+  /**
+   * Obtém a posição atual do projétil
+   */
+  public getPosition(): { x: number, y: number } {
+    return { x: this.x, y: this.y };
+  }
+
+  /**
+   * Obtém a posição no início do último passo, para a detecção contínua de colisões
+   */
+  public getPreviousPosition(): { x: number, y: number } {
+    return { x: this.previousX, y: this.previousY };
+  }
+
   /**
    * Verifica se o projétil está ativo
    */
@@ -1,8 +1,12 @@
 import * as PIXI from 'pixi.js';
-import { Vehicle, BaseVehicle, VehicleType } from './vehicle';
+import { Vehicle, BaseVehicle, VehicleType, WeaponType, VEHICLE_GROUND_OFFSET } from './vehicle';
 import { Physics } from '../systems/physics';
 import { EventEmitter } from 'events';
 import { Projectile } from '../systems/projectile';
+import { Terrain } from '../systems/terrain';
+import { ForceCalculator } from '../systems/physics/force-calculator';
+import { EventCoordinator } from '../core/event-coordinator';
+import { GameEventType, TerrainDeformationPayload } from '../utils/game-events';
 
 /**
  * Tipos de eventos emitidos pelo gerenciador de veículos
@@ -12,9 +16,50 @@ export enum VehicleEventType {
   VEHICLE_DAMAGED = 'vehicle_damaged',
   TURN_CHANGED = 'turn_changed',
   VEHICLE_CREATED = 'vehicleCreated',
-  VEHICLE_MOVED = 'vehicleMoved'
+  VEHICLE_MOVED = 'vehicleMoved',
+  VEHICLE_LANDED = 'vehicle_landed'
 }
 
+/**
+ * Causas da destruição de um veículo, informadas no evento VEHICLE_DESTROYED
+ */
+export enum VehicleDestructionCause {
+  DAMAGE = 'damage',               // Dano de explosões e acertos
+  FALL = 'fall',                   // Dano de queda
+  OUT_OF_BOUNDS = 'out_of_bounds', // Caiu para fora do mapa
+  LIQUID = 'liquid'                // Afundou em líquido letal ou sofreu o dano por turno da lava
+}
+
+/**
+ * Raio da hitbox dos veículos, somado ao alcance das explosões
+ */
+const VEHICLE_HIT_RADIUS = 20;
+
+/**
+ * Fração da velocidade horizontal mantida a cada passo enquanto o veículo desliza no chão
+ */
+const GROUND_FRICTION = 0.85;
+
+/**
+ * Velocidade horizontal abaixo da qual o veículo para de deslizar
+ */
+const MIN_SLIDE_SPEED = 0.05;
+
+/**
+ * Impulso no centro das explosões de armas que não informam o seu
+ */
+export const DEFAULT_BLAST_STRENGTH = 40;
+
+/**
+ * Altura de queda, em pixels, a partir da qual o veículo sofre dano
+ */
+const FALL_DAMAGE_THRESHOLD = 60;
+
+/**
+ * Dano por pixel de queda acima do limite
+ */
+const FALL_DAMAGE_PER_PIXEL = 0.5;
+
 /**
  * Classe responsável por gerenciar os veículos do jogo
  */
@@ -22,17 +67,36 @@ export class VehicleManager extends EventEmitter {
   private vehicles: Vehicle[] = [];
   private container: PIXI.Container;
   private physics: Physics;
+  private terrain: Terrain | null;
+  private projectileContainer: PIXI.Container | null = null;
+  private forceCalculator: ForceCalculator = new ForceCalculator();
+  private airborneApex: Map<number, number> = new Map(); // Veículos no ar → ponto mais alto (menor y) desde que saíram do chão
+  private terrainDeformedHandler: ((payload: TerrainDeformationPayload) => void) | null = null;
   private nextId: number = 1;
 
   /**
    * Cria um novo gerenciador de veículos
    * @param container Container para armazenar os gráficos dos veículos
-   * @param physics Sistema de física para interação
+   * @param physics Sistema de física, de onde vêm a gravidade e o arrasto aplicados aos veículos
+   * @param terrain Terreno sobre o qual os veículos se apoiam (sem terreno, os veículos não são apoiados)
    */
-  constructor(container: PIXI.Container, physics: Physics) {
+  constructor(container: PIXI.Container, physics: Physics, terrain: Terrain | null = null) {
     super();
     this.container = container;
     this.physics = physics;
+    this.terrain = terrain;
+  }
+
+  /**
+   * Define o container em que os projéteis disparados pelos veículos são desenhados
+   * @param container Container dos projéteis
+   */
+  setProjectileContainer(container: PIXI.Container | null): void {
+    this.projectileContainer = container;
+    
+    for (const vehicle of this.vehicles) {
+      vehicle.setProjectileContainer(container);
+    }
   }
 
   /**
@@ -73,6 +137,9 @@ export class VehicleManager extends EventEmitter {
           120, // Vida (robôs são mais resistentes)
           playerId
         );
+        vehicle.armor = 3; // Blindagem reduz o dano de cada acerto
+        vehicle.maxClimbAngle = 40; // Mais pesado, sobe rampas menos íngremes
+        vehicle.primaryWeapon = WeaponType.LASER; // Dispara um feixe que atravessa o terreno
         break;
       default:
         vehicle = new BaseVehicle(
@@ -91,14 +158,17 @@ export class VehicleManager extends EventEmitter {
     // Adiciona o veículo à lista
     this.vehicles.push(vehicle);
 
+    // Faz o veículo andar sobre o terreno
+    if (this.terrain) {
+      vehicle.setGround(this.terrain);
+    }
+
+    // Os disparos do veículo são desenhados junto dos demais projéteis
+    vehicle.setProjectileContainer(this.projectileContainer);
+
     // Adiciona o gráfico do veículo ao container
     this.container.addChild(vehicle.graphics);
 
-    // Adiciona o veículo ao sistema de física (se necessário)
-    if (!vehicle.isStatic) {
-      this.physics.addObject(vehicle);
-    }
-
     // Emite evento de veículo criado
     this.emit(VehicleEventType.VEHICLE_CREATED, vehicle);
 
@@ -118,11 +188,9 @@ export class VehicleManager extends EventEmitter {
       // Remove do container PIXI
       this.container.removeChild(vehicle.graphics);
       
-      // Remove do sistema de física
-      this.physics.removeObject(vehicle);
-      
       // Remove da lista de veículos
       this.vehicles.splice(index, 1);
+      this.airborneApex.delete(id);
       
       // Destrói o veículo para liberar memória
       vehicle.destroy();
@@ -130,12 +198,247 @@ export class VehicleManager extends EventEmitter {
   }
 
   /**
-   * Atualiza todos os veículos
-   * @param delta Delta time
+   * Avança todos os veículos em um passo fixo da simulação
+   * @param delta Duração do passo fixo
    */
   update(delta: number): void {
-    for (const vehicle of this.vehicles) {
+    // Os veículos não são objetos genéricos do sistema de física: só o gerenciador os move,
+    // uma vez por passo, com a gravidade e o arrasto das regras da partida
+    const rules = this.physics.getRules();
+    const drag = Math.max(0, 1 - rules.airDrag * delta);
+    
+    // Copia a lista, pois quedas podem destruir veículos durante a atualização
+    for (const vehicle of [...this.vehicles]) {
+      if (!vehicle.isStatic) {
+        vehicle.velocity.x *= drag;
+        vehicle.velocity.y = Math.min(rules.terminalVelocity, (vehicle.velocity.y + rules.gravity * delta) * drag);
+      }
+      
       vehicle.update(delta);
+      
+      if (this.terrain) {
+        this.resolveTerrainContact(vehicle, this.terrain);
+      }
+    }
+  }
+
+  /**
+   * Reapoia no terreno os veículos parados sobre uma área alterada
+   * Quem perdeu o chão passa a cair a partir da posição atual (com dano de queda ao pousar);
+   * quem ficou soterrado por terreno que desmoronou volta para a superfície
+   * @param area Área do terreno alterada; se omitida, verifica todos os veículos
+   */
+  regroundVehicles(area?: { x: number, width: number }): void {
+    if (!this.terrain) {
+      return;
+    }
+    
+    for (const vehicle of [...this.vehicles]) {
+      // Veículos no ar já são resolvidos a cada passo
+      if (this.airborneApex.has(vehicle.id)) {
+        continue;
+      }
+      
+      if (area && (vehicle.position.x < area.x || vehicle.position.x > area.x + area.width)) {
+        continue;
+      }
+      
+      this.resolveTerrainContact(vehicle, this.terrain);
+    }
+  }
+
+  /**
+   * Passa a reapoiar os veículos sempre que o terreno for deformado (explosões e desmoronamentos)
+   */
+  watchTerrainDeformation(): void {
+    this.unwatchTerrainDeformation();
+    
+    this.terrainDeformedHandler = (payload: TerrainDeformationPayload) => {
+      this.regroundVehicles(payload.affectedArea);
+    };
+    
+    EventCoordinator.getInstance().on(GameEventType.TERRAIN_DEFORMED, this.terrainDeformedHandler);
+  }
+
+  /**
+   * Para de acompanhar as deformações do terreno
+   */
+  unwatchTerrainDeformation(): void {
+    if (this.terrainDeformedHandler) {
+      EventCoordinator.getInstance().off(GameEventType.TERRAIN_DEFORMED, this.terrainDeformedHandler);
+      this.terrainDeformedHandler = null;
+    }
+  }
+
+  /**
+   * Empurra os veículos próximos a uma explosão
+   * O impulso é radial, diminui com a distância e é dividido pela massa de cada veículo;
+   * o movimento resultante (deslizar ou ser lançado de uma borda) é resolvido contra o terreno a cada passo
+   * @param x Centro X da explosão
+   * @param y Centro Y da explosão
+   * @param radius Alcance da explosão, a partir da borda da hitbox
+   * @param strength Impulso no centro da explosão
+   * @returns Veículos empurrados
+   */
+  applyBlast(x: number, y: number, radius: number, strength: number = DEFAULT_BLAST_STRENGTH): Vehicle[] {
+    const pushed: Vehicle[] = [];
+    
+    if (strength <= 0) {
+      return pushed;
+    }
+    
+    for (const vehicle of this.vehicles) {
+      if (vehicle.isStatic || vehicle.isDestroyed()) {
+        continue;
+      }
+      
+      const velocity = this.forceCalculator.applyExplosion(vehicle, x, y, radius + VEHICLE_HIT_RADIUS, strength);
+      
+      if (velocity.x !== vehicle.velocity.x || velocity.y !== vehicle.velocity.y) {
+        vehicle.velocity.x = velocity.x;
+        vehicle.velocity.y = velocity.y;
+        pushed.push(vehicle);
+      }
+    }
+    
+    return pushed;
+  }
+
+  /**
+   * Reposiciona um veículo sobre a superfície do terreno (ex: item de teletransporte)
+   * O veículo chega parado e sem contar o salto como queda
+   * @param id ID do veículo
+   * @param x Posição X de destino
+   * @returns Verdadeiro se havia chão no destino e o veículo foi movido
+   */
+  teleportVehicle(id: number, x: number): boolean {
+    const vehicle = this.getVehicleById(id);
+    if (!vehicle || !this.terrain || x < 0 || x >= this.terrain.getWidth()) {
+      return false;
+    }
+
+    const surfaceY = this.terrain.getHeightAt(x);
+    if (surfaceY >= this.terrain.getHeight()) {
+      return false;
+    }
+
+    vehicle.position.x = x;
+    vehicle.position.y = surfaceY - VEHICLE_GROUND_OFFSET;
+    vehicle.velocity.x = 0;
+    vehicle.velocity.y = 0;
+    vehicle.alignToGround();
+    this.airborneApex.delete(vehicle.id);
+
+    this.emit(VehicleEventType.VEHICLE_MOVED, vehicle);
+
+    return true;
+  }
+
+  /**
+   * Aplica o dano por turno aos veículos submersos em líquido não letal (ex: lava)
+   * Deve ser chamado uma vez ao fim de cada turno
+   */
+  applyLiquidDamage(): void {
+    const liquid = this.terrain ? this.terrain.getLiquid() : null;
+    if (!liquid || liquid.isLethal()) {
+      return;
+    }
+    
+    // Copia a lista, pois o dano pode destruir veículos
+    for (const vehicle of [...this.vehicles]) {
+      if (this.terrain.isInLiquid(vehicle.position.x, vehicle.position.y)) {
+        this.damageVehicle(vehicle.id, liquid.getDamagePerTurn(), VehicleDestructionCause.LIQUID);
+      }
+    }
+  }
+
+  /**
+   * Verifica se um veículo está no ar
+   * @param id ID do veículo
+   * @returns Verdadeiro se o veículo não está apoiado no terreno
+   */
+  isAirborne(id: number): boolean {
+    return this.airborneApex.has(id);
+  }
+
+  /**
+   * Apoia o veículo no terreno ou acompanha sua queda
+   * Ao tocar o chão, emite VEHICLE_LANDED com a altura da queda desde o ponto mais alto
+   * @param vehicle Veículo a resolver
+   * @param terrain Terreno atual
+   */
+  private resolveTerrainContact(vehicle: Vehicle, terrain: Terrain): void {
+    const mapBottom = terrain.getHeight();
+    const { x, y } = vehicle.position;
+    
+    // Fora do mapa não há chão: o veículo cai até sair pela borda de baixo
+    const surfaceY = x >= 0 && x < terrain.getWidth() ? terrain.getHeightAt(x) : mapBottom;
+    const hasGround = surfaceY < mapBottom;
+    const groundY = surfaceY - VEHICLE_GROUND_OFFSET;
+    
+    if (!hasGround && y - VEHICLE_GROUND_OFFSET > mapBottom) {
+      this.destroyVehicle(vehicle, VehicleDestructionCause.OUT_OF_BOUNDS);
+      return;
+    }
+    
+    // Líquido letal (ex: água) afunda o veículo de vez; os demais causam dano ao fim do turno
+    const liquid = terrain.getLiquid();
+    if (liquid && liquid.isLethal() && terrain.isInLiquid(x, y)) {
+      this.destroyVehicle(vehicle, VehicleDestructionCause.LIQUID);
+      return;
+    }
+    
+    // No ar: guarda o ponto mais alto para calcular a queda
+    if (!hasGround || y < groundY) {
+      const apex = this.airborneApex.get(vehicle.id);
+      this.airborneApex.set(vehicle.id, apex === undefined ? y : Math.min(apex, y));
+      return;
+    }
+    
+    // No chão: apoia o veículo e freia o deslizamento
+    vehicle.position.y = groundY;
+    vehicle.velocity.y = Math.min(0, vehicle.velocity.y);
+    vehicle.velocity.x *= GROUND_FRICTION;
+    
+    if (Math.abs(vehicle.velocity.x) < MIN_SLIDE_SPEED) {
+      vehicle.velocity.x = 0;
+    }
+    
+    vehicle.alignToGround();
+    
+    const apex = this.airborneApex.get(vehicle.id);
+    if (apex !== undefined) {
+      this.airborneApex.delete(vehicle.id);
+      
+      const fallDistance = Math.max(0, groundY - apex);
+      this.emit(VehicleEventType.VEHICLE_LANDED, vehicle, fallDistance);
+      
+      // Quedas longas causam dano proporcional à altura
+      if (fallDistance > FALL_DAMAGE_THRESHOLD) {
+        const damage = Math.round((fallDistance - FALL_DAMAGE_THRESHOLD) * FALL_DAMAGE_PER_PIXEL);
+        this.damageVehicle(vehicle.id, damage, VehicleDestructionCause.FALL);
+      }
+    }
+  }
+
+  /**
+   * Destrói um veículo imediatamente, independente da vida restante
+   * @param vehicle Veículo a destruir
+   * @param cause Causa da destruição
+   */
+  private destroyVehicle(vehicle: Vehicle, cause: VehicleDestructionCause): void {
+    vehicle.health = 0;
+    this.emit(VehicleEventType.VEHICLE_DESTROYED, vehicle, cause);
+    this.removeVehicle(vehicle.id);
+  }
+
+  /**
+   * Posiciona os gráficos dos veículos entre os dois últimos passos da simulação
+   * @param alpha Fração de interpolação (0 a 1)
+   */
+  render(alpha: number = 1): void {
+    for (const vehicle of this.vehicles) {
+      vehicle.render(alpha);
     }
   }
 
@@ -143,19 +446,20 @@ export class VehicleManager extends EventEmitter {
    * Aplica dano a um veículo
    * @param id ID do veículo
    * @param damage Quantidade de dano
+   * @param cause Causa informada caso o dano destrua o veículo
    */
-  damageVehicle(id: number, damage: number): void {
+  damageVehicle(id: number, damage: number, cause: VehicleDestructionCause = VehicleDestructionCause.DAMAGE): void {
     const vehicle = this.getVehicleById(id);
     
     if (vehicle) {
       vehicle.takeDamage(damage);
       
       // Emite evento de dano
-      this.emit(VehicleEventType.VEHICLE_DAMAGED, vehicle, damage);
+      this.emit(VehicleEventType.VEHICLE_DAMAGED, vehicle, damage, cause);
       
       // Verifica se o veículo foi destruído
       if (vehicle.health <= 0) {
-        this.emit(VehicleEventType.VEHICLE_DESTROYED, vehicle);
+        this.emit(VehicleEventType.VEHICLE_DESTROYED, vehicle, cause);
         this.removeVehicle(id);
       }
     }
@@ -1,6 +1,13 @@
 import * as PIXI from 'pixi.js';
 import { PhysicsObject } from '../systems/physics';
 import { CONFIG } from '../core/config';
+import { WeaponType } from './vehicles/types';
+import { Projectile } from './projectile';
+import { ProjectileAdapter } from './projectile-adapter';
+import { PhysicsService } from '../systems/physics-service';
+
+// Os tipos de armas são os mesmos do registro de armas
+export { WeaponType };
 
 /**
  * Tipos de veículos disponíveis
@@ -15,15 +22,32 @@ export enum VehicleType {
 }
 
 /**
- * Tipos de armas disponíveis
+ * Superfície sobre a qual os veículos andam (ex: o terreno)
  */
-export enum WeaponType {
-  CANNON = 'cannon',
-  LASER = 'laser',
-  MISSILE = 'missile',
-  BOMB = 'bomb',
+export interface IVehicleGround {
+  getHeightAt(x: number): number;
 }
 
+/**
+ * Distância entre o centro do veículo e o chão quando ele está apoiado
+ */
+export const VEHICLE_GROUND_OFFSET = 20;
+
+/**
+ * Distância percorrida a cada comando de movimento
+ */
+const MOVE_STEP = 5;
+
+/**
+ * Pontos de movimento gastos a cada passo no plano
+ */
+const MOVE_COST = 5;
+
+/**
+ * Custo extra da subida: a cada pixel subido por pixel andado, o passo custa mais uma vez o custo no plano
+ */
+const UPHILL_COST_FACTOR = 1;
+
 /**
  * Interface base para veículos (mobiles)
  */
@@ -35,6 +59,8 @@ export interface Vehicle extends PhysicsObject {
   health: number;
   maxHealth: number;
   playerId: number;
+  armor: number;    // Redução fixa de dano por acerto
+  defense: number;  // Redução percentual de dano (0 a 1)
   
   // Posição e movimento para sobrescrever PhysicsObject
   position: { x: number, y: number };
@@ -43,6 +69,7 @@ export interface Vehicle extends PhysicsObject {
   // Armas e estatísticas
   primaryWeapon: WeaponType;
   secondaryWeapon: WeaponType;
+  specialWeapon: WeaponType; // Arma do tiro especial, liberada com a carga da habilidade cheia
   specialAbilityCharge: number;
   maxSpecialAbilityCharge: number;
   
@@ -52,16 +79,21 @@ export interface Vehicle extends PhysicsObject {
   // Propriedades de jogabilidade
   movementPoints: number;
   maxMovementPoints: number;
+  maxClimbAngle: number; // Inclinação máxima que o veículo consegue subir, em graus
   
   // Métodos
   update(deltaTime: number): void;
-  render(): void;
+  render(alpha?: number): void;
   takeDamage(amount: number): void;
   heal(amount: number): void;
-  moveLeft(): void;
-  moveRight(): void;
-  firePrimaryWeapon(velocityX: number, velocityY: number): any;
-  fireSecondaryWeapon(velocityX: number, velocityY: number): any;
+  setGround(ground: IVehicleGround | null): void;
+  setProjectileContainer(container: PIXI.Container | null): void;
+  alignToGround(): void;
+  moveLeft(): boolean;
+  moveRight(): boolean;
+  firePrimaryWeapon(velocityX: number, velocityY: number): Projectile | null;
+  fireSecondaryWeapon(velocityX: number, velocityY: number): Projectile | null;
+  fireSpecialWeapon(velocityX: number, velocityY: number): Projectile | null;
   useSpecialAbility(): boolean;
   chargeSpecialAbility(amount: number): void;
   resetMovementPoints(): void;
@@ -76,6 +108,7 @@ export class BaseVehicle implements Vehicle {
   // PhysicsObject properties
   position: { x: number, y: number };
   velocity: { x: number, y: number };
+  protected previousPosition: { x: number, y: number }; // Posição no passo anterior, usada na interpolação
   mass: number;
   isStatic: boolean = false;
   width: number;
@@ -100,8 +133,11 @@ export class BaseVehicle implements Vehicle {
   type: VehicleType;
   health: number;
   maxHealth: number;
+  armor: number = 0;
+  defense: number = 0;
   primaryWeapon: WeaponType;
   secondaryWeapon: WeaponType;
+  specialWeapon: WeaponType;
   specialAbilityCharge: number = 0;
   maxSpecialAbilityCharge: number = 100;
   graphics: PIXI.Container;
@@ -109,9 +145,12 @@ export class BaseVehicle implements Vehicle {
   playerId: number;
   movementPoints: number;
   maxMovementPoints: number;
+  maxClimbAngle: number = 50;
   
   // Estado interno
   protected isDead: boolean = false;
+  protected ground: IVehicleGround | null = null;
+  protected projectileContainer: PIXI.Container | null = null; // Onde os projéteis disparados são desenhados
   protected healthBar: PIXI.Graphics | null;
   
   /**
@@ -141,6 +180,7 @@ export class BaseVehicle implements Vehicle {
     this.name = name;
     this.type = type;
     this.position = { x, y };
+    this.previousPosition = { x, y };
     this.velocity = { x: 0, y: 0 };
     this.width = width;
     this.height = height;
@@ -158,6 +198,7 @@ export class BaseVehicle implements Vehicle {
     // Inicializa armas padrão
     this.primaryWeapon = WeaponType.CANNON;
     this.secondaryWeapon = WeaponType.BOMB;
+    this.specialWeapon = WeaponType.FRAG_BOMB;
     
     // Cria o container gráfico
     this.graphics = new PIXI.Container();
@@ -175,10 +216,14 @@ export class BaseVehicle implements Vehicle {
   }
   
   /**
-   * Atualiza o estado do veículo
-   * @param deltaTime Tempo desde o último frame
+   * Avança o veículo em um passo fixo da simulação
+   * @param deltaTime Duração do passo fixo
    */
   update(deltaTime: number): void {
+    // Guarda a posição do passo anterior para a interpolação
+    this.previousPosition.x = this.position.x;
+    this.previousPosition.y = this.position.y;
+    
     // Atualiza posição baseada na física
     this.position.x += this.velocity.x * deltaTime;
     this.position.y += this.velocity.y * deltaTime;
@@ -193,10 +238,12 @@ export class BaseVehicle implements Vehicle {
   
   /**
    * Renderiza o veículo
+   * @param alpha Fração de interpolação entre o passo anterior e o atual (0 a 1)
    */
-  render(): void {
-    // A renderização é feita automaticamente pelo PIXI
-    // quando os sprites são adicionados ao container
+  render(alpha: number = 1): void {
+    // Os sprites são desenhados pelo PIXI; aqui só suavizamos a posição entre os passos
+    this.graphics.x = this.previousPosition.x + (this.position.x - this.previousPosition.x) * alpha;
+    this.graphics.y = this.previousPosition.y + (this.position.y - this.previousPosition.y) * alpha;
   }
   
   /**
@@ -223,25 +270,101 @@ export class BaseVehicle implements Vehicle {
   }
   
   /**
-   * Move o veículo para a esquerda
+   * Define a superfície sobre a qual o veículo anda
+   * @param ground Superfície (sem superfície, o veículo anda em linha reta)
+   */
+  setGround(ground: IVehicleGround | null): void {
+    this.ground = ground;
+    this.alignToGround();
+  }
+  
+  /**
+   * Define o container em que os projéteis disparados pelo veículo são desenhados
+   * @param container Container dos projéteis (sem container, o veículo não consegue atirar)
    */
-  moveLeft(): void {
-    // Consome pontos de movimento
-    if (this.movementPoints > 0) {
-      this.position.x -= 5;
-      this.movementPoints -= 5;
+  setProjectileContainer(container: PIXI.Container | null): void {
+    this.projectileContainer = container;
+  }
+  
+  /**
+   * Inclina o veículo de acordo com a normal do chão sob ele
+   */
+  alignToGround(): void {
+    if (!this.ground) {
+      return;
     }
+    
+    const halfWidth = this.width / 2;
+    const leftY = this.ground.getHeightAt(this.position.x - halfWidth);
+    const rightY = this.ground.getHeightAt(this.position.x + halfWidth);
+    
+    this.graphics.rotation = Math.atan2(rightY - leftY, this.width);
+  }
+  
+  /**
+   * Move o veículo para a esquerda
+   * @returns Verdadeiro se o veículo se moveu
+   */
+  moveLeft(): boolean {
+    return this.move(-1);
   }
   
   /**
    * Move o veículo para a direita
+   * @returns Verdadeiro se o veículo se moveu
+   */
+  moveRight(): boolean {
+    return this.move(1);
+  }
+  
+  /**
+   * Move o veículo um passo seguindo a superfície do chão
+   * Subidas mais íngremes que o limite do veículo bloqueiam o passo e custam mais pontos;
+   * descidas mais íngremes que o limite (penhascos) deixam o veículo cair
+   * @param direction Direção do passo (-1 = esquerda, 1 = direita)
+   * @returns Verdadeiro se o veículo se moveu
    */
-  moveRight(): void {
-    // Consome pontos de movimento
-    if (this.movementPoints > 0) {
-      this.position.x += 5;
-      this.movementPoints -= 5;
+  protected move(direction: number): boolean {
+    // Sem pontos de movimento, o veículo não anda
+    if (this.movementPoints <= 0) {
+      return false;
     }
+    
+    const nextX = this.position.x + direction * MOVE_STEP;
+    
+    if (!this.ground) {
+      this.position.x = nextX;
+      this.movementPoints = Math.max(0, this.movementPoints - MOVE_COST);
+      return true;
+    }
+    
+    // Não é possível andar no ar
+    const currentY = this.ground.getHeightAt(this.position.x) - VEHICLE_GROUND_OFFSET;
+    if (this.position.y < currentY - 1) {
+      return false;
+    }
+    
+    // Subida positiva (o eixo Y cresce para baixo)
+    const nextY = this.ground.getHeightAt(nextX) - VEHICLE_GROUND_OFFSET;
+    const rise = currentY - nextY;
+    const slope = Math.atan2(Math.abs(rise), MOVE_STEP) * (180 / Math.PI);
+    
+    if (rise > 0 && slope > this.maxClimbAngle) {
+      return false;
+    }
+    
+    const cost = MOVE_COST * (1 + UPHILL_COST_FACTOR * Math.max(0, rise) / MOVE_STEP);
+    this.movementPoints = Math.max(0, this.movementPoints - cost);
+    this.position.x = nextX;
+    
+    // Acompanha a superfície; em um penhasco, a gravidade faz o veículo cair
+    if (rise > 0 || slope <= this.maxClimbAngle) {
+      this.position.y = nextY;
+    }
+    
+    this.alignToGround();
+    
+    return true;
   }
   
   /**
@@ -250,10 +373,8 @@ export class BaseVehicle implements Vehicle {
    * @param velocityY Componente Y da velocidade inicial do projétil
    * @returns O projétil criado ou null se não foi possível atirar
    */
-  firePrimaryWeapon(velocityX: number, velocityY: number): any {
-    // Esta é uma implementação básica que será sobrescrita pelas classes filhas
-    console.log(`${this.name} disparou arma primária: ${this.primaryWeapon} com velocidade (${velocityX}, ${velocityY})`);
-    return null;
+  firePrimaryWeapon(velocityX: number, velocityY: number): Projectile | null {
+    return this.fireWeapon(this.primaryWeapon, velocityX, velocityY);
   }
   
   /**
@@ -262,10 +383,43 @@ export class BaseVehicle implements Vehicle {
    * @param velocityY Componente Y da velocidade inicial do projétil
    * @returns O projétil criado ou null se não foi possível atirar
    */
-  fireSecondaryWeapon(velocityX: number, velocityY: number): any {
-    // Esta é uma implementação básica que será sobrescrita pelas classes filhas
-    console.log(`${this.name} disparou arma secundária: ${this.secondaryWeapon} com velocidade (${velocityX}, ${velocityY})`);
-    return null;
+  fireSecondaryWeapon(velocityX: number, velocityY: number): Projectile | null {
+    return this.fireWeapon(this.secondaryWeapon, velocityX, velocityY);
+  }
+  
+  /**
+   * Dispara a arma do tiro especial
+   * A carga da habilidade especial é verificada e gasta por quem escolhe o espaço de arma
+   * @param velocityX Componente X da velocidade inicial do projétil
+   * @param velocityY Componente Y da velocidade inicial do projétil
+   * @returns O projétil criado ou null se não foi possível atirar
+   */
+  fireSpecialWeapon(velocityX: number, velocityY: number): Projectile | null {
+    return this.fireWeapon(this.specialWeapon, velocityX, velocityY);
+  }
+  
+  /**
+   * Cria, a partir do veículo, o projétil de uma arma do registro de armas
+   * O projétil ainda não foi disparado: quem o recebe o entrega ao gerenciador de projéteis
+   * @param weapon Arma disparada
+   * @param velocityX Componente X da velocidade inicial do projétil
+   * @param velocityY Componente Y da velocidade inicial do projétil
+   * @returns O projétil criado ou null se o veículo não tem onde desenhá-lo
+   */
+  protected fireWeapon(weapon: WeaponType, velocityX: number, velocityY: number): Projectile | null {
+    if (!this.projectileContainer) {
+      return null;
+    }
+    
+    return ProjectileAdapter.getInstance().createProjectile(
+      this.projectileContainer,
+      this.position.x,
+      this.position.y,
+      velocityX,
+      velocityY,
+      weapon,
+      PhysicsService.getInstance().getPhysicsSystem()
+    );
   }
   
   /**
@@ -8,6 +8,7 @@ export class BaseVehicle implements Vehicle {
   // Propriedades físicas
   position: Vector2D;
   velocity: Vector2D;
+  protected previousPosition: Vector2D; // Posição no passo anterior, usada na interpolação
   mass: number;
   isStatic: boolean = false;
   width: number;
@@ -73,6 +74,7 @@ export class BaseVehicle implements Vehicle {
     this.name = name;
     this.type = type;
     this.position = { x, y };
+    this.previousPosition = { x, y };
     this.velocity = { x: 0, y: 0 };
     this.width = width;
     this.height = height;
@@ -107,10 +109,14 @@ export class BaseVehicle implements Vehicle {
   }
   
   /**
-   * Atualiza o estado do veículo
-   * @param deltaTime Tempo desde o último frame
+   * Avança o veículo em um passo fixo da simulação
+   * @param deltaTime Duração do passo fixo
    */
   update(deltaTime: number): void {
+    // Guarda a posição do passo anterior para a interpolação
+    this.previousPosition.x = this.position.x;
+    this.previousPosition.y = this.position.y;
+    
     // Atualiza posição baseada na física
     this.position.x += this.velocity.x * deltaTime;
     this.position.y += this.velocity.y * deltaTime;
@@ -125,10 +131,12 @@ export class BaseVehicle implements Vehicle {
   
   /**
    * Renderiza o veículo
+   * @param alpha Fração de interpolação entre o passo anterior e o atual (0 a 1)
    */
-  render(): void {
-    // A renderização é feita automaticamente pelo PIXI
-    // quando os sprites são adicionados ao container
+  render(alpha: number = 1): void {
+    // Os sprites são desenhados pelo PIXI; aqui só suavizamos a posição entre os passos
+    this.graphics.x = this.previousPosition.x + (this.position.x - this.previousPosition.x) * alpha;
+    this.graphics.y = this.previousPosition.y + (this.position.y - this.previousPosition.y) * alpha;
   }
   
   /**
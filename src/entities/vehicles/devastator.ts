@@ -1,8 +1,10 @@
 import * as PIXI from 'pixi.js';
 import { BaseVehicle } from './base-vehicle';
 import { VehicleType, WeaponType } from './types';
+import { Projectile } from '../projectile';
 import { ProjectileAdapter } from '../projectile-adapter';
 import { PhysicsService } from '../../systems/physics-service';
+import { WeaponRegistry } from '../weapon-registry';
 
 /**
  * Devastator - Veículo com alta resistência e poder de fogo, baixa mobilidade.
@@ -14,6 +16,7 @@ export class DevastatorVehicle extends BaseVehicle {
   private chargeSpeed: number = 2.5; // Carrega mais lentamente que o Interceptor
   private projectileAdapter: ProjectileAdapter;
   private physicsService: PhysicsService;
+  private weapons: WeaponRegistry = WeaponRegistry.getInstance();
 
   /**
    * Cria uma nova instância de Devastador
@@ -131,91 +134,50 @@ export class DevastatorVehicle extends BaseVehicle {
    * Dispara a arma primária (canhão de alta potência)
    * @param velocityX Componente X da velocidade inicial
    * @param velocityY Componente Y da velocidade inicial
+   * @returns O projétil criado ou null se não foi possível atirar
    */
-  public firePrimaryWeapon(velocityX: number, velocityY: number): any {
-    // Aqui seria implementada a lógica para criar o projétil
-    // e adicioná-lo ao gerenciador de projéteis
-    console.log(`Devastador (ID: ${this.id}) disparou canhão: vX=${velocityX}, vY=${velocityY}`);
-    
-    // Obtém o sistema de física do serviço
-    const physicsSystem = this.physicsService.getPhysicsSystem();
-    
-    // Usa o adaptador para criar o projétil
-    const projectile = this.projectileAdapter.createProjectile(
+  public firePrimaryWeapon(velocityX: number, velocityY: number): Projectile | null {
+    // Usa o adaptador para criar o projétil com os dados da arma no registro
+    return this.projectileAdapter.createProjectile(
       this.graphics,
       this.position.x,
       this.position.y,
       velocityX,
       velocityY,
       this.primaryWeapon,
-      physicsSystem
+      this.physicsService.getPhysicsSystem()
     );
-    
-    // Retorna dados do projétil (a ser implementado de acordo com o sistema de projéteis)
-    return {
-      type: this.primaryWeapon,
-      x: this.position.x,
-      y: this.position.y,
-      velocityX,
-      velocityY,
-      damage: 50, // Dano maior que o normal
-      sourceId: this.id,
-      playerId: this.playerId,
-      physicsSystem,
-      projectile
-    };
   }
 
   /**
    * Dispara a arma secundária (bomba de fragmentação)
    * @param velocityX Componente X da velocidade inicial
    * @param velocityY Componente Y da velocidade inicial
+   * @returns O projétil criado ou null se não foi possível atirar
    */
-  public fireSecondaryWeapon(velocityX: number, velocityY: number): any {
+  public fireSecondaryWeapon(velocityX: number, velocityY: number): Projectile | null {
+    const weapon = this.weapons.get(this.secondaryWeapon);
+    
     // Verifica se há carga suficiente para a bomba de fragmentação
-    if (this.bombChargeLevel < 50) {
+    if (this.bombChargeLevel < weapon.chargeCost) {
       console.log(`Devastador (ID: ${this.id}) não possui carga suficiente para a bomba de fragmentação.`);
       return null;
     }
     
     // Consome a carga
-    const chargeUsed = 50;
+    const chargeUsed = weapon.chargeCost;
     this.bombChargeLevel -= chargeUsed;
     
-    // Obtém o sistema de física do serviço
-    const physicsSystem = this.physicsService.getPhysicsSystem();
-    
     // Cria o projétil usando o adaptador especializado
-    const projectile = this.projectileAdapter.createFragBombProjectile(
+    return this.projectileAdapter.createFragBombProjectile(
       this.graphics,
       this.position.x,
       this.position.y,
       velocityX,
       velocityY,
-      physicsSystem,
+      this.physicsService.getPhysicsSystem(),
       this.bombChargeLevel + chargeUsed // Passa o nível de carga original
     );
-    
-    // Loga a ação
-    console.log(`Devastador (ID: ${this.id}) disparou bomba de fragmentação: vX=${velocityX}, vY=${velocityY}`);
-    
-    // Retorna dados do projétil da bomba de fragmentação
-    return {
-      type: this.secondaryWeapon,
-      x: this.position.x,
-      y: this.position.y,
-      velocityX,
-      velocityY,
-      damage: 30, // Dano base
-      explosionRadius: 50, // Raio da explosão
-      fragmentCount: 8, // Número de fragmentos
-      fragmentDamage: 15, // Dano de cada fragmento
-      fragmentSpread: 120, // Ângulo de espalhamento dos fragmentos em graus
-      sourceId: this.id,
-      playerId: this.playerId,
-      physicsSystem,
-      projectile
-    };
   }
   
   /**
@@ -1,6 +1,7 @@
 import * as PIXI from 'pixi.js';
 import { BaseVehicle, VehicleType, WeaponType } from '../vehicle';
 import { CONFIG } from '../../core/config';
+import { Projectile } from '../projectile';
 
 /**
  * Veículo tipo Dragão com ataque de fogo
@@ -46,6 +47,11 @@ export class DragonVehicle extends BaseVehicle {
       playerId
     );
     
+    // Armas do dragão: bola de fogo e bomba; o especial é a bomba de fragmentação
+    this.primaryWeapon = WeaponType.FIRE;
+    this.secondaryWeapon = WeaponType.BOMB;
+    this.specialWeapon = WeaponType.FRAG_BOMB;
+    
     // Salva a referência ao container
     this.container = container;
     
@@ -125,44 +131,51 @@ export class DragonVehicle extends BaseVehicle {
   
   /**
    * Dispara a arma primária (bola de fogo)
-   * @param angle Ângulo de disparo
-   * @param power Potência do disparo
+   * Cada nível de carga de fogo aumenta em 20% a velocidade do disparo e é consumido
+   * @param velocityX Componente X da velocidade inicial
+   * @param velocityY Componente Y da velocidade inicial
+   * @returns O projétil criado ou null se não foi possível atirar
    */
-  override firePrimaryWeapon(angle: number, power: number): void {
+  override firePrimaryWeapon(velocityX: number, velocityY: number): Projectile | null {
     // Aumenta o poder baseado no nível de carga de fogo
-    const boostedPower = power * (1 + this.fireChargeLevel * 0.2);
-    
-    // Dispara
-    console.log(`${this.name} disparou uma bola de fogo com ângulo ${angle} e potência ${boostedPower}`);
+    const boost = 1 + this.fireChargeLevel * 0.2;
+    const projectile = this.fireWeapon(this.primaryWeapon, velocityX * boost, velocityY * boost);
+    if (!projectile) {
+      return null;
+    }
     
     // Consome um nível de carga de fogo se disponível
     if (this.fireChargeLevel > 0) {
       this.fireChargeLevel--;
     }
     
-    // Animação de respirar fogo
-    this.isBreathingFire = true;
-    this.animationTimer = 0;
-    this.updateFireBreathAnimation();
+    this.breatheFire();
+    return projectile;
   }
   
   /**
    * Dispara a arma secundária (bomba de fogo)
-   * @param angle Ângulo de disparo
-   * @param power Potência do disparo
+   * @param velocityX Componente X da velocidade inicial
+   * @param velocityY Componente Y da velocidade inicial
+   * @returns O projétil criado ou null se não foi possível atirar
    */
-  override fireSecondaryWeapon(angle: number, power: number): void {
-    // A bomba de fogo causa dano em área
-    console.log(`${this.name} disparou uma bomba de fogo com ângulo ${angle} e potência ${power}`);
+  override fireSecondaryWeapon(velocityX: number, velocityY: number): Projectile | null {
+    const projectile = this.fireWeapon(this.secondaryWeapon, velocityX, velocityY);
+    if (!projectile) {
+      return null;
+    }
     
     // Consome dois níveis de carga de fogo se disponível
-    if (this.fireChargeLevel >= 2) {
-      this.fireChargeLevel -= 2;
-    } else {
-      this.fireChargeLevel = 0;
-    }
+    this.fireChargeLevel = Math.max(0, this.fireChargeLevel - 2);
     
-    // Animação de respirar fogo
+    this.breatheFire();
+    return projectile;
+  }
+  
+  /**
+   * Inicia a animação de respirar fogo
+   */
+  private breatheFire(): void {
     this.isBreathingFire = true;
     this.animationTimer = 0;
     this.updateFireBreathAnimation();
@@ -1,6 +1,10 @@
 import * as PIXI from 'pixi.js';
 import { BaseVehicle } from './base-vehicle';
 import { VehicleType, WeaponType } from './types';
+import { Projectile } from '../projectile';
+import { ProjectileAdapter } from '../projectile-adapter';
+import { PhysicsService } from '../../systems/physics-service';
+import { WeaponRegistry } from '../weapon-registry';
 
 /**
  * Implementação do veículo Interceptor
@@ -14,6 +18,9 @@ export class InterceptorVehicle extends BaseVehicle {
   private missileChargeLevel: number = 0;
   private maxMissileCharge: number = 100;
   private chargeSpeed: number = 5;
+  private projectileAdapter: ProjectileAdapter = ProjectileAdapter.getInstance();
+  private physicsService: PhysicsService = PhysicsService.getInstance();
+  private weapons: WeaponRegistry = WeaponRegistry.getInstance();
   
   /**
    * Cria uma nova instância de Interceptor
@@ -110,56 +117,50 @@ export class InterceptorVehicle extends BaseVehicle {
    * Dispara a arma primária (míssil normal)
    * @param velocityX Componente X da velocidade inicial
    * @param velocityY Componente Y da velocidade inicial
+   * @returns O projétil criado ou null se não foi possível atirar
    */
-  public firePrimaryWeapon(velocityX: number, velocityY: number): any {
-    // Aqui seria implementada a lógica para criar o projétil
-    // e adicioná-lo ao gerenciador de projéteis
-    console.log(`Interceptor (ID: ${this.id}) disparou míssil normal: vX=${velocityX}, vY=${velocityY}`);
-    
-    // Retorna dados do projétil (a ser implementado de acordo com o sistema de projéteis)
-    return {
-      type: this.primaryWeapon,
-      x: this.position.x,
-      y: this.position.y,
+  public firePrimaryWeapon(velocityX: number, velocityY: number): Projectile | null {
+    // Usa o adaptador para criar o projétil com os dados da arma no registro
+    return this.projectileAdapter.createProjectile(
+      this.graphics,
+      this.position.x,
+      this.position.y,
       velocityX,
       velocityY,
-      damage: 35,
-      sourceId: this.id,
-      playerId: this.playerId
-    };
+      this.primaryWeapon,
+      this.physicsService.getPhysicsSystem()
+    );
   }
   
   /**
    * Dispara a arma secundária (míssil teleguiado)
    * @param velocityX Componente X da velocidade inicial
    * @param velocityY Componente Y da velocidade inicial
+   * @returns O projétil criado ou null se não foi possível atirar
    */
-  public fireSecondaryWeapon(velocityX: number, velocityY: number): any {
+  public fireSecondaryWeapon(velocityX: number, velocityY: number): Projectile | null {
+    const weapon = this.weapons.get(this.secondaryWeapon);
+    
     // Verifica se há carga suficiente para o míssil guiado
-    if (this.missileChargeLevel < 75) {
+    if (this.missileChargeLevel < weapon.chargeCost) {
       console.log(`Interceptor (ID: ${this.id}) não possui carga suficiente para o míssil guiado.`);
       return null;
     }
     
     // Consome a carga
-    this.missileChargeLevel -= 75;
+    this.missileChargeLevel -= weapon.chargeCost;
     
-    // Loga a ação
-    console.log(`Interceptor (ID: ${this.id}) disparou míssil teleguiado: vX=${velocityX}, vY=${velocityY}`);
-    
-    // Retorna dados do projétil teleguiado
-    return {
-      type: this.secondaryWeapon,
-      x: this.position.x,
-      y: this.position.y,
+    // Cria o míssil teleguiado com a força de guiagem da arma
+    return this.projectileAdapter.createProjectile(
+      this.graphics,
+      this.position.x,
+      this.position.y,
       velocityX,
       velocityY,
-      damage: 25,
-      isGuided: true,
-      guidanceStrength: 0.2,
-      sourceId: this.id,
-      playerId: this.playerId
-    };
+      this.secondaryWeapon,
+      this.physicsService.getPhysicsSystem(),
+      { guidanceStrength: weapon.guidanceStrength }
+    );
   }
   
   /**
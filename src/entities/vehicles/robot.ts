@@ -1,6 +1,8 @@
 import * as PIXI from 'pixi.js';
 import { BaseVehicle, VehicleType, WeaponType } from '../vehicle';
 import { CONFIG } from '../../core/config';
+import { Projectile } from '../projectile';
+import { WeaponRegistry } from '../weapon-registry';
 
 /**
  * Veículo tipo Robô com ataque de laser
@@ -12,12 +14,8 @@ export class RobotVehicle extends BaseVehicle {
   private energyRegenRate: number = 5; // Taxa de regeneração por turno
   private shieldActive: boolean = false;
   private shieldGraphics: PIXI.Graphics;
-  private laserGraphics: PIXI.Graphics;
-  private isShootingLaser: boolean = false;
-  private laserAnimationTimer: number = 0;
-  private laserAngle?: number;
-  private laserPower?: number;
   private container: PIXI.Container;
+  private weapons: WeaponRegistry = WeaponRegistry.getInstance();
   
   /**
    * Cria um novo veículo tipo Robô
@@ -49,17 +47,20 @@ export class RobotVehicle extends BaseVehicle {
       playerId
     );
     
+    // Armas do robô: laser e míssil guiado, pagos com energia; o especial é o campo de força
+    this.primaryWeapon = WeaponType.LASER;
+    this.secondaryWeapon = WeaponType.ROBOT_MISSILE;
+    this.specialWeapon = WeaponType.FORCE_FIELD;
+    
     // Salva a referência ao container
     this.container = container;
     
     // Inicializa o sprite do robô (placeholder gráfico)
     this.initializeSprite();
     
-    // Cria os gráficos para o escudo e laser
+    // Cria os gráficos do escudo (o feixe do laser é desenhado pelo efeito de feixe da cena)
     this.shieldGraphics = new PIXI.Graphics();
-    this.laserGraphics = new PIXI.Graphics();
     this.container.addChild(this.shieldGraphics);
-    this.container.addChild(this.laserGraphics);
   }
   
   /**
@@ -142,69 +143,48 @@ export class RobotVehicle extends BaseVehicle {
         this.shieldGraphics.clear();
       }
     }
-    
-    // Animação do laser
-    if (this.isShootingLaser) {
-      this.laserAnimationTimer += deltaTime;
-      
-      if (this.laserAnimationTimer > 0.05) { // Atualiza a cada 50ms
-        this.laserAnimationTimer = 0;
-        this.updateLaserAnimation();
-      }
-      
-      // Finaliza a animação do laser
-      if (this.laserAnimationTimer > 0.8) { // 800ms de duração
-        this.isShootingLaser = false;
-        this.laserGraphics.clear();
-      }
-    }
   }
   
   /**
-   * Dispara a arma primária (laser)
-   * @param angle Ângulo de disparo
-   * @param power Potência do disparo
+   * Dispara a arma primária (laser), pagando o custo de energia da arma
+   * @param velocityX Componente X da velocidade inicial
+   * @param velocityY Componente Y da velocidade inicial
+   * @returns O projétil criado ou null se não foi possível atirar
    */
-  override firePrimaryWeapon(angle: number, power: number): void {
-    // Verifica se tem energia suficiente
-    const energyCost = 20;
-    if (this.energyLevel < energyCost) {
-      console.log(`${this.name} não tem energia suficiente para disparar laser!`);
-      return;
-    }
-    
-    // Consome energia
-    this.energyLevel -= energyCost;
-    
-    // Dispara o laser
-    console.log(`${this.name} disparou laser com ângulo ${angle} e potência ${power}`);
-    
-    // Inicia a animação do laser
-    this.isShootingLaser = true;
-    this.laserAnimationTimer = 0;
-    this.laserAngle = angle;
-    this.laserPower = power;
-    this.updateLaserAnimation();
+  override firePrimaryWeapon(velocityX: number, velocityY: number): Projectile | null {
+    return this.fireWithEnergy(this.primaryWeapon, velocityX, velocityY);
+  }
+  
+  /**
+   * Dispara a arma secundária (míssil), pagando o custo de energia da arma
+   * @param velocityX Componente X da velocidade inicial
+   * @param velocityY Componente Y da velocidade inicial
+   * @returns O projétil criado ou null se não foi possível atirar
+   */
+  override fireSecondaryWeapon(velocityX: number, velocityY: number): Projectile | null {
+    return this.fireWithEnergy(this.secondaryWeapon, velocityX, velocityY);
   }
   
   /**
-   * Dispara a arma secundária (míssil)
-   * @param angle Ângulo de disparo
-   * @param power Potência do disparo
+   * Cria o projétil de uma arma do registro e consome a energia que ela custa
+   * @param weapon Arma disparada
+   * @param velocityX Componente X da velocidade inicial
+   * @param velocityY Componente Y da velocidade inicial
+   * @returns O projétil criado ou null sem energia suficiente
    */
-  override fireSecondaryWeapon(angle: number, power: number): void {
-    // Verifica se tem energia suficiente
-    const energyCost = 35;
-    if (this.energyLevel < energyCost) {
-      console.log(`${this.name} não tem energia suficiente para disparar míssil!`);
-      return;
+  private fireWithEnergy(weapon: WeaponType, velocityX: number, velocityY: number): Projectile | null {
+    const definition = this.weapons.get(weapon);
+    if (this.energyLevel < definition.chargeCost) {
+      console.log(`${this.name} não tem energia suficiente para disparar ${definition.name}!`);
+      return null;
     }
     
-    // Consome energia
-    this.energyLevel -= energyCost;
+    const projectile = this.fireWeapon(weapon, velocityX, velocityY);
+    if (projectile) {
+      this.energyLevel -= definition.chargeCost;
+    }
     
-    // Dispara o míssil guiado
-    console.log(`${this.name} disparou míssil guiado com ângulo ${angle} e potência ${power}`);
+    return projectile;
   }
   
   /**
@@ -250,50 +230,6 @@ export class RobotVehicle extends BaseVehicle {
     this.shieldGraphics.endFill();
   }
   
-  /**
-   * Atualiza a animação do laser
-   */
-  private updateLaserAnimation(): void {
-    // Limpa o gráfico anterior
-    this.laserGraphics.clear();
-    
-    // Ângulo e comprimento do laser
-    const angle = this.laserAngle ?? 0;
-    const length = 500; // Comprimento do raio laser
-    
-    // Posição inicial (centro do robô)
-    const startX = this.x;
-    const startY = this.y;
-    
-    // Variação aleatória para efeito visual
-    const jitter = Math.random() * 2 - 1;
-    
-    // Desenha o raio laser
-    this.laserGraphics.lineStyle(3, 0xFF0000, 0.8); // Linha vermelha
-    this.laserGraphics.moveTo(startX, startY);
-    this.laserGraphics.lineTo(
-      startX + length * Math.cos(angle),
-      startY + length * Math.sin(angle) + jitter
-    );
-    
-    // Adiciona brilho ao redor do laser
-    this.laserGraphics.lineStyle(6, 0xFF0000, 0.3);
-    this.laserGraphics.moveTo(startX, startY);
-    this.laserGraphics.lineTo(
-      startX + length * Math.cos(angle),
-      startY + length * Math.sin(angle)
-    );
-    
-    // Adiciona ponto de impacto
-    this.laserGraphics.beginFill(0xFFFF00, 0.7); // Amarelo
-    this.laserGraphics.drawCircle(
-      startX + length * Math.cos(angle),
-      startY + length * Math.sin(angle),
-      5 + Math.random() * 3
-    );
-    this.laserGraphics.endFill();
-  }
-  
   /**
    * Sobrescreve o método takeDamage para considerar o escudo
    * @param amount Quantidade de dano
@@ -333,8 +269,6 @@ export class RobotVehicle extends BaseVehicle {
   override destroy(): void {
     super.destroy();
     this.shieldGraphics.destroy();
-    this.laserGraphics.destroy();
     this.container.removeChild(this.shieldGraphics);
-    this.container.removeChild(this.laserGraphics);
   }
 } 
\ No newline at end of file
@@ -33,8 +33,10 @@ export enum WeaponType {
   BOMB = 'bomb',
   FIRE = 'fire',
   GUIDED_MISSILE = 'guided_missile',
+  ROBOT_MISSILE = 'robot_missile', // Míssil guiado do robô, pago com energia
   FRAG_BOMB = 'frag_bomb',
   FORCE_FIELD = 'force_field',
+  DIRT_BOMB = 'dirt_bomb',     // Adiciona terreno no impacto em vez de destruí-lo
 }
 
 /**
@@ -72,7 +74,7 @@ export interface Vehicle {
   
   // Métodos
   update(deltaTime: number): void;
-  render(): void;
+  render(alpha?: number): void;
   takeDamage(amount: number): void;
   heal(amount: number): void;
   moveLeft(): void;
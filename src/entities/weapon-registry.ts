@@ -0,0 +1,207 @@
+import { WeaponType } from './vehicles/types';
+import { ProjectileType } from './projectile-types';
+import { IProjectileBehavior, PROJECTILE_BEHAVIOR_PRESETS } from './projectile-behavior';
+
+/**
+ * Definição de uma arma
+ * Todos os números de balanceamento de uma arma ficam aqui, não nos veículos
+ */
+export interface IWeaponDefinition {
+  type: WeaponType;
+  name: string;
+  projectileType: ProjectileType;          // Tipo de projétil criado pela fábrica
+  damage: number;                          // Dano no centro da explosão
+  blastRadius: number;                     // Alcance do dano em área
+  digRadius: number;                       // Raio da cratera aberta no terreno (0 = não escava)
+  chargeCost: number;                      // Carga consumida por disparo, no recurso de carga do veículo
+  damageType?: string;                     // Tipo do dano informado nos eventos (padrão: 'explosion')
+  knockback?: number;                      // Impulso da explosão nos veículos (padrão: o do gerenciador de veículos)
+  behavior?: Partial<IProjectileBehavior>; // Quique, rolagem e pavio (padrão: explode no primeiro contato)
+
+  // Comportamentos especiais de cada tipo de projétil
+  fragmentCount?: number;
+  fragmentDamage?: number;
+  fragmentSpread?: number;                 // Ângulo de espalhamento dos fragmentos em graus
+  guidanceStrength?: number;
+  fillRadius?: number;                     // Raio do monte criado pelos projéteis de terra
+  penetration?: number;                    // Distância que o laser atravessa após o primeiro contato
+}
+
+/**
+ * Definições padrão de todas as armas
+ */
+export const DEFAULT_WEAPON_DEFINITIONS: Record<WeaponType, IWeaponDefinition> = {
+  [WeaponType.CANNON]: {
+    type: WeaponType.CANNON,
+    name: 'Canhão',
+    projectileType: ProjectileType.STANDARD,
+    damage: 50,
+    blastRadius: 30,
+    digRadius: 30,
+    chargeCost: 0
+  },
+  [WeaponType.LASER]: {
+    type: WeaponType.LASER,
+    name: 'Laser',
+    projectileType: ProjectileType.LASER,
+    damage: 30,
+    blastRadius: 15,
+    digRadius: 4,
+    chargeCost: 20,
+    damageType: 'laser',
+    penetration: 120
+  },
+  [WeaponType.MISSILE]: {
+    type: WeaponType.MISSILE,
+    name: 'Míssil',
+    projectileType: ProjectileType.STANDARD,
+    damage: 35,
+    blastRadius: 30,
+    digRadius: 30,
+    chargeCost: 0
+  },
+  [WeaponType.BOMB]: {
+    type: WeaponType.BOMB,
+    name: 'Bomba',
+    projectileType: ProjectileType.FRAGMENTATION,
+    damage: 30,
+    blastRadius: 40,
+    digRadius: 35,
+    chargeCost: 0,
+    fragmentCount: 6,
+    fragmentDamage: 10,
+    fragmentSpread: 90
+  },
+  [WeaponType.FIRE]: {
+    type: WeaponType.FIRE,
+    name: 'Bola de Fogo',
+    projectileType: ProjectileType.STANDARD,
+    damage: 20,
+    blastRadius: 45,
+    digRadius: 12,
+    chargeCost: 0,
+    damageType: 'fire',
+    behavior: PROJECTILE_BEHAVIOR_PRESETS.ROLLING_BOMB
+  },
+  [WeaponType.GUIDED_MISSILE]: {
+    type: WeaponType.GUIDED_MISSILE,
+    name: 'Míssil Teleguiado',
+    projectileType: ProjectileType.GUIDED,
+    damage: 25,
+    blastRadius: 25,
+    digRadius: 25,
+    chargeCost: 75,
+    guidanceStrength: 0.2
+  },
+  [WeaponType.ROBOT_MISSILE]: {
+    type: WeaponType.ROBOT_MISSILE,
+    name: 'Míssil do Robô',
+    projectileType: ProjectileType.GUIDED,
+    damage: 25,
+    blastRadius: 25,
+    digRadius: 25,
+    chargeCost: 35,
+    guidanceStrength: 0.2
+  },
+  [WeaponType.FRAG_BOMB]: {
+    type: WeaponType.FRAG_BOMB,
+    name: 'Bomba de Fragmentação',
+    projectileType: ProjectileType.FRAGMENTATION,
+    damage: 30,
+    blastRadius: 50,
+    digRadius: 30,
+    chargeCost: 50,
+    fragmentCount: 8,
+    fragmentDamage: 15,
+    fragmentSpread: 120
+  },
+  [WeaponType.FORCE_FIELD]: {
+    type: WeaponType.FORCE_FIELD,
+    name: 'Campo de Força',
+    projectileType: ProjectileType.STANDARD,
+    damage: 5,
+    blastRadius: 60,
+    digRadius: 0,
+    chargeCost: 40,
+    damageType: 'force',
+    knockback: 120
+  },
+  [WeaponType.DIRT_BOMB]: {
+    type: WeaponType.DIRT_BOMB,
+    name: 'Bomba de Terra',
+    projectileType: ProjectileType.DIRT,
+    damage: 0,
+    blastRadius: 0,
+    digRadius: 0,
+    chargeCost: 0,
+    fillRadius: 35
+  }
+};
+
+/**
+ * Registro das armas do jogo, consultado pela fábrica de projéteis e pelos veículos
+ * Balancear uma arma é só alterar sua definição
+ */
+export class WeaponRegistry {
+  private static instance: WeaponRegistry;
+  private definitions: Map<WeaponType, IWeaponDefinition> = new Map();
+
+  /**
+   * Obtém a instância singleton do registro
+   */
+  public static getInstance(): WeaponRegistry {
+    if (!WeaponRegistry.instance) {
+      WeaponRegistry.instance = new WeaponRegistry();
+    }
+    return WeaponRegistry.instance;
+  }
+
+  /**
+   * Construtor privado (padrão singleton)
+   */
+  private constructor() {
+    this.reset();
+  }
+
+  /**
+   * Obtém a definição de uma arma
+   * @param type Tipo da arma
+   * @returns Definição da arma (armas desconhecidas usam a do canhão)
+   */
+  public get(type: WeaponType): IWeaponDefinition {
+    return this.definitions.get(type) ?? this.definitions.get(WeaponType.CANNON);
+  }
+
+  /**
+   * Registra ou substitui a definição de uma arma
+   * @param definition Nova definição
+   */
+  public register(definition: IWeaponDefinition): void {
+    this.definitions.set(definition.type, definition);
+  }
+
+  /**
+   * Altera alguns valores da definição de uma arma (ex: balanceamento)
+   * @param type Tipo da arma
+   * @param changes Valores a alterar
+   */
+  public update(type: WeaponType, changes: Partial<IWeaponDefinition>): void {
+    this.register({ ...this.get(type), ...changes, type });
+  }
+
+  /**
+   * Obtém as definições de todas as armas
+   */
+  public getAll(): IWeaponDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  /**
+   * Restaura as definições padrão
+   */
+  public reset(): void {
+    this.definitions = new Map(
+      Object.values(DEFAULT_WEAPON_DEFINITIONS).map(definition => [definition.type, definition])
+    );
+  }
+}
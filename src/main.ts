@@ -1,8 +1,10 @@
 import { Game } from './core/game';
+import { parseMatchOptions } from './core/match-options';
 
 // Função principal para iniciar o jogo
 function init() {
-  const game = new Game();
+  // As opções da partida vêm do endereço (ex: ?theme=el_nath)
+  const game = new Game(parseMatchOptions(window.location.search));
   game.init();
 }
 
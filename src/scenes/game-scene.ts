@@ -144,7 +144,7 @@ export class GameScene extends BaseScene {
     }
     
     // Atualiza elementos de UI
-    this.windDisplay.update(this.physicsSystem.getWind());
+    this.windDisplay.update(this.physicsSystem.getWindSystem().getWind());
   }
 
   /**
@@ -8,6 +8,15 @@ export enum AimingEventType {
   AIM_ENDED = 'aimEnded'
 }
 
+/**
+ * Modos de prévia da trajetória, para regras competitivas
+ */
+export enum TrajectoryPreviewMode {
+  FULL = 'full',       // Arco completo até o ponto de impacto
+  PARTIAL = 'partial', // Apenas o início do arco
+  HIDDEN = 'hidden'    // Sem prévia, apenas o medidor de potência
+}
+
 /**
  * Classe responsável pelo sistema de mira
  */
@@ -20,6 +29,8 @@ export class AimingSystem extends EventEmitter {
   private projectileManager: ProjectileManager;
   private wind: number = 0;
   private terrain: any; // Simplificado por enquanto, deveria ser do tipo Terrain
+  private previewMode: TrajectoryPreviewMode = TrajectoryPreviewMode.FULL;
+  private previewRatio: number = 0.3; // Fração do arco exibida no modo parcial
   
   /**
    * Cria uma nova instância do sistema de mira
@@ -105,6 +116,25 @@ export class AimingSystem extends EventEmitter {
     return this.wind;
   }
   
+  /**
+   * Define como a prévia da trajetória é exibida
+   * @param mode Modo de prévia
+   * @param ratio Fração do arco exibida no modo parcial (0 a 1)
+   */
+  setPreviewMode(mode: TrajectoryPreviewMode, ratio: number = this.previewRatio): void {
+    this.previewMode = mode;
+    this.previewRatio = Math.max(0, Math.min(1, ratio));
+    this.updateAimingGuide();
+  }
+  
+  /**
+   * Obtém o modo de prévia da trajetória
+   * @returns Modo de prévia
+   */
+  getPreviewMode(): TrajectoryPreviewMode {
+    return this.previewMode;
+  }
+  
   /**
    * Atualiza o ângulo de mira
    * @param angle Novo ângulo em graus
@@ -193,39 +223,9 @@ export class AimingSystem extends EventEmitter {
     // Limpa o guia anterior
     this.aimingGuide.clear();
     
-    // Calcula o ângulo em radianos
-    const angle = this.angle * Math.PI / 180;
-    
-    // Calcula o vetor de velocidade inicial
-    const velocity = {
-      x: Math.cos(angle) * this.power * 0.5,
-      y: -Math.sin(angle) * this.power * 0.5
-    };
-    
-    // Calcula a trajetória usando o ProjectileManager
-    const trajectory = this.projectileManager.calculateTrajectory(
-      vehicleX,
-      vehicleY,
-      velocity.x,
-      velocity.y,
-      5, // Raio menor para visualização
-      this.wind / 20,
-      60 // 60 pontos na trajetória
-    );
-    
-    // Desenha a linha da trajetória
-    this.aimingGuide.lineStyle(2, 0xFFFF00, 0.5);
-    this.aimingGuide.moveTo(trajectory[0].x, trajectory[0].y);
-    
-    for (let i = 1; i < trajectory.length; i++) {
-      // Verifica se o ponto colide com o terreno
-      if (this.terrain.checkCollision(trajectory[i].x, trajectory[i].y)) {
-        // Desenha um círculo no ponto de impacto
-        this.aimingGuide.drawCircle(trajectory[i].x, trajectory[i].y, 20);
-        break;
-      }
-      
-      this.aimingGuide.lineTo(trajectory[i].x, trajectory[i].y);
+    // Desenha a prévia da trajetória conforme o modo escolhido
+    if (this.previewMode !== TrajectoryPreviewMode.HIDDEN) {
+      this.drawTrajectory(vehicleX, vehicleY);
     }
     
     // Desenha o medidor de potência
@@ -251,6 +251,42 @@ export class AimingSystem extends EventEmitter {
     this.aimingGuide.endFill();
   }
   
+  /**
+   * Desenha a trajetória que o disparo vai percorrer
+   * @param vehicleX Posição X do veículo
+   * @param vehicleY Posição Y do veículo
+   */
+  private drawTrajectory(vehicleX: number, vehicleY: number): void {
+    // Usa a mesma física do projétil real (gravidade, vento e passo fixo)
+    const trajectory = this.projectileManager.calculateTrajectory(
+      vehicleX,
+      vehicleY,
+      this.angle,
+      this.power,
+      5 // Raio menor para visualização
+    );
+    
+    // No modo parcial mostra só o início do arco, sem o ponto de impacto
+    const isPartial = this.previewMode === TrajectoryPreviewMode.PARTIAL;
+    const visiblePoints = isPartial
+      ? Math.max(2, Math.ceil(trajectory.length * this.previewRatio))
+      : trajectory.length;
+    
+    // Desenha a linha da trajetória
+    this.aimingGuide.lineStyle(2, 0xFFFF00, 0.5);
+    this.aimingGuide.moveTo(trajectory[0].x, trajectory[0].y);
+    
+    for (let i = 1; i < Math.min(visiblePoints, trajectory.length); i++) {
+      this.aimingGuide.lineTo(trajectory[i].x, trajectory[i].y);
+    }
+    
+    // Desenha um círculo no ponto de impacto com o terreno
+    const impact = trajectory[trajectory.length - 1];
+    if (!isPartial && this.terrain.checkCollision(impact.x, impact.y, 5)) {
+      this.aimingGuide.drawCircle(impact.x, impact.y, 20);
+    }
+  }
+  
   /**
    * Reseta os parâmetros de mira
    */
@@ -0,0 +1,260 @@
+import { EventCoordinator } from '../core/event-coordinator';
+import { GameEventType, EventPayloadFactory } from '../utils/game-events';
+
+/**
+ * Perfil de dano de uma arma
+ */
+export interface IWeaponDamageProfile {
+  baseDamage: number;            // Dano no centro da explosão
+  splashRadius: number;          // Alcance do dano em área, a partir da borda da hitbox
+  edgeFalloff?: number;          // Fração do dano que ainda chega na borda do alcance (padrão: 0.25)
+  directHitMultiplier?: number;  // Multiplicador para acerto direto na hitbox (padrão: 1.5)
+  damageType?: string;           // Tipo do dano informado no evento (padrão: 'explosion')
+  knockback?: number;            // Impulso radial no centro da explosão (padrão: o do gerenciador de veículos)
+}
+
+/**
+ * Atributos de resistência de um veículo
+ */
+export interface IDamageStats {
+  armor?: number;    // Redução fixa de dano por acerto
+  defense?: number;  // Redução percentual de dano (0 a 1)
+}
+
+/**
+ * Alvo que pode receber dano do resolvedor
+ */
+export interface IDamageTarget extends IDamageStats {
+  id: number;
+  position: { x: number, y: number };
+  health: number;
+  playerId: number;
+  teamId?: number;     // Equipe do alvo (padrão: o próprio jogador)
+  hitRadius?: number;  // Raio da hitbox (padrão: 20)
+}
+
+/**
+ * Impacto de um projétil
+ */
+export interface IDamageImpact {
+  position: { x: number, y: number };
+  profile: IWeaponDamageProfile;
+  sourceId?: number;          // Veículo que disparou
+  sourcePlayerId?: number;    // Jogador que disparou
+  sourceTeamId?: number;      // Equipe de quem disparou (padrão: o próprio jogador)
+  directHitTargetId?: number; // Alvo atingido diretamente, se já conhecido pela colisão
+}
+
+/**
+ * Regras de fogo amigo
+ */
+export enum FriendlyFireMode {
+  OFF = 'off',         // Aliados não sofrem dano
+  REDUCED = 'reduced', // Aliados sofrem dano reduzido
+  FULL = 'full'        // Aliados sofrem dano completo
+}
+
+/**
+ * Regras de dano da partida
+ */
+export interface IDamageRules {
+  friendlyFire: FriendlyFireMode;
+  friendlyFireMultiplier: number; // Usado no modo REDUCED
+  selfDamage: boolean;            // Se o atirador sofre dano da própria explosão
+}
+
+/**
+ * Dano calculado para um alvo
+ */
+export interface IDamageResult<T extends IDamageTarget = IDamageTarget> {
+  target: T;
+  amount: number;
+  distance: number;      // Distância entre o impacto e a borda da hitbox
+  isDirectHit: boolean;
+}
+
+/**
+ * Perfil usado quando a arma não informa o seu
+ */
+export const DEFAULT_DAMAGE_PROFILE: IWeaponDamageProfile = {
+  baseDamage: 35,
+  splashRadius: 30
+};
+
+/**
+ * Regras padrão: fogo amigo reduzido pela metade e dano ao próprio atirador, como no Gunbound
+ */
+export const DEFAULT_DAMAGE_RULES: IDamageRules = {
+  friendlyFire: FriendlyFireMode.REDUCED,
+  friendlyFireMultiplier: 0.5,
+  selfDamage: true
+};
+
+/**
+ * Raio da hitbox de veículos que não informam o seu
+ */
+const DEFAULT_HIT_RADIUS = 20;
+
+/**
+ * Classe que concentra o cálculo de dano das explosões
+ * Aplica a queda do dano com a distância, o bônus de acerto direto,
+ * a armadura e a defesa de cada veículo e as regras de fogo amigo
+ */
+export class DamageResolver {
+  private rules: IDamageRules;
+
+  /**
+   * Cria um novo resolvedor de dano
+   * @param rules Regras de dano da partida (campos omitidos usam o padrão)
+   */
+  constructor(rules: Partial<IDamageRules> = {}) {
+    this.rules = { ...DEFAULT_DAMAGE_RULES, ...rules };
+  }
+
+  /**
+   * Define as regras de dano da partida
+   * @param rules Regras a alterar
+   */
+  setRules(rules: Partial<IDamageRules>): void {
+    this.rules = { ...this.rules, ...rules };
+  }
+
+  /**
+   * Obtém as regras de dano atuais
+   */
+  getRules(): IDamageRules {
+    return { ...this.rules };
+  }
+
+  /**
+   * Calcula o dano de uma explosão em um único ponto
+   * @param profile Perfil de dano da arma
+   * @param distance Distância entre o impacto e a borda da hitbox
+   * @param isDirectHit Se o impacto foi dentro da hitbox
+   * @param stats Armadura e defesa do alvo
+   * @returns Dano final, arredondado (0 se fora do alcance)
+   */
+  calculateDamage(
+    profile: IWeaponDamageProfile,
+    distance: number,
+    isDirectHit: boolean,
+    stats: IDamageStats = {}
+  ): number {
+    let damage: number;
+
+    if (isDirectHit) {
+      damage = profile.baseDamage * (profile.directHitMultiplier ?? 1.5);
+    } else if (distance > profile.splashRadius) {
+      return 0;
+    } else {
+      // Queda linear do centro até a borda do alcance
+      const edgeFalloff = profile.edgeFalloff ?? 0.25;
+      const ratio = profile.splashRadius > 0 ? distance / profile.splashRadius : 0;
+      damage = profile.baseDamage * (1 - (1 - edgeFalloff) * ratio);
+    }
+
+    // Defesa reduz em proporção; armadura reduz um valor fixo
+    const defense = Math.max(0, Math.min(1, stats.defense ?? 0));
+    damage = damage * (1 - defense) - (stats.armor ?? 0);
+
+    return Math.max(0, Math.round(damage));
+  }
+
+  /**
+   * Calcula o dano de um impacto em cada alvo, sem aplicá-lo
+   * @param impact Impacto do projétil
+   * @param targets Alvos possíveis
+   * @returns Dano de cada alvo atingido (alvos sem dano são omitidos)
+   */
+  resolve<T extends IDamageTarget>(impact: IDamageImpact, targets: T[]): IDamageResult<T>[] {
+    const results: IDamageResult<T>[] = [];
+
+    for (const target of targets) {
+      if (target.health <= 0) {
+        continue;
+      }
+
+      const multiplier = this.getFriendlyFireMultiplier(impact, target);
+      if (multiplier <= 0) {
+        continue;
+      }
+
+      const hitRadius = target.hitRadius ?? DEFAULT_HIT_RADIUS;
+      const centerDistance = Math.hypot(impact.position.x - target.position.x, impact.position.y - target.position.y);
+      const isDirectHit = impact.directHitTargetId === target.id || centerDistance <= hitRadius;
+      const distance = Math.max(0, centerDistance - hitRadius);
+
+      const amount = Math.round(this.calculateDamage(impact.profile, distance, isDirectHit, target) * multiplier);
+      if (amount > 0) {
+        results.push({ target, amount, distance, isDirectHit });
+      }
+    }
+
+    return results;
+  }
+
+  /**
+   * Calcula e aplica o dano de um impacto, emitindo um evento de dano por alvo atingido
+   * @param impact Impacto do projétil
+   * @param targets Alvos possíveis
+   * @param applyDamage Aplica o dano ao alvo (padrão: reduz a vida diretamente)
+   * @returns Dano aplicado a cada alvo
+   */
+  apply<T extends IDamageTarget>(
+    impact: IDamageImpact,
+    targets: T[],
+    applyDamage: (target: T, amount: number) => void = (target, amount) => {
+      target.health = Math.max(0, target.health - amount);
+    }
+  ): IDamageResult<T>[] {
+    const results = this.resolve(impact, targets);
+
+    for (const result of results) {
+      applyDamage(result.target, result.amount);
+
+      EventCoordinator.getInstance().emit(
+        GameEventType.VEHICLE_DAMAGED,
+        EventPayloadFactory.createDamagePayload(
+          result.target.id,
+          result.amount,
+          impact.profile.damageType ?? 'explosion',
+          Math.max(0, result.target.health),
+          impact.sourceId
+        )
+      );
+    }
+
+    return results;
+  }
+
+  /**
+   * Obtém o multiplicador de fogo amigo para um alvo
+   * @private
+   */
+  private getFriendlyFireMultiplier(impact: IDamageImpact, target: IDamageTarget): number {
+    // Sem atirador conhecido, todos sofrem dano normal
+    if (impact.sourcePlayerId === undefined) {
+      return 1;
+    }
+
+    if (target.playerId === impact.sourcePlayerId) {
+      return this.rules.selfDamage ? 1 : 0;
+    }
+
+    const sourceTeam = impact.sourceTeamId ?? impact.sourcePlayerId;
+    const targetTeam = target.teamId ?? target.playerId;
+
+    if (sourceTeam !== targetTeam) {
+      return 1;
+    }
+
+    switch (this.rules.friendlyFire) {
+      case FriendlyFireMode.OFF:
+        return 0;
+      case FriendlyFireMode.REDUCED:
+        return this.rules.friendlyFireMultiplier;
+      default:
+        return 1;
+    }
+  }
+}
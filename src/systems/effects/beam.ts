@@ -0,0 +1,105 @@
+import * as PIXI from 'pixi.js';
+import { ProjectileManager, ProjectileEventType, ProjectileBeamData } from '../projectile-manager';
+
+/**
+ * Duração do feixe na tela, em quadros
+ */
+const BEAM_LIFETIME = 30;
+
+/**
+ * Efeito que desenha os feixes instantâneos (ex: laser) do ponto de disparo até onde o traçado parou
+ */
+export class BeamEffect {
+  private container: PIXI.Container;
+  private projectileManager: ProjectileManager | null = null;
+  private beams: Array<{ graphics: PIXI.Graphics, life: number }> = [];
+
+  /**
+   * Inicializa o efeito de feixe
+   * @param container Container pai onde os feixes são desenhados
+   */
+  constructor(container: PIXI.Container) {
+    this.container = container;
+  }
+
+  /**
+   * Passa a desenhar os feixes disparados pelo gerenciador de projéteis
+   * @param projectileManager Gerenciador de projéteis que traça os feixes
+   */
+  attach(projectileManager: ProjectileManager): void {
+    this.detach();
+
+    this.projectileManager = projectileManager;
+    projectileManager.on(ProjectileEventType.PROJECTILE_BEAM, this.create, this);
+  }
+
+  /**
+   * Deixa de desenhar os feixes do gerenciador de projéteis
+   */
+  detach(): void {
+    this.projectileManager?.off(ProjectileEventType.PROJECTILE_BEAM, this.create, this);
+    this.projectileManager = null;
+  }
+
+  /**
+   * Desenha um feixe traçado, do início ao fim da penetração
+   * @param beam Dados do disparo do feixe
+   */
+  create(beam: ProjectileBeamData): void {
+    const { start, end, contact } = beam;
+    const graphics = new PIXI.Graphics();
+
+    // Brilho ao redor e núcleo do feixe
+    graphics.lineStyle(6, 0xFF0000, 0.3);
+    graphics.moveTo(start.x, start.y);
+    graphics.lineTo(end.x, end.y);
+    graphics.lineStyle(3, 0xFF0000, 0.8);
+    graphics.moveTo(start.x, start.y);
+    graphics.lineTo(end.x, end.y);
+
+    // Ponto do primeiro contato
+    if (contact) {
+      graphics.lineStyle(0);
+      graphics.beginFill(0xFFFF00, 0.7);
+      graphics.drawCircle(contact.x, contact.y, 5);
+      graphics.endFill();
+    }
+
+    this.container.addChild(graphics);
+    this.beams.push({ graphics, life: BEAM_LIFETIME });
+  }
+
+  /**
+   * Esmaece os feixes e remove os que terminaram
+   * @param deltaTime Tempo desde o último quadro
+   */
+  update(deltaTime: number): void {
+    for (let i = this.beams.length - 1; i >= 0; i--) {
+      const beam = this.beams[i];
+      beam.life -= deltaTime;
+
+      if (beam.life <= 0) {
+        this.container.removeChild(beam.graphics);
+        beam.graphics.destroy();
+        this.beams.splice(i, 1);
+      } else {
+        beam.graphics.alpha = beam.life / BEAM_LIFETIME;
+      }
+    }
+  }
+
+  /**
+   * Verifica se há feixes na tela
+   */
+  isActive(): boolean {
+    return this.beams.length > 0;
+  }
+
+  /**
+   * Desconecta o efeito e remove os feixes da tela
+   */
+  dispose(): void {
+    this.detach();
+    this.update(Infinity);
+  }
+}
@@ -3,4 +3,5 @@ export { PhysicsSystem } from './physics-adapter';
 export { TerrainSystem } from './terrain-adapter';
 export { InputSystem } from './input/input-system';
 export { EventSystem } from './event-system';
-export { ExplosionEffect } from './effects/explosion'; 
\ No newline at end of file
+export { ExplosionEffect } from './effects/explosion';
+export { BeamEffect } from './effects/beam'; 
\ No newline at end of file
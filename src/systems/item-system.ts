@@ -0,0 +1,213 @@
+import { EventEmitter } from 'eventemitter3';
+import { EventCoordinator } from '../core/event-coordinator';
+import { GameEventType, EventPayloadFactory } from '../utils/game-events';
+import { ItemType, ItemBag, DEFAULT_ITEM_DEFINITIONS } from '../entities/items';
+import { Vehicle } from '../entities/vehicle';
+import { VehicleManager } from '../entities/vehicle-manager';
+
+/**
+ * Tipos de eventos emitidos pelo sistema de itens
+ */
+export enum ItemEventType {
+  ITEM_USED = 'itemUsed'
+}
+
+/**
+ * Dados do evento de uso de item
+ */
+export interface ItemUsedData {
+  type: ItemType;
+  vehicle: Vehicle;
+  playerId: number;
+  targetX?: number;
+}
+
+/**
+ * Opções de uso de um item
+ */
+export interface IItemUseOptions {
+  targetX?: number; // Destino do teletransporte
+}
+
+/**
+ * Alterações no próximo disparo de um veículo, acumuladas pelos itens usados no turno
+ */
+export interface IShotModifier {
+  shots: number;            // Projéteis disparados de uma vez
+  damageMultiplier: number; // Multiplicador do dano de cada projétil
+}
+
+/**
+ * Disparo sem alterações
+ */
+export const DEFAULT_SHOT_MODIFIER: IShotModifier = {
+  shots: 1,
+  damageMultiplier: 1
+};
+
+/**
+ * Sistema de itens consumíveis
+ * Guarda a bolsa escolhida por cada jogador antes da partida, permite um item por turno
+ * e aplica os efeitos pelos ganchos já existentes (cura do veículo, reposicionamento e próximo disparo)
+ */
+export class ItemSystem extends EventEmitter {
+  private vehicleManager: VehicleManager;
+  private loadouts: Map<number, ItemType[]> = new Map();         // Jogador → itens escolhidos antes da partida
+  private bags: Map<number, ItemBag> = new Map();                // Jogador → bolsa da partida atual
+  private shotModifiers: Map<number, IShotModifier> = new Map(); // Veículo → alterações do próximo disparo
+  private usedThisTurn: boolean = false;
+
+  /**
+   * Cria um novo sistema de itens
+   * @param vehicleManager Gerenciador de veículos, usado para reposicionar veículos
+   */
+  constructor(vehicleManager: VehicleManager) {
+    super();
+    this.vehicleManager = vehicleManager;
+  }
+
+  /**
+   * Define os itens escolhidos por um jogador antes da partida
+   * @param playerId ID do jogador
+   * @param items Itens escolhidos
+   * @returns Verdadeiro se os itens cabem na bolsa (caso contrário a escolha anterior é mantida)
+   */
+  setLoadout(playerId: number, items: ItemType[]): boolean {
+    const bag = new ItemBag();
+    if (!items.every(type => bag.add(type))) {
+      return false;
+    }
+
+    this.loadouts.set(playerId, [...items]);
+    this.bags.set(playerId, bag);
+    return true;
+  }
+
+  /**
+   * Obtém a bolsa de um jogador na partida atual
+   * @param playerId ID do jogador
+   */
+  getBag(playerId: number): ItemBag | undefined {
+    return this.bags.get(playerId);
+  }
+
+  /**
+   * Adiciona um item à bolsa de um jogador durante a partida (ex: caixas do mapa)
+   * @param playerId ID do jogador
+   * @param type Tipo do item
+   * @returns Verdadeiro se havia espaço na bolsa
+   */
+  giveItem(playerId: number, type: ItemType): boolean {
+    if (!this.bags.has(playerId)) {
+      this.bags.set(playerId, new ItemBag());
+    }
+
+    return this.bags.get(playerId).add(type);
+  }
+
+  /**
+   * Restaura as bolsas com os itens escolhidos antes da partida (ex: início ou reinício)
+   */
+  resetBags(): void {
+    this.bags.clear();
+    this.loadouts.forEach((items, playerId) => {
+      const bag = new ItemBag();
+      items.forEach(type => bag.add(type));
+      this.bags.set(playerId, bag);
+    });
+
+    this.shotModifiers.clear();
+    this.usedThisTurn = false;
+  }
+
+  /**
+   * Início de um turno: libera o uso de um novo item
+   */
+  startTurn(): void {
+    this.usedThisTurn = false;
+  }
+
+  /**
+   * Verifica se um jogador pode usar um item agora
+   * @param playerId ID do jogador
+   * @param type Tipo do item
+   */
+  canUse(playerId: number, type: ItemType): boolean {
+    return !this.usedThisTurn && !!this.bags.get(playerId)?.has(type);
+  }
+
+  /**
+   * Usa um item da bolsa do dono do veículo
+   * @param vehicle Veículo do turno
+   * @param type Tipo do item
+   * @param options Opções do uso (ex: destino do teletransporte)
+   * @returns Verdadeiro se o item foi usado (itens sem efeito possível não são gastos)
+   */
+  useItem(vehicle: Vehicle, type: ItemType, options: IItemUseOptions = {}): boolean {
+    if (!this.canUse(vehicle.playerId, type) || !this.applyEffect(vehicle, type, options)) {
+      return false;
+    }
+
+    this.bags.get(vehicle.playerId).remove(type);
+    this.usedThisTurn = true;
+
+    const data: ItemUsedData = { type, vehicle, playerId: vehicle.playerId, targetX: options.targetX };
+    this.emit(ItemEventType.ITEM_USED, data);
+
+    EventCoordinator.getInstance().emit(
+      GameEventType.ITEM_USED,
+      EventPayloadFactory.createItemPayload(type, vehicle.playerId, vehicle.id, { ...vehicle.position })
+    );
+
+    return true;
+  }
+
+  /**
+   * Aplica o efeito de um item
+   * @param vehicle Veículo que usa o item
+   * @param type Tipo do item
+   * @param options Opções do uso
+   * @returns Verdadeiro se o efeito foi aplicado
+   */
+  private applyEffect(vehicle: Vehicle, type: ItemType, options: IItemUseOptions): boolean {
+    const definition = DEFAULT_ITEM_DEFINITIONS[type];
+
+    switch (type) {
+      case ItemType.HEAL:
+        if (vehicle.health >= vehicle.maxHealth) {
+          return false;
+        }
+        vehicle.heal(definition.healAmount ?? 0);
+        return true;
+      case ItemType.TELEPORT:
+        return options.targetX !== undefined && this.vehicleManager.teleportVehicle(vehicle.id, options.targetX);
+      case ItemType.DUAL_SHOT:
+      case ItemType.POWER_UP: {
+        const modifier = this.getShotModifier(vehicle);
+        this.shotModifiers.set(vehicle.id, {
+          shots: Math.max(modifier.shots, definition.shots ?? 1),
+          damageMultiplier: modifier.damageMultiplier * (definition.damageMultiplier ?? 1)
+        });
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  /**
+   * Obtém as alterações do próximo disparo de um veículo
+   * @param vehicle Veículo
+   */
+  getShotModifier(vehicle: Vehicle): IShotModifier {
+    return this.shotModifiers.get(vehicle.id) ?? { ...DEFAULT_SHOT_MODIFIER };
+  }
+
+  /**
+   * Descarta as alterações do próximo disparo de um veículo, após o disparo
+   * @param vehicle Veículo
+   */
+  consumeShotModifier(vehicle: Vehicle): void {
+    this.shotModifiers.delete(vehicle.id);
+  }
+}
@@ -1,7 +1,8 @@
 import * as PIXI from 'pixi.js';
-import { PhysicsEngine, PhysicsObject } from './physics/index';
+import { PhysicsEngine, PhysicsObject, BallisticIntegrator, IBallisticEnvironment, PhysicsRules } from './physics/index';
 import { CONFIG } from '../core/config';
 import { Physics } from './physics'; // Importar a classe Physics para compatibilidade
+import { WindSystem } from './wind-system';
 
 /**
  * Sistema de física para trajetórias e colisões
@@ -10,15 +11,29 @@ import { Physics } from './physics'; // Importar a classe Physics para compatibi
  */
 export class PhysicsSystem extends Physics {
   private engine: PhysicsEngine;
-  private wind: number = 0;
-  private gravity: number = CONFIG.PHYSICS.GRAVITY;
-  private windUpdateInterval: number = 5000; // 5 segundos
-  private windTimer: number = 0;
+  private integrator: BallisticIntegrator = new BallisticIntegrator();
+  private windSystem: WindSystem;
   
-  constructor() {
+  /**
+   * Cria o sistema de física da partida
+   * @param rules Regras físicas da partida (padrão: regras padrão)
+   */
+  constructor(rules: PhysicsRules = new PhysicsRules()) {
     super(); // Chama o construtor da classe pai
-    this.engine = new PhysicsEngine();
-    this.updateWind();
+    this.rules = rules;
+    this.engine = new PhysicsEngine(rules);
+    this.windSystem = new WindSystem({ multiplier: rules.windMultiplier });
+    this.windSystem.randomize();
+  }
+
+  /**
+   * Define as regras físicas da partida, repassando-as ao engine e ao vento
+   * @param rules Novas regras
+   */
+  public setRules(rules: PhysicsRules): void {
+    super.setRules(rules);
+    this.engine.setRules(rules);
+    this.windSystem.setRules({ multiplier: rules.windMultiplier });
   }
 
   /**
@@ -32,12 +47,8 @@ export class PhysicsSystem extends Physics {
     // Atualiza o sistema de física avançado
     this.engine.update(deltaTime);
     
-    // Atualiza o vento periodicamente
-    this.windTimer += deltaTime;
-    if (this.windTimer >= this.windUpdateInterval) {
-      this.updateWind();
-      this.windTimer = 0;
-    }
+    // Rajadas de vento durante o voo
+    this.windSystem.update(deltaTime);
   }
 
   // Implementações necessárias para compatibilidade com Physics
@@ -66,25 +77,46 @@ export class PhysicsSystem extends Physics {
   }
 
   /**
-   * Atualiza aleatoriamente a força do vento
+   * Obtém o sistema de vento da partida
    */
-  private updateWind(): void {
-    // Define um valor aleatório entre -5 e 5
-    this.wind = (Math.random() * 10 - 5) * CONFIG.PHYSICS.WIND_STRENGTH;
+  public getWindSystem(): WindSystem {
+    return this.windSystem;
   }
 
   /**
-   * Obtém a força atual do vento
+   * Obtém a componente horizontal do vento atual
    */
   public getWind(): number {
-    return this.wind;
+    return this.windSystem.getWind().x;
+  }
+
+  /**
+   * Obtém as condições que afetam o voo dos projéteis (regras da partida e vento atual)
+   */
+  public getEnvironment(): IBallisticEnvironment {
+    const wind = this.windSystem.getWind();
+    return {
+      gravity: this.rules.gravity,
+      wind: wind.x,
+      windY: wind.y,
+      airDrag: this.rules.airDrag,
+      terminalVelocity: this.rules.terminalVelocity
+    };
   }
 
   /**
    * Obtém a força da gravidade
    */
   public getGravity(): number {
-    return this.gravity;
+    return this.rules.gravity;
+  }
+
+  /**
+   * Define a força da gravidade, mantendo as demais regras da partida
+   * @param gravity Nova força da gravidade
+   */
+  public setGravity(gravity: number): void {
+    this.setRules(this.rules.with({ gravity }));
   }
 
   /**
@@ -101,47 +133,18 @@ export class PhysicsSystem extends Physics {
     angle: number,
     power: number
   ): Array<{ x: number, y: number }> {
-    const trajectory: Array<{ x: number, y: number }> = [];
-    const points = 100; // Número de pontos a calcular
-    const timeStep = 0.1; // Incremento de tempo
-    
-    // Converte o ângulo para radianos
-    const angleRad = angle * (Math.PI / 180);
+    const velocity = this.integrator.getLaunchVelocity(angle, power);
     
-    // Calcula velocidades iniciais
-    const velocityX = Math.cos(angleRad) * power * 0.1;
-    const velocityY = -Math.sin(angleRad) * power * 0.1;
-    
-    // Adiciona o ponto inicial
-    trajectory.push({ x: startX, y: startY });
-    
-    // Simula a trajetória
-    let x = startX;
-    let y = startY;
-    let vx = velocityX;
-    let vy = velocityY;
-    
-    for (let i = 0; i < points; i++) {
-      // Aplica a gravidade
-      vy += this.gravity * timeStep;
-      
-      // Aplica o vento
-      vx += this.wind * 0.005 * timeStep;
-      
-      // Atualiza a posição
-      x += vx;
-      y += vy;
-      
-      // Adiciona o ponto à trajetória
-      trajectory.push({ x, y });
-      
-      // Verifica se saiu da tela
-      if (y > CONFIG.SCREEN.HEIGHT || x < 0 || x > CONFIG.SCREEN.WIDTH) {
-        break;
+    // Simula com o mesmo passo fixo dos projéteis em voo, até sair da tela
+    return this.integrator.simulate(
+      { x: startX, y: startY, vx: velocity.x, vy: velocity.y },
+      this.getEnvironment(),
+      {
+        stepSize: CONFIG.PHYSICS.FIXED_STEP,
+        maxSteps: 100,
+        shouldStop: (x, y) => y > CONFIG.SCREEN.HEIGHT || x < 0 || x > CONFIG.SCREEN.WIDTH
       }
-    }
-    
-    return trajectory;
+    );
   }
   
   /**
@@ -1,4 +1,5 @@
 import { PhysicsSystem } from './physics-adapter';
+import { PhysicsRules } from './physics/physics-rules';
 
 /**
  * Serviço global para acesso ao sistema de física
@@ -60,4 +61,27 @@ export class PhysicsService {
   public getGravity(): number {
     return this.physicsSystem.getGravity();
   }
+  
+  /**
+   * Define a força da gravidade
+   * @param gravity Nova força da gravidade
+   */
+  public setGravity(gravity: number): void {
+    this.physicsSystem.setGravity(gravity);
+  }
+  
+  /**
+   * Obtém as regras físicas da partida
+   */
+  public getRules(): PhysicsRules {
+    return this.physicsSystem.getRules();
+  }
+  
+  /**
+   * Define as regras físicas da partida
+   * @param rules Novas regras
+   */
+  public setRules(rules: PhysicsRules): void {
+    this.physicsSystem.setRules(rules);
+  }
 } 
\ No newline at end of file
@@ -1,4 +1,4 @@
-import { CONFIG } from '../core/config';
+import { PhysicsRules } from './physics/physics-rules';
 import * as MathUtils from '../utils/math';
 
 /**
@@ -24,6 +24,22 @@ export interface PhysicsObject {
  */
 export class Physics {
   protected objects: PhysicsObject[] = [];
+  protected rules: PhysicsRules = new PhysicsRules();
+  
+  /**
+   * Define as regras físicas da partida
+   * @param rules Regras a usar (gravidade, arrasto, velocidade terminal, restituição)
+   */
+  setRules(rules: PhysicsRules): void {
+    this.rules = rules;
+  }
+  
+  /**
+   * Obtém as regras físicas da partida
+   */
+  getRules(): PhysicsRules {
+    return this.rules;
+  }
   
   /**
    * Adiciona um objeto ao sistema de física
@@ -56,12 +72,18 @@ export class Physics {
    * @param deltaTime Tempo desde o último frame em segundos
    */
   update(deltaTime: number): void {
+    const drag = Math.max(0, 1 - this.rules.airDrag * deltaTime);
+    
     // Aplica a gravidade e atualiza posições
     for (const object of this.objects) {
       if (object.isStatic) continue;
       
-      // Aplica a gravidade
-      object.velocityY += CONFIG.PHYSICS.GRAVITY * deltaTime;
+      // Aplica a gravidade e o arrasto do ar, limitando a velocidade de queda
+      object.velocityX *= drag;
+      object.velocityY = Math.min(
+        this.rules.terminalVelocity,
+        (object.velocityY + this.rules.gravity * deltaTime) * drag
+      );
       
       // Atualiza a posição
       object.x += object.velocityX * deltaTime;
@@ -187,7 +209,7 @@ export class Physics {
     const minHalfHeight = Math.min(movable.height / 2, staticObj.height / 2);
     
     // Fator de redução da velocidade (coeficiente de restituição)
-    const elasticity = 0.7;
+    const elasticity = this.rules.bounceRestitution;
     
     // Colisão horizontal
     if (Math.abs(centerDiffX) > minHalfWidth && Math.abs(centerDiffY) <= minHalfHeight) {
@@ -0,0 +1,126 @@
+import { Vector2D } from './physics-object';
+
+/**
+ * Estado de um corpo em voo balístico
+ */
+export interface IBallisticState {
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+/**
+ * Condições do ambiente que afetam o voo
+ */
+export interface IBallisticEnvironment {
+  gravity: number;  // Aceleração vertical por passo
+  wind: number;     // Componente horizontal do vento (CONFIG.PHYSICS.WIND_MIN a WIND_MAX)
+  windY?: number;   // Componente vertical do vento, positivo para baixo (padrão: 0)
+  airDrag?: number; // Fração da velocidade perdida por passo com o arrasto do ar (padrão: 0)
+  terminalVelocity?: number; // Velocidade máxima de queda (padrão: sem limite)
+}
+
+/**
+ * Opções da simulação de uma trajetória completa
+ */
+export interface IBallisticSimulationOptions {
+  stepSize: number;                             // Duração de cada passo (o mesmo passo fixo da simulação)
+  maxSteps: number;                             // Limite de passos simulados
+  shouldStop?: (x: number, y: number) => boolean; // Condição de parada (ex: colisão com o terreno)
+}
+
+/**
+ * Fator que converte a potência do disparo em velocidade inicial
+ */
+export const LAUNCH_VELOCITY_FACTOR = 0.1;
+
+/**
+ * Fator que converte o vento em aceleração horizontal
+ */
+export const WIND_ACCELERATION_FACTOR = 0.005;
+
+/**
+ * Integrador balístico compartilhado pelos projéteis em voo e pela prévia da trajetória
+ * Usar o mesmo integrador nos dois garante que a prévia mostre exatamente o caminho do disparo
+ */
+export class BallisticIntegrator {
+  /**
+   * Calcula a velocidade inicial de um disparo
+   * @param angle Ângulo em graus (0 = direita, 90 = para cima)
+   * @param power Potência do disparo
+   * @returns Velocidade inicial
+   */
+  getLaunchVelocity(angle: number, power: number): Vector2D {
+    const angleRad = angle * (Math.PI / 180);
+
+    return {
+      x: Math.cos(angleRad) * power * LAUNCH_VELOCITY_FACTOR,
+      y: -Math.sin(angleRad) * power * LAUNCH_VELOCITY_FACTOR
+    };
+  }
+
+  /**
+   * Converte uma velocidade inicial de volta em ângulo e potência (inverso de getLaunchVelocity)
+   * @param velocity Velocidade inicial
+   * @returns Ângulo em graus (0 = direita, 90 = para cima) e potência
+   */
+  getLaunchAim(velocity: Vector2D): { angle: number, power: number } {
+    return {
+      angle: Math.atan2(-velocity.y, velocity.x) * (180 / Math.PI),
+      power: Math.hypot(velocity.x, velocity.y) / LAUNCH_VELOCITY_FACTOR
+    };
+  }
+
+  /**
+   * Avança um corpo em um passo (Euler semi-implícito: velocidade primeiro, depois posição)
+   * @param state Estado atual
+   * @param environment Gravidade, vento e arrasto
+   * @param stepSize Duração do passo
+   * @returns Novo estado
+   */
+  step(state: IBallisticState, environment: IBallisticEnvironment, stepSize: number): IBallisticState {
+    const drag = Math.max(0, 1 - (environment.airDrag ?? 0) * stepSize);
+    const terminalVelocity = environment.terminalVelocity ?? Infinity;
+
+    const vx = (state.vx + environment.wind * WIND_ACCELERATION_FACTOR * stepSize) * drag;
+    const vy = Math.min(
+      terminalVelocity,
+      (state.vy + (environment.gravity + (environment.windY ?? 0) * WIND_ACCELERATION_FACTOR) * stepSize) * drag
+    );
+
+    return {
+      x: state.x + vx * stepSize,
+      y: state.y + vy * stepSize,
+      vx,
+      vy
+    };
+  }
+
+  /**
+   * Simula uma trajetória completa a partir de um estado inicial
+   * @param start Estado inicial
+   * @param environment Gravidade e vento
+   * @param options Passo, limite de passos e condição de parada
+   * @returns Pontos da trajetória, começando pelo ponto inicial
+   */
+  simulate(
+    start: IBallisticState,
+    environment: IBallisticEnvironment,
+    options: IBallisticSimulationOptions
+  ): Vector2D[] {
+    const points: Vector2D[] = [{ x: start.x, y: start.y }];
+    let state = start;
+
+    for (let i = 0; i < options.maxSteps; i++) {
+      state = this.step(state, environment, options.stepSize);
+      points.push({ x: state.x, y: state.y });
+
+      if (options.shouldStop && options.shouldStop(state.x, state.y)) {
+        break;
+      }
+    }
+
+    return points;
+  }
+}
@@ -0,0 +1,154 @@
+import { Vector2D } from './physics-object';
+import { SweptCollisionDetector } from './swept-collision';
+
+/**
+ * Alvo que pode ser atravessado por um feixe (ex: veículo)
+ */
+export interface IBeamTarget {
+  id: number;
+  position: Vector2D;
+  health: number;
+  hitRadius?: number; // Raio da hitbox (padrão: 20)
+}
+
+/**
+ * Opções do traçado de um feixe
+ */
+export interface IBeamOptions {
+  range: number;        // Alcance máximo do feixe
+  penetration: number;  // Distância atravessada após o primeiro contato
+  trenchRadius: number; // Raio do sulco aberto no terreno atravessado (0 = não escava)
+  resolution?: number;  // Distância máxima entre duas amostras, em pixels (padrão: 1)
+  ignoreId?: number;    // Alvo ignorado (ex: o veículo que disparou)
+}
+
+/**
+ * Alvo atingido por um feixe
+ */
+export interface IBeamHit<T extends IBeamTarget = IBeamTarget> {
+  target: T;
+  point: Vector2D;  // Ponto em que o feixe entra na hitbox
+  distance: number; // Distância percorrida pelo feixe até o alvo
+}
+
+/**
+ * Resultado do traçado de um feixe
+ */
+export interface IBeamTrace<T extends IBeamTarget = IBeamTarget> {
+  start: Vector2D;
+  end: Vector2D;               // Onde o feixe termina: fim da penetração ou do alcance
+  contact: Vector2D | null;    // Primeiro contato com o terreno ou com um alvo
+  hits: IBeamHit<T>[];         // Alvos atingidos, na ordem em que o feixe os atravessa
+  trench: Vector2D[];          // Centros do sulco aberto no terreno atravessado
+}
+
+/**
+ * Raio da hitbox de alvos que não informam o seu
+ */
+const DEFAULT_HIT_RADIUS = 20;
+
+/**
+ * Classe responsável por traçar feixes instantâneos (ex: laser)
+ * O feixe segue em linha reta até o primeiro contato com o terreno ou com um alvo
+ * e continua pela distância de penetração, atingindo tudo o que atravessar
+ */
+export class BeamTracer {
+  private sweptDetector: SweptCollisionDetector = new SweptCollisionDetector();
+
+  /**
+   * Traça um feixe a partir de um ponto
+   * @param start Origem do feixe
+   * @param direction Direção do feixe (não precisa estar normalizada)
+   * @param options Alcance, penetração e sulco do feixe
+   * @param isSolid Verifica se um ponto está dentro do terreno
+   * @param targets Alvos possíveis
+   * @returns Traçado do feixe
+   */
+  trace<T extends IBeamTarget>(
+    start: Vector2D,
+    direction: Vector2D,
+    options: IBeamOptions,
+    isSolid: (x: number, y: number) => boolean,
+    targets: T[] = []
+  ): IBeamTrace<T> {
+    const length = Math.hypot(direction.x, direction.y);
+    if (length === 0 || options.range <= 0) {
+      return { start: { ...start }, end: { ...start }, contact: null, hits: [], trench: [] };
+    }
+
+    const unit = { x: direction.x / length, y: direction.y / length };
+    const pointAt = (distance: number): Vector2D => ({
+      x: start.x + unit.x * distance,
+      y: start.y + unit.y * distance
+    });
+    const far = pointAt(options.range);
+
+    // Distância de cada alvo vivo ao longo do feixe, sem limite de penetração
+    const candidates: IBeamHit<T>[] = [];
+    for (const target of targets) {
+      if (target.health <= 0 || target.id === options.ignoreId) {
+        continue;
+      }
+
+      // O feixe nasce dentro da hitbox de quem dispara: a hitbox onde ele começa não é atingida
+      const hitRadius = target.hitRadius ?? DEFAULT_HIT_RADIUS;
+      if (Math.hypot(start.x - target.position.x, start.y - target.position.y) <= hitRadius) {
+        continue;
+      }
+
+      const hit = this.sweptDetector.sweepCircle(start, far, target.position, hitRadius);
+      if (hit) {
+        candidates.push({ target, point: hit.point, distance: hit.time * options.range });
+      }
+    }
+    candidates.sort((a, b) => a.distance - b.distance);
+
+    // O primeiro contato é o mais próximo entre o terreno e os alvos
+    const terrainHit = this.sweptDetector.sweepSolid(start, far, isSolid, options.resolution);
+    let contactDistance = terrainHit ? terrainHit.time * options.range : Infinity;
+    if (candidates.length > 0) {
+      contactDistance = Math.min(contactDistance, candidates[0].distance);
+    }
+
+    if (contactDistance === Infinity) {
+      return { start: { ...start }, end: far, contact: null, hits: [], trench: [] };
+    }
+
+    const endDistance = Math.min(options.range, contactDistance + Math.max(0, options.penetration));
+
+    return {
+      start: { ...start },
+      end: pointAt(endDistance),
+      contact: pointAt(contactDistance),
+      hits: candidates.filter(hit => hit.distance <= endDistance),
+      trench: this.traceTrench(pointAt, contactDistance, endDistance, options.trenchRadius, isSolid)
+    };
+  }
+
+  /**
+   * Obtém os centros do sulco ao longo do trecho penetrado, só onde há terreno
+   * Os centros ficam a um raio de distância um do outro, formando uma faixa contínua
+   * @private
+   */
+  private traceTrench(
+    pointAt: (distance: number) => Vector2D,
+    from: number,
+    to: number,
+    radius: number,
+    isSolid: (x: number, y: number) => boolean
+  ): Vector2D[] {
+    const trench: Vector2D[] = [];
+    if (radius <= 0) {
+      return trench;
+    }
+
+    for (let distance = from; distance <= to; distance += radius) {
+      const point = pointAt(distance);
+      if (isSolid(point.x, point.y)) {
+        trench.push(point);
+      }
+    }
+
+    return trench;
+  }
+}
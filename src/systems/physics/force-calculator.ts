@@ -1,10 +1,28 @@
 import { PhysicsObject, Vector2D } from './physics-object';
-import { CONFIG } from '../../core/config';
+import { PhysicsRules } from './physics-rules';
 
 /**
  * Classe responsável por calcular e aplicar forças em objetos físicos
  */
 export class ForceCalculator {
+  private rules: PhysicsRules;
+  
+  /**
+   * Cria um novo calculador de forças
+   * @param rules Regras físicas da partida (padrão: regras padrão)
+   */
+  constructor(rules: PhysicsRules = new PhysicsRules()) {
+    this.rules = rules;
+  }
+  
+  /**
+   * Define as regras físicas da partida
+   * @param rules Novas regras
+   */
+  setRules(rules: PhysicsRules): void {
+    this.rules = rules;
+  }
+  
   /**
    * Aplica gravidade a um objeto
    * @param object Objeto a receber a gravidade
@@ -18,7 +36,7 @@ export class ForceCalculator {
     
     return {
       x: object.velocityX,
-      y: object.velocityY + CONFIG.PHYSICS.GRAVITY * deltaTime
+      y: Math.min(this.rules.terminalVelocity, object.velocityY + this.rules.gravity * deltaTime)
     };
   }
   
@@ -60,6 +78,67 @@ export class ForceCalculator {
     };
   }
   
+  /**
+   * Calcula o impulso radial de uma explosão em um ponto
+   * O impulso aponta para fora do centro e cai linearmente até zero na borda do raio
+   * @param x Posição X do ponto
+   * @param y Posição Y do ponto
+   * @param centerX Centro X da explosão
+   * @param centerY Centro Y da explosão
+   * @param radius Raio de alcance do impulso
+   * @param strength Impulso no centro da explosão
+   * @returns Impulso no ponto (zero fora do raio)
+   */
+  calculateExplosionImpulse(
+    x: number,
+    y: number,
+    centerX: number,
+    centerY: number,
+    radius: number,
+    strength: number
+  ): Vector2D {
+    const dx = x - centerX;
+    const dy = y - centerY;
+    const distance = Math.sqrt(dx * dx + dy * dy);
+
+    if (radius <= 0 || distance >= radius) {
+      return { x: 0, y: 0 };
+    }
+
+    const magnitude = strength * (1 - distance / radius);
+
+    // Explosão exatamente no centro do objeto o lança para cima
+    if (distance === 0) {
+      return { x: 0, y: -magnitude };
+    }
+
+    return {
+      x: (dx / distance) * magnitude,
+      y: (dy / distance) * magnitude
+    };
+  }
+
+  /**
+   * Aplica o impulso radial de uma explosão a um objeto
+   * Objetos mais pesados são menos empurrados, pois o impulso é dividido pela massa
+   * @param object Objeto a ser empurrado
+   * @param centerX Centro X da explosão
+   * @param centerY Centro Y da explosão
+   * @param radius Raio de alcance do impulso
+   * @param strength Impulso no centro da explosão
+   * @returns Nova velocidade após o empurrão
+   */
+  applyExplosion(
+    object: PhysicsObject,
+    centerX: number,
+    centerY: number,
+    radius: number,
+    strength: number
+  ): Vector2D {
+    const impulse = this.calculateExplosionImpulse(object.x, object.y, centerX, centerY, radius, strength);
+    return this.applyImpulse(object, impulse.x, impulse.y);
+  }
+
   /**
    * Calcula a nova posição baseada na velocidade
    * @param object Objeto a ser atualizado
@@ -11,6 +11,10 @@ export { PhysicsObject, Vector2D, CollisionInfo, CollisionResolutionResult } fro
 export { CollisionDetector } from './collision-detector';
 export { CollisionResolver } from './collision-resolver';
 export { ForceCalculator } from './force-calculator';
+export * from './ballistic-integrator';
+export * from './physics-rules';
+export * from './swept-collision';
+export * from './beam-tracer';
 export { PhysicsEngine } from './physics-engine';
 
 // Exportação por padrão do engine de física para compatibilidade com código existente
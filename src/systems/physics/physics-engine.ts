@@ -2,6 +2,7 @@ import { PhysicsObject, Vector2D } from './physics-object';
 import { CollisionDetector } from './collision-detector';
 import { CollisionResolver } from './collision-resolver';
 import { ForceCalculator } from './force-calculator';
+import { PhysicsRules } from './physics-rules';
 
 /**
  * Motor de física do jogo
@@ -15,11 +16,21 @@ export class PhysicsEngine {
   
   /**
    * Cria um novo motor de física
+   * @param rules Regras físicas da partida (padrão: regras padrão)
    */
-  constructor() {
+  constructor(rules: PhysicsRules = new PhysicsRules()) {
     this.collisionDetector = new CollisionDetector();
-    this.collisionResolver = new CollisionResolver();
-    this.forceCalculator = new ForceCalculator();
+    this.collisionResolver = new CollisionResolver(rules.bounceRestitution);
+    this.forceCalculator = new ForceCalculator(rules);
+  }
+  
+  /**
+   * Define as regras físicas da partida
+   * @param rules Novas regras
+   */
+  setRules(rules: PhysicsRules): void {
+    this.collisionResolver = new CollisionResolver(rules.bounceRestitution);
+    this.forceCalculator.setRules(rules);
   }
   
   /**
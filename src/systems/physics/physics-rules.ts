@@ -0,0 +1,105 @@
+import { CONFIG } from '../../core/config';
+
+/**
+ * Valores das regras físicas de uma partida
+ */
+export interface IPhysicsRules {
+  gravity: number;           // Aceleração vertical por passo
+  windMultiplier: number;    // Multiplicador da força do vento (0 = sem vento)
+  airDrag: number;           // Fração da velocidade perdida por passo com o arrasto do ar (0 = sem arrasto)
+  terminalVelocity: number;  // Velocidade máxima de queda (Infinity = sem limite)
+  bounceRestitution: number; // Fração da velocidade mantida ao quicar (0 a 1)
+}
+
+/**
+ * Conjuntos de regras pré-definidos
+ */
+export enum PhysicsRulesPreset {
+  STANDARD = 'standard',                 // Regras normais da partida
+  LOW_GRAVITY = 'low_gravity',           // Gravidade reduzida e quedas lentas
+  NO_WIND_PRACTICE = 'no_wind_practice'  // Treino sem vento
+}
+
+/**
+ * Regras padrão, derivadas da configuração global
+ */
+export const DEFAULT_PHYSICS_RULES: IPhysicsRules = {
+  gravity: CONFIG.PHYSICS.GRAVITY,
+  windMultiplier: CONFIG.PHYSICS.WIND_STRENGTH,
+  airDrag: 0,
+  terminalVelocity: Infinity,
+  bounceRestitution: 0.7
+};
+
+/**
+ * Alterações de cada conjunto pré-definido em relação às regras padrão
+ */
+const PRESET_OVERRIDES: Record<PhysicsRulesPreset, Partial<IPhysicsRules>> = {
+  [PhysicsRulesPreset.STANDARD]: {},
+  [PhysicsRulesPreset.LOW_GRAVITY]: {
+    gravity: CONFIG.PHYSICS.GRAVITY * 0.4,
+    terminalVelocity: 8
+  },
+  [PhysicsRulesPreset.NO_WIND_PRACTICE]: {
+    windMultiplier: 0
+  }
+};
+
+/**
+ * Regras físicas de uma partida
+ * Injetadas nos sistemas de física no lugar da configuração global,
+ * para que modos diferentes (ex: gravidade baixa, treino sem vento) e testes usem suas próprias regras
+ * Instâncias são imutáveis: use `with` para derivar novas regras
+ */
+export class PhysicsRules implements IPhysicsRules {
+  readonly gravity: number;
+  readonly windMultiplier: number;
+  readonly airDrag: number;
+  readonly terminalVelocity: number;
+  readonly bounceRestitution: number;
+
+  /**
+   * Cria um novo conjunto de regras
+   * @param overrides Valores a alterar (campos omitidos usam o padrão)
+   */
+  constructor(overrides: Partial<IPhysicsRules> = {}) {
+    const rules = { ...DEFAULT_PHYSICS_RULES, ...overrides };
+
+    this.gravity = rules.gravity;
+    this.windMultiplier = Math.max(0, rules.windMultiplier);
+    this.airDrag = Math.max(0, Math.min(1, rules.airDrag));
+    this.terminalVelocity = Math.max(0, rules.terminalVelocity);
+    this.bounceRestitution = Math.max(0, Math.min(1, rules.bounceRestitution));
+  }
+
+  /**
+   * Cria as regras de um conjunto pré-definido
+   * @param preset Conjunto pré-definido
+   * @param overrides Valores a alterar sobre o conjunto
+   */
+  static fromPreset(preset: PhysicsRulesPreset, overrides: Partial<IPhysicsRules> = {}): PhysicsRules {
+    return new PhysicsRules({ ...PRESET_OVERRIDES[preset], ...overrides });
+  }
+
+  /**
+   * Deriva novas regras alterando alguns valores
+   * @param overrides Valores a alterar
+   * @returns Novas regras
+   */
+  with(overrides: Partial<IPhysicsRules>): PhysicsRules {
+    return new PhysicsRules({ ...this.toJSON(), ...overrides });
+  }
+
+  /**
+   * Obtém os valores das regras
+   */
+  toJSON(): IPhysicsRules {
+    return {
+      gravity: this.gravity,
+      windMultiplier: this.windMultiplier,
+      airDrag: this.airDrag,
+      terminalVelocity: this.terminalVelocity,
+      bounceRestitution: this.bounceRestitution
+    };
+  }
+}
@@ -1,6 +1,6 @@
-import { CONFIG } from '../../core/config';
 import * as MathUtils from '../../utils/math';
 import { ModernPhysicsObject, PhysicsObject, PhysicsUtils, Vector2D } from './types';
+import { PhysicsRules } from './physics-rules';
 
 /**
  * Sistema de física moderno
@@ -8,6 +8,23 @@ import { ModernPhysicsObject, PhysicsObject, PhysicsUtils, Vector2D } from './ty
  */
 export class PhysicsSystem {
   private objects: PhysicsObject[] = [];
+  private rules: PhysicsRules;
+  
+  /**
+   * Cria o sistema de física
+   * @param rules Regras físicas da partida (padrão: regras padrão)
+   */
+  constructor(rules: PhysicsRules = new PhysicsRules()) {
+    this.rules = rules;
+  }
+  
+  /**
+   * Substitui as regras físicas usadas na simulação
+   * @param rules Novas regras
+   */
+  setRules(rules: PhysicsRules): void {
+    this.rules = rules;
+  }
   
   /**
    * Adiciona um objeto ao sistema de física
@@ -45,7 +62,7 @@ export class PhysicsSystem {
       if (object.isStatic) continue;
       
       // Aplica a gravidade
-      object.velocity.y += CONFIG.PHYSICS.GRAVITY * deltaTime;
+      object.velocity.y += this.rules.gravity * deltaTime;
       
       // Atualiza a posição
       object.position.x += object.velocity.x * deltaTime;
@@ -0,0 +1,126 @@
+import { Vector2D } from './physics-object';
+
+/**
+ * Primeiro contato encontrado ao varrer um segmento
+ */
+export interface ISweepHit {
+  point: Vector2D;  // Ponto exato do primeiro contato
+  time: number;     // Fração do segmento percorrida até o contato (0 = início, 1 = fim)
+}
+
+/**
+ * Número de bissecções usadas para refinar o ponto de contato com áreas sólidas
+ */
+const REFINE_ITERATIONS = 10;
+
+/**
+ * Classe responsável pela detecção contínua de colisões
+ * Em vez de testar só a posição final de um passo, testa o segmento percorrido,
+ * então projéteis rápidos não atravessam terreno fino nem passam direto pelos veículos
+ */
+export class SweptCollisionDetector {
+  /**
+   * Varre um segmento contra um círculo (ex: hitbox de um veículo)
+   * @param start Início do segmento
+   * @param end Fim do segmento
+   * @param center Centro do círculo
+   * @param radius Raio do círculo (já somado ao raio do corpo em movimento)
+   * @returns Primeiro contato ou null se o segmento não toca o círculo
+   */
+  sweepCircle(start: Vector2D, end: Vector2D, center: Vector2D, radius: number): ISweepHit | null {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const fx = start.x - center.x;
+    const fy = start.y - center.y;
+
+    // Começou dentro do círculo
+    const c = fx * fx + fy * fy - radius * radius;
+    if (c <= 0) {
+      return { point: { x: start.x, y: start.y }, time: 0 };
+    }
+
+    const a = dx * dx + dy * dy;
+    if (a === 0) {
+      return null;
+    }
+
+    // Menor raiz de |start + t * d - center| = radius
+    const b = 2 * (fx * dx + fy * dy);
+    const discriminant = b * b - 4 * a * c;
+    if (discriminant < 0) {
+      return null;
+    }
+
+    const time = (-b - Math.sqrt(discriminant)) / (2 * a);
+    if (time < 0 || time > 1) {
+      return null;
+    }
+
+    return { point: this.pointAt(start, end, time), time };
+  }
+
+  /**
+   * Varre um segmento contra uma área sólida qualquer (ex: terreno ou líquido)
+   * O segmento é amostrado em intervalos de no máximo `resolution` pixels
+   * e o contato é refinado por bissecção entre a última amostra livre e a primeira sólida
+   * @param start Início do segmento
+   * @param end Fim do segmento
+   * @param isSolid Verifica se um ponto está dentro da área
+   * @param resolution Distância máxima entre duas amostras, em pixels
+   * @returns Primeiro contato ou null se o segmento não entra na área
+   */
+  sweepSolid(
+    start: Vector2D,
+    end: Vector2D,
+    isSolid: (x: number, y: number) => boolean,
+    resolution: number = 1
+  ): ISweepHit | null {
+    if (isSolid(start.x, start.y)) {
+      return { point: { x: start.x, y: start.y }, time: 0 };
+    }
+
+    const length = Math.hypot(end.x - start.x, end.y - start.y);
+    const samples = Math.max(1, Math.ceil(length / Math.max(resolution, 0.01)));
+    let freeTime = 0;
+
+    for (let i = 1; i <= samples; i++) {
+      const time = i / samples;
+      const point = this.pointAt(start, end, time);
+
+      if (!isSolid(point.x, point.y)) {
+        freeTime = time;
+        continue;
+      }
+
+      // Refina entre a última amostra livre e a primeira sólida
+      let low = freeTime;
+      let high = time;
+
+      for (let j = 0; j < REFINE_ITERATIONS; j++) {
+        const middle = (low + high) / 2;
+        const probe = this.pointAt(start, end, middle);
+
+        if (isSolid(probe.x, probe.y)) {
+          high = middle;
+        } else {
+          low = middle;
+        }
+      }
+
+      return { point: this.pointAt(start, end, high), time: high };
+    }
+
+    return null;
+  }
+
+  /**
+   * Obtém o ponto do segmento em uma fração do percurso
+   * @private
+   */
+  private pointAt(start: Vector2D, end: Vector2D, time: number): Vector2D {
+    return {
+      x: start.x + (end.x - start.x) * time,
+      y: start.y + (end.y - start.y) * time
+    };
+  }
+}
@@ -0,0 +1,369 @@
+import * as PIXI from 'pixi.js';
+import { EventEmitter } from 'eventemitter3';
+import { EventCoordinator } from '../core/event-coordinator';
+import { GameEventType, EventPayloadFactory } from '../utils/game-events';
+import { ItemType } from '../entities/items';
+import { Vehicle } from '../entities/vehicle';
+import { VehicleManager } from '../entities/vehicle-manager';
+import { ItemSystem } from './item-system';
+import { TurnSystem, TurnEventType } from './turn-system';
+import { ProjectileManager, ProjectileEventType, ProjectileImpactData } from './projectile-manager';
+import { Terrain } from './terrain';
+import { TerrainUtility } from './terrain/terrain-utility';
+
+/**
+ * Bônus imediatos que uma caixa pode conceder
+ */
+export enum PickupBuff {
+  REPAIR = 'repair',                // Recupera parte da vida do veículo
+  SPECIAL_CHARGE = 'special_charge' // Adianta a carga do tiro especial
+}
+
+/**
+ * Conteúdo de uma caixa: um item para a bolsa ou um bônus imediato
+ */
+export interface ICrateContent {
+  item?: ItemType;
+  buff?: PickupBuff;
+}
+
+/**
+ * Caixa no mapa
+ */
+export interface ICrate {
+  id: string;
+  x: number;
+  y: number; // Centro da caixa, apoiada na superfície
+  content: ICrateContent;
+  graphics: PIXI.Graphics;
+}
+
+/**
+ * Tipos de eventos emitidos pelo sistema de caixas
+ */
+export enum PickupEventType {
+  CRATE_SPAWNED = 'crateSpawned',
+  CRATE_COLLECTED = 'crateCollected'
+}
+
+/**
+ * Dados do evento de coleta de uma caixa
+ */
+export interface CrateCollectedData {
+  crate: ICrate;
+  vehicle: Vehicle;
+  cause: 'vehicle' | 'projectile'; // Contato do veículo ou explosão de um disparo seu
+  granted: boolean;                // Falso se o item não coube na bolsa
+}
+
+/**
+ * Regras das caixas do mapa
+ */
+export interface IPickupRules {
+  spawnInterval: number;   // Turnos entre o surgimento de caixas
+  maxCrates: number;       // Caixas no mapa ao mesmo tempo
+  collectRadius: number;   // Distância entre o veículo e a caixa para a coleta por contato
+  minDistance: number;     // Distância horizontal mínima da nova caixa até veículos e outras caixas
+  repairAmount: number;    // Vida recuperada pelo bônus de reparo
+  specialCharge: number;   // Carga do especial concedida pelo bônus de carga
+  contents: ICrateContent[]; // Conteúdos sorteados
+}
+
+/**
+ * Regras padrão: uma caixa a cada três turnos, com no máximo duas no mapa
+ */
+export const DEFAULT_PICKUP_RULES: IPickupRules = {
+  spawnInterval: 3,
+  maxCrates: 2,
+  collectRadius: 30,
+  minDistance: 60,
+  repairAmount: 20,
+  specialCharge: 50,
+  contents: [
+    { item: ItemType.DUAL_SHOT },
+    { item: ItemType.TELEPORT },
+    { item: ItemType.HEAL },
+    { item: ItemType.POWER_UP },
+    { buff: PickupBuff.REPAIR },
+    { buff: PickupBuff.SPECIAL_CHARGE }
+  ]
+};
+
+/**
+ * Tamanho do lado da caixa, em pixels
+ */
+const CRATE_SIZE = 16;
+
+/**
+ * Sistema de caixas do mapa
+ * Faz surgir caixas em pontos seguros do terreno a cada alguns turnos; veículos as coletam
+ * ao passar por elas ou ao atingi-las com a explosão de um disparo
+ */
+export class PickupSystem extends EventEmitter {
+  private container: PIXI.Container;
+  private terrain: Terrain;
+  private vehicleManager: VehicleManager;
+  private items: ItemSystem;
+  private rules: IPickupRules;
+  private random: () => number;
+  private utility: TerrainUtility = new TerrainUtility();
+  private crates: ICrate[] = [];
+  private turnsSinceSpawn: number = 0;
+  private nextId: number = 1;
+  private turnSystem: TurnSystem | null = null;
+  private projectileManager: ProjectileManager | null = null;
+
+  /**
+   * Cria um novo sistema de caixas
+   * @param container Container onde as caixas são desenhadas
+   * @param terrain Terreno onde as caixas se apoiam
+   * @param vehicleManager Gerenciador de veículos, para a coleta por contato
+   * @param items Sistema de itens que recebe os itens coletados
+   * @param rules Regras das caixas (campos omitidos usam o padrão)
+   * @param random Gerador de números aleatórios entre 0 e 1 (padrão: Math.random)
+   */
+  constructor(
+    container: PIXI.Container,
+    terrain: Terrain,
+    vehicleManager: VehicleManager,
+    items: ItemSystem,
+    rules: Partial<IPickupRules> = {},
+    random: () => number = Math.random
+  ) {
+    super();
+    this.container = container;
+    this.terrain = terrain;
+    this.vehicleManager = vehicleManager;
+    this.items = items;
+    this.rules = { ...DEFAULT_PICKUP_RULES, ...rules };
+    this.random = random;
+  }
+
+  /**
+   * Conecta as caixas aos turnos e às explosões da partida
+   * @param turnSystem Sistema de turnos (as caixas surgem no início dos turnos)
+   * @param projectileManager Gerenciador de projéteis (as explosões coletam caixas)
+   */
+  attach(turnSystem: TurnSystem, projectileManager: ProjectileManager): void {
+    this.detach();
+
+    this.turnSystem = turnSystem;
+    this.projectileManager = projectileManager;
+    turnSystem.on(TurnEventType.TURN_STARTED, this.nextTurn, this);
+    projectileManager.on(ProjectileEventType.PROJECTILE_IMPACT, this.handleImpact, this);
+  }
+
+  /**
+   * Desconecta as caixas dos turnos e das explosões
+   */
+  detach(): void {
+    this.turnSystem?.off(TurnEventType.TURN_STARTED, this.nextTurn, this);
+    this.projectileManager?.off(ProjectileEventType.PROJECTILE_IMPACT, this.handleImpact, this);
+    this.turnSystem = null;
+    this.projectileManager = null;
+  }
+
+  /**
+   * Explosões coletam as caixas no seu alcance para quem disparou
+   * @param impact Dados do impacto
+   */
+  private handleImpact(impact: ProjectileImpactData): void {
+    this.collectInBlast(impact.x, impact.y, impact.profile.splashRadius, impact.sourceId);
+  }
+
+  /**
+   * Conta um novo turno e faz surgir uma caixa quando o intervalo termina
+   * @returns A caixa criada, se houver
+   */
+  nextTurn(): ICrate | null {
+    this.turnsSinceSpawn++;
+    if (this.turnsSinceSpawn < this.rules.spawnInterval) {
+      return null;
+    }
+
+    this.turnsSinceSpawn = 0;
+    return this.spawnCrate();
+  }
+
+  /**
+   * Faz surgir uma caixa em um ponto seguro do terreno, longe dos veículos e das outras caixas
+   * @returns A caixa criada ou null se o mapa estiver cheio ou sem ponto seguro
+   */
+  spawnCrate(): ICrate | null {
+    if (this.crates.length >= this.rules.maxCrates || this.rules.contents.length === 0) {
+      return null;
+    }
+
+    const liquid = this.terrain.getLiquid();
+    this.utility.initialize({
+      heightMap: this.terrain.getHeightMap(),
+      width: this.terrain.getWidth(),
+      height: this.terrain.getHeight(),
+      liquid: liquid ? liquid.getLayer() : undefined
+    });
+
+    const avoid = [
+      ...this.vehicleManager.getAllVehicles().map(vehicle => vehicle.position),
+      ...this.crates
+    ];
+    const position = this.utility.findRandomSafePosition(this.random, avoid, this.rules.minDistance);
+    if (!position) {
+      return null;
+    }
+
+    const content = this.rules.contents[Math.min(
+      this.rules.contents.length - 1,
+      Math.floor(this.random() * this.rules.contents.length)
+    )];
+
+    const crate: ICrate = {
+      id: `crate_${this.nextId++}`,
+      x: position.x,
+      y: position.y - CRATE_SIZE / 2,
+      content,
+      graphics: this.createGraphics()
+    };
+    crate.graphics.position.set(crate.x, crate.y);
+    this.container.addChild(crate.graphics);
+    this.crates.push(crate);
+
+    this.emit(PickupEventType.CRATE_SPAWNED, crate);
+    EventCoordinator.getInstance().emit(
+      GameEventType.ITEM_SPAWNED,
+      EventPayloadFactory.createItemPayload(this.getContentType(content), -1, undefined, { x: crate.x, y: crate.y }, crate.id)
+    );
+
+    return crate;
+  }
+
+  /**
+   * Atualiza as caixas a cada passo: acompanham a superfície do terreno e são coletadas pelos veículos que as tocam
+   */
+  update(): void {
+    for (const crate of [...this.crates]) {
+      // Sem chão abaixo (ex: cratera até o fundo do mapa), a caixa se perde
+      const surfaceY = this.terrain.getHeightAt(crate.x);
+      if (surfaceY >= this.terrain.getHeight()) {
+        this.removeCrate(crate);
+        continue;
+      }
+
+      crate.y = surfaceY - CRATE_SIZE / 2;
+      crate.graphics.position.set(crate.x, crate.y);
+
+      const vehicle = this.vehicleManager.getAllVehicles().find(v =>
+        !v.isDestroyed() && Math.hypot(v.position.x - crate.x, v.position.y - crate.y) < this.rules.collectRadius
+      );
+      if (vehicle) {
+        this.collect(crate, vehicle, 'vehicle');
+      }
+    }
+  }
+
+  /**
+   * Coleta as caixas atingidas por uma explosão em nome do veículo que disparou
+   * @param x Centro X da explosão
+   * @param y Centro Y da explosão
+   * @param radius Alcance da explosão
+   * @param sourceId Veículo que disparou
+   * @returns Caixas coletadas
+   */
+  collectInBlast(x: number, y: number, radius: number, sourceId?: number): ICrate[] {
+    const vehicle = sourceId !== undefined ? this.vehicleManager.getVehicleById(sourceId) : undefined;
+    if (!vehicle) {
+      return [];
+    }
+
+    const hit = this.crates.filter(crate => Math.hypot(crate.x - x, crate.y - y) <= radius + CRATE_SIZE / 2);
+    hit.forEach(crate => this.collect(crate, vehicle, 'projectile'));
+
+    return hit;
+  }
+
+  /**
+   * Entrega o conteúdo de uma caixa ao veículo e a retira do mapa
+   * @param crate Caixa coletada
+   * @param vehicle Veículo que a coletou
+   * @param cause Forma da coleta
+   */
+  private collect(crate: ICrate, vehicle: Vehicle, cause: CrateCollectedData['cause']): void {
+    let granted = true;
+
+    if (crate.content.item) {
+      granted = this.items.giveItem(vehicle.playerId, crate.content.item);
+    } else if (crate.content.buff === PickupBuff.REPAIR) {
+      vehicle.heal(this.rules.repairAmount);
+    } else if (crate.content.buff === PickupBuff.SPECIAL_CHARGE) {
+      vehicle.chargeSpecialAbility(this.rules.specialCharge);
+    }
+
+    this.removeCrate(crate);
+
+    const data: CrateCollectedData = { crate, vehicle, cause, granted };
+    this.emit(PickupEventType.CRATE_COLLECTED, data);
+    EventCoordinator.getInstance().emit(
+      GameEventType.ITEM_COLLECTED,
+      EventPayloadFactory.createItemPayload(
+        this.getContentType(crate.content),
+        vehicle.playerId,
+        vehicle.id,
+        { x: crate.x, y: crate.y },
+        crate.id
+      )
+    );
+  }
+
+  /**
+   * Obtém as caixas no mapa
+   */
+  getCrates(): ICrate[] {
+    return [...this.crates];
+  }
+
+  /**
+   * Remove todas as caixas e reinicia a contagem de turnos (ex: reinício da partida)
+   */
+  clear(): void {
+    [...this.crates].forEach(crate => this.removeCrate(crate));
+    this.turnsSinceSpawn = 0;
+  }
+
+  /**
+   * Libera os recursos do sistema de caixas
+   */
+  dispose(): void {
+    this.detach();
+    this.clear();
+    this.removeAllListeners();
+  }
+
+  /**
+   * Retira uma caixa do mapa
+   * @param crate Caixa a retirar
+   */
+  private removeCrate(crate: ICrate): void {
+    this.crates = this.crates.filter(c => c !== crate);
+    this.container.removeChild(crate.graphics);
+    crate.graphics.destroy();
+  }
+
+  /**
+   * Obtém o tipo informado nos eventos para o conteúdo de uma caixa
+   * @param content Conteúdo da caixa
+   */
+  private getContentType(content: ICrateContent): string {
+    return content.item ?? content.buff;
+  }
+
+  /**
+   * Desenha uma caixa
+   */
+  private createGraphics(): PIXI.Graphics {
+    const graphics = new PIXI.Graphics();
+    graphics.beginFill(0xC68642);
+    graphics.lineStyle(2, 0x6B4226);
+    graphics.drawRect(-CRATE_SIZE / 2, -CRATE_SIZE / 2, CRATE_SIZE, CRATE_SIZE);
+    graphics.endFill();
+    return graphics;
+  }
+}
@@ -8,11 +8,22 @@ import { ProjectileFactory, ProjectileOptions, ProjectileType } from '../entitie
 import { WeaponType } from '../entities/vehicles/types';
 import { FragProjectile } from '../entities/frag-projectile';
 import { GuidedProjectile } from '../entities/guided-projectile';
+import { DirtProjectile } from '../entities/dirt-projectile';
+import { LaserProjectile } from '../entities/laser-projectile';
+import { BallisticIntegrator } from './physics/ballistic-integrator';
+import { SweptCollisionDetector, ISweepHit } from './physics/swept-collision';
+import { BeamTracer, IBeamTarget, IBeamHit } from './physics/beam-tracer';
+import { IWeaponDamageProfile } from './damage-resolver';
+import { CONFIG } from '../core/config';
+import { ProjectileContactResolver, IProjectileBehavior, ProjectileImpactMode } from '../entities/projectile-behavior';
 
 export enum ProjectileEventType {
   PROJECTILE_CREATED = 'projectileCreated',
   PROJECTILE_DESTROYED = 'projectileDestroyed',
   PROJECTILE_IMPACT = 'projectileImpact',
+  PROJECTILE_SPLASH = 'projectileSplash',
+  PROJECTILE_BOUNCED = 'projectileBounced',
+  PROJECTILE_BEAM = 'projectileBeam',
   FRAGMENT_CREATED = 'fragmentCreated'
 }
 
@@ -25,7 +36,7 @@ export interface ProjectileData {
   y: number;
   angle: number;
   power: number;
-  damage: number;
+  damage?: number;                          // Padrão: dano da arma no registro de armas
   sourceId?: number;
   playerId?: number;
   explosionRadius?: number;
@@ -36,8 +47,81 @@ export interface ProjectileData {
   targetX?: number;
   targetY?: number;
   guidanceStrength?: number;
+  fillRadius?: number;
+  knockback?: number;
+  behavior?: Partial<IProjectileBehavior>; // Quique, rolagem e pavio (padrão: explode no primeiro contato)
 }
 
+/**
+ * Dados do evento de impacto de um projétil no terreno ou em um veículo
+ */
+export interface ProjectileImpactData {
+  projectile: Projectile;
+  x: number;
+  y: number;
+  time: number;                  // Fração do passo em que ocorreu o contato
+  type: 'terrain' | 'vehicle' | 'fuse'; // Contato com o terreno, com um veículo ou fim do pavio
+  profile: IWeaponDamageProfile; // Dano da arma que disparou
+  sourceId?: number;             // Veículo que disparou
+  playerId?: number;             // Jogador que disparou
+  directHitTargetId?: number;    // Veículo atingido em cheio, se houver
+}
+
+/**
+ * Dados do evento de quique de um projétil no terreno
+ */
+export interface ProjectileBounceData {
+  projectile: Projectile;
+  x: number;
+  y: number;
+  normal: { x: number, y: number }; // Normal da superfície no ponto de contato
+  bounces: number;                  // Quiques realizados até agora
+}
+
+/**
+ * Dados do evento de disparo de um feixe instantâneo (ex: laser)
+ */
+export interface ProjectileBeamData {
+  projectile: Projectile;
+  start: { x: number, y: number };
+  end: { x: number, y: number };             // Fim da penetração ou do alcance
+  contact: { x: number, y: number } | null;  // Primeiro contato com o terreno ou com um veículo
+  hits: IBeamHit[];                          // Alvos atravessados, do mais próximo ao mais distante
+  profile: IWeaponDamageProfile;             // Dano da arma que disparou
+  sourceId?: number;                         // Veículo que disparou
+  playerId?: number;                         // Jogador que disparou
+}
+
+/**
+ * Raio usado na colisão dos projéteis com o terreno
+ */
+const PROJECTILE_COLLISION_RADIUS = 5;
+
+/**
+ * Distância máxima que um projétil desviado é empurrado para fora do terreno
+ */
+const MAX_PUSH_OUT = 10;
+
+/**
+ * Raio da hitbox dos alvos que não informam o seu
+ */
+const TARGET_HIT_RADIUS = 20;
+
+/**
+ * Potência com que os fragmentos são lançados da explosão
+ */
+const FRAGMENT_POWER = 30;
+
+/**
+ * Raio do dano em área de cada fragmento
+ */
+const FRAGMENT_SPLASH_RADIUS = 10;
+
+/**
+ * Raio da cratera aberta por cada fragmento
+ */
+const FRAGMENT_DIG_RADIUS = 8;
+
 /**
  * Classe responsável por gerenciar os projéteis do jogo
  */
@@ -49,6 +133,11 @@ export class ProjectileManager extends EventEmitter {
   private screenWidth: number;
   private screenHeight: number;
   private projectileFactory: ProjectileFactory;
+  private integrator: BallisticIntegrator = new BallisticIntegrator();
+  private sweptDetector: SweptCollisionDetector = new SweptCollisionDetector();
+  private contactResolver: ProjectileContactResolver = new ProjectileContactResolver();
+  private beamTracer: BeamTracer = new BeamTracer();
+  private targets: () => IBeamTarget[] = () => [];
 
   /**
    * Cria uma nova instância do gerenciador de projéteis
@@ -72,22 +161,6 @@ export class ProjectileManager extends EventEmitter {
     this.screenWidth = screenWidth;
     this.screenHeight = screenHeight;
     this.projectileFactory = ProjectileFactory.getInstance();
-    
-    // Configura os ouvintes de eventos para projéteis especiais
-    this.setupEventListeners();
-  }
-  
-  /**
-   * Configura os ouvintes de eventos
-   */
-  private setupEventListeners(): void {
-    // Ouvinte para eventos de fragmentos criados
-    this.on(ProjectileEventType.FRAGMENT_CREATED, (data) => {
-      if (data && data.fragments) {
-        // Aqui poderíamos processar os fragmentos criados
-        console.log(`${data.fragments.length} fragmentos criados na posição (${data.x}, ${data.y})`);
-      }
-    });
   }
 
   /**
@@ -113,11 +186,26 @@ export class ProjectileManager extends EventEmitter {
         fragmentSpread: data.fragmentSpread,
         targetX: data.targetX,
         targetY: data.targetY,
-        guidanceStrength: data.guidanceStrength
+        guidanceStrength: data.guidanceStrength,
+        fillRadius: data.fillRadius
       };
       
       const projectile = this.projectileFactory.createProjectile(options);
       
+      // Guarda quem disparou; o dano vem da arma, com os valores informados no disparo por cima
+      projectile.setOwner(data.sourceId, data.playerId);
+      const profile = projectile.getDamageProfile();
+      projectile.setDamageProfile({
+        ...profile,
+        baseDamage: data.damage ?? profile.baseDamage,
+        splashRadius: data.explosionRadius ?? profile.splashRadius,
+        knockback: data.knockback ?? profile.knockback
+      });
+      
+      if (data.behavior) {
+        projectile.setBehavior({ ...projectile.getBehavior(), ...data.behavior });
+      }
+      
       // Adiciona o projétil à lista
       this.addProjectile(projectile);
       
@@ -133,6 +221,11 @@ export class ProjectileManager extends EventEmitter {
    * @param projectile Projétil a ser adicionado
    */
   addProjectile(projectile: Projectile): void {
+    // Projéteis criados fora do gerenciador (ex: armas dos veículos) ainda não foram disparados
+    if (!projectile.isActive()) {
+      projectile.fire();
+    }
+    
     this.projectiles.push(projectile);
     
     // Configura ouvintes para eventos específicos do projétil
@@ -146,22 +239,6 @@ export class ProjectileManager extends EventEmitter {
    * @param projectile Projétil a ser configurado
    */
   private setupProjectileEventListeners(projectile: Projectile): void {
-    // Para projéteis de fragmentação, adiciona ouvinte para evento de fragmentos
-    if (projectile instanceof FragProjectile) {
-      // Se pudéssemos acessar eventos diretamente do projétil, faríamos algo como:
-      /*
-      projectile.on('fragment:created', (data) => {
-        this.emit(ProjectileEventType.FRAGMENT_CREATED, {
-          x: data.position.x,
-          y: data.position.y,
-          fragments: data.fragments,
-          count: data.count,
-          damage: data.damage
-        });
-      });
-      */
-    }
-    
     // Para projéteis guiados, adiciona lógica de acompanhamento
     if (projectile instanceof GuidedProjectile) {
       // Se tivéssemos acesso para configurar o alvo, faríamos algo como:
@@ -176,6 +253,14 @@ export class ProjectileManager extends EventEmitter {
     }
   }
 
+  /**
+   * Define de onde vêm os alvos que os projéteis podem atingir e os feixes podem atravessar
+   * @param provider Obtém os alvos atuais (ex: veículos em jogo)
+   */
+  setTargets(provider: () => IBeamTarget[]): void {
+    this.targets = provider;
+  }
+
   /**
    * Remove um projétil do gerenciador
    * @param projectile Projétil a ser removido
@@ -189,47 +274,66 @@ export class ProjectileManager extends EventEmitter {
   }
 
   /**
-   * Atualiza todos os projéteis
-   * @param delta Delta time
+   * Avança todos os projéteis em um passo fixo da simulação
+   * @param delta Duração do passo fixo
    */
   update(delta: number): void {
     for (let i = this.projectiles.length - 1; i >= 0; i--) {
       const projectile = this.projectiles[i];
+      
+      // Lasers não voam: o feixe inteiro é resolvido no passo em que foram disparados
+      if (projectile instanceof LaserProjectile) {
+        this.fireBeam(projectile);
+        continue;
+      }
+      
       projectile.update(delta);
       
-      // Verifica se o projétil está ativo
-      if (!projectile.isActive()) {
-        this.removeProjectile(projectile);
+      // O pavio acabou: explode onde estiver, no ar ou no chão
+      if (projectile.isFuseExpired()) {
+        const { x, y } = projectile.getPosition();
+        this.detonate(projectile, x, y, 1, 'fuse');
         continue;
       }
       
-      // Verifica colisão com o terreno
-      const state = { 
-        x: (projectile as any).x || 0, 
-        y: (projectile as any).y || 0 
-      };
+      // Varre o segmento percorrido no passo: projéteis rápidos não atravessam terreno fino
+      const from = projectile.getPreviousPosition();
+      const to = projectile.getPosition();
+      const terrainHit = this.sweptDetector.sweepSolid(from, to, (x, y) => this.isTerrainAt(x, y));
+      const liquidHit = this.sweptDetector.sweepSolid(from, to, (x, y) => this.terrain.isInLiquid(x, y));
+      const targetHit = this.sweepTargets(from, to);
+      const terrainTime = terrainHit ? terrainHit.time : Infinity;
+      const liquidTime = liquidHit ? liquidHit.time : Infinity;
       
-      if (this.terrain.checkCollision(state.x, state.y, 5)) {
-        // Destrói parte do terreno
-        this.terrain.destroyAt(state.x, state.y, 30);
-        
-        // Emite evento de impacto
-        this.emit(ProjectileEventType.PROJECTILE_IMPACT, {
+      // Acerto direto: o veículo foi o primeiro contato do passo
+      if (targetHit && targetHit.time <= terrainTime && targetHit.time <= liquidTime) {
+        this.detonate(projectile, targetHit.point.x, targetHit.point.y, targetHit.time, 'vehicle', targetHit.target.id);
+      }
+      // Projéteis que caem no líquido respingam e param, sem deformar o terreno
+      else if (liquidHit && liquidTime < terrainTime) {
+        this.emit(ProjectileEventType.PROJECTILE_SPLASH, {
           projectile,
-          x: state.x,
-          y: state.y,
-          type: 'terrain'
+          x: liquidHit.point.x,
+          y: liquidHit.point.y,
+          time: liquidHit.time,
+          liquid: this.terrain.getLiquid().getType()
         });
         
-        // Remove o projétil (ele se auto-destrói ao colidir)
         this.removeProjectile(projectile);
       }
-      // Verifica se o projétil saiu da tela
+      else if (terrainHit) {
+        // Projéteis que quicam ou rolam seguem em movimento; os demais explodem no primeiro contato
+        if (!this.deflect(projectile, terrainHit, delta)) {
+          this.detonate(projectile, terrainHit.point.x, terrainHit.point.y, terrainHit.time, 'terrain');
+        }
+      }
+      // Verifica se o projétil saiu da tela ou deixou de estar ativo
       else if (
-        state.x < 0 ||
-        state.x > this.screenWidth ||
-        state.y < 0 ||
-        state.y > this.screenHeight
+        !projectile.isActive() ||
+        to.x < 0 ||
+        to.x > this.screenWidth ||
+        to.y < 0 ||
+        to.y > this.screenHeight
       ) {
         // Remove o projétil
         this.removeProjectile(projectile);
@@ -238,52 +342,269 @@ export class ProjectileManager extends EventEmitter {
   }
 
   /**
-   * Cria uma trajetória de projétil para visualização
+   * Explode um projétil, deformando o terreno e emitindo o impacto
+   * @param projectile Projétil que explodiu
+   * @param x Posição X da explosão
+   * @param y Posição Y da explosão
+   * @param time Fração do passo em que ocorreu a explosão
+   * @param type Causa da explosão
+   * @param directHitTargetId Veículo atingido em cheio, se houver
+   * @private
+   */
+  private detonate(
+    projectile: Projectile,
+    x: number,
+    y: number,
+    time: number,
+    type: ProjectileImpactData['type'],
+    directHitTargetId?: number
+  ): void {
+    // Projéteis de terra adicionam material; os demais abrem a cratera da arma
+    if (projectile instanceof DirtProjectile) {
+      this.terrain.fillAt(x, y, projectile.getFillRadius());
+    } else if (projectile.getDigRadius() > 0) {
+      this.terrain.destroyAt(x, y, projectile.getDigRadius());
+    }
+    
+    // Emite evento de impacto no ponto da explosão
+    const impact: ProjectileImpactData = {
+      projectile,
+      x,
+      y,
+      time,
+      type,
+      profile: projectile.getDamageProfile(),
+      ...projectile.getOwner(),
+      directHitTargetId
+    };
+    this.emit(ProjectileEventType.PROJECTILE_IMPACT, impact);
+    
+    // Bombas de fragmentação lançam os fragmentos a partir do ponto da explosão
+    if (projectile instanceof FragProjectile) {
+      this.launchFragments(projectile, x, y);
+    }
+    
+    // Remove o projétil (ele se auto-destrói ao colidir)
+    this.removeProjectile(projectile);
+  }
+
+  /**
+   * Lança os fragmentos de uma bomba de fragmentação como projéteis comuns
+   * Cada fragmento herda quem disparou a bomba e explode sozinho, com o dano de fragmento da arma
+   * @param projectile Bomba que explodiu
+   * @param x Posição X da explosão
+   * @param y Posição Y da explosão
+   * @private
+   */
+  private launchFragments(projectile: FragProjectile, x: number, y: number): void {
+    const owner = projectile.getOwner();
+    const profile: IWeaponDamageProfile = {
+      ...projectile.getDamageProfile(),
+      baseDamage: projectile.getFragmentDamage(),
+      splashRadius: FRAGMENT_SPLASH_RADIUS
+    };
+    
+    const fragments = projectile.getFragmentAngles().map(angle => {
+      const fragment = new Projectile(this.projectileContainer, x, y, angle, FRAGMENT_POWER, this.physicsSystem);
+      fragment.setOwner(owner.sourceId, owner.playerId);
+      fragment.setDamageProfile(profile);
+      fragment.setDigRadius(FRAGMENT_DIG_RADIUS);
+      this.addProjectile(fragment);
+      
+      return fragment;
+    });
+    
+    this.emit(ProjectileEventType.FRAGMENT_CREATED, { x, y, fragments });
+  }
+
+  /**
+   * Traça o feixe de um laser contra o terreno e os alvos, abre o sulco e emite o disparo
+   * @param projectile Laser disparado
+   * @private
+   */
+  private fireBeam(projectile: LaserProjectile): void {
+    const owner = projectile.getOwner();
+    const trace = this.beamTracer.trace(
+      projectile.getPosition(),
+      projectile.getDirection(),
+      {
+        range: Math.hypot(this.screenWidth, this.screenHeight),
+        penetration: projectile.getPenetration(),
+        trenchRadius: projectile.getDigRadius(),
+        ignoreId: owner.sourceId
+      },
+      (x, y) => this.isTerrainAt(x, y),
+      this.targets()
+    );
+    
+    // O sulco inteiro é uma única deformação do terreno
+    this.terrain.destroyAlong(trace.trench, projectile.getDigRadius());
+    
+    const beam: ProjectileBeamData = {
+      projectile,
+      start: trace.start,
+      end: trace.end,
+      contact: trace.contact,
+      hits: trace.hits,
+      profile: projectile.getDamageProfile(),
+      ...owner
+    };
+    this.emit(ProjectileEventType.PROJECTILE_BEAM, beam);
+    
+    this.removeProjectile(projectile);
+  }
+
+  /**
+   * Desvia um projétil que quica ou rola ao tocar o terreno, usando a normal da superfície
+   * @param projectile Projétil que tocou o terreno
+   * @param hit Primeiro contato no passo
+   * @param delta Duração do passo fixo
+   * @returns Falso se o projétil deve explodir
+   * @private
+   */
+  private deflect(projectile: Projectile, hit: ISweepHit, delta: number): boolean {
+    const behavior = projectile.getBehavior();
+    if (behavior.impactMode === ProjectileImpactMode.EXPLODE) {
+      return false;
+    }
+    
+    const contact = this.terrain.getCollisionInfo(hit.point.x, hit.point.y, PROJECTILE_COLLISION_RADIUS);
+    const normal = contact.normal ?? { x: 0, y: -1 };
+    const result = this.contactResolver.resolve(
+      projectile.getVelocity(),
+      normal,
+      behavior,
+      projectile.getBounceCount(),
+      this.physicsSystem.getRules().bounceRestitution
+    );
+    
+    if (result.explode) {
+      return false;
+    }
+    
+    // Empurra o projétil para fora do terreno ao longo da normal
+    const free = { x: hit.point.x, y: hit.point.y };
+    for (let push = 0; push < MAX_PUSH_OUT && this.isTerrainAt(free.x, free.y); push += 0.5) {
+      free.x += normal.x * 0.5;
+      free.y += normal.y * 0.5;
+    }
+    
+    if (result.stop) {
+      projectile.rest(free.x, free.y);
+    } else {
+      // Percorre o resto do passo com a nova velocidade, se o caminho estiver livre
+      const remaining = (1 - hit.time) * delta;
+      const next = { x: free.x + result.velocity.x * remaining, y: free.y + result.velocity.y * remaining };
+      const position = this.isTerrainAt(next.x, next.y) ? free : next;
+      
+      projectile.deflect(position.x, position.y, result.velocity, result.bounced);
+    }
+    
+    if (result.bounced) {
+      const bounce: ProjectileBounceData = {
+        projectile,
+        x: hit.point.x,
+        y: hit.point.y,
+        normal,
+        bounces: projectile.getBounceCount()
+      };
+      this.emit(ProjectileEventType.PROJECTILE_BOUNCED, bounce);
+    }
+    
+    return true;
+  }
+
+  /**
+   * Varre o segmento percorrido no passo contra as hitboxes dos alvos vivos
+   * Alvos cuja hitbox já contém o início do segmento são ignorados: é o veículo que acabou de disparar
+   * @returns Primeiro alvo atingido ou null
+   * @private
+   */
+  private sweepTargets(from: { x: number, y: number }, to: { x: number, y: number }): (ISweepHit & { target: IBeamTarget }) | null {
+    let first: (ISweepHit & { target: IBeamTarget }) | null = null;
+    
+    for (const target of this.targets()) {
+      if (target.health <= 0) continue;
+      
+      const radius = (target.hitRadius ?? TARGET_HIT_RADIUS) + PROJECTILE_COLLISION_RADIUS;
+      const hit = this.sweptDetector.sweepCircle(from, to, target.position, radius);
+      
+      if (hit && hit.time > 0 && (!first || hit.time < first.time)) {
+        first = { ...hit, target };
+      }
+    }
+    
+    return first;
+  }
+
+  /**
+   * Verifica se o corpo de um projétil nesta posição toca o terreno
+   * @private
+   */
+  private isTerrainAt(x: number, y: number): boolean {
+    return this.terrain.checkCollision(x, y, PROJECTILE_COLLISION_RADIUS);
+  }
+
+  /**
+   * Desenha os projéteis interpolando entre os dois últimos passos da simulação
+   * @param alpha Fração de interpolação (0 a 1)
+   */
+  render(alpha: number = 1): void {
+    for (const projectile of this.projectiles) {
+      projectile.render(alpha);
+    }
+  }
+
+  /**
+   * Calcula a trajetória que um disparo vai percorrer, para a prévia da mira
+   * Usa o mesmo integrador, passo fixo, gravidade e vento dos projéteis em voo
    * @param startX Posição inicial X
    * @param startY Posição inicial Y
-   * @param velocityX Velocidade inicial X
-   * @param velocityY Velocidade inicial Y
+   * @param angle Ângulo do disparo em graus
+   * @param power Potência do disparo
    * @param radius Raio do projétil para verificação de colisão
-   * @param windForce Força do vento que afeta a trajetória
-   * @param steps Número de passos na trajetória
-   * @returns Array com pontos da trajetória
+   * @param maxSteps Número máximo de passos simulados
+   * @returns Array com pontos da trajetória, do ponto inicial até o impacto
    */
   calculateTrajectory(
     startX: number,
     startY: number,
-    velocityX: number,
-    velocityY: number,
+    angle: number,
+    power: number,
     radius: number = 2,
-    windForce: number = 0,
-    steps: number = 60
+    maxSteps: number = 300
   ): { x: number, y: number }[] {
-    // Simula uma trajetória simples com base na física
-    const trajectory: { x: number, y: number }[] = [];
-    let x = startX;
-    let y = startY;
-    let vx = velocityX;
-    let vy = velocityY;
-    const gravity = 0.098; // Valor aproximado para simulação
-    const deltaTime = 0.16; // 60fps aproximadamente
+    const velocity = this.integrator.getLaunchVelocity(angle, power);
+    const isSolid = (x: number, y: number): boolean =>
+      this.terrain.checkCollision(x, y, radius) || this.terrain.isInLiquid(x, y);
     
-    for (let i = 0; i < steps; i++) {
-      // Aplica a gravidade
-      vy += gravity;
-      
-      // Aplica o vento
-      vx += windForce * deltaTime;
-      
-      // Atualiza a posição
-      x += vx * deltaTime;
-      y += vy * deltaTime;
-      
-      // Adiciona o ponto à trajetória
-      trajectory.push({ x, y });
-      
-      // Verifica colisão com o terreno
-      if (this.terrain.checkCollision(x, y, radius)) {
-        break;
+    let last = { x: startX, y: startY };
+    let contact: { x: number, y: number } | null = null;
+    
+    const trajectory = this.integrator.simulate(
+      { x: startX, y: startY, vx: velocity.x, vy: velocity.y },
+      this.physicsSystem.getEnvironment(),
+      {
+        stepSize: CONFIG.PHYSICS.FIXED_STEP,
+        maxSteps,
+        // Varre cada passo como o projétil real e para no terreno, no líquido ou fora da área de jogo
+        shouldStop: (x, y) => {
+          const hit = this.sweptDetector.sweepSolid(last, { x, y }, isSolid);
+          last = { x, y };
+          
+          if (hit) {
+            contact = hit.point;
+            return true;
+          }
+          
+          return x < 0 || x > this.screenWidth || y < 0 || y > this.screenHeight;
+        }
       }
+    );
+    
+    // O último ponto passa a ser o contato exato, não o fim do passo
+    if (contact) {
+      trajectory[trajectory.length - 1] = contact;
     }
     
     return trajectory;
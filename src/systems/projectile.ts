@@ -1,6 +1,6 @@
 import * as PIXI from 'pixi.js';
 import { PhysicsObject } from './physics';
-import { CONFIG } from '../core/config';
+import { PhysicsRules } from './physics/physics-rules';
 
 /**
  * Classe que representa um projétil no jogo
@@ -25,6 +25,7 @@ export class Projectile implements PhysicsObject {
   private isDead: boolean = false;
   private lifetime: number = 0;
   private maxLifetime: number = 10; // Segundos máximos na tela
+  private rules: PhysicsRules = new PhysicsRules();
   
   /**
    * Cria um novo projétil
@@ -59,6 +60,14 @@ export class Projectile implements PhysicsObject {
     this.updateGraphics();
   }
   
+  /**
+   * Define as regras físicas usadas no voo e na previsão da trajetória
+   * @param rules Regras da partida
+   */
+  setRules(rules: PhysicsRules): void {
+    this.rules = rules;
+  }
+
   /**
    * Atualiza o estado do projétil
    * @param deltaTime Tempo desde o último frame em segundos
@@ -72,7 +81,7 @@ export class Projectile implements PhysicsObject {
     }
     
     // Aplica a gravidade
-    this.velocityY += CONFIG.PHYSICS.GRAVITY * deltaTime;
+    this.velocityY += this.rules.gravity * deltaTime;
     
     // Atualiza a posição
     this.x += this.velocityX * deltaTime;
@@ -170,7 +179,7 @@ export class Projectile implements PhysicsObject {
     // Calcula cada ponto na trajetória
     for (let i = 0; i < steps; i++) {
       // Aplica a gravidade
-      vy += CONFIG.PHYSICS.GRAVITY * deltaTime;
+      vy += this.rules.gravity * deltaTime;
       
       // Atualiza a posição
       x += vx * deltaTime;
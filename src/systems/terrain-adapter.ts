@@ -3,8 +3,20 @@ import {
   TerrainManager,
   ITerrainConfig,
   ITerrainPosition,
-  ITerrainCollisionResult
+  ITerrainCollisionResult,
+  ITerrainDeformation,
+  CollapseMode,
+  ITerrainMapFile,
+  ITerrainMapMetadata,
+  ITerrainMapSpawn,
+  IWindPreset,
+  IImageTerrainOptions,
+  ISpawnOptions,
+  ISpawnPosition,
+  ILiquidLayer,
+  TerrainLiquid
 } from './terrain/index';
+import { Seed } from '../utils/random';
 
 /**
  * Adaptador do sistema de terreno
@@ -41,9 +53,19 @@ export class TerrainSystem {
   
   /**
    * Gera um novo terreno
+   * @param seed Semente opcional para reproduzir um mapa
+   * @returns Semente usada na geração
    */
-  generate(): void {
-    this.manager.generate();
+  generate(seed?: Seed): number {
+    return this.manager.generate(seed);
+  }
+  
+  /**
+   * Obtém a semente do terreno atual
+   * @returns Semente usada na geração ou null se não houver terreno
+   */
+  getSeed(): number | null {
+    return this.manager.getSeed();
   }
   
   /**
@@ -65,6 +87,49 @@ export class TerrainSystem {
     return result.collision;
   }
   
+  /**
+   * Verifica se um ponto está dentro do terreno sólido
+   * @param x Coordenada X
+   * @param y Coordenada Y
+   * @returns Verdadeiro se o ponto é sólido
+   */
+  isSolidAt(x: number, y: number): boolean {
+    return this.manager.isSolidAt(x, y);
+  }
+  
+  /**
+   * Define a camada de líquido do mapa
+   * @param layer Camada de líquido ou null para remover
+   */
+  setLiquid(layer: ILiquidLayer | null): void {
+    this.manager.setLiquid(layer);
+  }
+  
+  /**
+   * Obtém as regras da camada de líquido do mapa
+   * @returns Camada de líquido ou null se o mapa não tiver líquido
+   */
+  getLiquid(): TerrainLiquid | null {
+    return this.manager.getLiquid();
+  }
+  
+  /**
+   * Verifica se um ponto está submerso no líquido do mapa
+   * @param x Coordenada X
+   * @param y Coordenada Y
+   */
+  isInLiquid(x: number, y: number): boolean {
+    return this.manager.isInLiquid(x, y);
+  }
+  
+  /**
+   * Define o modo de acomodação do terreno após explosões
+   * @param mode Modo de desmoronamento
+   */
+  setCollapseMode(mode: CollapseMode): void {
+    this.manager.setCollapseMode(mode);
+  }
+  
   /**
    * Destrói uma área do terreno
    * @param x Centro X da explosão
@@ -76,13 +141,33 @@ export class TerrainSystem {
   }
   
   /**
-   * Encontra posições adequadas para colocar objetos no terreno
+   * Adiciona um monte circular de terreno
+   * @param x Centro X do monte
+   * @param y Centro Y do monte
+   * @param radius Raio do monte
+   */
+  fillAt(x: number, y: number, radius: number): void {
+    this.manager.fillAt(x, y, radius);
+  }
+  
+  /**
+   * Deforma o terreno, removendo ou adicionando material
+   * @param deformation Deformação a ser aplicada
+   */
+  deform(deformation: ITerrainDeformation): void {
+    this.manager.deform(deformation);
+  }
+  
+  /**
+   * Encontra posições iniciais justas para os jogadores
    * @param count Número de posições a encontrar
    * @param minDistance Distância mínima entre as posições
-   * @returns Array de posições {x, y}
+   * @param options Equipes, margens e inclinação aceita
+   * @returns Exatamente uma posição por jogador
+   * @throws SpawnPlacementError se o mapa não comportar todos os jogadores
    */
-  findSuitablePositions(count: number, minDistance: number = 100): {x: number, y: number}[] {
-    return this.manager.findSuitablePositions(count, minDistance);
+  findSuitablePositions(count: number, minDistance: number = 100, options: ISpawnOptions = {}): ISpawnPosition[] {
+    return this.manager.findSuitablePositions(count, minDistance, options);
   }
   
   /**
@@ -121,8 +206,50 @@ export class TerrainSystem {
   
   /**
    * Regenera o terreno com uma nova semente aleatória
+   * @returns Semente usada na geração
+   */
+  regenerate(): number {
+    return this.manager.regenerate();
+  }
+  
+  /**
+   * Exporta o terreno atual no formato de arquivo de mapa
+   * @param metadata Informações adicionais do mapa
+   * @returns Conteúdo JSON do mapa
+   */
+  exportMap(metadata?: ITerrainMapMetadata): string {
+    return this.manager.exportMap(metadata);
+  }
+  
+  /**
+   * Carrega um terreno a partir de um arquivo de mapa
+   * @param input Conteúdo JSON ou objeto do mapa
+   */
+  loadMap(input: string | ITerrainMapFile): void {
+    this.manager.loadMap(input);
+  }
+  
+  /**
+   * Carrega um terreno a partir de uma imagem
+   * @param url Endereço da imagem
+   * @param options Opções de conversão
+   * @param useAsTexture Exibe a própria imagem como visual do terreno
+   */
+  loadImage(url: string, options?: IImageTerrainOptions, useAsTexture?: boolean): Promise<void> {
+    return this.manager.loadImage(url, options, useAsTexture);
+  }
+  
+  /**
+   * Obtém os pontos de surgimento definidos no mapa carregado
+   */
+  getSpawnPoints(): ITerrainMapSpawn[] {
+    return this.manager.getSpawnPoints();
+  }
+  
+  /**
+   * Obtém os ventos pré-definidos do mapa carregado
    */
-  regenerate(): void {
-    this.manager.regenerate();
+  getWindPresets(): IWindPreset[] {
+    return this.manager.getWindPresets();
   }
 } 
\ No newline at end of file
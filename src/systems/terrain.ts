@@ -1,6 +1,15 @@
 import * as PIXI from 'pixi.js';
 import { CONFIG } from '../core/config';
-import { createNoise2D } from 'simplex-noise';
+import { TerrainGenerator } from './terrain/terrain-generator';
+import { TerrainCollapse } from './terrain/terrain-collapse';
+import { TerrainPhysics } from './terrain/terrain-physics';
+import { CollapseMode, ITerrainArea, ITerrainConfig, ISpawnOptions, ISpawnPosition, ILiquidLayer, ITerrainCollisionResult } from './terrain/terrain-data';
+import { TerrainLiquid, LIQUID_COLORS } from './terrain/terrain-liquid';
+import { TerrainSpawnPlanner } from './terrain/terrain-spawn-planner';
+import { TerrainTheme, ITerrainThemePreset, applyTerrainTheme, getTerrainTheme } from './terrain/terrain-themes';
+import { Seed } from '../utils/random';
+import { EventCoordinator } from '../core/event-coordinator';
+import { GameEventType, EventPayloadFactory } from '../utils/game-events';
 
 /**
  * Classe responsável pela geração e manipulação do terreno
@@ -13,7 +22,17 @@ export class Terrain {
   private terrainTexture: PIXI.Texture | undefined = undefined;
   private terrainSprite: PIXI.Sprite | undefined = undefined;
   private destructionMask: PIXI.Graphics;
-  private noise2D: (x: number, y: number) => number;
+  private liquidGraphics: PIXI.Graphics;
+  private generator: TerrainGenerator;
+  private seed: number | null = null;
+  private collapse: TerrainCollapse = new TerrainCollapse();
+  private physics: TerrainPhysics = new TerrainPhysics();
+  private spawnPlanner: TerrainSpawnPlanner = new TerrainSpawnPlanner();
+  private collapseMode: CollapseMode = CollapseMode.NONE;
+  private theme: TerrainTheme = TerrainTheme.HENESYS;
+  private themeConfig: ITerrainConfig;
+  private liquidLayer: ILiquidLayer | null = null;
+  private liquid: TerrainLiquid | null = null;
   
   // Dimensões do terreno
   private width: number;
@@ -33,27 +52,53 @@ export class Terrain {
     // Cria elementos gráficos
     this.terrainGraphics = new PIXI.Graphics();
     this.destructionMask = new PIXI.Graphics();
+    this.liquidGraphics = new PIXI.Graphics();
     this.container.addChild(this.terrainGraphics);
     
-    // Inicializa o gerador de ruído
-    this.noise2D = createNoise2D();
+    // Inicializa o gerador de terreno
+    this.generator = new TerrainGenerator();
+    this.themeConfig = applyTerrainTheme(this.theme, { width: this.width, height: this.height });
+  }
+  
+  /**
+   * Define o tema do mapa usado nas próximas gerações
+   * @param theme Tema do mapa
+   */
+  setTheme(theme: TerrainTheme): void {
+    this.theme = theme;
+    this.themeConfig = applyTerrainTheme(theme, { width: this.width, height: this.height });
+  }
+  
+  /**
+   * Obtém a predefinição do tema atual
+   * @returns Predefinição do tema
+   */
+  getTheme(): ITerrainThemePreset {
+    return getTerrainTheme(this.theme);
   }
   
   /**
    * Gera um novo terreno
+   * @param seed Semente opcional para reproduzir um mapa; se omitida, usa uma aleatória
+   * @returns Semente usada na geração
    */
-  generate(): void {
+  generate(seed?: Seed): number {
     // Limpa o container e reseta o heightMap
     this.clear();
     
     // Gera o mapa de altura com ruído Simplex
-    this.generateHeightMap();
+    this.generateHeightMap(seed);
     
     // Renderiza o terreno inicial
     this.renderTerrain();
     
     // Converte para textura para melhor performance
     this.convertToTexture();
+    
+    // Desenha o líquido por cima do terreno
+    this.renderLiquid();
+    
+    return this.seed;
   }
   
   /**
@@ -74,81 +119,23 @@ export class Terrain {
     }
     
     this.destructionMask.clear();
+    this.liquidGraphics.clear();
   }
   
   /**
    * Gera um mapa de altura usando ruído Simplex
+   * @param seed Semente opcional da geração
    */
-  private generateHeightMap(): void {
-    const segments = this.width; // Um ponto por pixel na largura
-    
-    // Valores para configurar o ruído
-    const scale = 0.01; // Escala do ruído (menores valores = terreno mais suave)
-    const amplitude = this.height * 0.3; // Amplitude do terreno (altura máxima)
-    const baseHeight = this.height * 0.7; // Altura base (linha onde o terreno começa)
-    
-    // Cria pontos do mapa de altura
-    for (let x = 0; x < segments; x++) {
-      // Gera valor de ruído (entre -1 e 1)
-      const noiseValue = this.noise2D(x * scale, 0);
-      
-      // Converte para altura do terreno
-      const height = baseHeight + noiseValue * amplitude;
-      
-      // Adiciona ao mapa de altura
-      this.heightMap.push(height);
-    }
-    
-    // Aplica um filtro de suavização
-    this.smoothHeightMap();
-    
-    // Adiciona algumas variações para tornar o terreno mais interessante
-    this.addTerrainFeatures();
-  }
-  
-  /**
-   * Suaviza o mapa de altura para evitar mudanças bruscas
-   */
-  private smoothHeightMap(): void {
-    const smoothedMap = [...this.heightMap];
-    const windowSize = 5; // Tamanho da janela de suavização
-    
-    for (let i = 0; i < this.heightMap.length; i++) {
-      let sum = 0;
-      let count = 0;
-      
-      // Calcula a média dos pontos vizinhos
-      for (let j = Math.max(0, i - windowSize); j <= Math.min(this.heightMap.length - 1, i + windowSize); j++) {
-        sum += this.heightMap[j];
-        count++;
-      }
-      
-      smoothedMap[i] = sum / count;
-    }
-    
-    this.heightMap = smoothedMap;
-  }
-  
-  /**
-   * Adiciona características específicas ao terreno
-   */
-  private addTerrainFeatures(): void {
-    // Adiciona algumas plataformas planas para posicionamento de veículos
-    const platforms = 3 + Math.floor(Math.random() * 3); // 3-5 plataformas
-    const platformWidth = 50; // Largura da plataforma
-    
-    for (let i = 0; i < platforms; i++) {
-      // Posição aleatória para a plataforma
-      const startIndex = Math.floor(Math.random() * (this.width - platformWidth));
-      const height = this.heightMap[startIndex];
-      
-      // Cria uma plataforma plana
-      for (let j = 0; j < platformWidth; j++) {
-        if (startIndex + j < this.width) {
-          this.heightMap[startIndex + j] = height;
-        }
-      }
-    }
+  private generateHeightMap(seed?: Seed): void {
+    const terrainData = this.generator.generate({
+      ...this.themeConfig,
+      seed,
+      liquid: this.liquidLayer || undefined
+    });
+    
+    this.heightMap = terrainData.heightMap;
+    this.seed = terrainData.seed;
+    this.liquid = terrainData.liquid ? new TerrainLiquid(terrainData.liquid) : null;
   }
   
   /**
@@ -159,7 +146,7 @@ export class Terrain {
     this.terrainGraphics.clear();
     
     // Define o estilo de preenchimento
-    this.terrainGraphics.beginFill(0x5B3A29); // Marrom para terra
+    this.terrainGraphics.beginFill(this.themeConfig.terrainColor);
     
     // Desenha a forma do terreno
     this.terrainGraphics.moveTo(0, this.height);
@@ -176,7 +163,7 @@ export class Terrain {
     this.terrainGraphics.endFill();
     
     // Adiciona uma linha no topo (borda do terreno)
-    this.terrainGraphics.lineStyle(2, 0x3D2817);
+    this.terrainGraphics.lineStyle(2, this.themeConfig.borderColor);
     this.terrainGraphics.moveTo(0, this.heightMap[0]);
     
     for (let x = 1; x < this.heightMap.length; x++) {
@@ -192,7 +179,7 @@ export class Terrain {
    */
   private addTerrainTexture(): void {
     // Adiciona alguns detalhes aleatórios para simular textura
-    this.terrainGraphics.lineStyle(1, 0x49311F, 0.5);
+    this.terrainGraphics.lineStyle(1, this.themeConfig.textureColor, 0.5);
     
     // Cria linhas horizontais para simular camadas de terra
     for (let y = 0; y < this.height; y += 20) {
@@ -303,6 +290,18 @@ export class Terrain {
     return y >= terrainHeight;
   }
   
+  /**
+   * Obtém os detalhes de uma colisão com o terreno, incluindo a normal da superfície
+   * @param x Coordenada X
+   * @param y Coordenada Y
+   * @param radius Raio opcional para verificar área circular
+   * @returns Resultado da colisão com o ponto de contato e a normal
+   */
+  getCollisionInfo(x: number, y: number, radius: number = 1): ITerrainCollisionResult {
+    this.physics.initialize({ heightMap: this.heightMap, width: this.width, height: this.height });
+    return this.physics.checkCollision(x, y, radius);
+  }
+  
   /**
    * Destrói uma área circular do terreno
    * @param x Centro X da explosão
@@ -310,6 +309,72 @@ export class Terrain {
    * @param radius Raio da destruição
    */
   destroyAt(x: number, y: number, radius: number): void {
+    this.destroyAlong([{ x, y }], radius);
+  }
+  
+  /**
+   * Destrói várias áreas circulares do terreno como uma única deformação (ex: sulco de um feixe)
+   * O terreno se acomoda e os demais sistemas são notificados uma só vez para todas as áreas
+   * @param points Centros das áreas destruídas
+   * @param radius Raio da destruição em cada centro
+   */
+  destroyAlong(points: { x: number, y: number }[], radius: number): void {
+    if (points.length === 0) return;
+    
+    for (const point of points) {
+      this.carveCircle(point.x, point.y, radius);
+    }
+    
+    // Círculo que envolve todas as áreas: região do desmoronamento e da notificação
+    const minX = Math.min(...points.map(point => point.x));
+    const maxX = Math.max(...points.map(point => point.x));
+    const minY = Math.min(...points.map(point => point.y));
+    const maxY = Math.max(...points.map(point => point.y));
+    const x = (minX + maxX) / 2;
+    const y = (minY + maxY) / 2;
+    const regionRadius = Math.hypot(maxX - x, maxY - y) + radius;
+    
+    // Área afetada inicialmente é apenas a cratera
+    const startX = Math.max(0, Math.floor(minX - radius));
+    const endX = Math.min(this.width - 1, Math.ceil(maxX + radius));
+    let affectedArea: ITerrainArea = {
+      x: startX,
+      y: Math.floor(minY - radius),
+      width: endX - startX + 1,
+      height: Math.ceil(maxY - minY + radius * 2)
+    };
+    
+    // Acomoda o terreno que perdeu sustentação
+    if (this.collapseMode !== CollapseMode.NONE) {
+      const result = this.collapse.settle(
+        { heightMap: this.heightMap, width: this.width, height: this.height },
+        { x, y, radius: regionRadius },
+        this.collapseMode
+      );
+      
+      if (result.affectedArea) {
+        this.heightMap = result.terrainData.heightMap;
+        affectedArea = result.affectedArea;
+        
+        // O material deslocado não aparece na máscara de destruição; redesenha o terreno
+        this.redraw();
+      }
+    }
+    
+    // Notifica os demais sistemas (ex: veículos sobre o terreno que desmoronou)
+    EventCoordinator.getInstance().emit(
+      GameEventType.TERRAIN_DEFORMED,
+      EventPayloadFactory.createTerrainDeformationPayload({ x, y }, regionRadius, radius, false, affectedArea)
+    );
+  }
+  
+  /**
+   * Remove uma área circular da máscara de destruição e do mapa de altura
+   * @param x Centro X da área
+   * @param y Centro Y da área
+   * @param radius Raio da área
+   */
+  private carveCircle(x: number, y: number, radius: number): void {
     // Atualiza a máscara de destruição
     this.destructionMask.beginFill(0x000000, 0);
     this.destructionMask.drawCircle(x, y, radius);
@@ -335,40 +400,154 @@ export class Terrain {
   }
   
   /**
-   * Encontra posições adequadas para colocar objetos no terreno
-   * @param count Número de posições a encontrar
-   * @param minDistance Distância mínima entre as posições
-   * @returns Array de posições {x, y}
+   * Adiciona um monte circular de terreno (ex: armas de terra)
+   * @param x Centro X do monte
+   * @param y Centro Y do monte
+   * @param radius Raio do monte
+   */
+  fillAt(x: number, y: number, radius: number): void {
+    // Usa a física do terreno modular para aplicar o preenchimento ao mapa de altura
+    this.physics.initialize({ heightMap: this.heightMap, width: this.width, height: this.height });
+    this.heightMap = this.physics.applyDeformation({ x, y, radius, isFill: true }).heightMap;
+    
+    // A máscara de destruição só remove terreno; redesenha para mostrar o material novo
+    this.redraw();
+    
+    EventCoordinator.getInstance().emit(
+      GameEventType.TERRAIN_DEFORMED,
+      EventPayloadFactory.createTerrainDeformationPayload({ x, y }, radius, radius, true, {
+        x: Math.floor(x - radius),
+        y: Math.floor(y - radius),
+        width: Math.ceil(radius * 2),
+        height: Math.ceil(radius * 2)
+      })
+    );
+  }
+  
+  /**
+   * Define o modo de acomodação do terreno após explosões
+   * @param mode Modo de desmoronamento
+   */
+  setCollapseMode(mode: CollapseMode): void {
+    this.collapseMode = mode;
+  }
+  
+  /**
+   * Redesenha o terreno a partir do mapa de altura atual
    */
-  findSuitablePositions(count: number, minDistance: number = 100): {x: number, y: number}[] {
-    const positions: {x: number, y: number}[] = [];
-    const attempts = count * 5; // Número de tentativas
+  private redraw(): void {
+    if (this.terrainSprite) {
+      this.container.removeChild(this.terrainSprite);
+      this.terrainSprite = undefined;
+    }
     
-    for (let i = 0; i < attempts && positions.length < count; i++) {
-      // Escolhe um X aleatório, evitando as bordas
-      const x = Math.floor(50 + Math.random() * (this.width - 100));
-      
-      // Encontra a altura do terreno nesse ponto
-      const y = this.heightMap[x];
-      
-      // Verifica se o ponto está a uma distância mínima dos outros
-      let tooClose = false;
-      
-      for (const pos of positions) {
-        const distance = Math.sqrt(Math.pow(pos.x - x, 2) + Math.pow(pos.y - y, 2));
-        if (distance < minDistance) {
-          tooClose = true;
-          break;
-        }
-      }
-      
-      // Se não estiver muito próximo, adiciona à lista
-      if (!tooClose) {
-        positions.push({ x, y });
-      }
+    if (this.terrainTexture) {
+      this.terrainTexture.destroy();
+      this.terrainTexture = undefined;
+    }
+    
+    this.container.removeChild(this.destructionMask);
+    this.destructionMask.clear();
+    
+    this.container.addChild(this.terrainGraphics);
+    this.renderTerrain();
+    this.convertToTexture();
+    this.renderLiquid();
+  }
+  
+  /**
+   * Desenha a camada de líquido acima do terreno
+   */
+  private renderLiquid(): void {
+    this.liquidGraphics.clear();
+    
+    if (!this.liquid) {
+      return;
     }
     
-    return positions;
+    const { color, alpha } = LIQUID_COLORS[this.liquid.getType()];
+    const level = this.liquid.getLevel();
+    
+    this.liquidGraphics.beginFill(color, alpha);
+    this.liquidGraphics.drawRect(0, level, this.width, this.height - level);
+    this.liquidGraphics.endFill();
+    
+    // Mantém o líquido acima do sprite do terreno
+    this.container.addChild(this.liquidGraphics);
+  }
+  
+  /**
+   * Define a camada de líquido do mapa atual e das próximas gerações
+   * @param layer Camada de líquido ou null para remover
+   */
+  setLiquid(layer: ILiquidLayer | null): void {
+    this.liquidLayer = layer ? { ...layer } : null;
+    this.liquid = layer ? new TerrainLiquid(layer) : null;
+    this.renderLiquid();
+  }
+  
+  /**
+   * Obtém as regras da camada de líquido do mapa
+   * @returns Camada de líquido ou null se o mapa não tiver líquido
+   */
+  getLiquid(): TerrainLiquid | null {
+    return this.liquid;
+  }
+  
+  /**
+   * Verifica se um ponto está submerso no líquido do mapa
+   * @param x Coordenada X
+   * @param y Coordenada Y
+   * @returns Verdadeiro se o ponto está abaixo da superfície do líquido
+   */
+  isInLiquid(x: number, y: number): boolean {
+    return !!this.liquid && x >= 0 && x < this.width && this.liquid.isSubmerged(y);
+  }
+  
+  /**
+   * Encontra posições iniciais justas para os jogadores
+   * @param count Número de posições a encontrar
+   * @param minDistance Distância mínima entre as posições
+   * @param options Equipes, margens e inclinação aceita
+   * @returns Exatamente uma posição por jogador
+   * @throws SpawnPlacementError se o mapa não comportar todos os jogadores
+   */
+  findSuitablePositions(count: number, minDistance: number = 100, options: ISpawnOptions = {}): ISpawnPosition[] {
+    return this.spawnPlanner.plan(
+      {
+        heightMap: this.heightMap,
+        width: this.width,
+        height: this.height,
+        liquid: this.liquid ? this.liquid.getLayer() : undefined
+      },
+      count,
+      minDistance,
+      options
+    );
+  }
+  
+  /**
+   * Obtém a largura do mapa
+   * @returns Largura em pixels
+   */
+  getWidth(): number {
+    return this.width;
+  }
+  
+  /**
+   * Obtém a altura do mapa (a borda de baixo do mundo)
+   * @returns Altura em pixels
+   */
+  getHeight(): number {
+    return this.height;
+  }
+  
+  /**
+   * Obtém a semente do terreno atual
+   * @returns Semente usada na geração ou null se nenhum terreno foi gerado
+   */
+  getSeed(): number | null {
+    return this.seed;
   }
   
   /**
@@ -7,6 +7,13 @@ export { TerrainRenderer } from './terrain-renderer';
 export { TerrainPhysics } from './terrain-physics';
 export { TerrainUtility } from './terrain-utility';
 export { TerrainManager } from './terrain-manager';
+export { TerrainMask } from './terrain-mask';
+export { TerrainCollapse } from './terrain-collapse';
+export { TerrainSpawnPlanner, SpawnPlacementError } from './terrain-spawn-planner';
+export * from './terrain-liquid';
+export * from './terrain-map';
+export * from './terrain-image-loader';
+export * from './terrain-themes';
 
 // Exportação por padrão do gerenciador de terreno
 import { TerrainManager } from './terrain-manager';
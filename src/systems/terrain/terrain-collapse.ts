@@ -0,0 +1,408 @@
+import { ITerrainData, ITerrainArea, IDestructionRegion, CollapseMode } from './terrain-data';
+import { TerrainMask } from './terrain-mask';
+
+/**
+ * Estados de um pixel no preenchimento dos blocos
+ */
+const VISITED = 1;  // Percorrido por um bloco ainda sem apoio conhecido
+const ANCHORED = 2; // Ligado ao fundo do mapa
+
+/**
+ * Resultado da acomodação do terreno
+ */
+export interface ICollapseResult {
+  terrainData: ITerrainData;
+  affectedArea: ITerrainArea | null; // Área alterada ou null se nada se moveu
+  movedPixels: number;
+}
+
+/**
+ * Classe responsável por acomodar o terreno sem sustentação após explosões
+ * Opera sobre cópias dos dados, sem alterar o terreno recebido
+ */
+export class TerrainCollapse {
+  // Diferença máxima de altura entre colunas vizinhas em terrenos de mapa de altura
+  private maxSlopeStep: number;
+
+  // Limite de iterações do relaxamento de encostas
+  private maxIterations: number;
+
+  /**
+   * Cria um novo simulador de desmoronamento
+   * @param maxSlopeStep Diferença máxima de altura entre colunas vizinhas (padrão: 3px)
+   * @param maxIterations Limite de iterações do relaxamento (padrão: 200)
+   */
+  constructor(maxSlopeStep: number = 3, maxIterations: number = 200) {
+    this.maxSlopeStep = maxSlopeStep;
+    this.maxIterations = maxIterations;
+  }
+
+  /**
+   * Acomoda o terreno ao redor de uma região destruída
+   * @param terrainData Dados do terreno após a explosão
+   * @param region Região da explosão
+   * @param mode Modo de acomodação
+   * @returns Resultado com os novos dados e a área afetada
+   */
+  settle(terrainData: ITerrainData, region: IDestructionRegion, mode: CollapseMode): ICollapseResult {
+    if (mode === CollapseMode.NONE) {
+      return { terrainData, affectedArea: null, movedPixels: 0 };
+    }
+
+    // Terreno de mapa de altura não tem saliências: apenas encostas íngremes escorregam
+    if (!terrainData.mask) {
+      return mode === CollapseMode.SAND
+        ? this.settleHeightMap(terrainData, region)
+        : { terrainData, affectedArea: null, movedPixels: 0 };
+    }
+
+    return mode === CollapseMode.SAND
+      ? this.settleSand(terrainData, region)
+      : this.settleChunks(terrainData, region);
+  }
+
+  /**
+   * Escorrega o material de encostas mais íngremes que o limite
+   * O material é conservado: o que sai de uma coluna vai para a vizinha
+   * @private
+   */
+  private settleHeightMap(terrainData: ITerrainData, region: IDestructionRegion): ICollapseResult {
+    const heightMap = [...terrainData.heightMap];
+    const { width } = terrainData;
+
+    let minX = Math.max(0, Math.floor(region.x - region.radius) - 1);
+    let maxX = Math.min(width - 1, Math.ceil(region.x + region.radius) + 1);
+    let changedMin = width;
+    let changedMax = -1;
+    let moved = 0;
+
+    for (let iteration = 0; iteration < this.maxIterations; iteration++) {
+      let changed = false;
+
+      for (let i = minX; i < maxX; i++) {
+        // Y cresce para baixo: valor maior significa terreno mais baixo
+        const diff = heightMap[i + 1] - heightMap[i];
+
+        if (Math.abs(diff) <= this.maxSlopeStep) continue;
+
+        const transfer = (Math.abs(diff) - this.maxSlopeStep) / 2;
+        const direction = Math.sign(diff);
+
+        heightMap[i] += transfer * direction;
+        heightMap[i + 1] -= transfer * direction;
+        moved += transfer;
+        changed = true;
+
+        changedMin = Math.min(changedMin, i);
+        changedMax = Math.max(changedMax, i + 1);
+      }
+
+      if (!changed) break;
+
+      // Expande a área analisada conforme o desmoronamento se propaga
+      minX = Math.max(0, minX - 1);
+      maxX = Math.min(width - 1, maxX + 1);
+    }
+
+    if (changedMax < 0) {
+      return { terrainData, affectedArea: null, movedPixels: 0 };
+    }
+
+    let top = Infinity;
+    let bottom = -Infinity;
+
+    for (let i = changedMin; i <= changedMax; i++) {
+      top = Math.min(top, terrainData.heightMap[i], heightMap[i]);
+      bottom = Math.max(bottom, terrainData.heightMap[i], heightMap[i]);
+    }
+
+    return {
+      terrainData: { ...terrainData, heightMap },
+      affectedArea: {
+        x: changedMin,
+        y: Math.floor(top),
+        width: changedMax - changedMin + 1,
+        height: Math.ceil(bottom) - Math.floor(top) + 1
+      },
+      movedPixels: Math.round(moved)
+    };
+  }
+
+  /**
+   * Faz os pixels acima da cratera caírem como areia, coluna por coluna
+   * @private
+   */
+  private settleSand(terrainData: ITerrainData, region: IDestructionRegion): ICollapseResult {
+    const mask = terrainData.mask.clone();
+    const { width, height } = terrainData;
+    const startX = Math.max(0, Math.floor(region.x - region.radius));
+    const endX = Math.min(width - 1, Math.ceil(region.x + region.radius));
+    const craterBottom = Math.min(height, Math.ceil(region.y + region.radius));
+    const bounds = new AreaBounds();
+    let moved = 0;
+
+    for (let x = startX; x <= endX; x++) {
+      // O piso é o primeiro pixel sólido a partir do fundo da cratera
+      let floor = craterBottom;
+      while (floor < height && !mask.isSolid(x, floor)) {
+        floor++;
+      }
+
+      // Empilha os pixels sólidos acima do piso, de baixo para cima
+      let writeY = floor - 1;
+
+      for (let y = floor - 1; y >= 0; y--) {
+        if (!mask.isSolid(x, y)) continue;
+
+        if (y !== writeY) {
+          mask.setSolid(x, y, false);
+          mask.setSolid(x, writeY, true);
+          bounds.include(x, y);
+          bounds.include(x, writeY);
+          moved++;
+        }
+
+        writeY--;
+      }
+    }
+
+    return this.buildMaskResult(terrainData, mask, bounds, moved);
+  }
+
+  /**
+   * Faz blocos de terreno desconectados do fundo do mapa caírem inteiros
+   * @private
+   */
+  private settleChunks(terrainData: ITerrainData, region: IDestructionRegion): ICollapseResult {
+    const mask = terrainData.mask.clone();
+    const { width, height } = terrainData;
+    const data = mask.getData();
+    const visited = new Uint8Array(width * height);
+    const chunks: number[][] = [];
+
+    // Procura blocos a partir da borda da cratera (com margem de 2px)
+    const margin = 2;
+    const startX = Math.max(0, Math.floor(region.x - region.radius) - margin);
+    const endX = Math.min(width - 1, Math.ceil(region.x + region.radius) + margin);
+    const startY = Math.max(0, Math.floor(region.y - region.radius) - margin);
+    const endY = Math.min(height - 1, Math.ceil(region.y + region.radius) + margin);
+
+    for (let y = startY; y <= endY; y++) {
+      for (let x = startX; x <= endX; x++) {
+        const index = y * width + x;
+        if (data[index] !== 1 || visited[index]) continue;
+
+        const chunk = this.floodFill(data, visited, width, height, index);
+        if (chunk) {
+          chunks.push(chunk);
+        }
+      }
+    }
+
+    // Blocos mais baixos caem primeiro para que os de cima possam pousar sobre eles
+    chunks.sort((a, b) => this.lowestRow(b, width) - this.lowestRow(a, width));
+
+    const bounds = new AreaBounds();
+    let moved = 0;
+
+    for (const chunk of chunks) {
+      const drop = this.computeDrop(data, chunk, width, height);
+      if (drop <= 0) continue;
+
+      for (const index of chunk) {
+        data[index] = 0;
+        bounds.include(index % width, Math.floor(index / width));
+      }
+
+      for (const index of chunk) {
+        const target = index + drop * width;
+        data[target] = 1;
+        bounds.include(target % width, Math.floor(target / width));
+      }
+
+      moved += chunk.length;
+    }
+
+    return this.buildMaskResult(terrainData, mask, bounds, moved);
+  }
+
+  /**
+   * Percorre um bloco conectado de pixels sólidos (vizinhança de 4)
+   * Para assim que alcança o fundo do mapa ou um pixel já conhecido como apoiado,
+   * marcando como apoiado tudo o que percorreu: o resto do corpo não precisa ser visitado
+   * @returns Índices do bloco ou null se ele estiver apoiado no fundo do mapa
+   * @private
+   */
+  private floodFill(
+    data: Uint8Array,
+    visited: Uint8Array,
+    width: number,
+    height: number,
+    startIndex: number
+  ): number[] | null {
+    const chunk: number[] = [];
+    const stack: number[] = [startIndex];
+    const bottomRowStart = (height - 1) * width;
+
+    visited[startIndex] = VISITED;
+
+    while (stack.length > 0) {
+      const index = stack.pop();
+      chunk.push(index);
+
+      if (index >= bottomRowStart) {
+        return this.markAnchored(visited, chunk, stack);
+      }
+
+      const x = index % width;
+      // O vizinho de baixo é empilhado por último para ser visitado primeiro: o fundo é alcançado mais cedo
+      const neighbors = [
+        index - width,
+        x > 0 ? index - 1 : -1,
+        x < width - 1 ? index + 1 : -1,
+        index + width
+      ];
+
+      for (const neighbor of neighbors) {
+        if (neighbor < 0 || neighbor >= data.length || data[neighbor] !== 1) continue;
+
+        if (visited[neighbor] === ANCHORED) {
+          return this.markAnchored(visited, chunk, stack);
+        }
+
+        if (visited[neighbor]) continue;
+
+        visited[neighbor] = VISITED;
+        stack.push(neighbor);
+      }
+    }
+
+    return chunk;
+  }
+
+  /**
+   * Marca como apoiados os pixels percorridos e os que ainda aguardavam na pilha
+   * @returns Sempre null, para ser usado como retorno do preenchimento
+   * @private
+   */
+  private markAnchored(visited: Uint8Array, chunk: number[], stack: number[]): null {
+    for (const index of chunk) {
+      visited[index] = ANCHORED;
+    }
+
+    for (const index of stack) {
+      visited[index] = ANCHORED;
+    }
+
+    return null;
+  }
+
+  /**
+   * Calcula quantos pixels um bloco pode cair até encostar em outro terreno
+   * @private
+   */
+  private computeDrop(data: Uint8Array, chunk: number[], width: number, height: number): number {
+    const members = new Set(chunk);
+    let drop = height;
+
+    for (const index of chunk) {
+      const below = index + width;
+
+      // Apenas pixels cuja parte de baixo não pertence ao próprio bloco limitam a queda
+      if (members.has(below)) continue;
+
+      let distance = 0;
+      let cursor = below;
+
+      while (cursor < data.length && (data[cursor] !== 1 || members.has(cursor))) {
+        distance++;
+        cursor += width;
+      }
+
+      drop = Math.min(drop, distance);
+      if (drop === 0) break;
+    }
+
+    return drop;
+  }
+
+  /**
+   * Obtém a linha mais baixa ocupada por um bloco
+   * @private
+   */
+  private lowestRow(chunk: number[], width: number): number {
+    let lowest = 0;
+
+    for (const index of chunk) {
+      lowest = Math.max(lowest, Math.floor(index / width));
+    }
+
+    return lowest;
+  }
+
+  /**
+   * Monta o resultado de uma acomodação sobre máscara de pixels
+   * Atualiza o mapa de altura nas colunas alteradas
+   * @private
+   */
+  private buildMaskResult(
+    terrainData: ITerrainData,
+    mask: TerrainMask,
+    bounds: AreaBounds,
+    moved: number
+  ): ICollapseResult {
+    const affectedArea = bounds.toArea();
+
+    if (!affectedArea) {
+      return { terrainData, affectedArea: null, movedPixels: 0 };
+    }
+
+    const heightMap = [...terrainData.heightMap];
+
+    for (let x = affectedArea.x; x < affectedArea.x + affectedArea.width; x++) {
+      heightMap[x] = mask.getSurfaceHeight(x);
+    }
+
+    return {
+      terrainData: { ...terrainData, heightMap, mask },
+      affectedArea,
+      movedPixels: moved
+    };
+  }
+}
+
+/**
+ * Acumulador de limites de uma área retangular
+ */
+class AreaBounds {
+  private minX = Infinity;
+  private minY = Infinity;
+  private maxX = -Infinity;
+  private maxY = -Infinity;
+
+  /**
+   * Inclui um ponto na área
+   */
+  include(x: number, y: number): void {
+    this.minX = Math.min(this.minX, x);
+    this.minY = Math.min(this.minY, y);
+    this.maxX = Math.max(this.maxX, x);
+    this.maxY = Math.max(this.maxY, y);
+  }
+
+  /**
+   * Converte para área ou null se nenhum ponto foi incluído
+   */
+  toArea(): ITerrainArea | null {
+    if (this.maxX < this.minX) {
+      return null;
+    }
+
+    return {
+      x: this.minX,
+      y: this.minY,
+      width: this.maxX - this.minX + 1,
+      height: this.maxY - this.minY + 1
+    };
+  }
+}
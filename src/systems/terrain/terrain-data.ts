@@ -1,4 +1,6 @@
 import * as PIXI from 'pixi.js';
+import { Seed } from '../../utils/random';
+import { TerrainMask } from './terrain-mask';
 
 /**
  * Interface para os dados do terreno
@@ -10,6 +12,65 @@ export interface ITerrainData {
   // Dimensões do terreno
   width: number;
   height: number;
+  
+  // Semente usada na geração (permite regenerar o mesmo mapa)
+  seed?: number;
+  
+  // Máscara de pixels sólidos (opcional); quando presente, é a fonte de verdade
+  // para colisões e o mapa de altura passa a representar apenas a superfície superior
+  mask?: TerrainMask;
+  
+  // Plataformas planas do mapa (geradas ou definidas no arquivo de mapa)
+  platforms?: ITerrainPlatform[];
+  
+  // Camada de líquido do mapa (água ou lava); tudo abaixo do nível está submerso
+  liquid?: ILiquidLayer;
+}
+
+/**
+ * Plataforma plana do terreno
+ */
+export interface ITerrainPlatform {
+  x: number;      // Início da plataforma
+  y: number;      // Altura da superfície da plataforma
+  width: number;  // Largura da plataforma
+}
+
+/**
+ * Tipos de líquido
+ */
+export enum LiquidType {
+  WATER = 'water',
+  LAVA = 'lava'
+}
+
+/**
+ * Camada de líquido do mapa
+ */
+export interface ILiquidLayer {
+  type: LiquidType;
+  level: number;            // Coordenada Y da superfície do líquido
+  damagePerTurn?: number;   // Dano por turno a veículos submersos; 0 mata ao afundar (padrão: água 0, lava 25)
+}
+
+/**
+ * Modos de acomodação do terreno sem sustentação após uma explosão
+ */
+export enum CollapseMode {
+  NONE = 'none',   // O terreno permanece onde está
+  SAND = 'sand',   // Cada coluna desmorona como areia
+  CHUNK = 'chunk'  // Blocos soltos caem inteiros, mantendo a forma
+}
+
+/**
+ * Modos de geração do relevo
+ */
+export enum TerrainGenerationMode {
+  CLASSIC = 'classic',                   // Uma oitava de ruído com plataformas aleatórias
+  FRACTAL = 'fractal',                   // Várias oitavas de ruído, relevo mais detalhado
+  ISLANDS = 'islands',                   // Arquipélago separado por vãos de água
+  VALLEY = 'valley',                     // Mapa de duelo espelhado com um vale central
+  FLOATING_ISLANDS = 'floating_islands'  // Ilhas suspensas sobre o chão (usa máscara de pixels)
 }
 
 /**
@@ -21,19 +82,30 @@ export interface ITerrainConfig {
   height: number;
   
   // Configurações de geração
+  seed?: Seed;               // Semente do mapa (padrão: aleatória)
   noiseScale?: number;       // Escala do ruído (padrão: 0.01)
   amplitude?: number;        // Amplitude da variação de altura (padrão: 30% da altura)
   baseHeight?: number;       // Altura base do terreno (padrão: 70% da altura)
   smoothingFactor?: number;  // Suavização do terreno (padrão: 5)
+  useMask?: boolean;         // Usa máscara de pixels, permitindo cavernas e saliências (padrão: false)
+  collapseMode?: CollapseMode; // Acomodação do terreno após explosões (padrão: nenhuma)
+  mode?: TerrainGenerationMode; // Modo de geração do relevo (padrão: clássico)
+  octaves?: number;          // Oitavas de ruído no modo fractal (padrão: 5)
+  persistence?: number;      // Redução da amplitude a cada oitava (padrão: 0.5)
+  islandCount?: number;      // Número de ilhas nos modos de ilhas (padrão: 3-4)
+  gapWidth?: number;         // Largura dos vãos entre ilhas do arquipélago (padrão: 8% da largura)
+  liquid?: ILiquidLayer;     // Camada de líquido (padrão: nenhuma; água a 90% da altura no arquipélago)
   
   // Configurações de plataformas
   platformCount?: number;    // Número de plataformas (padrão: 3-5)
   platformWidth?: number;    // Largura das plataformas (padrão: 50px)
+  terrainStep?: number;      // Arredonda as alturas em degraus, formando blocos (padrão: sem degraus)
   
   // Configurações visuais
   terrainColor?: number;     // Cor do terreno (padrão: 0x5B3A29 - marrom)
   borderColor?: number;      // Cor da borda (padrão: 0x3D2817 - marrom escuro)
   textureColor?: number;     // Cor das linhas de textura (padrão: 0x49311F)
+  sourceTexture?: PIXI.Texture; // Imagem exibida no lugar do desenho do terreno (ex: mapa desenhado por artistas)
 }
 
 /**
@@ -44,6 +116,7 @@ export interface ITerrainVisuals {
   terrainSprite?: PIXI.Sprite;
   terrainTexture?: PIXI.Texture;
   destructionMask: PIXI.Graphics;
+  liquidGraphics: PIXI.Graphics;
   container: PIXI.Container;
 }
 
@@ -64,6 +137,24 @@ export interface ITerrainPosition {
   y: number;
 }
 
+/**
+ * Opções do planejamento de posições iniciais
+ */
+export interface ISpawnOptions {
+  teamCount?: number;    // Número de equipes; cada uma ocupa uma faixa do mapa (padrão: uma por jogador)
+  edgeMargin?: number;   // Distância mínima das bordas do mapa (padrão: 50px)
+  footprint?: number;    // Largura da área avaliada sob cada veículo (padrão: 30px)
+  maxSlope?: number;     // Inclinação máxima aceita na área, em px de altura por px de largura (padrão: 1, ou 45°)
+}
+
+/**
+ * Posição inicial planejada para um jogador
+ */
+export interface ISpawnPosition extends ITerrainPosition {
+  team: number;   // Equipe dona da posição (jogador i pertence à equipe i % teamCount)
+  slope: number;  // Inclinação do terreno sob o veículo
+}
+
 /**
  * Tipo para região de destruição
  */
@@ -71,4 +162,32 @@ export interface IDestructionRegion {
   x: number;
   y: number;
   radius: number;
-} 
\ No newline at end of file
+} 
+
+/**
+ * Formas de deformação do terreno
+ */
+export enum DeformationShape {
+  CIRCLE = 'circle',       // Cratera ou monte circular
+  RECTANGLE = 'rectangle'  // Muros (altos) e pontes (largas)
+}
+
+/**
+ * Tipo para deformação do terreno, removendo ou adicionando material
+ */
+export interface ITerrainDeformation extends IDestructionRegion {
+  isFill: boolean;            // Verdadeiro adiciona terreno, falso remove
+  shape?: DeformationShape;   // Forma da deformação (padrão: círculo)
+  width?: number;             // Largura do retângulo (padrão: 2x o raio)
+  height?: number;            // Altura do retângulo (padrão: 2x o raio)
+}
+
+/**
+ * Tipo para área retangular do terreno
+ */
+export interface ITerrainArea {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
\ No newline at end of file
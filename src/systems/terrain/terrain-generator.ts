@@ -1,26 +1,28 @@
 import { createNoise2D } from 'simplex-noise';
-import { ITerrainData, ITerrainConfig } from './terrain-data';
+import { ITerrainData, ITerrainConfig, ITerrainPlatform, TerrainGenerationMode, LiquidType } from './terrain-data';
+import { TerrainMask } from './terrain-mask';
+import { createSeededRandom, generateSeed, normalizeSeed, RandomFunction } from '../../utils/random';
 
 /**
  * Classe responsável pela geração do terreno
+ * Toda a aleatoriedade deriva da semente, então a mesma semente
+ * e as mesmas configurações sempre produzem o mesmo terreno
  */
 export class TerrainGenerator {
   private noise2D: (x: number, y: number) => number;
-  
-  /**
-   * Cria um novo gerador de terreno
-   */
-  constructor() {
-    // Inicializa o gerador de ruído
-    this.noise2D = createNoise2D();
-  }
+  private random: RandomFunction;
   
   /**
    * Gera um novo terreno com as configurações especificadas
    * @param config Configurações do terreno
-   * @returns Dados do terreno gerado
+   * @returns Dados do terreno gerado, incluindo a semente usada
    */
   generate(config: ITerrainConfig): ITerrainData {
+    // Resolve a semente e inicializa os geradores determinísticos
+    const seed = config.seed !== undefined ? normalizeSeed(config.seed) : generateSeed();
+    this.random = createSeededRandom(seed);
+    this.noise2D = createNoise2D(this.random);
+    
     // Cria um novo mapa de altura vazio
     const heightMap: number[] = [];
     
@@ -28,28 +30,104 @@ export class TerrainGenerator {
     const {
       width,
       height,
+      mode = TerrainGenerationMode.CLASSIC,
       noiseScale = 0.01,
       amplitude = height * 0.3,
       baseHeight = height * 0.7,
-      platformCount = 3 + Math.floor(Math.random() * 3),
+      platformCount = 3 + Math.floor(this.random() * 3),
       platformWidth = 50
     } = config;
     
-    // Gera o mapa de altura inicial usando ruído Simplex
-    this.generateBaseHeightMap(heightMap, width, height, noiseScale, amplitude, baseHeight);
+    // Gera o mapa de altura inicial de acordo com o modo
+    switch (mode) {
+      case TerrainGenerationMode.FRACTAL:
+        this.generateFractalHeightMap(
+          heightMap, width, noiseScale, amplitude, baseHeight,
+          config.octaves || 5, config.persistence ?? 0.5
+        );
+        break;
+      
+      case TerrainGenerationMode.VALLEY:
+        this.generateValleyHeightMap(heightMap, width, noiseScale, amplitude, baseHeight);
+        break;
+      
+      case TerrainGenerationMode.FLOATING_ISLANDS:
+        // O chão fica mais baixo e plano para deixar espaço às ilhas suspensas
+        this.generateBaseHeightMap(
+          heightMap, width, height, noiseScale, amplitude * 0.3, baseHeight + (height - baseHeight) * 0.5
+        );
+        break;
+      
+      default:
+        this.generateBaseHeightMap(heightMap, width, height, noiseScale, amplitude, baseHeight);
+    }
+    
+    // Aplica suavização ao terreno (o modo fractal preserva mais detalhes por padrão)
+    this.smoothHeightMap(heightMap, config.smoothingFactor || (mode === TerrainGenerationMode.FRACTAL ? 2 : 5));
+    
+    // Arredonda as alturas em degraus, se configurado
+    if (config.terrainStep && config.terrainStep > 0) {
+      this.quantizeHeightMap(heightMap, config.terrainStep);
+    }
     
-    // Aplica suavização ao terreno
-    this.smoothHeightMap(heightMap, config.smoothingFactor || 5);
+    // Adiciona plataformas e outras características do modo
+    let platforms: ITerrainPlatform[];
+    let mask: TerrainMask | undefined;
     
-    // Adiciona plataformas e outras características
-    this.addTerrainFeatures(heightMap, width, platformCount, platformWidth);
+    switch (mode) {
+      case TerrainGenerationMode.ISLANDS:
+        platforms = this.addIslands(
+          heightMap, width, height,
+          config.islandCount || 3 + Math.floor(this.random() * 2),
+          config.gapWidth || Math.round(width * 0.08),
+          platformWidth
+        );
+        break;
+      
+      case TerrainGenerationMode.VALLEY:
+        platforms = this.addDuelPlatforms(heightMap, width, platformWidth);
+        break;
+      
+      case TerrainGenerationMode.FLOATING_ISLANDS:
+        mask = TerrainMask.fromHeightMap(heightMap, width, height);
+        platforms = this.addFloatingIslands(
+          mask, heightMap, width, height,
+          config.islandCount || 3 + Math.floor(this.random() * 2),
+          platformWidth
+        );
+        
+        // A superfície passa a incluir o topo das ilhas
+        heightMap.splice(0, heightMap.length, ...mask.toHeightMap());
+        break;
+      
+      default:
+        platforms = this.addTerrainFeatures(heightMap, width, platformCount, platformWidth);
+    }
     
     // Retorna os dados do terreno
-    return {
+    const terrainData: ITerrainData = {
       heightMap,
       width,
-      height
+      height,
+      seed,
+      platforms
     };
+    
+    // Camada de líquido; os vãos do arquipélago são preenchidos com água por padrão
+    if (config.liquid) {
+      terrainData.liquid = { ...config.liquid };
+    } else if (mode === TerrainGenerationMode.ISLANDS) {
+      terrainData.liquid = { type: LiquidType.WATER, level: Math.round(height * 0.9) };
+    }
+    
+    // Converte para máscara de pixels, se configurado (ilhas suspensas sempre precisam dela)
+    if (mask) {
+      terrainData.mask = mask;
+    } else if (config.useMask) {
+      terrainData.mask = TerrainMask.fromHeightMap(heightMap, width, height);
+    }
+    
+    return terrainData;
   }
   
   /**
@@ -77,6 +155,65 @@ export class TerrainGenerator {
     }
   }
   
+  /**
+   * Gera o mapa de altura somando várias oitavas de ruído (ruído fractal)
+   * Cada oitava dobra a frequência e reduz a amplitude pela persistência
+   * @private
+   */
+  private generateFractalHeightMap(
+    heightMap: number[],
+    width: number,
+    noiseScale: number,
+    amplitude: number,
+    baseHeight: number,
+    octaves: number,
+    persistence: number
+  ): void {
+    for (let x = 0; x < width; x++) {
+      let value = 0;
+      let total = 0;
+      let octaveAmplitude = 1;
+      let frequency = 1;
+      
+      for (let octave = 0; octave < octaves; octave++) {
+        // Cada oitava amostra uma linha diferente do ruído para não repetir o padrão
+        value += this.noise2D(x * noiseScale * frequency, octave * 10) * octaveAmplitude;
+        total += octaveAmplitude;
+        octaveAmplitude *= persistence;
+        frequency *= 2;
+      }
+      
+      // Normaliza para manter o resultado entre -1 e 1
+      heightMap.push(baseHeight + (value / total) * amplitude);
+    }
+  }
+  
+  /**
+   * Gera o perfil de um mapa de duelo: planaltos nas bordas e um vale no centro
+   * @private
+   */
+  private generateValleyHeightMap(
+    heightMap: number[],
+    width: number,
+    noiseScale: number,
+    amplitude: number,
+    baseHeight: number
+  ): void {
+    const plateau = baseHeight - amplitude * 0.5;
+    const valley = baseHeight + amplitude * 0.5;
+    
+    for (let x = 0; x < width; x++) {
+      // Distância normalizada ao centro (0 no centro, 1 nas bordas)
+      const distance = Math.abs(x / Math.max(1, width - 1) - 0.5) * 2;
+      
+      // Transição suave entre o vale e os planaltos
+      const elevation = distance * distance * (3 - 2 * distance);
+      const noiseValue = this.noise2D(x * noiseScale, 0);
+      
+      heightMap.push(valley + (plateau - valley) * elevation + noiseValue * amplitude * 0.15);
+    }
+  }
+  
   /**
    * Suaviza o mapa de altura para evitar mudanças bruscas
    * @private
@@ -103,8 +240,19 @@ export class TerrainGenerator {
     }
   }
   
+  /**
+   * Arredonda as alturas para múltiplos do degrau, criando um relevo em blocos
+   * @private
+   */
+  private quantizeHeightMap(heightMap: number[], step: number): void {
+    for (let i = 0; i < heightMap.length; i++) {
+      heightMap[i] = Math.round(heightMap[i] / step) * step;
+    }
+  }
+  
   /**
    * Adiciona características específicas ao terreno, como plataformas
+   * @returns Plataformas criadas
    * @private
    */
   private addTerrainFeatures(
@@ -112,20 +260,156 @@ export class TerrainGenerator {
     width: number,
     platformCount: number,
     platformWidth: number
-  ): void {
+  ): ITerrainPlatform[] {
+    const platforms: ITerrainPlatform[] = [];
+    
     // Adiciona plataformas planas para posicionamento de veículos
     for (let i = 0; i < platformCount; i++) {
-      // Posição aleatória para a plataforma
-      const startIndex = Math.floor(Math.random() * (width - platformWidth));
-      const height = heightMap[startIndex];
+      // Posição aleatória para a plataforma; sorteia novamente se sobrepuser outra,
+      // pois nivelar por cima desfaria a plataforma anterior
+      let startIndex = -1;
       
-      // Cria uma plataforma plana
-      for (let j = 0; j < platformWidth; j++) {
-        if (startIndex + j < width) {
-          heightMap[startIndex + j] = height;
+      for (let attempt = 0; attempt < 10 && startIndex < 0; attempt++) {
+        const candidate = Math.floor(this.random() * (width - platformWidth));
+        const overlaps = platforms.some(platform =>
+          candidate < platform.x + platform.width && candidate + platformWidth > platform.x
+        );
+        
+        if (!overlaps) {
+          startIndex = candidate;
         }
       }
+      
+      // Cria uma plataforma plana
+      if (startIndex >= 0) {
+        platforms.push(this.flattenPlatform(heightMap, startIndex, platformWidth));
+      }
+    }
+    
+    return platforms;
+  }
+  
+  /**
+   * Divide o terreno em ilhas separadas por vãos de água, com uma plataforma em cada ilha
+   * Nos vãos não há terreno; a coluna fica vazia até o fundo do mapa
+   * @returns Plataformas criadas (uma por ilha)
+   * @private
+   */
+  private addIslands(
+    heightMap: number[],
+    width: number,
+    height: number,
+    islandCount: number,
+    gapWidth: number,
+    platformWidth: number
+  ): ITerrainPlatform[] {
+    const segment = width / islandCount;
+    const gaps: Array<{ start: number, end: number }> = [];
+    
+    // Abre os vãos nas divisas entre as ilhas, com um leve deslocamento aleatório
+    for (let i = 1; i < islandCount; i++) {
+      const center = segment * i + (this.random() - 0.5) * segment * 0.3;
+      const start = Math.max(0, Math.round(center - gapWidth / 2));
+      const end = Math.min(width, Math.round(center + gapWidth / 2));
+      
+      for (let x = start; x < end; x++) {
+        heightMap[x] = height;
+      }
+      
+      gaps.push({ start, end });
+    }
+    
+    // Cria uma plataforma plana no centro de cada ilha
+    const platforms: ITerrainPlatform[] = [];
+    
+    for (let i = 0; i < islandCount; i++) {
+      const islandStart = i === 0 ? 0 : gaps[i - 1].end;
+      const islandEnd = i === islandCount - 1 ? width : gaps[i].start;
+      const islandWidth = islandEnd - islandStart;
+      const platformSize = Math.max(1, Math.min(platformWidth, Math.floor(islandWidth / 2)));
+      const startIndex = islandStart + Math.floor((islandWidth - platformSize) / 2);
+      
+      platforms.push(this.flattenPlatform(heightMap, startIndex, platformSize));
+    }
+    
+    return platforms;
+  }
+  
+  /**
+   * Cria as áreas de largada do mapa de duelo e espelha o terreno
+   * para que os dois lados sejam idênticos
+   * @returns Plataformas de largada (esquerda e direita)
+   * @private
+   */
+  private addDuelPlatforms(heightMap: number[], width: number, platformWidth: number): ITerrainPlatform[] {
+    const platformSize = Math.max(1, Math.min(platformWidth, Math.floor(width * 0.2)));
+    const startIndex = Math.floor(width * 0.06);
+    const left = this.flattenPlatform(heightMap, startIndex, platformSize);
+    
+    // Espelha a metade esquerda na direita
+    for (let x = 0; x < Math.floor(width / 2); x++) {
+      heightMap[width - 1 - x] = heightMap[x];
+    }
+    
+    return [left, { x: width - startIndex - platformSize, y: left.y, width: platformSize }];
+  }
+  
+  /**
+   * Adiciona ilhas suspensas à máscara, com topo plano e base arredondada
+   * @returns Plataformas no topo de cada ilha
+   * @private
+   */
+  private addFloatingIslands(
+    mask: TerrainMask,
+    heightMap: number[],
+    width: number,
+    height: number,
+    islandCount: number,
+    platformWidth: number
+  ): ITerrainPlatform[] {
+    const segment = width / islandCount;
+    const islandWidth = Math.round(Math.min(segment * 0.7, Math.max(platformWidth, segment * 0.5)));
+    const groundTop = Math.min(...heightMap);
+    const platforms: ITerrainPlatform[] = [];
+    
+    for (let i = 0; i < islandCount; i++) {
+      const jitter = (this.random() - 0.5) * (segment - islandWidth) * 0.5;
+      const left = Math.round(segment * i + (segment - islandWidth) / 2 + jitter);
+      const thickness = Math.round(15 + this.random() * 15);
+      
+      // Mantém um vão livre entre a base da ilha e o chão
+      const lowestTop = groundTop - thickness - 40;
+      const highestTop = height * 0.2;
+      const top = Math.max(0, Math.round(Math.min(lowestTop, highestTop + this.random() * (lowestTop - highestTop))));
+      const half = islandWidth / 2;
+      
+      for (let x = left; x < left + islandWidth; x++) {
+        // Profundidade da coluna segue uma elipse, afinando nas pontas
+        const dx = (x - left + 0.5 - half) / half;
+        const depth = Math.max(2, Math.round(thickness * Math.sqrt(Math.max(0, 1 - dx * dx))));
+        
+        mask.fillRect(x, top, 1, depth, true);
+      }
+      
+      platforms.push({ x: left, y: top, width: islandWidth });
     }
+    
+    return platforms;
+  }
+  
+  /**
+   * Nivela um trecho do mapa de altura na altura do seu primeiro ponto
+   * @returns Plataforma criada
+   * @private
+   */
+  private flattenPlatform(heightMap: number[], startIndex: number, platformWidth: number): ITerrainPlatform {
+    const height = heightMap[startIndex];
+    
+    for (let j = 0; j < platformWidth && startIndex + j < heightMap.length; j++) {
+      heightMap[startIndex + j] = height;
+    }
+    
+    return { x: startIndex, y: height, width: Math.min(platformWidth, heightMap.length - startIndex) };
   }
   
   /**
@@ -134,10 +418,7 @@ export class TerrainGenerator {
    * @returns Novo terreno gerado
    */
   regenerate(config: ITerrainConfig): ITerrainData {
-    // Recria o gerador de ruído para obter uma nova semente
-    this.noise2D = createNoise2D();
-    
-    // Gera um novo terreno
-    return this.generate(config);
+    // Descarta a semente configurada para obter um mapa diferente
+    return this.generate({ ...config, seed: generateSeed() });
   }
 } 
\ No newline at end of file
@@ -0,0 +1,159 @@
+import * as PIXI from 'pixi.js';
+import { ITerrainData } from './terrain-data';
+import { TerrainMask } from './terrain-mask';
+
+/**
+ * Formas de interpretar a imagem de origem
+ */
+export enum ImageTerrainMode {
+  SILHOUETTE = 'silhouette', // Pixels opacos são terreno (permite cavernas e saliências)
+  HEIGHTMAP = 'heightmap'    // Brilho de cada coluna define a altura (branco = mais alto)
+}
+
+/**
+ * Opções de conversão de imagem em terreno
+ */
+export interface IImageTerrainOptions {
+  mode?: ImageTerrainMode;   // Interpretação da imagem (padrão: silhueta)
+  alphaThreshold?: number;   // Opacidade mínima de um pixel sólido, 0-255 (padrão: 128)
+  useMask?: boolean;         // Gera máscara de pixels no modo mapa de altura (padrão: false)
+  width?: number;            // Largura final do terreno; a imagem é redimensionada (padrão: largura da imagem)
+  height?: number;           // Altura final do terreno; a imagem é redimensionada (padrão: altura da imagem)
+}
+
+/**
+ * Resultado do carregamento de uma imagem de terreno
+ */
+export interface IImageTerrainResult {
+  terrainData: ITerrainData;
+  texture: PIXI.Texture; // Imagem de origem, para uso opcional como visual do terreno
+}
+
+/**
+ * Classe responsável por converter imagens desenhadas pelos artistas em terreno
+ */
+export class TerrainImageLoader {
+  /**
+   * Carrega uma imagem e a converte em terreno
+   * @param url Endereço da imagem
+   * @param options Opções de conversão
+   * @returns Dados do terreno e textura da imagem
+   */
+  async load(url: string, options: IImageTerrainOptions = {}): Promise<IImageTerrainResult> {
+    const texture: PIXI.Texture = await PIXI.Assets.load(url);
+    const source = (texture.baseTexture.resource as PIXI.ImageResource).source as CanvasImageSource;
+
+    const width = options.width || texture.width;
+    const height = options.height || texture.height;
+
+    // Desenha a imagem em um canvas do tamanho final para ler os pixels
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Não foi possível ler os pixels da imagem de terreno');
+    }
+
+    context.drawImage(source, 0, 0, width, height);
+    const pixels = context.getImageData(0, 0, width, height).data;
+
+    return {
+      terrainData: this.fromPixels(pixels, width, height, options),
+      texture
+    };
+  }
+
+  /**
+   * Converte pixels RGBA em dados de terreno
+   * @param pixels Pixels RGBA em ordem de linhas
+   * @param width Largura da imagem
+   * @param height Altura da imagem
+   * @param options Opções de conversão
+   * @returns Dados do terreno com as mesmas dimensões da imagem
+   */
+  fromPixels(
+    pixels: Uint8ClampedArray | Uint8Array,
+    width: number,
+    height: number,
+    options: IImageTerrainOptions = {}
+  ): ITerrainData {
+    if (pixels.length !== width * height * 4) {
+      throw new Error(`Imagem de terreno inválida: esperado ${width * height * 4} valores RGBA, recebido ${pixels.length}`);
+    }
+
+    if (options.mode === ImageTerrainMode.HEIGHTMAP) {
+      return this.fromHeightMapImage(pixels, width, height, options.useMask === true);
+    }
+
+    return this.fromSilhouette(pixels, width, height, options.alphaThreshold ?? 128);
+  }
+
+  /**
+   * Converte o canal alfa da imagem em máscara de pixels
+   * @private
+   */
+  private fromSilhouette(
+    pixels: Uint8ClampedArray | Uint8Array,
+    width: number,
+    height: number,
+    alphaThreshold: number
+  ): ITerrainData {
+    const data = new Uint8Array(width * height);
+
+    for (let i = 0; i < data.length; i++) {
+      data[i] = pixels[i * 4 + 3] >= alphaThreshold ? 1 : 0;
+    }
+
+    const mask = new TerrainMask(width, height, data);
+
+    return {
+      heightMap: mask.toHeightMap(),
+      width,
+      height,
+      mask,
+      platforms: []
+    };
+  }
+
+  /**
+   * Converte o brilho médio de cada coluna em altura do terreno
+   * @private
+   */
+  private fromHeightMapImage(
+    pixels: Uint8ClampedArray | Uint8Array,
+    width: number,
+    height: number,
+    useMask: boolean
+  ): ITerrainData {
+    const heightMap: number[] = [];
+
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+
+      for (let y = 0; y < height; y++) {
+        const index = (y * width + x) * 4;
+
+        // Luminância percebida (escala de cinza)
+        sum += 0.299 * pixels[index] + 0.587 * pixels[index + 1] + 0.114 * pixels[index + 2];
+      }
+
+      const brightness = sum / (height * 255);
+      heightMap.push(height * (1 - brightness));
+    }
+
+    const terrainData: ITerrainData = {
+      heightMap,
+      width,
+      height,
+      platforms: []
+    };
+
+    if (useMask) {
+      terrainData.mask = TerrainMask.fromHeightMap(heightMap, width, height);
+    }
+
+    return terrainData;
+  }
+}
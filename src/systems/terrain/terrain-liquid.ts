@@ -0,0 +1,78 @@
+import { ILiquidLayer, LiquidType } from './terrain-data';
+
+/**
+ * Dano por turno padrão de cada líquido (0 = morte ao afundar)
+ */
+export const DEFAULT_LIQUID_DAMAGE: Record<LiquidType, number> = {
+  [LiquidType.WATER]: 0,
+  [LiquidType.LAVA]: 25
+};
+
+/**
+ * Cores usadas para desenhar cada líquido
+ */
+export const LIQUID_COLORS: Record<LiquidType, { color: number, alpha: number }> = {
+  [LiquidType.WATER]: { color: 0x2A6FDB, alpha: 0.6 },
+  [LiquidType.LAVA]: { color: 0xFF4500, alpha: 0.85 }
+};
+
+/**
+ * Classe que aplica as regras da camada de líquido do mapa
+ * Veículos que afundam morrem (regra de queda do Gunbound) ou sofrem dano a cada turno
+ */
+export class TerrainLiquid {
+  private layer: ILiquidLayer;
+
+  /**
+   * Cria as regras para uma camada de líquido
+   * @param layer Camada de líquido do mapa
+   */
+  constructor(layer: ILiquidLayer) {
+    this.layer = { ...layer };
+  }
+
+  /**
+   * Obtém o tipo do líquido
+   */
+  getType(): LiquidType {
+    return this.layer.type;
+  }
+
+  /**
+   * Obtém a coordenada Y da superfície do líquido
+   */
+  getLevel(): number {
+    return this.layer.level;
+  }
+
+  /**
+   * Verifica se um ponto está submerso
+   * @param y Coordenada Y
+   * @returns Verdadeiro se o ponto está abaixo da superfície
+   */
+  isSubmerged(y: number): boolean {
+    return y >= this.layer.level;
+  }
+
+  /**
+   * Obtém o dano por turno aplicado a veículos submersos
+   * @returns Dano por turno (0 indica morte instantânea)
+   */
+  getDamagePerTurn(): number {
+    return this.layer.damagePerTurn ?? DEFAULT_LIQUID_DAMAGE[this.layer.type];
+  }
+
+  /**
+   * Verifica se afundar no líquido mata o veículo imediatamente
+   */
+  isLethal(): boolean {
+    return this.getDamagePerTurn() <= 0;
+  }
+
+  /**
+   * Obtém uma cópia da camada de líquido
+   */
+  getLayer(): ILiquidLayer {
+    return { ...this.layer };
+  }
+}
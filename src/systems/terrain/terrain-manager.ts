@@ -4,12 +4,31 @@ import {
   ITerrainConfig, 
   ITerrainCollisionResult, 
   ITerrainPosition,
-  IDestructionRegion
+  ITerrainArea,
+  ITerrainDeformation,
+  CollapseMode,
+  DeformationShape,
+  ISpawnOptions,
+  ISpawnPosition,
+  ILiquidLayer
 } from './terrain-data';
 import { TerrainGenerator } from './terrain-generator';
 import { TerrainRenderer } from './terrain-renderer';
 import { TerrainPhysics } from './terrain-physics';
 import { TerrainUtility } from './terrain-utility';
+import { TerrainCollapse } from './terrain-collapse';
+import { TerrainLiquid } from './terrain-liquid';
+import { 
+  TerrainMapSerializer, 
+  ITerrainMapFile, 
+  ITerrainMapMetadata, 
+  ITerrainMapSpawn, 
+  IWindPreset 
+} from './terrain-map';
+import { TerrainImageLoader, IImageTerrainOptions } from './terrain-image-loader';
+import { Seed } from '../../utils/random';
+import { EventCoordinator } from '../../core/event-coordinator';
+import { GameEventType, EventPayloadFactory } from '../../utils/game-events';
 
 /**
  * Gerenciador principal do sistema de terreno
@@ -23,6 +42,14 @@ export class TerrainManager {
   private renderer: TerrainRenderer;
   private physics: TerrainPhysics;
   private utility: TerrainUtility;
+  private collapse: TerrainCollapse;
+  private mapSerializer: TerrainMapSerializer;
+  private imageLoader: TerrainImageLoader;
+  
+  // Informações do mapa carregado de arquivo
+  private mapName: string | undefined = undefined;
+  private spawnPoints: ITerrainMapSpawn[] = [];
+  private windPresets: IWindPreset[] = [];
   
   /**
    * Cria um novo gerenciador de terreno
@@ -42,14 +69,21 @@ export class TerrainManager {
     this.renderer = new TerrainRenderer(container, renderer);
     this.physics = new TerrainPhysics();
     this.utility = new TerrainUtility();
+    this.collapse = new TerrainCollapse();
+    this.mapSerializer = new TerrainMapSerializer();
+    this.imageLoader = new TerrainImageLoader();
   }
   
   /**
    * Gera um novo terreno
+   * @param seed Semente opcional; se omitida, usa a semente da configuração ou uma aleatória
+   * @returns Semente usada na geração
    */
-  generate(): void {
+  generate(seed?: Seed): number {
     // Gera os dados do terreno
-    this.terrainData = this.generator.generate(this.config);
+    const config = seed !== undefined ? { ...this.config, seed } : this.config;
+    this.terrainData = this.generator.generate(config);
+    this.resetMapInfo();
     
     // Inicializa os componentes com os dados gerados
     this.physics.initialize(this.terrainData);
@@ -57,6 +91,8 @@ export class TerrainManager {
     
     // Renderiza o terreno
     this.renderer.render(this.terrainData, this.config);
+    
+    return this.terrainData.seed;
   }
   
   /**
@@ -64,9 +100,135 @@ export class TerrainManager {
    */
   clear(): void {
     this.terrainData = null;
+    this.resetMapInfo();
     this.renderer.clear();
   }
   
+  /**
+   * Exporta o terreno atual no formato de arquivo de mapa
+   * @param metadata Informações adicionais; se omitidas, usa as do mapa carregado
+   * @returns Conteúdo JSON do mapa
+   */
+  exportMap(metadata: ITerrainMapMetadata = {}): string {
+    if (!this.terrainData) {
+      throw new Error('Não há terreno para exportar');
+    }
+    
+    const map = this.mapSerializer.serialize(this.terrainData, {
+      name: metadata.name ?? this.mapName,
+      spawnPoints: metadata.spawnPoints ?? this.spawnPoints,
+      windPresets: metadata.windPresets ?? this.windPresets,
+      theme: metadata.theme ?? {
+        terrainColor: this.config.terrainColor,
+        borderColor: this.config.borderColor,
+        textureColor: this.config.textureColor
+      }
+    });
+    
+    return JSON.stringify(map, null, 2);
+  }
+  
+  /**
+   * Carrega um terreno a partir de um arquivo de mapa
+   * @param input Conteúdo JSON ou objeto do mapa
+   * @throws TerrainMapError se o arquivo for inválido
+   */
+  loadMap(input: string | ITerrainMapFile): void {
+    // Valida antes de alterar qualquer estado
+    const map = this.mapSerializer.parse(input);
+    
+    this.clear();
+    
+    // Dimensões e cores passam a seguir o mapa
+    this.config = {
+      ...this.config,
+      width: map.width,
+      height: map.height,
+      useMask: map.mask !== undefined,
+      ...map.theme
+    };
+    
+    this.terrainData = this.mapSerializer.toTerrainData(map);
+    this.mapName = map.name;
+    this.spawnPoints = map.spawnPoints.map(spawn => ({ ...spawn }));
+    this.windPresets = map.windPresets.map(preset => ({ ...preset }));
+    
+    // Inicializa os componentes com os dados do mapa
+    this.physics.initialize(this.terrainData);
+    this.utility.initialize(this.terrainData);
+    
+    // Renderiza o terreno
+    this.renderer.render(this.terrainData, this.config);
+  }
+  
+  /**
+   * Carrega um terreno a partir de uma imagem (silhueta ou mapa de altura em escala de cinza)
+   * @param url Endereço da imagem
+   * @param options Opções de conversão
+   * @param useAsTexture Exibe a própria imagem como visual do terreno (padrão: verdadeiro)
+   */
+  async loadImage(url: string, options: IImageTerrainOptions = {}, useAsTexture: boolean = true): Promise<void> {
+    const { terrainData, texture } = await this.imageLoader.load(url, options);
+    
+    this.loadTerrainData(terrainData, useAsTexture ? texture : undefined);
+  }
+  
+  /**
+   * Usa dados de terreno prontos (ex: convertidos de imagem) no lugar de um terreno gerado
+   * @param terrainData Dados do terreno
+   * @param sourceTexture Imagem opcional exibida como visual do terreno
+   */
+  loadTerrainData(terrainData: ITerrainData, sourceTexture?: PIXI.Texture): void {
+    this.clear();
+    
+    this.config = {
+      ...this.config,
+      width: terrainData.width,
+      height: terrainData.height,
+      useMask: terrainData.mask !== undefined,
+      sourceTexture
+    };
+    this.terrainData = terrainData;
+    
+    // Inicializa os componentes exatamente como em um terreno gerado
+    this.physics.initialize(this.terrainData);
+    this.utility.initialize(this.terrainData);
+    
+    // Renderiza o terreno
+    this.renderer.render(this.terrainData, this.config);
+  }
+  
+  /**
+   * Obtém os pontos de surgimento definidos no mapa carregado
+   * @returns Lista de pontos (vazia para terrenos gerados)
+   */
+  getSpawnPoints(): ITerrainMapSpawn[] {
+    return this.spawnPoints.map(spawn => ({ ...spawn }));
+  }
+  
+  /**
+   * Obtém os ventos pré-definidos do mapa carregado
+   * @returns Lista de ventos (vazia para terrenos gerados)
+   */
+  getWindPresets(): IWindPreset[] {
+    return this.windPresets.map(preset => ({ ...preset }));
+  }
+  
+  /**
+   * Descarta as informações do mapa carregado
+   * @private
+   */
+  private resetMapInfo(): void {
+    this.mapName = undefined;
+    this.spawnPoints = [];
+    this.windPresets = [];
+    
+    // A imagem de origem só vale para o terreno carregado dela
+    if (this.config.sourceTexture) {
+      this.config = { ...this.config, sourceTexture: undefined };
+    }
+  }
+  
   /**
    * Verifica colisão com o terreno
    * @param x Coordenada X
@@ -80,37 +242,155 @@ export class TerrainManager {
   
   /**
    * Destrói uma área do terreno
+   * Se houver modo de desmoronamento configurado, o terreno sem sustentação é acomodado em seguida
    * @param x Centro X da explosão
    * @param y Centro Y da explosão
    * @param radius Raio da destruição
    */
   destroyAt(x: number, y: number, radius: number): void {
-    // Define a região a ser destruída
-    const region: IDestructionRegion = { x, y, radius };
+    this.deform({ x, y, radius, isFill: false });
+  }
+  
+  /**
+   * Adiciona um monte circular de terreno
+   * @param x Centro X do monte
+   * @param y Centro Y do monte
+   * @param radius Raio do monte
+   */
+  fillAt(x: number, y: number, radius: number): void {
+    this.deform({ x, y, radius, isFill: true });
+  }
+  
+  /**
+   * Deforma o terreno, removendo ou adicionando material (crateras, montes, muros e pontes)
+   * @param deformation Deformação a ser aplicada
+   */
+  deform(deformation: ITerrainDeformation): void {
+    const { x, y, radius, isFill } = deformation;
     
-    // Aplica a explosão aos dados do terreno
-    const updatedData = this.physics.applyExplosion(region);
+    // Aplica a deformação aos dados do terreno
+    let updatedData = this.physics.applyDeformation(deformation);
     
-    // Se a explosão funcionou, atualiza os dados e a renderização
+    // Se a deformação funcionou, atualiza os dados e a renderização
     if (updatedData) {
+      // Área afetada inicialmente é apenas a forma deformada
+      const bounds = this.physics.getDeformationBounds(deformation);
+      let affectedArea: ITerrainArea = {
+        x: Math.floor(bounds.x),
+        y: Math.floor(bounds.y),
+        width: Math.ceil(bounds.width),
+        height: Math.ceil(bounds.height)
+      };
+      let collapsed = false;
+      
+      // Acomoda o terreno que perdeu sustentação (apenas quando material é removido)
+      const collapseMode = this.config.collapseMode || CollapseMode.NONE;
+      if (!isFill && collapseMode !== CollapseMode.NONE) {
+        const result = this.collapse.settle(updatedData, { x, y, radius }, collapseMode);
+        
+        if (result.affectedArea) {
+          updatedData = result.terrainData;
+          affectedArea = this.mergeAreas(affectedArea, result.affectedArea);
+          collapsed = true;
+          this.physics.initialize(updatedData);
+        }
+      }
+      
       this.terrainData = updatedData;
       
       // Atualiza os outros componentes
       this.utility.initialize(updatedData);
       
-      // Atualiza a máscara de destruição no renderer
-      this.renderer.applyDestructionMask(region);
+      // A máscara de destruição do renderer só apaga crateras circulares;
+      // os demais casos redesenham o terreno por completo
+      const isCrater = !isFill && (deformation.shape || DeformationShape.CIRCLE) === DeformationShape.CIRCLE;
+      if (updatedData.mask || collapsed || !isCrater || this.config.sourceTexture) {
+        this.renderer.render(updatedData, this.config);
+      } else {
+        this.renderer.applyDestructionMask({ x, y, radius });
+      }
+      
+      // Notifica os demais sistemas (ex: veículos sobre o terreno que desmoronou)
+      EventCoordinator.getInstance().emit(
+        GameEventType.TERRAIN_DEFORMED,
+        EventPayloadFactory.createTerrainDeformationPayload({ x, y }, radius, radius, isFill, affectedArea)
+      );
     }
   }
   
   /**
-   * Encontra posições adequadas para objetos no terreno
+   * Define o modo de acomodação do terreno após explosões
+   * @param mode Modo de desmoronamento
+   */
+  setCollapseMode(mode: CollapseMode): void {
+    this.config = { ...this.config, collapseMode: mode };
+  }
+  
+  /**
+   * Combina duas áreas em um retângulo que contém ambas
+   * @private
+   */
+  private mergeAreas(a: ITerrainArea, b: ITerrainArea): ITerrainArea {
+    const left = Math.min(a.x, b.x);
+    const top = Math.min(a.y, b.y);
+    const right = Math.max(a.x + a.width, b.x + b.width);
+    const bottom = Math.max(a.y + a.height, b.y + b.height);
+    
+    return { x: left, y: top, width: right - left, height: bottom - top };
+  }
+  
+  /**
+   * Verifica se um ponto está dentro do terreno sólido
+   * @param x Coordenada X
+   * @param y Coordenada Y
+   * @returns Verdadeiro se o ponto é sólido
+   */
+  isSolidAt(x: number, y: number): boolean {
+    return this.utility.isSolidAt(x, y);
+  }
+  
+  /**
+   * Define a camada de líquido do mapa atual e das próximas gerações
+   * @param layer Camada de líquido ou null para remover
+   */
+  setLiquid(layer: ILiquidLayer | null): void {
+    this.config = { ...this.config, liquid: layer ? { ...layer } : undefined };
+    
+    if (this.terrainData) {
+      this.terrainData.liquid = layer ? { ...layer } : undefined;
+      this.renderer.render(this.terrainData, this.config);
+    }
+  }
+  
+  /**
+   * Obtém as regras da camada de líquido do mapa atual
+   * @returns Camada de líquido ou null se o mapa não tiver líquido
+   */
+  getLiquid(): TerrainLiquid | null {
+    return this.terrainData && this.terrainData.liquid ? new TerrainLiquid(this.terrainData.liquid) : null;
+  }
+  
+  /**
+   * Verifica se um ponto está submerso no líquido do mapa
+   * @param x Coordenada X
+   * @param y Coordenada Y
+   * @returns Verdadeiro se o ponto está abaixo da superfície do líquido
+   */
+  isInLiquid(x: number, y: number): boolean {
+    return !!this.terrainData && !!this.terrainData.liquid && y >= this.terrainData.liquid.level &&
+      x >= 0 && x < this.terrainData.width;
+  }
+  
+  /**
+   * Encontra posições iniciais justas para os jogadores
    * @param count Número de posições a encontrar
    * @param minDistance Distância mínima entre posições
-   * @returns Array de posições
+   * @param options Equipes, margens e inclinação aceita
+   * @returns Exatamente uma posição por jogador
+   * @throws SpawnPlacementError se o mapa não comportar todos os jogadores
    */
-  findSuitablePositions(count: number, minDistance: number = 100): ITerrainPosition[] {
-    return this.utility.findSuitablePositions(count, minDistance);
+  findSuitablePositions(count: number, minDistance: number = 100, options: ISpawnOptions = {}): ISpawnPosition[] {
+    return this.utility.findSuitablePositions(count, minDistance, options);
   }
   
   /**
@@ -124,8 +404,9 @@ export class TerrainManager {
   
   /**
    * Regenera o terreno com uma nova semente aleatória
+   * @returns Semente usada na geração
    */
-  regenerate(): void {
+  regenerate(): number {
     // Limpa o terreno existente
     this.clear();
     
@@ -138,6 +419,8 @@ export class TerrainManager {
     
     // Renderiza o novo terreno
     this.renderer.render(this.terrainData, this.config);
+    
+    return this.terrainData.seed;
   }
   
   /**
@@ -148,6 +431,14 @@ export class TerrainManager {
     return this.utility.getHeightMap();
   }
   
+  /**
+   * Obtém a semente do terreno atual
+   * @returns Semente usada na geração ou null se não houver terreno
+   */
+  getSeed(): number | null {
+    return this.terrainData ? this.terrainData.seed : null;
+  }
+  
   /**
    * Obtém os dados do terreno atual
    * @returns Dados do terreno
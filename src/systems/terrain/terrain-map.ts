@@ -0,0 +1,436 @@
+import { ITerrainData, ITerrainPlatform, ILiquidLayer, LiquidType } from './terrain-data';
+import { TerrainMask } from './terrain-mask';
+
+/**
+ * Versão atual do formato de arquivo de mapa
+ * Deve ser incrementada sempre que o formato mudar de forma incompatível
+ */
+export const TERRAIN_MAP_VERSION = 1;
+
+/**
+ * Ponto de surgimento de um veículo no mapa
+ */
+export interface ITerrainMapSpawn {
+  x: number;
+  y: number;
+  team?: number; // Time que usa este ponto (opcional)
+}
+
+/**
+ * Configuração de vento pré-definida para o mapa
+ */
+export interface IWindPreset {
+  name?: string;
+  direction: number; // Ângulo em graus
+  force: number;     // 0-10
+}
+
+/**
+ * Cores do tema visual do mapa (mesmos campos de ITerrainConfig)
+ */
+export interface ITerrainMapTheme {
+  terrainColor?: number;
+  borderColor?: number;
+  textureColor?: number;
+}
+
+/**
+ * Formato do arquivo de mapa em JSON
+ */
+export interface ITerrainMapFile {
+  version: number;
+  name?: string;
+  width: number;
+  height: number;
+  seed?: number;
+
+  // Dados do terreno: mapa de altura ou máscara de pixels
+  heightMap?: number[];
+  mask?: number[]; // Comprimentos alternados de ar e sólido (começando por ar), linha a linha
+
+  platforms: ITerrainPlatform[];
+  spawnPoints: ITerrainMapSpawn[];
+  theme: ITerrainMapTheme;
+  windPresets: IWindPreset[];
+  liquid?: ILiquidLayer; // Nível do mar do mapa (opcional)
+}
+
+/**
+ * Informações adicionais gravadas junto com o terreno
+ */
+export interface ITerrainMapMetadata {
+  name?: string;
+  spawnPoints?: ITerrainMapSpawn[];
+  windPresets?: IWindPreset[];
+  theme?: ITerrainMapTheme;
+}
+
+/**
+ * Erro lançado quando um arquivo de mapa é inválido
+ * Lista todos os problemas encontrados, não apenas o primeiro
+ */
+export class TerrainMapError extends Error {
+  readonly issues: string[];
+
+  /**
+   * Cria um novo erro de mapa
+   * @param issues Problemas encontrados no arquivo
+   */
+  constructor(issues: string[]) {
+    super(`Mapa inválido: ${issues.join('; ')}`);
+    this.name = 'TerrainMapError';
+    this.issues = issues;
+  }
+}
+
+/**
+ * Classe responsável por converter terrenos de e para o formato de arquivo de mapa
+ */
+export class TerrainMapSerializer {
+  /**
+   * Converte os dados do terreno para o formato de arquivo
+   * @param terrainData Dados do terreno
+   * @param metadata Informações adicionais do mapa
+   * @returns Mapa pronto para ser gravado em JSON
+   */
+  serialize(terrainData: ITerrainData, metadata: ITerrainMapMetadata = {}): ITerrainMapFile {
+    const map: ITerrainMapFile = {
+      version: TERRAIN_MAP_VERSION,
+      name: metadata.name,
+      width: terrainData.width,
+      height: terrainData.height,
+      seed: terrainData.seed,
+      platforms: (terrainData.platforms || []).map(platform => ({ ...platform })),
+      spawnPoints: (metadata.spawnPoints || []).map(spawn => ({ ...spawn })),
+      theme: { ...metadata.theme },
+      windPresets: (metadata.windPresets || []).map(preset => ({ ...preset }))
+    };
+
+    if (terrainData.liquid) {
+      map.liquid = { ...terrainData.liquid };
+    }
+
+    // Com máscara, o mapa de altura é derivado dela e não precisa ser gravado
+    if (terrainData.mask) {
+      map.mask = this.encodeMask(terrainData.mask);
+    } else {
+      map.heightMap = [...terrainData.heightMap];
+    }
+
+    return map;
+  }
+
+  /**
+   * Lê e valida um arquivo de mapa
+   * @param input Conteúdo JSON ou objeto já convertido
+   * @returns Mapa validado, com campos opcionais preenchidos
+   * @throws TerrainMapError se o arquivo for inválido
+   */
+  parse(input: string | unknown): ITerrainMapFile {
+    let raw: unknown = input;
+
+    if (typeof input === 'string') {
+      try {
+        raw = JSON.parse(input);
+      } catch (error) {
+        throw new TerrainMapError([`JSON inválido (${(error as Error).message})`]);
+      }
+    }
+
+    if (!this.isObject(raw)) {
+      throw new TerrainMapError(['o mapa deve ser um objeto JSON']);
+    }
+
+    const issues: string[] = [];
+    this.validate(raw, issues);
+
+    if (issues.length > 0) {
+      throw new TerrainMapError(issues);
+    }
+
+    return {
+      version: raw.version as number,
+      name: raw.name as string | undefined,
+      width: raw.width as number,
+      height: raw.height as number,
+      seed: raw.seed as number | undefined,
+      heightMap: raw.heightMap as number[] | undefined,
+      mask: raw.mask as number[] | undefined,
+      platforms: (raw.platforms as ITerrainPlatform[]) || [],
+      spawnPoints: (raw.spawnPoints as ITerrainMapSpawn[]) || [],
+      theme: (raw.theme as ITerrainMapTheme) || {},
+      windPresets: (raw.windPresets as IWindPreset[]) || [],
+      liquid: raw.liquid as ILiquidLayer | undefined
+    };
+  }
+
+  /**
+   * Converte um mapa validado em dados de terreno
+   * @param map Mapa validado
+   * @returns Dados do terreno
+   */
+  toTerrainData(map: ITerrainMapFile): ITerrainData {
+    const terrainData: ITerrainData = {
+      heightMap: [],
+      width: map.width,
+      height: map.height,
+      seed: map.seed,
+      platforms: map.platforms.map(platform => ({ ...platform }))
+    };
+
+    if (map.liquid) {
+      terrainData.liquid = { ...map.liquid };
+    }
+
+    if (map.mask) {
+      terrainData.mask = this.decodeMask(map.mask, map.width, map.height);
+      terrainData.heightMap = terrainData.mask.toHeightMap();
+    } else {
+      terrainData.heightMap = [...map.heightMap];
+    }
+
+    return terrainData;
+  }
+
+  /**
+   * Valida os campos do mapa, acumulando os problemas encontrados
+   * @private
+   */
+  private validate(raw: Record<string, unknown>, issues: string[]): void {
+    // Versão
+    if (!Number.isInteger(raw.version)) {
+      issues.push('campo "version" ausente ou inválido');
+    } else if ((raw.version as number) < 1 || (raw.version as number) > TERRAIN_MAP_VERSION) {
+      issues.push(`versão ${raw.version} não suportada (máxima: ${TERRAIN_MAP_VERSION})`);
+    }
+
+    if (raw.name !== undefined && typeof raw.name !== 'string') {
+      issues.push('campo "name" deve ser texto');
+    }
+
+    if (raw.seed !== undefined && !Number.isInteger(raw.seed)) {
+      issues.push('campo "seed" deve ser um número inteiro');
+    }
+
+    // Dimensões
+    const width = raw.width as number;
+    const height = raw.height as number;
+    const validSize = this.isPositiveInteger(width) && this.isPositiveInteger(height);
+
+    if (!this.isPositiveInteger(width)) {
+      issues.push('campo "width" deve ser um inteiro positivo');
+    }
+
+    if (!this.isPositiveInteger(height)) {
+      issues.push('campo "height" deve ser um inteiro positivo');
+    }
+
+    // Dados do terreno
+    if (raw.heightMap === undefined && raw.mask === undefined) {
+      issues.push('o mapa deve conter "heightMap" ou "mask"');
+    }
+
+    if (raw.heightMap !== undefined && raw.mask !== undefined) {
+      issues.push('o mapa deve conter apenas um entre "heightMap" e "mask"');
+    }
+
+    if (raw.heightMap !== undefined) {
+      if (!Array.isArray(raw.heightMap) || !raw.heightMap.every(value => this.isFiniteNumber(value))) {
+        issues.push('campo "heightMap" deve ser uma lista de números');
+      } else if (validSize && raw.heightMap.length !== width) {
+        issues.push(`campo "heightMap" deve ter ${width} valores, recebido ${raw.heightMap.length}`);
+      } else if (validSize && raw.heightMap.some((value: number) => value < 0 || value > height)) {
+        issues.push(`valores de "heightMap" devem estar entre 0 e ${height}`);
+      }
+    }
+
+    if (raw.mask !== undefined) {
+      if (!Array.isArray(raw.mask) || !raw.mask.every(value => Number.isInteger(value) && value >= 0)) {
+        issues.push('campo "mask" deve ser uma lista de inteiros não negativos');
+      } else if (validSize) {
+        const total = (raw.mask as number[]).reduce((sum, value) => sum + value, 0);
+
+        if (total !== width * height) {
+          issues.push(`campo "mask" deve cobrir ${width * height} pixels, recebido ${total}`);
+        }
+      }
+    }
+
+    // Plataformas
+    this.validateList(raw.platforms, 'platforms', issues, (platform, label) => {
+      if (!this.isFiniteNumber(platform.x) || !this.isFiniteNumber(platform.y)) {
+        issues.push(`${label} deve ter "x" e "y" numéricos`);
+      }
+
+      if (!this.isPositiveInteger(platform.width)) {
+        issues.push(`${label} deve ter "width" inteiro positivo`);
+      }
+
+      if (validSize && this.isFiniteNumber(platform.x) && this.isPositiveInteger(platform.width) &&
+          ((platform.x as number) < 0 || (platform.x as number) + (platform.width as number) > width)) {
+        issues.push(`${label} está fora dos limites do mapa`);
+      }
+    });
+
+    // Pontos de surgimento
+    this.validateList(raw.spawnPoints, 'spawnPoints', issues, (spawn, label) => {
+      if (!this.isFiniteNumber(spawn.x) || !this.isFiniteNumber(spawn.y)) {
+        issues.push(`${label} deve ter "x" e "y" numéricos`);
+      } else if (validSize && ((spawn.x as number) < 0 || (spawn.x as number) >= width ||
+          (spawn.y as number) < 0 || (spawn.y as number) >= height)) {
+        issues.push(`${label} está fora dos limites do mapa`);
+      }
+
+      if (spawn.team !== undefined && !Number.isInteger(spawn.team)) {
+        issues.push(`${label} deve ter "team" inteiro`);
+      }
+    });
+
+    // Tema
+    if (raw.theme !== undefined) {
+      if (!this.isObject(raw.theme)) {
+        issues.push('campo "theme" deve ser um objeto');
+      } else {
+        for (const key of ['terrainColor', 'borderColor', 'textureColor']) {
+          const color = raw.theme[key];
+
+          if (color !== undefined && !(Number.isInteger(color) && (color as number) >= 0 && (color as number) <= 0xFFFFFF)) {
+            issues.push(`theme.${key} deve ser uma cor entre 0x000000 e 0xFFFFFF`);
+          }
+        }
+      }
+    }
+
+    // Ventos pré-definidos
+    this.validateList(raw.windPresets, 'windPresets', issues, (preset, label) => {
+      if (!this.isFiniteNumber(preset.direction)) {
+        issues.push(`${label} deve ter "direction" numérico`);
+      }
+
+      if (!this.isFiniteNumber(preset.force) || (preset.force as number) < 0 || (preset.force as number) > 10) {
+        issues.push(`${label} deve ter "force" entre 0 e 10`);
+      }
+    });
+
+    // Camada de líquido
+    if (raw.liquid !== undefined) {
+      if (!this.isObject(raw.liquid)) {
+        issues.push('campo "liquid" deve ser um objeto');
+      } else {
+        const liquid = raw.liquid;
+
+        if (!Object.values(LiquidType).includes(liquid.type as LiquidType)) {
+          issues.push(`liquid.type deve ser um entre: ${Object.values(LiquidType).join(', ')}`);
+        }
+
+        if (!this.isFiniteNumber(liquid.level) ||
+            (validSize && ((liquid.level as number) < 0 || (liquid.level as number) > height))) {
+          issues.push(`liquid.level deve ser um número entre 0 e ${validSize ? height : 'a altura do mapa'}`);
+        }
+
+        if (liquid.damagePerTurn !== undefined &&
+            (!this.isFiniteNumber(liquid.damagePerTurn) || (liquid.damagePerTurn as number) < 0)) {
+          issues.push('liquid.damagePerTurn deve ser um número não negativo');
+        }
+      }
+    }
+  }
+
+  /**
+   * Valida uma lista opcional de objetos
+   * @private
+   */
+  private validateList(
+    value: unknown,
+    field: string,
+    issues: string[],
+    validateItem: (item: Record<string, unknown>, label: string) => void
+  ): void {
+    if (value === undefined) return;
+
+    if (!Array.isArray(value)) {
+      issues.push(`campo "${field}" deve ser uma lista`);
+      return;
+    }
+
+    value.forEach((item, index) => {
+      const label = `${field}[${index}]`;
+
+      if (!this.isObject(item)) {
+        issues.push(`${label} deve ser um objeto`);
+        return;
+      }
+
+      validateItem(item, label);
+    });
+  }
+
+  /**
+   * Codifica a máscara em comprimentos alternados de ar e sólido
+   * @private
+   */
+  private encodeMask(mask: TerrainMask): number[] {
+    const data = mask.getData();
+    const runs: number[] = [];
+    let current = 0;
+    let length = 0;
+
+    for (let i = 0; i < data.length; i++) {
+      if (data[i] === current) {
+        length++;
+      } else {
+        runs.push(length);
+        current = data[i];
+        length = 1;
+      }
+    }
+
+    runs.push(length);
+
+    return runs;
+  }
+
+  /**
+   * Decodifica a máscara a partir dos comprimentos alternados
+   * @private
+   */
+  private decodeMask(runs: number[], width: number, height: number): TerrainMask {
+    const data = new Uint8Array(width * height);
+    let index = 0;
+
+    runs.forEach((length, runIndex) => {
+      // Faixas ímpares são sólidas
+      if (runIndex % 2 === 1) {
+        data.fill(1, index, index + length);
+      }
+
+      index += length;
+    });
+
+    return new TerrainMask(width, height, data);
+  }
+
+  /**
+   * Verifica se um valor é um objeto simples
+   * @private
+   */
+  private isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+  }
+
+  /**
+   * Verifica se um valor é um número finito
+   * @private
+   */
+  private isFiniteNumber(value: unknown): boolean {
+    return typeof value === 'number' && Number.isFinite(value);
+  }
+
+  /**
+   * Verifica se um valor é um inteiro positivo
+   * @private
+   */
+  private isPositiveInteger(value: unknown): boolean {
+    return Number.isInteger(value) && (value as number) > 0;
+  }
+}
@@ -0,0 +1,306 @@
+import { ITerrainPosition } from './terrain-data';
+
+/**
+ * Máscara de solidez do terreno, com um valor por pixel
+ * Diferente do mapa de altura, permite túneis, cavernas e saliências
+ */
+export class TerrainMask {
+  readonly width: number;
+  readonly height: number;
+  private data: Uint8Array;
+
+  /**
+   * Cria uma nova máscara de terreno
+   * @param width Largura em pixels
+   * @param height Altura em pixels
+   * @param data Dados opcionais (1 = sólido, 0 = ar), em ordem de linhas
+   */
+  constructor(width: number, height: number, data?: Uint8Array) {
+    this.width = width;
+    this.height = height;
+
+    if (data && data.length !== width * height) {
+      throw new Error(`Máscara de terreno inválida: esperado ${width * height} pixels, recebido ${data.length}`);
+    }
+
+    this.data = data || new Uint8Array(width * height);
+  }
+
+  /**
+   * Cria uma máscara a partir de um mapa de altura
+   * Todo pixel abaixo da superfície é considerado sólido
+   * @param heightMap Mapa de altura
+   * @param width Largura do terreno
+   * @param height Altura do terreno
+   * @returns Máscara equivalente ao mapa de altura
+   */
+  static fromHeightMap(heightMap: number[], width: number, height: number): TerrainMask {
+    const mask = new TerrainMask(width, height);
+
+    for (let x = 0; x < width; x++) {
+      const surface = Math.max(0, Math.ceil(heightMap[x]));
+
+      for (let y = surface; y < height; y++) {
+        mask.data[y * width + x] = 1;
+      }
+    }
+
+    return mask;
+  }
+
+  /**
+   * Verifica se um pixel é sólido
+   * Pixels fora da máscara são considerados ar
+   * @param x Coordenada X
+   * @param y Coordenada Y
+   */
+  isSolid(x: number, y: number): boolean {
+    const px = Math.floor(x);
+    const py = Math.floor(y);
+
+    if (px < 0 || px >= this.width || py < 0 || py >= this.height) {
+      return false;
+    }
+
+    return this.data[py * this.width + px] === 1;
+  }
+
+  /**
+   * Define a solidez de um pixel
+   * @param x Coordenada X
+   * @param y Coordenada Y
+   * @param solid Verdadeiro para sólido, falso para ar
+   */
+  setSolid(x: number, y: number, solid: boolean): void {
+    const px = Math.floor(x);
+    const py = Math.floor(y);
+
+    if (px < 0 || px >= this.width || py < 0 || py >= this.height) {
+      return;
+    }
+
+    this.data[py * this.width + px] = solid ? 1 : 0;
+  }
+
+  /**
+   * Remove todos os pixels dentro de um círculo
+   * @param centerX Centro X
+   * @param centerY Centro Y
+   * @param radius Raio do círculo
+   * @returns Número de pixels removidos
+   */
+  carveCircle(centerX: number, centerY: number, radius: number): number {
+    return this.fillCircle(centerX, centerY, radius, false);
+  }
+
+  /**
+   * Define a solidez de todos os pixels dentro de um círculo
+   * @param centerX Centro X
+   * @param centerY Centro Y
+   * @param radius Raio do círculo
+   * @param solid Verdadeiro para preencher, falso para remover
+   * @returns Número de pixels alterados
+   */
+  fillCircle(centerX: number, centerY: number, radius: number, solid: boolean): number {
+    const value = solid ? 1 : 0;
+    const radiusSq = radius * radius;
+    const startX = Math.max(0, Math.floor(centerX - radius));
+    const endX = Math.min(this.width - 1, Math.ceil(centerX + radius));
+    const startY = Math.max(0, Math.floor(centerY - radius));
+    const endY = Math.min(this.height - 1, Math.ceil(centerY + radius));
+    let changed = 0;
+
+    for (let y = startY; y <= endY; y++) {
+      const dy = y + 0.5 - centerY;
+
+      for (let x = startX; x <= endX; x++) {
+        const dx = x + 0.5 - centerX;
+        const index = y * this.width + x;
+
+        if (dx * dx + dy * dy <= radiusSq && this.data[index] !== value) {
+          this.data[index] = value;
+          changed++;
+        }
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Define a solidez de todos os pixels dentro de um retângulo
+   * @param left Borda esquerda
+   * @param top Borda superior
+   * @param width Largura do retângulo
+   * @param height Altura do retângulo
+   * @param solid Verdadeiro para preencher, falso para remover
+   * @returns Número de pixels alterados
+   */
+  fillRect(left: number, top: number, width: number, height: number, solid: boolean): number {
+    const value = solid ? 1 : 0;
+    const startX = Math.max(0, Math.floor(left));
+    const endX = Math.min(this.width, Math.ceil(left + width));
+    const startY = Math.max(0, Math.floor(top));
+    const endY = Math.min(this.height, Math.ceil(top + height));
+    let changed = 0;
+
+    for (let y = startY; y < endY; y++) {
+      for (let x = startX; x < endX; x++) {
+        const index = y * this.width + x;
+
+        if (this.data[index] !== value) {
+          this.data[index] = value;
+          changed++;
+        }
+      }
+    }
+
+    return changed;
+  }
+
+  /**
+   * Obtém a altura da superfície (primeiro pixel sólido de cima para baixo)
+   * @param x Coordenada X
+   * @returns Coordenada Y da superfície ou a altura da máscara se a coluna estiver vazia
+   */
+  getSurfaceHeight(x: number): number {
+    const px = Math.floor(x);
+
+    if (px < 0 || px >= this.width) {
+      return this.height;
+    }
+
+    for (let y = 0; y < this.height; y++) {
+      if (this.data[y * this.width + px] === 1) {
+        return y;
+      }
+    }
+
+    return this.height;
+  }
+
+  /**
+   * Converte a máscara em mapa de altura (superfície superior de cada coluna)
+   * @returns Mapa de altura equivalente à superfície visível
+   */
+  toHeightMap(): number[] {
+    const heightMap: number[] = [];
+
+    for (let x = 0; x < this.width; x++) {
+      heightMap.push(this.getSurfaceHeight(x));
+    }
+
+    return heightMap;
+  }
+
+  /**
+   * Encontra o pixel sólido mais próximo dentro de um raio
+   * @param x Centro X
+   * @param y Centro Y
+   * @param radius Raio de busca
+   * @returns Pixel sólido mais próximo ou null se não houver
+   */
+  findNearestSolid(x: number, y: number, radius: number): ITerrainPosition | null {
+    const radiusSq = radius * radius;
+    const startX = Math.max(0, Math.floor(x - radius));
+    const endX = Math.min(this.width - 1, Math.ceil(x + radius));
+    const startY = Math.max(0, Math.floor(y - radius));
+    const endY = Math.min(this.height - 1, Math.ceil(y + radius));
+
+    let nearest: ITerrainPosition | null = null;
+    let nearestDistSq = radiusSq;
+
+    for (let py = startY; py <= endY; py++) {
+      for (let px = startX; px <= endX; px++) {
+        if (this.data[py * this.width + px] !== 1) continue;
+
+        const dx = px - x;
+        const dy = py - y;
+        const distSq = dx * dx + dy * dy;
+
+        if (distSq < nearestDistSq) {
+          nearestDistSq = distSq;
+          nearest = { x: px, y: py };
+        }
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * Calcula o vetor normal da superfície em um ponto
+   * A normal aponta para longe da massa sólida ao redor do ponto
+   * @param x Coordenada X
+   * @param y Coordenada Y
+   * @param sampleRadius Raio da vizinhança analisada
+   * @returns Vetor normal normalizado
+   */
+  computeNormal(x: number, y: number, sampleRadius: number = 3): { x: number, y: number } {
+    let sumX = 0;
+    let sumY = 0;
+    const cx = Math.floor(x);
+    const cy = Math.floor(y);
+
+    for (let dy = -sampleRadius; dy <= sampleRadius; dy++) {
+      for (let dx = -sampleRadius; dx <= sampleRadius; dx++) {
+        if (dx === 0 && dy === 0) continue;
+        if (dx * dx + dy * dy > sampleRadius * sampleRadius) continue;
+
+        // Pixels abaixo da máscara contam como sólidos (fundo do mapa)
+        const py = cy + dy;
+        const solid = py >= this.height || this.isSolid(cx + dx, py);
+
+        if (solid) {
+          sumX += dx;
+          sumY += dy;
+        }
+      }
+    }
+
+    const length = Math.sqrt(sumX * sumX + sumY * sumY);
+
+    if (length === 0) {
+      return { x: 0, y: -1 };
+    }
+
+    return {
+      x: -sumX / length,
+      y: -sumY / length
+    };
+  }
+
+  /**
+   * Percorre as faixas verticais contínuas de pixels sólidos de uma coluna
+   * @param x Coluna a percorrer
+   * @param callback Função chamada com o início e o comprimento de cada faixa
+   */
+  forEachSolidRun(x: number, callback: (startY: number, length: number) => void): void {
+    let runStart = -1;
+
+    for (let y = 0; y <= this.height; y++) {
+      const solid = y < this.height && this.data[y * this.width + x] === 1;
+
+      if (solid && runStart === -1) {
+        runStart = y;
+      } else if (!solid && runStart !== -1) {
+        callback(runStart, y - runStart);
+        runStart = -1;
+      }
+    }
+  }
+
+  /**
+   * Cria uma cópia independente da máscara
+   */
+  clone(): TerrainMask {
+    return new TerrainMask(this.width, this.height, this.data.slice());
+  }
+
+  /**
+   * Obtém os dados brutos da máscara
+   */
+  getData(): Uint8Array {
+    return this.data;
+  }
+}
@@ -1,4 +1,11 @@
-import { ITerrainData, ITerrainCollisionResult, IDestructionRegion } from './terrain-data';
+import { 
+  ITerrainData, 
+  ITerrainCollisionResult, 
+  IDestructionRegion, 
+  ITerrainDeformation, 
+  ITerrainArea,
+  DeformationShape 
+} from './terrain-data';
 
 /**
  * Classe responsável pela física do terreno
@@ -47,6 +54,11 @@ export class TerrainPhysics {
       return { collision: false };
     }
     
+    // Terrenos com máscara de pixels usam colisão por pixel
+    if (this.terrainData.mask) {
+      return this.checkMaskCollision(x, y, radius);
+    }
+    
     // Índice do ponto no mapa de altura (arredonda para o inteiro mais próximo)
     const index = Math.round(x);
     
@@ -103,6 +115,43 @@ export class TerrainPhysics {
     return { collision: false };
   }
   
+  /**
+   * Verifica colisão usando a máscara de pixels do terreno
+   * @param x Coordenada X
+   * @param y Coordenada Y
+   * @param radius Raio para verificar área circular
+   * @returns Resultado da colisão
+   */
+  private checkMaskCollision(x: number, y: number, radius: number): ITerrainCollisionResult {
+    const mask = this.terrainData.mask;
+    
+    // Colisão simples de ponto
+    if (radius <= 1) {
+      if (!mask.isSolid(x, y)) {
+        return { collision: false };
+      }
+      
+      return {
+        collision: true,
+        point: { x, y },
+        normal: mask.computeNormal(x, y)
+      };
+    }
+    
+    // Procura o pixel sólido mais próximo dentro do raio
+    const point = mask.findNearestSolid(x, y, radius);
+    
+    if (!point) {
+      return { collision: false };
+    }
+    
+    return {
+      collision: true,
+      point,
+      normal: mask.computeNormal(point.x, point.y)
+    };
+  }
+  
   /**
    * Calcula o vetor normal do terreno em um ponto específico
    * @param x Coordenada X do ponto
@@ -114,7 +163,12 @@ export class TerrainPhysics {
       return { x: 0, y: -1 };
     }
     
-    const { heightMap, width } = this.terrainData;
+    const { heightMap, width, mask } = this.terrainData;
+    
+    // Com máscara de pixels, a normal é calculada a partir da vizinhança sólida
+    if (mask) {
+      return mask.computeNormal(x, y);
+    }
     
     // Se estiver nas bordas, usa um vetor padrão
     if (x <= 0 || x >= width - 1) {
@@ -129,9 +183,9 @@ export class TerrainPhysics {
     const tangentX = 2; // Distância entre os pontos
     const tangentY = rightHeight - leftHeight;
     
-    // A normal é perpendicular à tangente
-    const normalX = -tangentY;
-    const normalY = tangentX;
+    // A normal é perpendicular à tangente e aponta para fora do terreno (para cima na tela)
+    const normalX = tangentY;
+    const normalY = -tangentX;
     
     // Normaliza o vetor
     const length = Math.sqrt(normalX * normalX + normalY * normalY);
@@ -156,7 +210,12 @@ export class TerrainPhysics {
       return null;
     }
     
-    const { heightMap, width, height } = this.terrainData;
+    // Terrenos com máscara de pixels abrem um buraco circular real
+    if (this.terrainData.mask) {
+      return this.applyMaskDeformation({ ...region, isFill: false });
+    }
+    
+    const { heightMap, width } = this.terrainData;
     const { x, y, radius } = region;
     
     // Determina a área afetada
@@ -186,9 +245,8 @@ export class TerrainPhysics {
     
     // Retorna os dados atualizados
     const updatedTerrainData = {
-      heightMap: updatedHeightMap,
-      width,
-      height
+      ...this.terrainData,
+      heightMap: updatedHeightMap
     };
     
     // Atualiza a referência interna
@@ -197,6 +255,145 @@ export class TerrainPhysics {
     return updatedTerrainData;
   }
   
+  /**
+   * Aplica uma deformação ao terreno, removendo ou adicionando material
+   * Permite criar montes, muros e pontes além das crateras comuns
+   * @param deformation Deformação a ser aplicada
+   * @returns Dados do terreno atualizados
+   */
+  applyDeformation(deformation: ITerrainDeformation): ITerrainData | null {
+    if (!this.terrainData) {
+      return null;
+    }
+    
+    // Remoção circular é uma explosão comum
+    if (!deformation.isFill && this.getShape(deformation) === DeformationShape.CIRCLE) {
+      return this.applyExplosion(deformation);
+    }
+    
+    if (this.terrainData.mask) {
+      return this.applyMaskDeformation(deformation);
+    }
+    
+    return this.applyHeightMapDeformation(deformation);
+  }
+  
+  /**
+   * Obtém o retângulo que contém uma deformação
+   * @param deformation Deformação do terreno
+   * @returns Área ocupada pela deformação
+   */
+  getDeformationBounds(deformation: ITerrainDeformation): ITerrainArea {
+    const { x, y, radius } = deformation;
+    
+    if (this.getShape(deformation) === DeformationShape.CIRCLE) {
+      return { x: x - radius, y: y - radius, width: radius * 2, height: radius * 2 };
+    }
+    
+    const width = deformation.width ?? radius * 2;
+    const height = deformation.height ?? radius * 2;
+    
+    return { x: x - width / 2, y: y - height / 2, width, height };
+  }
+  
+  /**
+   * Aplica uma deformação à máscara de pixels
+   * Pixels fora da forma permanecem, formando túneis, saliências e pontes
+   * @param deformation Deformação a ser aplicada
+   * @returns Dados do terreno atualizados
+   */
+  private applyMaskDeformation(deformation: ITerrainDeformation): ITerrainData {
+    const { x, y, radius, isFill } = deformation;
+    const bounds = this.getDeformationBounds(deformation);
+    
+    // Cria uma cópia da máscara para modificar
+    const updatedMask = this.terrainData.mask.clone();
+    
+    if (this.getShape(deformation) === DeformationShape.CIRCLE) {
+      updatedMask.fillCircle(x, y, radius, isFill);
+    } else {
+      updatedMask.fillRect(bounds.x, bounds.y, bounds.width, bounds.height, isFill);
+    }
+    
+    // Mantém o mapa de altura sincronizado com a superfície superior
+    const updatedHeightMap = [...this.terrainData.heightMap];
+    const startX = Math.max(0, Math.floor(bounds.x));
+    const endX = Math.min(this.terrainData.width - 1, Math.ceil(bounds.x + bounds.width));
+    
+    for (let i = startX; i <= endX; i++) {
+      updatedHeightMap[i] = updatedMask.getSurfaceHeight(i);
+    }
+    
+    const updatedTerrainData = {
+      ...this.terrainData,
+      heightMap: updatedHeightMap,
+      mask: updatedMask
+    };
+    
+    this.terrainData = updatedTerrainData;
+    
+    return updatedTerrainData;
+  }
+  
+  /**
+   * Aplica uma deformação ao mapa de altura
+   * Sem máscara não há espaços vazios sob a superfície: o material adicionado
+   * se estende até o chão e retângulos só removem terreno se alcançarem a superfície
+   * @param deformation Deformação a ser aplicada
+   * @returns Dados do terreno atualizados
+   */
+  private applyHeightMapDeformation(deformation: ITerrainDeformation): ITerrainData {
+    const { x, y, radius, isFill } = deformation;
+    const { heightMap, width } = this.terrainData;
+    const bounds = this.getDeformationBounds(deformation);
+    const isCircle = this.getShape(deformation) === DeformationShape.CIRCLE;
+    
+    const startX = Math.max(0, Math.floor(bounds.x));
+    const endX = Math.min(width - 1, Math.ceil(bounds.x + bounds.width) - 1);
+    const updatedHeightMap = [...heightMap];
+    
+    for (let i = startX; i <= endX; i++) {
+      let top = bounds.y;
+      let bottom = bounds.y + bounds.height;
+      
+      // Em círculos, a altura coberta diminui conforme se afasta do centro
+      if (isCircle) {
+        const dx = i - x;
+        const impact = Math.sqrt(Math.max(0, radius * radius - dx * dx));
+        
+        if (impact <= 0) continue;
+        
+        top = y - impact;
+        bottom = y + impact;
+      }
+      
+      if (isFill) {
+        // O topo da forma passa a ser a superfície, se estiver acima dela
+        updatedHeightMap[i] = Math.max(0, Math.min(updatedHeightMap[i], top));
+      } else if (top <= updatedHeightMap[i] && updatedHeightMap[i] < bottom) {
+        // A superfície desce até a base do retângulo
+        updatedHeightMap[i] = bottom;
+      }
+    }
+    
+    const updatedTerrainData = {
+      ...this.terrainData,
+      heightMap: updatedHeightMap
+    };
+    
+    this.terrainData = updatedTerrainData;
+    
+    return updatedTerrainData;
+  }
+  
+  /**
+   * Obtém a forma de uma deformação (padrão: círculo)
+   * @private
+   */
+  private getShape(deformation: ITerrainDeformation): DeformationShape {
+    return deformation.shape || DeformationShape.CIRCLE;
+  }
+  
   /**
    * Obtém os dados do terreno atual
    */
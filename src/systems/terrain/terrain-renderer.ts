@@ -1,5 +1,6 @@
 import * as PIXI from 'pixi.js';
 import { ITerrainData, ITerrainConfig, ITerrainVisuals, IDestructionRegion } from './terrain-data';
+import { LIQUID_COLORS } from './terrain-liquid';
 
 /**
  * Classe responsável pela renderização do terreno
@@ -19,6 +20,7 @@ export class TerrainRenderer {
     this.visuals = {
       terrainGraphics: new PIXI.Graphics(),
       destructionMask: new PIXI.Graphics(),
+      liquidGraphics: new PIXI.Graphics(),
       container
     };
     
@@ -45,14 +47,22 @@ export class TerrainRenderer {
     // Limpa gráficos existentes
     this.clear();
     
-    // Renderiza o terreno
-    this.renderTerrainShape();
-    
-    // Adiciona textura visual
-    this.addTerrainTexture();
+    // Terrenos com imagem de origem exibem a própria imagem recortada pela forma do terreno
+    if (config.sourceTexture) {
+      this.renderSourceTexture(config.sourceTexture);
+    } else {
+      // Renderiza o terreno
+      this.renderTerrainShape();
+      
+      // Adiciona textura visual
+      this.addTerrainTexture();
+      
+      // Converte para textura para melhor desempenho
+      this.convertToTexture();
+    }
     
-    // Converte para textura para melhor desempenho
-    this.convertToTexture();
+    // Desenha o líquido por cima do terreno submerso
+    this.renderLiquid();
   }
   
   /**
@@ -61,9 +71,11 @@ export class TerrainRenderer {
   clear(): void {
     this.visuals.terrainGraphics.clear();
     this.visuals.destructionMask.clear();
+    this.visuals.liquidGraphics.clear();
     
     if (this.visuals.terrainSprite) {
       this.visuals.container.removeChild(this.visuals.terrainSprite);
+      this.visuals.terrainSprite.mask = null;
       this.visuals.terrainSprite = undefined;
     }
     
@@ -73,6 +85,27 @@ export class TerrainRenderer {
     }
   }
   
+  /**
+   * Exibe a imagem de origem do terreno, usando a forma atual como máscara
+   * A textura pertence a quem a carregou e não é destruída ao limpar o terreno
+   * @private
+   */
+  private renderSourceTexture(texture: PIXI.Texture): void {
+    if (!this.terrainData) return;
+    
+    // A forma do terreno (incluindo crateras) recorta a imagem
+    this.renderTerrainShape();
+    
+    const sprite = new PIXI.Sprite(texture);
+    sprite.width = this.terrainData.width;
+    sprite.height = this.terrainData.height;
+    sprite.mask = this.visuals.terrainGraphics;
+    
+    this.visuals.container.addChild(this.visuals.terrainGraphics);
+    this.visuals.container.addChild(sprite);
+    this.visuals.terrainSprite = sprite;
+  }
+  
   /**
    * Renderiza a forma básica do terreno
    * @private
@@ -84,6 +117,12 @@ export class TerrainRenderer {
     const terrainColor = this.config.terrainColor || 0x5B3A29; // Marrom para terra
     const borderColor = this.config.borderColor || 0x3D2817; // Marrom escuro para borda
     
+    // Terrenos com máscara de pixels podem ter cavernas e saliências
+    if (this.terrainData.mask) {
+      this.renderMaskShape(terrainColor, borderColor);
+      return;
+    }
+    
     // Define o estilo de preenchimento
     this.visuals.terrainGraphics.beginFill(terrainColor);
     
@@ -110,6 +149,34 @@ export class TerrainRenderer {
     }
   }
   
+  /**
+   * Renderiza o terreno a partir da máscara de pixels
+   * Cada coluna é desenhada como faixas verticais contínuas de pixels sólidos
+   * @private
+   */
+  private renderMaskShape(terrainColor: number, borderColor: number): void {
+    const { mask, width } = this.terrainData;
+    const graphics = this.visuals.terrainGraphics;
+    
+    // Preenchimento das faixas sólidas
+    graphics.beginFill(terrainColor);
+    for (let x = 0; x < width; x++) {
+      mask.forEachSolidRun(x, (startY, length) => {
+        graphics.drawRect(x, startY, 1, length);
+      });
+    }
+    graphics.endFill();
+    
+    // Borda no topo de cada faixa (inclusive tetos de cavernas e pontes)
+    graphics.beginFill(borderColor);
+    for (let x = 0; x < width; x++) {
+      mask.forEachSolidRun(x, (startY) => {
+        graphics.drawRect(x, startY, 1, 2);
+      });
+    }
+    graphics.endFill();
+  }
+  
   /**
    * Adiciona textura visual ao terreno
    * @private
@@ -178,6 +245,24 @@ export class TerrainRenderer {
     }
   }
   
+  /**
+   * Desenha a camada de líquido do nível do mar até o fundo do mapa
+   * @private
+   */
+  private renderLiquid(): void {
+    if (!this.terrainData || !this.terrainData.liquid) return;
+    
+    const { width, height, liquid } = this.terrainData;
+    const { color, alpha } = LIQUID_COLORS[liquid.type];
+    
+    this.visuals.liquidGraphics.beginFill(color, alpha);
+    this.visuals.liquidGraphics.drawRect(0, liquid.level, width, height - liquid.level);
+    this.visuals.liquidGraphics.endFill();
+    
+    // Mantém o líquido acima do sprite do terreno
+    this.visuals.container.addChild(this.visuals.liquidGraphics);
+  }
+  
   /**
    * Atualiza a máscara de destruição do terreno
    * @param region Região a ser destruída
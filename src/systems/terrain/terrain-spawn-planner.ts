@@ -0,0 +1,254 @@
+import { ITerrainData, ISpawnOptions, ISpawnPosition } from './terrain-data';
+
+/**
+ * Erro lançado quando o mapa não comporta o número de jogadores pedido
+ */
+export class SpawnPlacementError extends Error {
+  readonly requested: number;
+  readonly placed: number;
+
+  /**
+   * Cria um novo erro de posicionamento
+   * @param message Descrição do problema
+   * @param requested Número de posições pedidas
+   * @param placed Maior número de posições que o mapa comportou
+   */
+  constructor(message: string, requested: number, placed: number) {
+    super(message);
+    this.name = 'SpawnPlacementError';
+    this.requested = requested;
+    this.placed = placed;
+  }
+}
+
+/**
+ * Ponto candidato a posição inicial
+ */
+export interface ISpawnCandidate {
+  x: number;
+  y: number;
+  slope: number;
+}
+
+/**
+ * Número máximo de alturas-alvo testadas ao equilibrar as equipes
+ */
+const MAX_TARGET_HEIGHTS = 16;
+
+/**
+ * Classe responsável por escolher posições iniciais justas para os jogadores
+ * Cada equipe recebe uma faixa do mapa e as posições são escolhidas em torno de uma
+ * mesma altura-alvo, equilibrando a vantagem de altura e a inclinação entre as equipes
+ * O resultado depende apenas do terreno, então a mesma semente gera as mesmas posições
+ */
+export class TerrainSpawnPlanner {
+  /**
+   * Planeja as posições iniciais dos jogadores
+   * @param terrainData Dados do terreno
+   * @param count Número de jogadores
+   * @param minDistance Distância mínima entre duas posições
+   * @param options Opções do planejamento
+   * @returns Uma posição por jogador, na ordem dos jogadores
+   * @throws SpawnPlacementError se o mapa não comportar todos os jogadores
+   */
+  plan(
+    terrainData: ITerrainData,
+    count: number,
+    minDistance: number = 100,
+    options: ISpawnOptions = {}
+  ): ISpawnPosition[] {
+    if (count <= 0) {
+      return [];
+    }
+
+    const teamCount = Math.max(1, Math.min(options.teamCount || count, count));
+    const edgeMargin = options.edgeMargin ?? 50;
+    const footprint = options.footprint ?? 30;
+    const maxSlope = options.maxSlope ?? 1;
+    const { width } = terrainData;
+
+    // Jogadores distribuídos entre as equipes em rodízio
+    const slots: number[] = new Array(teamCount).fill(0);
+    for (let player = 0; player < count; player++) {
+      slots[player % teamCount]++;
+    }
+
+    // Cada equipe fica com uma faixa do mapa
+    const zoneWidth = width / teamCount;
+    const candidates = this.findCandidates(terrainData, edgeMargin, footprint, maxSlope);
+    const zones: ISpawnCandidate[][] = [];
+
+    for (let team = 0; team < teamCount; team++) {
+      const zone = candidates.filter(c => c.x >= team * zoneWidth && c.x < (team + 1) * zoneWidth);
+
+      if (zone.length === 0) {
+        throw new SpawnPlacementError(
+          `Não foi possível posicionar ${count} jogadores: a faixa da equipe ${team} não tem terreno plano o suficiente`,
+          count,
+          0
+        );
+      }
+
+      zones.push(zone);
+    }
+
+    // Testa várias alturas-alvo e fica com o plano mais equilibrado
+    let bestPlan: ISpawnPosition[][] | null = null;
+    let bestCost = Infinity;
+    let mostPlaced = 0;
+
+    for (const target of this.getTargetHeights(candidates)) {
+      const plan = this.planForTarget(zones, slots, zoneWidth, target, minDistance);
+      const placed = plan.reduce((sum, team) => sum + team.length, 0);
+      mostPlaced = Math.max(mostPlaced, placed);
+
+      if (placed < count) {
+        continue;
+      }
+
+      const cost = this.getImbalance(plan, footprint);
+      if (cost < bestCost) {
+        bestCost = cost;
+        bestPlan = plan;
+      }
+    }
+
+    if (!bestPlan) {
+      throw new SpawnPlacementError(
+        `Não foi possível posicionar ${count} jogadores em ${teamCount} equipes com distância mínima de ${minDistance}px ` +
+        `(o mapa comporta ${mostPlaced})`,
+        count,
+        mostPlaced
+      );
+    }
+
+    // Ordena as posições por jogador (jogador i pertence à equipe i % teamCount)
+    const positions: ISpawnPosition[] = [];
+    const nextIndex: number[] = new Array(teamCount).fill(0);
+
+    for (let player = 0; player < count; player++) {
+      const team = player % teamCount;
+      positions.push(bestPlan[team][nextIndex[team]++]);
+    }
+
+    return positions;
+  }
+
+  /**
+   * Lista os pontos do terreno onde um veículo pode ficar: planos o suficiente e fora do líquido
+   * @param terrainData Dados do terreno
+   * @param edgeMargin Distância mínima das bordas do mapa
+   * @param footprint Largura da área avaliada sob cada ponto
+   * @param maxSlope Inclinação máxima aceita na área
+   * @returns Pontos seguros, da esquerda para a direita
+   */
+  findCandidates(
+    terrainData: ITerrainData,
+    edgeMargin: number,
+    footprint: number,
+    maxSlope: number
+  ): ISpawnCandidate[] {
+    const { heightMap, width, height, liquid } = terrainData;
+    const half = Math.floor(footprint / 2);
+
+    // Abaixo da superfície do líquido o veículo afundaria
+    const floor = liquid ? Math.min(height, liquid.level) : height;
+    const candidates: ISpawnCandidate[] = [];
+
+    for (let x = Math.ceil(edgeMargin); x < width - edgeMargin; x++) {
+      let min = Infinity;
+      let max = -Infinity;
+
+      for (let i = Math.max(0, x - half); i <= Math.min(width - 1, x + half); i++) {
+        min = Math.min(min, heightMap[i]);
+        max = Math.max(max, heightMap[i]);
+      }
+
+      // Descarta vãos sem terreno, áreas submersas e áreas íngremes demais
+      const slope = (max - min) / Math.max(1, footprint);
+      if (max >= floor || slope > maxSlope) {
+        continue;
+      }
+
+      candidates.push({ x, y: heightMap[x], slope });
+    }
+
+    return candidates;
+  }
+
+  /**
+   * Escolhe alturas-alvo distribuídas entre as alturas dos candidatos
+   * @private
+   */
+  private getTargetHeights(candidates: ISpawnCandidate[]): number[] {
+    const heights = candidates.map(c => c.y).sort((a, b) => a - b);
+    const steps = Math.min(MAX_TARGET_HEIGHTS, heights.length);
+    const targets: number[] = [];
+
+    for (let i = 0; i < steps; i++) {
+      targets.push(heights[Math.floor((i + 0.5) * heights.length / steps)]);
+    }
+
+    return targets;
+  }
+
+  /**
+   * Escolhe as posições de cada equipe o mais perto possível da altura-alvo
+   * @private
+   */
+  private planForTarget(
+    zones: ISpawnCandidate[][],
+    slots: number[],
+    zoneWidth: number,
+    target: number,
+    minDistance: number
+  ): ISpawnPosition[][] {
+    const chosen: ISpawnPosition[] = [];
+
+    return zones.map((zone, team) => {
+      const zoneCenter = (team + 0.5) * zoneWidth;
+
+      // Prefere a altura-alvo, terreno plano e, em empate, o centro da faixa
+      const ranked = [...zone].sort((a, b) => this.score(a, target, zoneCenter) - this.score(b, target, zoneCenter));
+      const picked: ISpawnPosition[] = [];
+
+      for (const candidate of ranked) {
+        if (picked.length >= slots[team]) {
+          break;
+        }
+
+        const tooClose = chosen.some(pos => Math.hypot(pos.x - candidate.x, pos.y - candidate.y) < minDistance);
+        if (!tooClose) {
+          const position = { x: candidate.x, y: candidate.y, team, slope: candidate.slope };
+          picked.push(position);
+          chosen.push(position);
+        }
+      }
+
+      return picked;
+    });
+  }
+
+  /**
+   * Pontuação de um candidato (menor é melhor)
+   * @private
+   */
+  private score(candidate: ISpawnCandidate, target: number, zoneCenter: number): number {
+    return Math.abs(candidate.y - target) + candidate.slope * 10 + Math.abs(candidate.x - zoneCenter) * 0.01;
+  }
+
+  /**
+   * Mede o desequilíbrio entre as equipes: diferença de altura média e de inclinação média
+   * @private
+   */
+  private getImbalance(plan: ISpawnPosition[][], footprint: number): number {
+    const averages = plan.map(team => ({
+      y: team.reduce((sum, pos) => sum + pos.y, 0) / team.length,
+      slope: team.reduce((sum, pos) => sum + pos.slope, 0) / team.length
+    }));
+
+    const spread = (values: number[]): number => Math.max(...values) - Math.min(...values);
+
+    return spread(averages.map(a => a.y)) + spread(averages.map(a => a.slope)) * footprint;
+  }
+}
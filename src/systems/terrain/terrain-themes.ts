@@ -0,0 +1,201 @@
+import { CONFIG } from '../../core/config';
+import { BackgroundMusic } from '../../core/audio-manager';
+import { ITerrainConfig, TerrainGenerationMode, ILiquidLayer, LiquidType } from './terrain-data';
+
+/**
+ * Temas de mapa disponíveis
+ */
+export enum TerrainTheme {
+  HENESYS = 'henesys',     // Campos verdes e colinas suaves
+  EL_NATH = 'el_nath',     // Montanhas nevadas com picos altos
+  LUDIBRIUM = 'ludibrium', // Terreno em blocos de brinquedo
+  PERION = 'perion'        // Rochas áridas e escarpadas
+}
+
+/**
+ * Perfil de ruído usado na geração do relevo
+ * As proporções são relativas à altura do mapa, para funcionar em qualquer resolução
+ */
+export interface ITerrainNoiseProfile {
+  mode?: TerrainGenerationMode; // Modo de geração do relevo (padrão: clássico)
+  noiseScale: number;       // Escala do ruído (menor = colinas mais largas)
+  amplitudeRatio: number;   // Variação de altura em proporção à altura do mapa
+  baseHeightRatio: number;  // Altura base em proporção à altura do mapa
+  smoothingFactor: number;  // Suavização do terreno
+}
+
+/**
+ * Estilo das plataformas do tema
+ */
+export interface ITerrainPlatformStyle {
+  platformCount: number;    // Número de plataformas
+  platformWidth: number;    // Largura das plataformas
+  terrainStep?: number;     // Degrau de altura, para relevo em blocos (opcional)
+}
+
+/**
+ * Paleta de cores do terreno
+ */
+export interface ITerrainPalette {
+  terrainColor: number;     // Cor do terreno
+  borderColor: number;      // Cor da borda
+  textureColor: number;     // Cor das linhas de textura
+}
+
+/**
+ * Líquido que inunda as partes baixas do mapa
+ */
+export interface ITerrainLiquidStyle {
+  type: LiquidType;         // Tipo do líquido
+  levelRatio: number;       // Nível do mar em proporção à altura do mapa (a partir do topo)
+  damagePerTurn?: number;   // Dano por turno a veículos submersos (padrão: o do tipo do líquido)
+}
+
+/**
+ * Predefinição completa de um tema de mapa
+ */
+export interface ITerrainThemePreset {
+  theme: TerrainTheme;
+  displayName: string;
+  noise: ITerrainNoiseProfile;
+  platforms: ITerrainPlatformStyle;
+  palette: ITerrainPalette;
+  backgroundColor: number;  // Cor do céu
+  gravityMultiplier: number; // Multiplicador aplicado a CONFIG.PHYSICS.GRAVITY
+  windMultiplier: number;   // Multiplicador aplicado ao vento sorteado
+  music: BackgroundMusic;   // Música de fundo da partida
+  liquid?: ITerrainLiquidStyle; // Líquido do mapa (opcional)
+}
+
+/**
+ * Predefinições de cada tema
+ */
+const TERRAIN_THEMES: Record<TerrainTheme, ITerrainThemePreset> = {
+  [TerrainTheme.HENESYS]: {
+    theme: TerrainTheme.HENESYS,
+    displayName: 'Campos de Henesys',
+    noise: { noiseScale: 0.006, amplitudeRatio: 0.2, baseHeightRatio: 0.7, smoothingFactor: 8 },
+    platforms: { platformCount: 4, platformWidth: 60 },
+    palette: { terrainColor: 0x4E8C2F, borderColor: 0x2F5E1A, textureColor: 0x3F7526 },
+    backgroundColor: CONFIG.SCREEN.BACKGROUND_COLOR,
+    gravityMultiplier: 1,
+    windMultiplier: 1,
+    music: BackgroundMusic.HENESYS
+  },
+  [TerrainTheme.EL_NATH]: {
+    theme: TerrainTheme.EL_NATH,
+    displayName: 'Montanhas de El Nath',
+    noise: { noiseScale: 0.012, amplitudeRatio: 0.35, baseHeightRatio: 0.65, smoothingFactor: 4 },
+    platforms: { platformCount: 3, platformWidth: 45 },
+    palette: { terrainColor: 0xE8F0F8, borderColor: 0xA8BCD0, textureColor: 0xC8D8E8 },
+    backgroundColor: 0xB8CCE0,
+    gravityMultiplier: 1,
+    windMultiplier: 1.5,
+    music: BackgroundMusic.EL_NATH
+  },
+  [TerrainTheme.LUDIBRIUM]: {
+    theme: TerrainTheme.LUDIBRIUM,
+    displayName: 'Blocos de Ludibrium',
+    noise: { noiseScale: 0.01, amplitudeRatio: 0.25, baseHeightRatio: 0.7, smoothingFactor: 3 },
+    platforms: { platformCount: 5, platformWidth: 40, terrainStep: 20 },
+    palette: { terrainColor: 0xE86A9A, borderColor: 0x8A3A60, textureColor: 0xF2A0C0 },
+    backgroundColor: 0xF5D6E6,
+    gravityMultiplier: 0.8,
+    windMultiplier: 0.5,
+    music: BackgroundMusic.LUDIBRIUM
+  },
+  [TerrainTheme.PERION]: {
+    theme: TerrainTheme.PERION,
+    displayName: 'Rochedos de Perion',
+    noise: {
+      mode: TerrainGenerationMode.FRACTAL,
+      noiseScale: 0.01,
+      amplitudeRatio: 0.3,
+      baseHeightRatio: 0.72,
+      smoothingFactor: 2
+    },
+    platforms: { platformCount: 2, platformWidth: 50 },
+    palette: { terrainColor: 0x8A5A34, borderColor: 0x5A3A1E, textureColor: 0x704828 },
+    backgroundColor: 0xE8A870,
+    gravityMultiplier: 1.2,
+    windMultiplier: 1.2,
+    music: BackgroundMusic.PERION,
+    liquid: { type: LiquidType.LAVA, levelRatio: 0.9 }
+  }
+};
+
+/**
+ * Obtém a predefinição de um tema
+ * @param theme Tema desejado
+ * @returns Predefinição do tema
+ */
+export function getTerrainTheme(theme: TerrainTheme): ITerrainThemePreset {
+  const preset = TERRAIN_THEMES[theme];
+
+  if (!preset) {
+    throw new Error(`Tema de terreno desconhecido: ${theme}`);
+  }
+
+  return preset;
+}
+
+/**
+ * Lista todos os temas disponíveis (ex: para a tela de criação de partida)
+ * @returns Predefinições de todos os temas
+ */
+export function getTerrainThemes(): ITerrainThemePreset[] {
+  return Object.values(TERRAIN_THEMES);
+}
+
+/**
+ * Aplica um tema às configurações do terreno
+ * Valores já definidos na configuração têm prioridade sobre os do tema
+ * @param theme Tema a aplicar
+ * @param config Configuração base (dimensões e ajustes manuais)
+ * @returns Configuração completa para o gerador e o renderizador
+ */
+export function applyTerrainTheme(theme: TerrainTheme, config: ITerrainConfig): ITerrainConfig {
+  const preset = getTerrainTheme(theme);
+
+  return {
+    mode: preset.noise.mode,
+    noiseScale: preset.noise.noiseScale,
+    amplitude: config.height * preset.noise.amplitudeRatio,
+    baseHeight: config.height * preset.noise.baseHeightRatio,
+    smoothingFactor: preset.noise.smoothingFactor,
+    platformCount: preset.platforms.platformCount,
+    platformWidth: preset.platforms.platformWidth,
+    terrainStep: preset.platforms.terrainStep,
+    ...preset.palette,
+    ...stripUndefined(config)
+  };
+}
+
+/**
+ * Obtém a camada de líquido de um tema para um mapa com a altura informada
+ * @param theme Tema do mapa
+ * @param height Altura do mapa em pixels
+ * @returns Camada de líquido ou null se o tema não tiver líquido
+ */
+export function getThemeLiquid(theme: TerrainTheme, height: number): ILiquidLayer | null {
+  const liquid = getTerrainTheme(theme).liquid;
+
+  if (!liquid) {
+    return null;
+  }
+
+  return {
+    type: liquid.type,
+    level: Math.round(height * liquid.levelRatio),
+    ...(liquid.damagePerTurn !== undefined ? { damagePerTurn: liquid.damagePerTurn } : {})
+  };
+}
+
+/**
+ * Remove campos indefinidos para não sobrescrever os valores do tema
+ */
+function stripUndefined(config: ITerrainConfig): ITerrainConfig {
+  return Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  ) as unknown as ITerrainConfig;
+}
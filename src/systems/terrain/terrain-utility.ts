@@ -1,10 +1,12 @@
-import { ITerrainData, ITerrainPosition } from './terrain-data';
+import { ITerrainData, ITerrainPosition, ISpawnOptions, ISpawnPosition } from './terrain-data';
+import { TerrainSpawnPlanner } from './terrain-spawn-planner';
 
 /**
  * Classe com utilidades para o terreno
  */
 export class TerrainUtility {
   private terrainData: ITerrainData | null = null;
+  private spawnPlanner: TerrainSpawnPlanner = new TerrainSpawnPlanner();
   
   /**
    * Inicializa com os dados do terreno
@@ -15,45 +17,49 @@ export class TerrainUtility {
   }
   
   /**
-   * Encontra posições adequadas para colocar objetos no terreno
+   * Encontra posições iniciais justas para os jogadores
    * @param count Número de posições a encontrar
    * @param minDistance Distância mínima entre as posições
-   * @returns Array de posições {x, y}
+   * @param options Equipes, margens e inclinação aceita
+   * @returns Exatamente uma posição por jogador
+   * @throws SpawnPlacementError se o mapa não comportar todos os jogadores
    */
-  findSuitablePositions(count: number, minDistance: number = 100): ITerrainPosition[] {
+  findSuitablePositions(count: number, minDistance: number = 100, options: ISpawnOptions = {}): ISpawnPosition[] {
     if (!this.terrainData) {
       return [];
     }
     
-    const { heightMap, width } = this.terrainData;
-    const positions: ITerrainPosition[] = [];
-    const attempts = count * 5; // Número de tentativas
+    return this.spawnPlanner.plan(this.terrainData, count, minDistance, options);
+  }
+  
+  /**
+   * Sorteia uma posição segura na superfície: plana, fora do líquido e longe das bordas e de outras posições
+   * @param random Gerador de números aleatórios entre 0 e 1
+   * @param avoid Posições a evitar (ex: veículos e caixas já no mapa)
+   * @param minDistance Distância horizontal mínima de cada posição evitada
+   * @param options Margens e inclinação aceita
+   * @returns Posição na superfície ou null se nenhuma atender às restrições
+   */
+  findRandomSafePosition(
+    random: () => number = Math.random,
+    avoid: ITerrainPosition[] = [],
+    minDistance: number = 50,
+    options: ISpawnOptions = {}
+  ): ITerrainPosition | null {
+    if (!this.terrainData) {
+      return null;
+    }
     
-    for (let i = 0; i < attempts && positions.length < count; i++) {
-      // Escolhe um X aleatório, evitando as bordas
-      const x = Math.floor(50 + Math.random() * (width - 100));
-      
-      // Encontra a altura do terreno nesse ponto
-      const y = heightMap[x];
-      
-      // Verifica se o ponto está a uma distância mínima dos outros
-      let tooClose = false;
-      
-      for (const pos of positions) {
-        const distance = Math.sqrt(Math.pow(pos.x - x, 2) + Math.pow(pos.y - y, 2));
-        if (distance < minDistance) {
-          tooClose = true;
-          break;
-        }
-      }
-      
-      // Se não estiver muito próximo, adiciona à lista
-      if (!tooClose) {
-        positions.push({ x, y });
-      }
+    const candidates = this.spawnPlanner
+      .findCandidates(this.terrainData, options.edgeMargin ?? 50, options.footprint ?? 30, options.maxSlope ?? 1)
+      .filter(candidate => avoid.every(position => Math.abs(position.x - candidate.x) >= minDistance));
+    
+    if (candidates.length === 0) {
+      return null;
     }
     
-    return positions;
+    const chosen = candidates[Math.min(candidates.length - 1, Math.floor(random() * candidates.length))];
+    return { x: chosen.x, y: chosen.y };
   }
   
   /**
@@ -77,6 +83,34 @@ export class TerrainUtility {
     return heightMap[clampedX];
   }
   
+  /**
+   * Verifica se um ponto está dentro do terreno sólido
+   * @param x Posição X
+   * @param y Posição Y
+   * @returns Verdadeiro se o ponto é sólido
+   */
+  isSolidAt(x: number, y: number): boolean {
+    if (!this.terrainData) {
+      return false;
+    }
+    
+    const { mask, width, height } = this.terrainData;
+    
+    if (x < 0 || x >= width || y < 0) {
+      return false;
+    }
+    
+    if (y >= height) {
+      return true;
+    }
+    
+    if (mask) {
+      return mask.isSolid(x, y);
+    }
+    
+    return y >= this.getHeightAt(x);
+  }
+  
   /**
    * Encontra o ponto de colisão mais próximo no terreno
    * @param x Posição X
@@ -141,6 +175,14 @@ export class TerrainUtility {
       const x = startX + stepX * i;
       const y = startY + stepY * i;
       
+      // Com máscara de pixels, verifica o pixel diretamente (permite passar por túneis)
+      if (this.terrainData.mask) {
+        if (this.isSolidAt(x, y)) {
+          return { x, y };
+        }
+        continue;
+      }
+      
       // Obtém a altura do terreno nesse ponto
       const terrainHeight = this.getHeightAt(x);
       
@@ -0,0 +1,185 @@
+import { Vehicle } from '../entities/vehicle';
+import { WeaponType } from '../entities/vehicles/types';
+
+/**
+ * Espaços de arma que o jogador pode escolher no turno (Tiro 1, Tiro 2 e Tiro Especial)
+ */
+export enum WeaponSlot {
+  PRIMARY = 'primary',
+  SECONDARY = 'secondary',
+  SPECIAL = 'special'
+}
+
+/**
+ * Ordem dos espaços de arma na interface
+ */
+export const WEAPON_SLOTS: WeaponSlot[] = [WeaponSlot.PRIMARY, WeaponSlot.SECONDARY, WeaponSlot.SPECIAL];
+
+/**
+ * Regras dos espaços de arma
+ */
+export interface IWeaponSlotRules {
+  cooldowns: Record<WeaponSlot, number>; // Turnos do próprio veículo até o espaço voltar a ficar disponível após o disparo
+  specialChargePerShot: number;          // Carga do tiro especial ganha a cada disparo comum
+}
+
+/**
+ * Regras padrão: o Tiro 2 descansa um turno e o especial enche em quatro disparos comuns
+ */
+export const DEFAULT_WEAPON_SLOT_RULES: IWeaponSlotRules = {
+  cooldowns: {
+    [WeaponSlot.PRIMARY]: 0,
+    [WeaponSlot.SECONDARY]: 2,
+    [WeaponSlot.SPECIAL]: 0
+  },
+  specialChargePerShot: 25
+};
+
+/**
+ * Situação de um espaço de arma para um veículo
+ */
+export interface IWeaponSlotState {
+  slot: WeaponSlot;
+  weapon: WeaponType;
+  available: boolean;
+  cooldown: number; // Turnos restantes de espera
+  charge: number;   // Fração da carga necessária (1 = pronto; espaços sem carga são sempre 1)
+}
+
+/**
+ * Sistema de escolha de arma do turno
+ * Guarda o espaço escolhido, as esperas de cada veículo e decide quais espaços podem disparar
+ */
+export class WeaponSlotSystem {
+  private rules: IWeaponSlotRules;
+  private selected: WeaponSlot = WeaponSlot.PRIMARY;
+  private cooldowns: Map<number, Map<WeaponSlot, number>> = new Map(); // Veículo → turnos restantes por espaço
+
+  /**
+   * Cria um novo sistema de escolha de arma
+   * @param rules Regras dos espaços (campos omitidos usam o padrão)
+   */
+  constructor(rules: Partial<IWeaponSlotRules> = {}) {
+    this.rules = { ...DEFAULT_WEAPON_SLOT_RULES, ...rules };
+  }
+
+  /**
+   * Obtém o espaço escolhido
+   */
+  getSelected(): WeaponSlot {
+    return this.selected;
+  }
+
+  /**
+   * Escolhe o espaço de arma do disparo
+   * @param vehicle Veículo do turno
+   * @param slot Espaço desejado
+   * @returns Verdadeiro se o espaço está disponível e foi escolhido
+   */
+  select(vehicle: Vehicle, slot: WeaponSlot): boolean {
+    if (!this.isAvailable(vehicle, slot)) {
+      return false;
+    }
+
+    this.selected = slot;
+    return true;
+  }
+
+  /**
+   * Obtém a arma disparada por um espaço
+   * @param vehicle Veículo do turno
+   * @param slot Espaço de arma
+   */
+  getWeapon(vehicle: Vehicle, slot: WeaponSlot): WeaponType {
+    switch (slot) {
+      case WeaponSlot.SECONDARY:
+        return vehicle.secondaryWeapon;
+      case WeaponSlot.SPECIAL:
+        return vehicle.specialWeapon;
+      default:
+        return vehicle.primaryWeapon;
+    }
+  }
+
+  /**
+   * Obtém os turnos restantes até um espaço voltar a ficar disponível
+   * @param vehicle Veículo
+   * @param slot Espaço de arma
+   */
+  getCooldown(vehicle: Vehicle, slot: WeaponSlot): number {
+    return this.cooldowns.get(vehicle.id)?.get(slot) ?? 0;
+  }
+
+  /**
+   * Verifica se um espaço pode disparar: sem espera e, no especial, com a carga cheia
+   * @param vehicle Veículo
+   * @param slot Espaço de arma
+   */
+  isAvailable(vehicle: Vehicle, slot: WeaponSlot): boolean {
+    if (this.getCooldown(vehicle, slot) > 0) {
+      return false;
+    }
+
+    return slot !== WeaponSlot.SPECIAL || vehicle.specialAbilityCharge >= vehicle.maxSpecialAbilityCharge;
+  }
+
+  /**
+   * Obtém a situação de todos os espaços de um veículo, na ordem da interface
+   * @param vehicle Veículo
+   */
+  getStates(vehicle: Vehicle): IWeaponSlotState[] {
+    return WEAPON_SLOTS.map(slot => ({
+      slot,
+      weapon: this.getWeapon(vehicle, slot),
+      available: this.isAvailable(vehicle, slot),
+      cooldown: this.getCooldown(vehicle, slot),
+      charge: slot === WeaponSlot.SPECIAL
+        ? Math.min(1, vehicle.specialAbilityCharge / vehicle.maxSpecialAbilityCharge)
+        : 1
+    }));
+  }
+
+  /**
+   * Início do turno de um veículo: reduz suas esperas e volta a escolha para o Tiro 1
+   * @param vehicle Veículo do turno
+   */
+  startTurn(vehicle: Vehicle): void {
+    const cooldowns = this.cooldowns.get(vehicle.id);
+    if (cooldowns) {
+      cooldowns.forEach((turns, slot) => cooldowns.set(slot, Math.max(0, turns - 1)));
+    }
+
+    this.selected = WeaponSlot.PRIMARY;
+  }
+
+  /**
+   * Registra o disparo de um espaço: aplica a espera e gasta ou acumula a carga do especial
+   * @param vehicle Veículo que disparou
+   * @param slot Espaço disparado
+   */
+  consume(vehicle: Vehicle, slot: WeaponSlot): void {
+    const cooldown = this.rules.cooldowns[slot];
+    if (cooldown > 0) {
+      if (!this.cooldowns.has(vehicle.id)) {
+        this.cooldowns.set(vehicle.id, new Map());
+      }
+      this.cooldowns.get(vehicle.id).set(slot, cooldown);
+    }
+
+    if (slot === WeaponSlot.SPECIAL) {
+      vehicle.useSpecialAbility();
+    } else {
+      vehicle.chargeSpecialAbility(this.rules.specialChargePerShot);
+    }
+
+    this.selected = WeaponSlot.PRIMARY;
+  }
+
+  /**
+   * Limpa as esperas de todos os veículos (ex: reinício da partida)
+   */
+  clear(): void {
+    this.cooldowns.clear();
+    this.selected = WeaponSlot.PRIMARY;
+  }
+}
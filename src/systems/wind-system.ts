@@ -0,0 +1,219 @@
+import { EventEmitter } from 'eventemitter3';
+import { CONFIG } from '../core/config';
+import { EventCoordinator } from '../core/event-coordinator';
+import { GameEventType, EventPayloadFactory } from '../utils/game-events';
+
+/**
+ * Regras de variação do vento
+ */
+export enum WindMode {
+  FIXED = 'fixed',             // O vento não muda durante a partida
+  RANDOM_WALK = 'random_walk', // A cada turno o vento varia um pouco em relação ao anterior
+  GUSTY = 'gusty'              // Como o passeio aleatório, com rajadas durante o voo dos projéteis
+}
+
+/**
+ * Tipos de eventos emitidos pelo sistema de vento
+ */
+export enum WindEventType {
+  WIND_CHANGED = 'windChanged'
+}
+
+/**
+ * Estado atual do vento
+ */
+export interface IWindState {
+  direction: number; // Ângulo em graus (0 = direita, 90 = para cima)
+  force: number;     // 0 até a força máxima, já com o multiplicador e a rajada
+  x: number;         // Componente horizontal (positivo: direita)
+  y: number;         // Componente vertical (positivo: para baixo, como o eixo Y da tela)
+  isGust: boolean;   // Se uma rajada está ativa
+}
+
+/**
+ * Regras do sistema de vento
+ */
+export interface IWindRules {
+  mode: WindMode;
+  maxForce: number;           // Força máxima do vento
+  multiplier: number;         // Modificador da força (ex: tema do mapa)
+  maxForceChange: number;     // Variação máxima da força por turno no passeio aleatório
+  maxDirectionChange: number; // Variação máxima da direção por turno no passeio aleatório, em graus
+  gustChance: number;         // Chance de uma rajada começar a cada passo (modo GUSTY)
+  gustForce: number;          // Força máxima somada pela rajada
+  gustDuration: number;       // Duração da rajada, em passos da simulação
+}
+
+/**
+ * Regras padrão: passeio aleatório com a força máxima da configuração
+ */
+export const DEFAULT_WIND_RULES: IWindRules = {
+  mode: WindMode.RANDOM_WALK,
+  maxForce: CONFIG.PHYSICS.WIND_MAX,
+  multiplier: 1,
+  maxForceChange: 3,
+  maxDirectionChange: 60,
+  gustChance: 0.02,
+  gustForce: 3,
+  gustDuration: 20
+};
+
+/**
+ * Sistema de vento da partida
+ * Mantém um vetor de vento 2D, o altera a cada turno segundo as regras
+ * e gera rajadas passageiras durante o voo no modo GUSTY
+ */
+export class WindSystem extends EventEmitter {
+  private rules: IWindRules;
+  private random: () => number;
+  private direction: number = 0;
+  private baseForce: number = 0;  // Força sorteada, antes do multiplicador
+  private gustForce: number = 0;  // Força somada pela rajada atual
+  private gustTimer: number = 0;  // Passos restantes da rajada atual
+
+  /**
+   * Cria um novo sistema de vento
+   * @param rules Regras do vento (campos omitidos usam o padrão)
+   * @param random Gerador de números aleatórios entre 0 e 1 (padrão: Math.random)
+   */
+  constructor(rules: Partial<IWindRules> = {}, random: () => number = Math.random) {
+    super();
+    this.rules = { ...DEFAULT_WIND_RULES, ...rules };
+    this.random = random;
+  }
+
+  /**
+   * Define as regras do vento
+   * Alterar o multiplicador atualiza o vento atual imediatamente
+   * @param rules Regras a alterar
+   */
+  setRules(rules: Partial<IWindRules>): void {
+    this.rules = { ...this.rules, ...rules };
+    this.notifyChange();
+  }
+
+  /**
+   * Obtém as regras atuais do vento
+   */
+  getRules(): IWindRules {
+    return { ...this.rules };
+  }
+
+  /**
+   * Define o vento diretamente (ex: vento pré-definido do mapa)
+   * @param direction Ângulo em graus
+   * @param force Força, antes do multiplicador
+   */
+  setWind(direction: number, force: number): void {
+    this.direction = this.normalizeDirection(direction);
+    this.baseForce = this.clampForce(force);
+    this.endGust();
+    this.notifyChange();
+  }
+
+  /**
+   * Sorteia um vento totalmente novo, sem relação com o anterior (ex: início da partida)
+   */
+  randomize(): void {
+    this.setWind(this.random() * 360, this.random() * this.rules.maxForce);
+  }
+
+  /**
+   * Altera o vento para um novo turno, de acordo com o modo das regras
+   */
+  nextTurn(): void {
+    if (this.rules.mode === WindMode.FIXED) {
+      return;
+    }
+
+    // Passeio aleatório: pequenas variações em relação ao vento anterior
+    const directionChange = (this.random() * 2 - 1) * this.rules.maxDirectionChange;
+    const forceChange = (this.random() * 2 - 1) * this.rules.maxForceChange;
+
+    this.setWind(this.direction + directionChange, this.baseForce + forceChange);
+  }
+
+  /**
+   * Avança o sistema de vento em um passo fixo da simulação
+   * No modo GUSTY, rajadas começam e terminam durante o voo dos projéteis
+   * @param deltaTime Duração do passo fixo
+   */
+  update(deltaTime: number): void {
+    if (this.rules.mode !== WindMode.GUSTY) {
+      return;
+    }
+
+    if (this.gustTimer > 0) {
+      this.gustTimer -= deltaTime;
+
+      if (this.gustTimer <= 0) {
+        this.endGust();
+        this.notifyChange();
+      }
+      return;
+    }
+
+    if (this.random() < this.rules.gustChance * deltaTime) {
+      this.gustForce = (0.5 + this.random() * 0.5) * this.rules.gustForce;
+      this.gustTimer = this.rules.gustDuration;
+      this.notifyChange();
+    }
+  }
+
+  /**
+   * Obtém o estado atual do vento
+   * @returns Direção, força e componentes do vento
+   */
+  getWind(): IWindState {
+    const force = Math.min(this.rules.maxForce, (this.baseForce + this.gustForce) * this.rules.multiplier);
+    const angleRad = this.direction * (Math.PI / 180);
+
+    return {
+      direction: this.direction,
+      force,
+      x: Math.cos(angleRad) * force,
+      y: -Math.sin(angleRad) * force,
+      isGust: this.gustTimer > 0
+    };
+  }
+
+  /**
+   * Encerra a rajada atual
+   * @private
+   */
+  private endGust(): void {
+    this.gustForce = 0;
+    this.gustTimer = 0;
+  }
+
+  /**
+   * Notifica a mudança do vento localmente e no barramento global de eventos
+   * @private
+   */
+  private notifyChange(): void {
+    const wind = this.getWind();
+
+    this.emit(WindEventType.WIND_CHANGED, wind);
+
+    EventCoordinator.getInstance().emit(
+      GameEventType.WIND_CHANGED,
+      EventPayloadFactory.createWindPayload(wind.direction, wind.force, { x: wind.x, y: wind.y }, wind.isGust)
+    );
+  }
+
+  /**
+   * Limita a força entre zero e a força máxima
+   * @private
+   */
+  private clampForce(force: number): number {
+    return Math.max(0, Math.min(this.rules.maxForce, force));
+  }
+
+  /**
+   * Mantém a direção entre 0 e 360 graus
+   * @private
+   */
+  private normalizeDirection(direction: number): number {
+    return ((direction % 360) + 360) % 360;
+  }
+}
@@ -1,6 +1,24 @@
 import * as PIXI from 'pixi.js';
 import { UISystem, TextElement, ButtonElement, ProgressBarElement } from '../core/ui';
 import { CONFIG } from '../core/config';
+import { WeaponRegistry } from '../entities/weapon-registry';
+import { WeaponSlot, IWeaponSlotState, WEAPON_SLOTS } from '../systems/weapon-slot-system';
+
+/**
+ * Rótulos dos espaços de arma
+ */
+const WEAPON_SLOT_LABELS: Record<WeaponSlot, string> = {
+  [WeaponSlot.PRIMARY]: '1. Tiro 1',
+  [WeaponSlot.SECONDARY]: '2. Tiro 2',
+  [WeaponSlot.SPECIAL]: '3. Especial'
+};
+
+/**
+ * Cores dos espaços de arma: escolhido, disponível e indisponível
+ */
+const WEAPON_SLOT_SELECTED_COLOR = 0xFFD700;
+const WEAPON_SLOT_AVAILABLE_COLOR = 0xFFFFFF;
+const WEAPON_SLOT_UNAVAILABLE_COLOR = 0x777777;
 
 /**
  * Classe responsável por gerenciar a UI específica do jogo
@@ -69,6 +87,21 @@ export class GameUI {
     endTurnButton.setVisible(false);
     this.uiSystem.addElement(endTurnButton);
     
+    // Cria os espaços de arma, um por linha no canto inferior esquerdo
+    WEAPON_SLOTS.forEach((slot, index) => {
+      this.uiSystem.addElement(new TextElement(
+        this.getWeaponSlotId(slot),
+        WEAPON_SLOT_LABELS[slot],
+        {
+          fontFamily: 'Arial',
+          fontSize: 14,
+          fill: WEAPON_SLOT_AVAILABLE_COLOR
+        },
+        10,
+        this.screenHeight - 30 - (WEAPON_SLOTS.length - 1 - index) * 20
+      ));
+    });
+    
     // Cria o botão de benchmark
     const benchmarkButton = new ButtonElement(
       'benchmarkButton',
@@ -119,6 +152,43 @@ export class GameUI {
     }
   }
 
+  /**
+   * Atualiza os espaços de arma, destacando o escolhido e apagando os indisponíveis
+   * @param states Situação de cada espaço para o veículo do turno
+   * @param selected Espaço escolhido
+   */
+  updateWeaponSlots(states: IWeaponSlotState[], selected: WeaponSlot): void {
+    const registry = WeaponRegistry.getInstance();
+    
+    for (const state of states) {
+      const slotText = this.uiSystem.getElement<TextElement>(this.getWeaponSlotId(state.slot));
+      if (!slotText) continue;
+      
+      // Mostra a espera restante ou, no especial, a carga acumulada
+      let text = `${WEAPON_SLOT_LABELS[state.slot]}: ${registry.get(state.weapon).name}`;
+      if (state.cooldown > 0) {
+        text += ` (${state.cooldown})`;
+      } else if (state.charge < 1) {
+        text += ` ${Math.floor(state.charge * 100)}%`;
+      }
+      slotText.setText(state.slot === selected ? `> ${text}` : text);
+      
+      if (state.slot === selected) {
+        slotText.setColor(WEAPON_SLOT_SELECTED_COLOR);
+      } else {
+        slotText.setColor(state.available ? WEAPON_SLOT_AVAILABLE_COLOR : WEAPON_SLOT_UNAVAILABLE_COLOR);
+      }
+    }
+  }
+
+  /**
+   * Obtém o ID do elemento de um espaço de arma
+   * @param slot Espaço de arma
+   */
+  private getWeaponSlotId(slot: WeaponSlot): string {
+    return `weaponSlot_${slot}`;
+  }
+
   /**
    * Define o callback do botão de finalizar turno
    * @param callback Função a ser chamada quando o botão for clicado
@@ -159,7 +229,7 @@ export class GameUI {
 
   /**
    * Exibe a tela de fim de jogo
-   * @param winnerIndex Índice do jogador vencedor
+   * @param winnerIndex Índice do jogador vencedor (-1 = empate)
    * @param onRestart Callback para reiniciar o jogo
    */
   showGameOver(winnerIndex: number, onRestart: () => void): void {
@@ -175,7 +245,7 @@ export class GameUI {
     // Cria texto de Game Over
     const gameOverText = new TextElement(
       'gameOverText',
-      `GAME OVER\nJogador ${winnerIndex + 1} VENCEU!`,
+      winnerIndex < 0 ? 'GAME OVER\nEMPATE!' : `GAME OVER\nJogador ${winnerIndex + 1} VENCEU!`,
       {
         fontFamily: 'Arial',
         fontSize: 36,
@@ -290,7 +360,7 @@ export class GameUI {
     }
     
     // Lista de IDs de elementos básicos para manter
-    const baseElementIds = ['windIndicator', 'playerTurn', 'endTurnButton'];
+    const baseElementIds = ['windIndicator', 'playerTurn', 'endTurnButton', ...WEAPON_SLOTS.map(slot => this.getWeaponSlotId(slot))];
     
     // Obtém todos os IDs de elementos
     const allElements = this.uiSystem.getElementIds();
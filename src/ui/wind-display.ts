@@ -1,4 +1,5 @@
 import * as PIXI from 'pixi.js';
+import { IWindState } from '../systems/wind-system';
 
 /**
  * Componente visual que mostra informações sobre o vento
@@ -9,7 +10,7 @@ export class WindDisplay {
   private windArrow: PIXI.Graphics;
   private x: number = 10;
   private y: number = 10;
-  private wind: number = 0;
+  private wind: IWindState = { direction: 0, force: 0, x: 0, y: 0, isGust: false };
 
   /**
    * Inicializa o display de vento
@@ -48,12 +49,12 @@ export class WindDisplay {
   }
 
   /**
-   * Atualiza o valor do vento
-   * @param wind Velocidade do vento (positivo: direita, negativo: esquerda)
+   * Atualiza o vento exibido
+   * @param wind Estado atual do vento
    */
-  public update(wind: number): void {
+  public update(wind: IWindState): void {
     this.wind = wind;
-    this.text.text = `Vento: ${wind.toFixed(1)}`;
+    this.text.text = `Vento: ${wind.force.toFixed(1)}${wind.isGust ? ' (rajada)' : ''}`;
     this.drawWindArrow();
   }
 
@@ -68,23 +69,29 @@ export class WindDisplay {
     const arrowY = this.y + this.text.height / 2;
     
     // Define o comprimento da seta baseado na força do vento
-    const arrowLength = Math.min(Math.abs(this.wind) * 5, 40);
+    const arrowLength = Math.min(this.wind.force * 5, 40);
     
-    // Desenha a seta na direção apropriada
-    this.windArrow.lineStyle(2, 0xFFFFFF);
+    // Desenha a seta na direção do vento (rajadas em amarelo)
+    this.windArrow.lineStyle(2, this.wind.isGust ? 0xFFFF00 : 0xFFFFFF);
     
-    if (this.wind !== 0) {
-      const direction = Math.sign(this.wind);
+    if (this.wind.force > 0) {
+      // A seta parte do centro e aponta na direção do vento
+      const dirX = this.wind.x / this.wind.force;
+      const dirY = this.wind.y / this.wind.force;
+      const startX = arrowX + 20 - dirX * arrowLength / 2;
+      const startY = arrowY - dirY * arrowLength / 2;
+      const tipX = startX + dirX * arrowLength;
+      const tipY = startY + dirY * arrowLength;
       
       // Linha principal
-      this.windArrow.moveTo(arrowX, arrowY);
-      this.windArrow.lineTo(arrowX + arrowLength * direction, arrowY);
+      this.windArrow.moveTo(startX, startY);
+      this.windArrow.lineTo(tipX, tipY);
       
-      // Ponta da seta
-      this.windArrow.moveTo(arrowX + arrowLength * direction, arrowY);
-      this.windArrow.lineTo(arrowX + (arrowLength - 5) * direction, arrowY - 5);
-      this.windArrow.moveTo(arrowX + arrowLength * direction, arrowY);
-      this.windArrow.lineTo(arrowX + (arrowLength - 5) * direction, arrowY + 5);
+      // Ponta da seta, perpendicular à linha
+      this.windArrow.moveTo(tipX, tipY);
+      this.windArrow.lineTo(tipX - dirX * 5 - dirY * 5, tipY - dirY * 5 + dirX * 5);
+      this.windArrow.moveTo(tipX, tipY);
+      this.windArrow.lineTo(tipX - dirX * 5 + dirY * 5, tipY - dirY * 5 - dirX * 5);
     }
   }
 
@@ -33,6 +33,7 @@ export enum GameEventType {
   // Eventos relacionados aos itens
   ITEM_SPAWNED = 'itemSpawned',
   ITEM_COLLECTED = 'itemCollected',
+  ITEM_USED = 'itemUsed',
   
   // Eventos relacionados ao clima
   WEATHER_CHANGED = 'weatherChanged',
@@ -87,6 +88,7 @@ export interface VehiclePayload extends GameEventPayload {
   position: { x: number, y: number };
   health?: number;
   maxHealth?: number;
+  cause?: string; // Causa da destruição (ex: 'fall', 'out_of_bounds')
 }
 
 /**
@@ -137,6 +139,18 @@ export interface TerrainDeformationPayload extends GameEventPayload {
   radius: number;
   depth: number;
   isFill: boolean;
+  affectedArea?: { x: number, y: number, width: number, height: number }; // Região alterada, incluindo desmoronamentos
+}
+
+/**
+ * Payload para eventos relacionados aos itens
+ */
+export interface ItemPayload extends GameEventPayload {
+  itemType: string;
+  playerId: number; // Dono do item (-1 para itens do mapa ainda não coletados)
+  vehicleId?: number;
+  position?: { x: number, y: number }; // Posição do item no mapa ou destino do efeito (ex: teletransporte)
+  itemId?: string;
 }
 
 /**
@@ -154,6 +168,8 @@ export interface WeatherPayload extends GameEventPayload {
 export interface WindPayload extends GameEventPayload {
   direction: number; // ângulo em graus
   force: number; // 0-10
+  vector: { x: number, y: number }; // componentes do vento (y positivo: para baixo)
+  isGust: boolean; // se uma rajada está ativa
 }
 
 /**
@@ -269,4 +285,62 @@ export class EventPayloadFactory {
       newHealth
     };
   }
+  
+  /**
+   * Cria um payload para evento de deformação do terreno
+   */
+  static createTerrainDeformationPayload(
+    position: { x: number, y: number },
+    radius: number,
+    depth: number,
+    isFill: boolean,
+    affectedArea?: { x: number, y: number, width: number, height: number }
+  ): TerrainDeformationPayload {
+    return {
+      ...this.createBasePayload(),
+      position,
+      radius,
+      depth,
+      isFill,
+      affectedArea
+    };
+  }
+  
+  /**
+   * Cria um payload para evento de item
+   */
+  static createItemPayload(
+    itemType: string,
+    playerId: number,
+    vehicleId?: number,
+    position?: { x: number, y: number },
+    itemId?: string
+  ): ItemPayload {
+    return {
+      ...this.createBasePayload(),
+      itemType,
+      playerId,
+      vehicleId,
+      position,
+      itemId
+    };
+  }
+  
+  /**
+   * Cria um payload para evento de vento
+   */
+  static createWindPayload(
+    direction: number,
+    force: number,
+    vector: { x: number, y: number },
+    isGust: boolean = false
+  ): WindPayload {
+    return {
+      ...this.createBasePayload(),
+      direction,
+      force,
+      vector,
+      isGust
+    };
+  }
 } 
\ No newline at end of file
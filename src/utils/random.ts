@@ -0,0 +1,69 @@
+/**
+ * Geração de números pseudoaleatórios com semente
+ * Permite reproduzir exatamente o mesmo resultado a partir da mesma semente
+ */
+
+/**
+ * Semente aceita pelos geradores: número ou texto
+ */
+export type Seed = number | string;
+
+/**
+ * Função que retorna um número pseudoaleatório entre 0 (inclusive) e 1 (exclusive)
+ */
+export type RandomFunction = () => number;
+
+/**
+ * Converte um texto em um inteiro de 32 bits sem sinal (hash FNV-1a)
+ * @param text Texto a ser convertido
+ * @returns Hash do texto
+ */
+export const hashString = (text: string): number => {
+  let hash = 0x811C9DC5;
+
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return hash >>> 0;
+};
+
+/**
+ * Normaliza uma semente para um inteiro de 32 bits sem sinal
+ * Sementes inteiras são mantidas; textos e números fracionários passam por hash
+ * @param seed Semente original
+ * @returns Semente normalizada
+ */
+export const normalizeSeed = (seed: Seed): number => {
+  if (typeof seed === 'number' && Number.isInteger(seed)) {
+    return seed >>> 0;
+  }
+
+  return hashString(String(seed));
+};
+
+/**
+ * Gera uma nova semente aleatória
+ * @returns Semente inteira de 32 bits sem sinal
+ */
+export const generateSeed = (): number => {
+  return Math.floor(Math.random() * 0x100000000) >>> 0;
+};
+
+/**
+ * Cria um gerador pseudoaleatório determinístico (algoritmo Mulberry32)
+ * @param seed Semente do gerador
+ * @returns Função que retorna números entre 0 e 1
+ */
+export const createSeededRandom = (seed: Seed): RandomFunction => {
+  let state = normalizeSeed(seed);
+
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+  };
+};